@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { CheckableRule, CountableItem } from '../types';
+import { describeRule } from '../services/ruleEngine';
+import { PlusCircleIcon, XIcon } from './icons/Icons';
+
+interface CheckableRulesEditorProps {
+    rules: CheckableRule[];
+    onAdd: (rule: CheckableRule) => void;
+    onDelete: (ruleId: string) => void;
+}
+
+type RuleKind = CheckableRule['kind'];
+
+const KIND_LABELS: Record<RuleKind, string> = {
+    wordLimit: 'Word limit',
+    characterLimit: 'Character limit',
+    requiredSection: 'Required section',
+    count: 'Count limit',
+    pattern: 'Text pattern',
+};
+const ITEMS: CountableItem[] = ['keywords', 'references', 'figures', 'tables', 'authors', 'footnotes', 'pages'];
+
+const inputClass = 'p-1.5 text-sm border rounded dark:bg-slate-700 dark:border-slate-600';
+const parseLimit = (value: string) => value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Math.max(0, Math.floor(Number(value)));
+
+// Lists a profile's checkable rules and builds new ones. Rules are checked locally on every run, next to the
+// model's reading of the uploaded rule documents.
+export default function CheckableRulesEditor({ rules, onAdd, onDelete }: CheckableRulesEditorProps) {
+    const [kind, setKind] = useState<RuleKind>('wordLimit');
+    const [label, setLabel] = useState('');
+    const [section, setSection] = useState('abstract');
+    const [item, setItem] = useState<CountableItem>('keywords');
+    const [min, setMin] = useState('');
+    const [max, setMax] = useState('');
+    const [pattern, setPattern] = useState('');
+    const [mode, setMode] = useState<'required' | 'forbidden'>('required');
+    const [error, setError] = useState('');
+
+    const buildRule = (): CheckableRule | string => {
+        const id = `rule-${Date.now().toString(36)}`;
+        const limits = { min: parseLimit(min), max: parseLimit(max) };
+        switch (kind) {
+            case 'wordLimit': case 'characterLimit':
+                if (limits.min === undefined && limits.max === undefined) return 'Enter a minimum, a maximum or both.';
+                return { id, label: label.trim() || `${section.trim() ? section.split('|')[0].trim() : 'Manuscript'} length`, kind, section: section.trim(), ...limits };
+            case 'requiredSection':
+                if (!section.trim()) return 'Enter the section heading.';
+                return { id, label: label.trim() || `${section.split('|')[0].trim()} section`, kind, section: section.trim() };
+            case 'count':
+                if (limits.min === undefined && limits.max === undefined) return 'Enter a minimum, a maximum or both.';
+                return { id, label: label.trim() || `Number of ${item}`, kind, item, ...limits };
+            case 'pattern':
+                try {
+                    new RegExp(pattern);
+                } catch (e) {
+                    return `Invalid pattern: ${e instanceof Error ? e.message : 'Unknown'}`;
+                }
+                if (!pattern) return 'Enter a pattern.';
+                return { id, label: label.trim() || `Pattern ${mode === 'required' ? 'required' : 'not allowed'}`, kind, pattern, flags: 'i', mode, ...(section.trim() ? { section: section.trim() } : {}) };
+        }
+    };
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const rule = buildRule();
+        if (typeof rule === 'string') {
+            setError(rule);
+            return;
+        }
+        onAdd(rule);
+        setLabel('');
+        setMin('');
+        setMax('');
+        setPattern('');
+        setError('');
+    };
+
+    const usesSection = kind !== 'count';
+    const usesLimits = kind === 'wordLimit' || kind === 'characterLimit' || kind === 'count';
+
+    return (
+        <div className="space-y-2">
+            <p className="text-sm font-semibold text-slate-700 dark:text-slate-300">Checkable Rules</p>
+            {rules.length === 0 && <p className="text-xs text-slate-500">No checkable rules. Limits, required sections and patterns added here are measured exactly instead of being judged by the model.</p>}
+            {rules.map(rule => (
+                <div key={rule.id} className="flex justify-between items-center bg-slate-100 dark:bg-slate-700/50 p-2 rounded-md">
+                    <p className="text-sm truncate"><span className="font-medium">{rule.label}</span> <span className="text-slate-500">— {describeRule(rule)}</span></p>
+                    <button onClick={() => onDelete(rule.id)} className="text-slate-400 hover:text-red-500 ml-2"><XIcon className="h-4 w-4"/></button>
+                </div>
+            ))}
+            <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2 pt-1">
+                <select value={kind} onChange={e => setKind(e.target.value as RuleKind)} className={inputClass}>
+                    {(Object.keys(KIND_LABELS) as RuleKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+                </select>
+                {usesSection && <input value={section} onChange={e => setSection(e.target.value)} placeholder={kind === 'pattern' ? 'Section (blank = whole text)' : 'Section, e.g. abstract or Data Availability'} title='Heading text; separate alternatives with "|". "title" and "abstract" are recognized without a heading.' className={`${inputClass} w-56`} />}
+                {kind === 'count' && (
+                    <select value={item} onChange={e => setItem(e.target.value as CountableItem)} className={inputClass}>
+                        {ITEMS.map(i => <option key={i} value={i}>{i}</option>)}
+                    </select>
+                )}
+                {usesLimits && <>
+                    <input value={min} onChange={e => setMin(e.target.value)} placeholder="Min" inputMode="numeric" className={`${inputClass} w-16`} />
+                    <input value={max} onChange={e => setMax(e.target.value)} placeholder="Max" inputMode="numeric" className={`${inputClass} w-16`} />
+                </>}
+                {kind === 'pattern' && <>
+                    <input value={pattern} onChange={e => setPattern(e.target.value)} placeholder="Regular expression" className={`${inputClass} w-48 font-mono`} />
+                    <select value={mode} onChange={e => setMode(e.target.value as 'required' | 'forbidden')} className={inputClass}>
+                        <option value="required">must appear</option>
+                        <option value="forbidden">must not appear</option>
+                    </select>
+                </>}
+                <input value={label} onChange={e => setLabel(e.target.value)} placeholder="Label (optional)" className={`${inputClass} w-40`} />
+                <button type="submit" className="flex items-center px-2 py-1.5 text-sm bg-sky-500 text-white rounded-md hover:bg-sky-600"><PlusCircleIcon className="h-4 w-4 mr-1"/>Add</button>
+            </form>
+            {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+    );
+}
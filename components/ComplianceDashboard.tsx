@@ -1,13 +1,26 @@
 
 import React from 'react';
-import { ComplianceReport, ComplianceStatus, ComplianceItem } from '../types';
+import { ComplianceReport, ComplianceStatus, ComplianceItem, FindingTriage } from '../types';
 import CheckCircleIcon from './icons/CheckCircleIcon';
 import XCircleIcon from './icons/XCircleIcon';
 import ExclamationCircleIcon from './icons/ExclamationCircleIcon';
 import MinusCircleIcon from './icons/MinusCircleIcon';
+import QuoteVerificationBadge from './QuoteVerificationBadge';
+import { describeFindingLocation } from '../services/quoteVerifier';
+import { TriageFilter, countTriage, matchesTriageFilter, triageStatusOf } from '../services/findingTriage';
+import FindingTriageControl, { TriageChange } from './FindingTriageControl';
+import TriageFilterBar from './TriageFilterBar';
 
 interface ComplianceDashboardProps {
   report: ComplianceReport;
+  title?: string;
+  estimatedPages?: boolean; // Show section locations instead of page numbers for evidence
+  // Triage is shown when the items can be keyed; the filter and changes are owned by the caller
+  triage?: Record<string, FindingTriage>;
+  triageKeyOf?: (item: ComplianceItem) => string;
+  triageFilter?: TriageFilter;
+  onTriageFilterChange?: (filter: TriageFilter) => void;
+  onTriageChange?: (key: string, change: TriageChange) => void;
 }
 
 const getStatusVisuals = (status: ComplianceStatus) => {
@@ -46,7 +59,7 @@ const getStatusVisuals = (status: ComplianceStatus) => {
 };
 
 
-const ComplianceItemCard: React.FC<{ item: ComplianceItem, index: number }> = ({ item, index }) => {
+const ComplianceItemCard: React.FC<{ item: ComplianceItem, index: number, estimatedPages?: boolean, triage?: FindingTriage, onTriageChange?: (change: TriageChange) => void }> = ({ item, index, estimatedPages, triage, onTriageChange }) => {
     const { icon, textColor, bgColor } = getStatusVisuals(item.status);
     const formattedStatus = item.status.replace(/_/g, ' ').toLowerCase();
 
@@ -54,7 +67,7 @@ const ComplianceItemCard: React.FC<{ item: ComplianceItem, index: number }> = ({
         <div className={`border border-gray-700 rounded-lg p-4 sm:p-6 ${bgColor}`}>
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
                  <h3 className="text-lg font-semibold text-gray-100 flex-1 break-words">
-                    {index + 1}. {item.checklistItem}
+                    {item.itemId ?? index + 1}. {item.checklistItem}
                 </h3>
                 <div className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium ${textColor} ${bgColor.replace('/50', '/90')} border ${textColor.replace('text-', 'border-')}`}>
                     {icon}
@@ -64,28 +77,40 @@ const ComplianceItemCard: React.FC<{ item: ComplianceItem, index: number }> = ({
             
             <div className="space-y-4">
                 <div>
-                    <h4 className="font-semibold text-cyan-400 mb-1">Evidence</h4>
-                    <p className="text-gray-300 bg-gray-900/50 p-3 rounded-md border border-gray-700 italic">"{item.evidence}"</p>
+                    <h4 className="font-semibold text-cyan-400 mb-1">Evidence{item.evidence && (item.page !== undefined || item.quoteVerification) ? ` (${describeFindingLocation(item.page, item.quoteVerification, estimatedPages)})` : ''}</h4>
+                    {item.evidence
+                        ? <p className="text-gray-300 bg-gray-900/50 p-3 rounded-md border border-gray-700 italic">"{item.evidence}"<QuoteVerificationBadge verification={item.quoteVerification} /></p>
+                        : <p className="text-gray-500 italic">No supporting text was quoted.</p>}
                 </div>
                 <div>
                     <h4 className="font-semibold text-cyan-400 mb-1">Reasoning</h4>
                     <p className="text-gray-300">{item.reasoning}</p>
                 </div>
             </div>
+            {onTriageChange && <FindingTriageControl triage={triage} onChange={onTriageChange} />}
         </div>
     );
 };
 
 
-const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({ report }) => {
+const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({ report, title = 'Compliance Report', estimatedPages, triage, triageKeyOf, triageFilter, onTriageFilterChange, onTriageChange }) => {
+  const filter: TriageFilter = triageFilter ?? 'all';
+  const items = report.map((item, index) => ({ item, index, key: triageKeyOf?.(item) }));
+  const shown = items.filter(({ key }) => key === undefined || matchesTriageFilter(filter, triageStatusOf(triage, key)));
   return (
     <div className="bg-gray-800/50 p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-700">
       <h2 className="text-3xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-cyan-500">
-        Compliance Report
+        {title}
       </h2>
+      {triageKeyOf && onTriageFilterChange && (
+        <div className="mb-4">
+          <TriageFilterBar value={filter} counts={countTriage(triage, items.map(({ key }) => key!))} onChange={onTriageFilterChange} />
+        </div>
+      )}
        <div className="space-y-4">
-        {report.map((item, index) => (
-          <ComplianceItemCard key={index} item={item} index={index} />
+        {items.length > 0 && shown.length === 0 && <p className="text-center text-gray-500 py-4">No items match the triage filter.</p>}
+        {shown.map(({ item, index, key }) => (
+          <ComplianceItemCard key={index} item={item} index={index} estimatedPages={estimatedPages} triage={key !== undefined ? triage?.[key] : undefined} onTriageChange={key !== undefined && onTriageChange ? change => onTriageChange(key, change) : undefined} />
         ))}
       </div>
     </div>
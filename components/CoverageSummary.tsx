@@ -0,0 +1,37 @@
+import React from 'react';
+import { AnalysisCoverage } from '../types';
+import { coveragePercent, describeCoverage } from '../services/aiService';
+
+interface CoverageSummaryProps {
+    coverage?: Record<string, AnalysisCoverage>;
+}
+
+export default function CoverageSummary({ coverage }: CoverageSummaryProps) {
+    const entries = Object.entries(coverage || {});
+    if (entries.length === 0) return null;
+    const isComplete = entries.every(([, c]) => coveragePercent(c) >= 100);
+
+    return (
+        <details className={`mb-4 rounded-lg border text-sm ${isComplete ? 'border-slate-700 bg-slate-900/50' : 'border-yellow-600/50 bg-yellow-900/10'}`}>
+            <summary className={`cursor-pointer px-4 py-2 font-semibold ${isComplete ? 'text-slate-300' : 'text-yellow-400'}`}>
+                Document coverage: {isComplete ? 'full document analyzed by every stage' : 'some stages analyzed only part of the document'}
+            </summary>
+            <div className="px-4 pb-3 space-y-2">
+                {entries.map(([stage, c]) => {
+                    const percent = coveragePercent(c);
+                    return (
+                        <div key={stage}>
+                            <div className="flex justify-between text-xs text-slate-400">
+                                <span className="font-medium text-slate-300">{stage}</span>
+                                <span>{describeCoverage(c)}</span>
+                            </div>
+                            <div className="w-full bg-slate-700 rounded-full h-1.5 mt-1">
+                                <div className={`h-1.5 rounded-full ${percent >= 100 ? 'bg-green-500' : 'bg-yellow-500'}`} style={{ width: `${percent}%` }}></div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </details>
+    );
+}
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { FindingTriage, TriageStatus } from '../types';
+import { TRIAGE_LABELS } from '../services/findingTriage';
+
+export type TriageChange = Pick<FindingTriage, 'status' | 'assignee' | 'note'>;
+
+interface FindingTriageControlProps {
+    triage?: FindingTriage;
+    onChange: (change: TriageChange) => void;
+}
+
+const STATUS_STYLES: Record<TriageStatus, string> = {
+    open: 'text-slate-300',
+    accepted: 'text-sky-400',
+    dismissed: 'text-slate-500',
+    resolved: 'text-green-400',
+};
+
+const inputClass = 'p-1 text-xs border rounded bg-slate-800 border-slate-600 text-slate-300';
+
+// Status, assignee and note of one finding. Text fields are saved when they lose focus, not on every keystroke.
+export default function FindingTriageControl({ triage, onChange }: FindingTriageControlProps) {
+    const status = triage?.status ?? 'open';
+    const [assignee, setAssignee] = useState(triage?.assignee || '');
+    const [note, setNote] = useState(triage?.note || '');
+
+    useEffect(() => {
+        setAssignee(triage?.assignee || '');
+        setNote(triage?.note || '');
+    }, [triage?.assignee, triage?.note]);
+
+    const save = (change: Partial<TriageChange>) => onChange({ status, assignee: assignee.trim() || undefined, note: note.trim() || undefined, ...change });
+    const saveText = () => {
+        if ((assignee.trim() || undefined) !== triage?.assignee || (note.trim() || undefined) !== triage?.note) save({});
+    };
+
+    return (
+        <div className="mt-3 pt-3 border-t border-slate-700 flex flex-wrap items-center gap-2 text-xs">
+            <select value={status} onChange={e => save({ status: e.target.value as TriageStatus })} className={`${inputClass} font-medium ${STATUS_STYLES[status]}`}>
+                {(Object.keys(TRIAGE_LABELS) as TriageStatus[]).map(id => <option key={id} value={id}>{TRIAGE_LABELS[id]}</option>)}
+            </select>
+            <input type="text" value={assignee} onChange={e => setAssignee(e.target.value)} onBlur={saveText} placeholder="Assignee" className={`${inputClass} w-32`} />
+            <input type="text" value={note} onChange={e => setNote(e.target.value)} onBlur={saveText} placeholder="Note" className={`${inputClass} flex-1 min-w-[10rem]`} />
+            {triage && <span className="text-slate-500">{[triage.updatedBy, new Date(triage.updatedAt).toLocaleString()].filter(Boolean).join(', ')}</span>}
+        </div>
+    );
+}
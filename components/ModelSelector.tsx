@@ -0,0 +1,28 @@
+import React, { useMemo } from 'react';
+import { listAvailableModels } from '../services/llmProvider';
+
+interface ModelSelectorProps {
+    value: string;
+    onChange: (modelId: string) => void;
+    canUseProModel?: boolean;
+    disabled?: boolean;
+}
+
+export default function ModelSelector({ value, onChange, canUseProModel = false, disabled = false }: ModelSelectorProps) {
+    const models = useMemo(() => listAvailableModels(canUseProModel), [canUseProModel]);
+
+    return (
+        <div className="flex items-center gap-2">
+            <label htmlFor="model-selector" className="text-xs font-medium text-slate-500 dark:text-slate-400 whitespace-nowrap">AI Model</label>
+            <select
+                id="model-selector"
+                value={value}
+                onChange={e => onChange(e.target.value)}
+                disabled={disabled}
+                className="p-1.5 text-sm border rounded-md bg-white dark:bg-slate-700 dark:border-slate-600 text-slate-700 dark:text-slate-200 disabled:opacity-50"
+            >
+                {models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            </select>
+        </div>
+    );
+}
@@ -0,0 +1,62 @@
+import React, { useMemo } from 'react';
+import { ProfileStageConfig } from '../types';
+import { PipelineStage } from '../services/pipelineStages';
+import { listAvailableModels } from '../services/llmProvider';
+
+interface PipelineStagesEditorProps {
+    stages: PipelineStage[];
+    config: Record<string, ProfileStageConfig>;
+    canUseProModel?: boolean;
+    onChange: (stageId: string, config: ProfileStageConfig) => void;
+}
+
+const inputClass = 'p-1 text-xs border rounded dark:bg-slate-700 dark:border-slate-600';
+const parseLimit = (value: string) => value.trim() === '' || Number.isNaN(Number(value)) || Number(value) <= 0 ? undefined : Math.floor(Number(value));
+
+// Which stages a profile runs, with which model and limits. Empty fields use the model chosen in the checker and
+// each stage's default limits.
+export default function PipelineStagesEditor({ stages, config, canUseProModel = false, onChange }: PipelineStagesEditorProps) {
+    const models = useMemo(() => listAvailableModels(canUseProModel), [canUseProModel]);
+    const update = (stageId: string, change: Partial<ProfileStageConfig>) => onChange(stageId, { ...config[stageId], ...change });
+
+    return (
+        <div className="space-y-1">
+            <p className="text-sm font-semibold text-slate-700 dark:text-slate-300">Pipeline Stages</p>
+            <p className="text-xs text-slate-500">Unchecked stages do not run for manuscripts checked against this profile. Limits cap the characters per model call and the number of calls; text beyond them is reported as not covered.</p>
+            <table className="w-full text-xs">
+                <thead>
+                    <tr className="text-left text-slate-500">
+                        <th className="py-1 font-medium">Stage</th>
+                        <th className="py-1 font-medium">Model</th>
+                        <th className="py-1 font-medium">Chars per call</th>
+                        <th className="py-1 font-medium">Max calls</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {stages.map(stage => {
+                        const stageConfig = config[stage.id] || {};
+                        const enabled = stageConfig.enabled !== false;
+                        return (
+                            <tr key={stage.id} className="border-t border-slate-200 dark:border-slate-700">
+                                <td className="py-1 pr-2">
+                                    <label className="flex items-center text-slate-700 dark:text-slate-300 whitespace-nowrap">
+                                        <input type="checkbox" checked={enabled} onChange={e => update(stage.id, { enabled: e.target.checked })} className="mr-1.5 rounded" />
+                                        {stage.label}
+                                    </label>
+                                </td>
+                                <td className="py-1 pr-2">
+                                    <select value={stageConfig.model || ''} onChange={e => update(stage.id, { model: e.target.value || undefined })} disabled={!enabled} className={`${inputClass} disabled:opacity-50`}>
+                                        <option value="">Checker's model</option>
+                                        {models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                    </select>
+                                </td>
+                                <td className="py-1 pr-2"><input type="number" min={1} value={stageConfig.sectionChars ?? ''} onChange={e => update(stage.id, { sectionChars: parseLimit(e.target.value) })} disabled={!enabled} placeholder="default" className={`${inputClass} w-24 disabled:opacity-50`} /></td>
+                                <td className="py-1"><input type="number" min={1} value={stageConfig.maxSections ?? ''} onChange={e => update(stage.id, { maxSections: parseLimit(e.target.value) })} disabled={!enabled} placeholder="default" className={`${inputClass} w-20 disabled:opacity-50`} /></td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -0,0 +1,23 @@
+import React from 'react';
+import { QuoteVerification } from '../types';
+import { describeQuoteVerification } from '../services/quoteVerifier';
+
+interface QuoteVerificationBadgeProps {
+    verification?: QuoteVerification;
+}
+
+const STYLES: Record<QuoteVerification['status'], { className: string, title: string }> = {
+    verified: { className: 'bg-green-900/50 text-green-400 border-green-500/50', title: 'The quoted text was found in the manuscript.' },
+    approximate: { className: 'bg-yellow-900/50 text-yellow-400 border-yellow-500/50', title: 'Close wording was found in the manuscript; the quote is not verbatim.' },
+    not_found: { className: 'bg-red-900/50 text-red-400 border-red-500/50', title: 'The quoted text could not be located in the manuscript and may be hallucinated.' },
+};
+
+export default function QuoteVerificationBadge({ verification }: QuoteVerificationBadgeProps) {
+    if (!verification) return null;
+    const style = STYLES[verification.status];
+    return (
+        <span title={style.title} className={`ml-2 inline-block px-2 py-0.5 text-xs font-semibold rounded-full border not-italic ${style.className}`}>
+            {describeQuoteVerification(verification)}
+        </span>
+    );
+}
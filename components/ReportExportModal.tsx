@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Modal from './Modal';
+import { ManuscriptFile, ReportBranding } from '../types';
+import { availableReportSections, ReportFormat, ReportSectionId } from '../services/reportExport';
+import { TriageFilter, describeTriageFilter } from '../services/findingTriage';
+import { DownloadIcon, XIcon } from './icons/Icons';
+
+interface ReportExportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    manuscript: ManuscriptFile | null;
+    hideUnverified: boolean;
+    triageFilter: TriageFilter;
+    branding: ReportBranding;
+    onBrandingChange: (branding: ReportBranding) => void;
+    onExport: (manuscript: ManuscriptFile, format: ReportFormat, sectionIds: ReportSectionId[], branding: ReportBranding) => void;
+}
+
+const FORMATS: { id: ReportFormat, label: string, hint: string }[] = [
+    { id: 'docx', label: 'Word (DOCX)', hint: 'Editable document for Word, Google Docs or LibreOffice.' },
+    { id: 'pdf', label: 'PDF', hint: 'Opens the print dialog; choose "Save as PDF" as the destination.' },
+    { id: 'html', label: 'HTML', hint: 'A single self-contained file that opens in any browser.' },
+];
+
+const MAX_LOGO_BYTES = 300 * 1024; // The logo is stored with the user's data
+const inputClass = 'w-full p-1.5 text-sm border rounded dark:bg-slate-700 dark:border-slate-600';
+
+// Chooses the format, the sections and the publisher branding of an exported report. Branding is saved for the
+// next export when the report is exported.
+export default function ReportExportModal({ isOpen, onClose, manuscript, hideUnverified, triageFilter, branding, onBrandingChange, onExport }: ReportExportModalProps) {
+    const sections = useMemo(() => manuscript ? availableReportSections(manuscript, { hideUnverified, triageFilter }) : [], [manuscript, hideUnverified, triageFilter]);
+    const [selected, setSelected] = useState<ReportSectionId[]>([]);
+    const [format, setFormat] = useState<ReportFormat>('docx');
+    const [draft, setDraft] = useState<ReportBranding>(branding);
+    const [logoError, setLogoError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSelected(sections.map(section => section.id));
+        setDraft(branding);
+        setLogoError('');
+    }, [isOpen, manuscript?.id]);
+
+    const toggleSection = (id: ReportSectionId) => setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+    const handleLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (!/^image\/(png|jpeg)$/.test(file.type)) return setLogoError('The logo must be a PNG or JPEG image.');
+        if (file.size > MAX_LOGO_BYTES) return setLogoError(`The logo is ${Math.round(file.size / 1024)} KB; the limit is ${MAX_LOGO_BYTES / 1024} KB.`);
+        const reader = new FileReader();
+        reader.onload = () => {
+            setDraft(d => ({ ...d, logoDataUrl: reader.result as string }));
+            setLogoError('');
+        };
+        reader.onerror = () => setLogoError('The logo could not be read.');
+        reader.readAsDataURL(file);
+    };
+
+    const handleExport = () => {
+        if (!manuscript) return;
+        if (JSON.stringify(draft) !== JSON.stringify(branding)) onBrandingChange(draft);
+        onExport(manuscript, format, sections.map(s => s.id).filter(id => selected.includes(id)), draft);
+    };
+
+    const setText = (key: keyof ReportBranding) => (e: React.ChangeEvent<HTMLInputElement>) => setDraft(d => ({ ...d, [key]: e.target.value }));
+
+    return (
+        <Modal isOpen={isOpen && !!manuscript} onClose={onClose} title={`Export Report: ${manuscript?.name}`} size="lg">
+            <div className="space-y-5 text-sm">
+                <div>
+                    <h4 className="font-semibold mb-2">Format</h4>
+                    <div className="grid grid-cols-3 gap-2">
+                        {FORMATS.map(f => (
+                            <label key={f.id} className={`p-2 border rounded-md cursor-pointer ${format === f.id ? 'border-sky-500 bg-sky-50 dark:bg-sky-900/30' : 'border-slate-300 dark:border-slate-600'}`}>
+                                <input type="radio" name="report-format" checked={format === f.id} onChange={() => setFormat(f.id)} className="mr-1.5"/>
+                                <span className="font-medium">{f.label}</span>
+                                <p className="text-xs text-slate-500 mt-1">{f.hint}</p>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <div className="flex justify-between items-center mb-2">
+                        <h4 className="font-semibold">Sections</h4>
+                        <div className="space-x-3 text-xs">
+                            <button onClick={() => setSelected(sections.map(s => s.id))} className="text-sky-500 hover:underline">All</button>
+                            <button onClick={() => setSelected([])} className="text-sky-500 hover:underline">None</button>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-1">
+                        {sections.map(section => (
+                            <label key={section.id} className="inline-flex items-center">
+                                <input type="checkbox" checked={selected.includes(section.id)} onChange={() => toggleSection(section.id)} className="mr-1.5 h-4 w-4 rounded text-sky-600 focus:ring-sky-500"/>
+                                {section.label}
+                            </label>
+                        ))}
+                    </div>
+                    {hideUnverified && <p className="text-xs text-slate-500 mt-2">Findings whose quote was not found in the manuscript are left out, as in the report view.</p>}
+                    {triageFilter !== 'all' && <p className="text-xs text-slate-500 mt-2">{describeTriageFilter(triageFilter)}, as in the report view.</p>}
+                </div>
+
+                <div>
+                    <h4 className="font-semibold mb-2">Branding</h4>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="block"><span className="text-xs text-slate-500">Publisher name</span><input value={draft.publisherName || ''} onChange={setText('publisherName')} className={inputClass}/></label>
+                        <label className="block"><span className="text-xs text-slate-500">Accent color</span><input type="color" value={draft.accentColor || '#0f766e'} onChange={setText('accentColor')} className="block h-8 w-16 border rounded dark:border-slate-600"/></label>
+                        <label className="block"><span className="text-xs text-slate-500">Header text</span><input value={draft.headerText || ''} onChange={setText('headerText')} placeholder="e.g. Editorial Office" className={inputClass}/></label>
+                        <label className="block"><span className="text-xs text-slate-500">Footer text</span><input value={draft.footerText || ''} onChange={setText('footerText')} placeholder="e.g. Confidential: for the authors only" className={inputClass}/></label>
+                    </div>
+                    <div className="flex items-center gap-3 mt-3">
+                        {draft.logoDataUrl && <>
+                            <img src={draft.logoDataUrl} alt="Publisher logo" className="max-h-10 max-w-[160px] bg-white p-1 rounded"/>
+                            <button onClick={() => setDraft(d => ({ ...d, logoDataUrl: undefined }))} className="text-slate-400 hover:text-red-500" title="Remove logo"><XIcon className="h-4 w-4"/></button>
+                        </>}
+                        <label className="px-3 py-1.5 text-xs bg-slate-200 dark:bg-slate-600 rounded-md cursor-pointer hover:bg-slate-300 dark:hover:bg-slate-500">
+                            {draft.logoDataUrl ? 'Replace logo' : 'Upload logo'}
+                            <input type="file" accept="image/png,image/jpeg" onChange={handleLogo} className="hidden"/>
+                        </label>
+                        <span className="text-xs text-slate-500">PNG or JPEG, up to {MAX_LOGO_BYTES / 1024} KB</span>
+                    </div>
+                    {logoError && <p className="text-xs text-red-500 mt-1">{logoError}</p>}
+                </div>
+
+                <div className="flex justify-end gap-2 pt-2 border-t border-slate-200 dark:border-slate-700">
+                    <button onClick={onClose} className="px-4 py-2 bg-slate-200 dark:bg-slate-600 rounded-md">Cancel</button>
+                    <button onClick={handleExport} disabled={selected.length === 0} className="flex items-center px-4 py-2 bg-sky-500 text-white rounded-md hover:bg-sky-600 disabled:bg-slate-400"><DownloadIcon className="h-4 w-4 mr-1.5"/>Export</button>
+                </div>
+            </div>
+        </Modal>
+    );
+}
@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Modal from './Modal';
+import { ManuscriptFile, RevisionLetter, RevisionLetterMergeFields } from '../types';
+import {
+    LETTER_GROUPS, LETTER_TEMPLATES, MERGE_FIELD_LABELS, LetterItemKind,
+    listLetterItems, defaultLetterSelection, defaultMergeFields, composeLetter
+} from '../services/revisionLetter';
+import { DownloadIcon, PencilIcon } from './icons/Icons';
+
+interface RevisionLetterComposerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    manuscript: ManuscriptFile | null;
+    journal: string; // Default for the {{journal}} merge field
+    onSave: (manuscript: ManuscriptFile, letter: RevisionLetter) => void;
+    onExport: (manuscript: ManuscriptFile, format: 'docx' | 'txt', text: string) => void;
+}
+
+const inputClass = 'w-full p-1.5 text-sm border rounded dark:bg-slate-700 dark:border-slate-600';
+const STATUS_STYLES: Record<string, string> = {
+    fail: 'text-red-500', Fail: 'text-red-500', High: 'text-red-500',
+    warn: 'text-yellow-500', Warning: 'text-yellow-500', Medium: 'text-yellow-500',
+    pass: 'text-green-500', Pass: 'text-green-500', Low: 'text-sky-500', Question: 'text-indigo-400',
+};
+
+// Builds the letter to the authors from the selected results of a journal run. "Compose" fills the template;
+// the composed letter can then be edited freely and is saved with the manuscript.
+export default function RevisionLetterComposer({ isOpen, onClose, manuscript, journal, onSave, onExport }: RevisionLetterComposerProps) {
+    const items = useMemo(() => manuscript ? listLetterItems(manuscript) : [], [manuscript]);
+    const [templateId, setTemplateId] = useState(LETTER_TEMPLATES[0].id);
+    const [template, setTemplate] = useState(LETTER_TEMPLATES[0].text);
+    const [fields, setFields] = useState<RevisionLetterMergeFields>({ author: '', manuscriptTitle: '', journal: '', editor: '' });
+    const [selected, setSelected] = useState<string[]>([]);
+    const [text, setText] = useState('');
+    const [isEditingTemplate, setIsEditingTemplate] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen || !manuscript) return;
+        const saved = manuscript.revisionLetter;
+        if (saved) {
+            setTemplateId(saved.templateId);
+            setTemplate(saved.template);
+            setFields(saved.mergeFields);
+            setSelected(saved.selectedItemIds.filter(id => items.some(item => item.id === id)));
+            setText(saved.text);
+        } else {
+            const initialFields = defaultMergeFields(manuscript, journal);
+            const initialSelection = defaultLetterSelection(items);
+            setTemplateId(LETTER_TEMPLATES[0].id);
+            setTemplate(LETTER_TEMPLATES[0].text);
+            setFields(initialFields);
+            setSelected(initialSelection);
+            setText(composeLetter(LETTER_TEMPLATES[0].text, initialFields, items.filter(item => initialSelection.includes(item.id))));
+        }
+        setIsEditingTemplate(false);
+    }, [isOpen, manuscript?.id]);
+
+    const handleTemplateChange = (id: string) => {
+        const chosen = LETTER_TEMPLATES.find(t => t.id === id);
+        if (!chosen) return;
+        setTemplateId(id);
+        setTemplate(chosen.text);
+    };
+
+    const toggleItem = (id: string) => setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+    const toggleGroup = (kind: LetterItemKind, checked: boolean) => {
+        const ids = items.filter(item => item.kind === kind).map(item => item.id);
+        setSelected(prev => checked ? Array.from(new Set([...prev, ...ids])) : prev.filter(id => !ids.includes(id)));
+    };
+
+    const handleCompose = () => setText(composeLetter(template, fields, items.filter(item => selected.includes(item.id))));
+
+    const currentLetter = (): RevisionLetter => ({ templateId, template, mergeFields: fields, selectedItemIds: selected, text, updatedAt: new Date().toISOString() });
+
+    const handleExport = (format: 'docx' | 'txt') => {
+        if (!manuscript) return;
+        onSave(manuscript, currentLetter());
+        onExport(manuscript, format, text);
+    };
+
+    return (
+        <Modal isOpen={isOpen && !!manuscript} onClose={onClose} title={`Revision Letter: ${manuscript?.name}`} size="xl">
+            <div className="space-y-4 text-sm">
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="block col-span-2"><span className="text-xs text-slate-500">Template</span>
+                        <div className="flex items-center gap-2">
+                            <select value={templateId} onChange={e => handleTemplateChange(e.target.value)} className={inputClass}>
+                                {LETTER_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                            <button onClick={() => setIsEditingTemplate(!isEditingTemplate)} className="flex items-center px-2 py-1.5 text-xs bg-slate-200 dark:bg-slate-600 rounded-md whitespace-nowrap"><PencilIcon className="h-3 w-3 mr-1"/>{isEditingTemplate ? 'Hide template' : 'Edit template'}</button>
+                        </div>
+                    </label>
+                    {(Object.keys(MERGE_FIELD_LABELS) as (keyof RevisionLetterMergeFields)[]).map(key => (
+                        <label key={key} className="block"><span className="text-xs text-slate-500">{MERGE_FIELD_LABELS[key]} <code className="text-slate-400">{`{{${key}}}`}</code></span>
+                            <input value={fields[key]} onChange={e => setFields(f => ({ ...f, [key]: e.target.value }))} className={inputClass}/>
+                        </label>
+                    ))}
+                </div>
+                {isEditingTemplate && (
+                    <div>
+                        <textarea value={template} onChange={e => setTemplate(e.target.value)} rows={10} className={`${inputClass} font-mono text-xs`}/>
+                        <p className="text-xs text-slate-500 mt-1">Merge fields: {'{{author}}, {{manuscriptTitle}}, {{journal}}, {{editor}}, {{date}}'}; {'{{items}}'} is replaced by the selected items.</p>
+                    </div>
+                )}
+
+                <div>
+                    <h4 className="font-semibold mb-2">Items ({selected.length} of {items.length} selected)</h4>
+                    {items.length === 0 && <p className="text-xs text-slate-500">This manuscript has no findings, issues or reviewer questions to include.</p>}
+                    <div className="max-h-64 overflow-y-auto space-y-3 pr-2">
+                        {(Object.keys(LETTER_GROUPS) as LetterItemKind[]).map(kind => {
+                            const group = items.filter(item => item.kind === kind);
+                            if (group.length === 0) return null;
+                            return (
+                                <div key={kind}>
+                                    <label className="inline-flex items-center font-medium text-slate-600 dark:text-slate-300">
+                                        <input type="checkbox" checked={group.every(item => selected.includes(item.id))} onChange={e => toggleGroup(kind, e.target.checked)} className="mr-1.5 h-4 w-4 rounded text-sky-600 focus:ring-sky-500"/>
+                                        {LETTER_GROUPS[kind]} ({group.length})
+                                    </label>
+                                    <div className="mt-1 space-y-1 pl-5">
+                                        {group.map(item => (
+                                            <label key={item.id} className="flex items-start gap-2 text-xs">
+                                                <input type="checkbox" checked={selected.includes(item.id)} onChange={() => toggleItem(item.id)} className="mt-0.5 h-3.5 w-3.5 rounded text-sky-600 focus:ring-sky-500"/>
+                                                <span className={`font-semibold uppercase w-16 flex-shrink-0 ${STATUS_STYLES[item.status] || 'text-slate-400'}`}>{item.status}</span>
+                                                <span className="text-slate-600 dark:text-slate-300">{item.text}{item.unverified && <span className="ml-1 text-red-400">(quote not found in the manuscript)</span>}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                <div>
+                    <div className="flex justify-between items-center mb-2">
+                        <h4 className="font-semibold">Letter</h4>
+                        <button onClick={handleCompose} className="px-3 py-1.5 text-xs bg-sky-500 text-white rounded-md hover:bg-sky-600">Compose from template</button>
+                    </div>
+                    <textarea value={text} onChange={e => setText(e.target.value)} rows={16} className={inputClass}/>
+                    <p className="text-xs text-slate-500 mt-1">Composing again replaces the edits made here.{manuscript?.revisionLetter && ` Last saved ${new Date(manuscript.revisionLetter.updatedAt).toLocaleString()}.`}</p>
+                </div>
+
+                <div className="flex justify-end gap-2 pt-2 border-t border-slate-200 dark:border-slate-700">
+                    <button onClick={onClose} className="px-4 py-2 bg-slate-200 dark:bg-slate-600 rounded-md">Close</button>
+                    <button onClick={() => manuscript && onSave(manuscript, currentLetter())} className="px-4 py-2 bg-slate-600 text-white rounded-md hover:bg-slate-700">Save</button>
+                    <button onClick={() => handleExport('txt')} className="flex items-center px-4 py-2 bg-sky-500 text-white rounded-md hover:bg-sky-600"><DownloadIcon className="h-4 w-4 mr-1.5"/>Text</button>
+                    <button onClick={() => handleExport('docx')} className="flex items-center px-4 py-2 bg-sky-500 text-white rounded-md hover:bg-sky-600"><DownloadIcon className="h-4 w-4 mr-1.5"/>DOCX</button>
+                </div>
+            </div>
+        </Modal>
+    );
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { RuleCoverageEntry } from '../types';
+import { describeRuleCoverage } from '../services/ruleDocument';
+
+interface RuleCoverageSummaryProps {
+    coverage?: RuleCoverageEntry[];
+}
+
+const STATUS_STYLES: Record<RuleCoverageEntry['status'], string> = {
+    pass: 'text-green-400',
+    fail: 'text-red-400',
+    warn: 'text-yellow-400',
+    'not evaluated': 'text-slate-500',
+};
+
+export default function RuleCoverageSummary({ coverage }: RuleCoverageSummaryProps) {
+    if (!coverage || coverage.length === 0) return null;
+    const unevaluated = coverage.filter(entry => entry.status === 'not evaluated').length;
+
+    return (
+        <details className={`mb-4 rounded-lg border text-sm ${unevaluated === 0 ? 'border-slate-700 bg-slate-900/50' : 'border-yellow-600/50 bg-yellow-900/10'}`}>
+            <summary className={`cursor-pointer px-4 py-2 font-semibold ${unevaluated === 0 ? 'text-slate-300' : 'text-yellow-400'}`}>
+                Rule coverage: {describeRuleCoverage(coverage)}
+            </summary>
+            <div className="px-4 pb-3 max-h-80 overflow-y-auto">
+                <table className="w-full text-xs">
+                    <thead><tr className="text-left text-slate-500"><th className="py-1 pr-2">Rule</th><th className="py-1 pr-2">Text</th><th className="py-1 pr-2">Status</th><th className="py-1">Findings</th></tr></thead>
+                    <tbody>
+                        {coverage.map(entry => (
+                            <tr key={entry.ruleId} className="border-t border-slate-800 align-top">
+                                <td className="py-1 pr-2 text-slate-300 whitespace-nowrap">{entry.label}</td>
+                                <td className="py-1 pr-2 text-slate-400">{entry.text}</td>
+                                <td className={`py-1 pr-2 font-medium whitespace-nowrap ${STATUS_STYLES[entry.status]}`}>{entry.status}</td>
+                                <td className="py-1 text-slate-400">{entry.findingCount}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </details>
+    );
+}
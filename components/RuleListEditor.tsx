@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { RuleItem } from '../types';
+import { newRuleItem } from '../services/ruleDocument';
+import { PencilIcon, PlusCircleIcon, XIcon } from './icons/Icons';
+
+interface RuleListEditorProps {
+    ruleFileId: string;
+    rules: RuleItem[];
+    onChange: (rules: RuleItem[]) => void;
+}
+
+const inputClass = 'w-full p-1.5 text-sm border rounded dark:bg-slate-700 dark:border-slate-600';
+
+// The numbered rules split out of one rule document. Edits replace what the compliance check sends to the model;
+// rule IDs stay the same so earlier reports still point at the right rule.
+export default function RuleListEditor({ ruleFileId, rules, onChange }: RuleListEditorProps) {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+    const [newRule, setNewRule] = useState('');
+
+    const startEditing = (rule: RuleItem) => {
+        setEditingId(rule.id);
+        setDraft(rule.text);
+    };
+
+    const saveEdit = () => {
+        if (draft.trim()) onChange(rules.map(rule => rule.id === editingId ? { ...rule, text: draft.trim() } : rule));
+        setEditingId(null);
+    };
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newRule.trim()) return;
+        onChange([...rules, newRuleItem(ruleFileId, rules, newRule.trim())]);
+        setNewRule('');
+    };
+
+    return (
+        <div className="pl-3 border-l-2 border-slate-200 dark:border-slate-700 space-y-1">
+            {rules.length === 0 && <p className="text-xs text-slate-500">No rules were found in this document. Add them below.</p>}
+            <ol className="space-y-1 max-h-72 overflow-y-auto">
+                {rules.map(rule => (
+                    <li key={rule.id} className="flex items-start gap-2 text-sm">
+                        <span className="font-mono text-xs text-slate-400 pt-0.5 w-8 flex-shrink-0">#{rule.number}</span>
+                        {editingId === rule.id ? (
+                            <div className="flex-1 space-y-1">
+                                <textarea value={draft} onChange={e => setDraft(e.target.value)} rows={3} className={inputClass} autoFocus />
+                                <div className="flex gap-2 text-xs">
+                                    <button onClick={saveEdit} className="px-2 py-1 bg-sky-500 text-white rounded hover:bg-sky-600">Save</button>
+                                    <button onClick={() => setEditingId(null)} className="px-2 py-1 bg-slate-200 dark:bg-slate-600 rounded">Cancel</button>
+                                </div>
+                            </div>
+                        ) : (
+                            <p className="flex-1 text-slate-700 dark:text-slate-300">
+                                {rule.text}
+                                <span className="ml-1 text-xs text-slate-400">{rule.page ? `p. ${rule.page}` : 'added'}{rule.section ? ` · ${rule.section}` : ''}</span>
+                            </p>
+                        )}
+                        {editingId !== rule.id && <>
+                            <button onClick={() => startEditing(rule)} className="text-slate-400 hover:text-sky-500" title="Edit rule"><PencilIcon className="h-4 w-4"/></button>
+                            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-slate-400 hover:text-red-500" title="Remove rule"><XIcon className="h-4 w-4"/></button>
+                        </>}
+                    </li>
+                ))}
+            </ol>
+            <form onSubmit={handleAdd} className="flex items-center gap-2 pt-1">
+                <input value={newRule} onChange={e => setNewRule(e.target.value)} placeholder="Add a rule" className={inputClass} />
+                <button type="submit" className="flex items-center px-2 py-1.5 text-sm bg-sky-500 text-white rounded-md hover:bg-sky-600"><PlusCircleIcon className="h-4 w-4 mr-1"/>Add</button>
+            </form>
+        </div>
+    );
+}
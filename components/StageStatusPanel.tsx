@@ -0,0 +1,75 @@
+import React from 'react';
+import { ComplianceProfile, ManuscriptFile, StageRunStatus } from '../types';
+import { PipelineStage, describeStageStates, isStageEnabled, stageStatusOf } from '../services/pipelineStages';
+
+interface StageStatusPanelProps {
+    stages: PipelineStage[];
+    manuscript: ManuscriptFile;
+    profile?: ComplianceProfile; // The folder's profile; stages it turns off cannot be run
+    hasFile: boolean; // The uploaded file is still in memory; files are not stored
+    onRun: (stageIds: string[]) => void;
+    onSkip: (stageId: string, skipped: boolean) => void;
+    onAttachFile: (file: File) => void;
+}
+
+const STATUS_STYLES: Record<StageRunStatus, string> = {
+    pending: 'text-slate-400',
+    running: 'text-blue-400',
+    completed: 'text-green-400',
+    failed: 'text-red-400',
+    skipped: 'text-slate-500 italic',
+};
+
+// Per-stage status of a manuscript with controls to re-run, add or skip single stages. Re-runs reuse cached
+// results, so only the stages that changed or failed are paid for again.
+export default function StageStatusPanel({ stages, manuscript, profile, hasFile, onRun, onSkip, onAttachFile }: StageStatusPanelProps) {
+    const isBusy = manuscript.status === 'queued' || manuscript.status === 'processing';
+    const failed = stages.filter(stage => isStageEnabled(profile, stage) && stageStatusOf(stage, manuscript) === 'failed');
+    const hasProblem = failed.length > 0 || manuscript.status === 'error';
+
+    return (
+        <details className={`mb-4 rounded-lg border text-sm ${hasProblem ? 'border-red-600/50 bg-red-900/10' : 'border-slate-700 bg-slate-900/50'}`} open={hasProblem}>
+            <summary className={`cursor-pointer px-4 py-2 font-semibold ${hasProblem ? 'text-red-400' : 'text-slate-300'}`}>
+                Stages: {describeStageStates(stages, manuscript, profile)}{isBusy && ` (${manuscript.status})`}
+            </summary>
+            <div className="px-4 pb-3 space-y-2">
+                {!hasFile && (
+                    <div className="text-xs text-yellow-400">
+                        The uploaded file is no longer in memory. Attach it again to run stages:{' '}
+                        <input type="file" onChange={e => { const file = e.target.files?.[0]; if (file) onAttachFile(file); e.target.value = ''; }} className="text-xs text-slate-300"/>
+                    </div>
+                )}
+                <table className="w-full text-xs">
+                    <tbody>
+                        {stages.map(stage => {
+                            const status = stageStatusOf(stage, manuscript);
+                            const error = manuscript.stages?.[stage.id]?.error;
+                            const model = profile?.stages?.[stage.id]?.model;
+                            if (!isStageEnabled(profile, stage)) return (
+                                <tr key={stage.id} className="border-t border-slate-800 align-top">
+                                    <td className="py-1 pr-2 text-slate-500 whitespace-nowrap">{stage.label}</td>
+                                    <td className="py-1 pr-2 text-slate-500 italic whitespace-nowrap" colSpan={3}>off in profile</td>
+                                </tr>
+                            );
+                            return (
+                                <tr key={stage.id} className="border-t border-slate-800 align-top">
+                                    <td className="py-1 pr-2 text-slate-300 whitespace-nowrap">{stage.label}{model && <span className="ml-1 text-slate-500">({model})</span>}</td>
+                                    <td className={`py-1 pr-2 font-medium whitespace-nowrap ${STATUS_STYLES[status]}`}>{status === 'pending' ? 'not run' : status}</td>
+                                    <td className="py-1 pr-2 text-slate-500">{error}</td>
+                                    <td className="py-1 text-right whitespace-nowrap space-x-2">
+                                        {status !== 'skipped' && <button onClick={() => onRun([stage.id])} disabled={!hasFile || isBusy} className="text-sky-400 hover:underline disabled:opacity-40 disabled:no-underline">{status === 'pending' ? 'Run' : 'Re-run'}</button>}
+                                        <button onClick={() => onSkip(stage.id, status !== 'skipped')} disabled={isBusy} className="text-slate-400 hover:underline disabled:opacity-40">{status === 'skipped' ? 'Include' : 'Skip'}</button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                {failed.length > 0 && (
+                    <button onClick={() => onRun(failed.map(stage => stage.id))} disabled={!hasFile || isBusy} className="px-3 py-1 text-xs bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-40">Re-run failed stages ({failed.length})</button>
+                )}
+                <p className="text-xs text-slate-500">Skipped stages are left out of later full runs; their earlier results are kept.</p>
+            </div>
+        </details>
+    );
+}
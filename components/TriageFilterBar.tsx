@@ -0,0 +1,22 @@
+import React from 'react';
+import { TRIAGE_FILTERS, TriageFilter } from '../services/findingTriage';
+
+interface TriageFilterBarProps {
+    value: TriageFilter;
+    counts: Record<TriageFilter, number>;
+    onChange: (filter: TriageFilter) => void;
+}
+
+// Picks which findings to show by triage state, with how many findings each choice covers.
+export default function TriageFilterBar({ value, counts, onChange }: TriageFilterBarProps) {
+    return (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+            <span className="text-slate-500 mr-1">Triage:</span>
+            {TRIAGE_FILTERS.map(filter => (
+                <button key={filter.id} onClick={() => onChange(filter.id)} className={`px-2.5 py-1 rounded-full border ${value === filter.id ? 'border-purple-500 bg-purple-900/40 text-purple-300' : 'border-slate-600 text-slate-400 hover:text-white'}`}>
+                    {filter.label} ({counts[filter.id]})
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,84 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Modal from './Modal';
+import { ManuscriptFile } from '../types';
+import { FindingChange, diffVersions, describeVersionDiff } from '../services/versionDiff';
+
+interface VersionDiffModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    versions: ManuscriptFile[]; // Oldest first; the last one is compared with an earlier one
+}
+
+const CHANGES: { id: FindingChange, label: string, style: string }[] = [
+    { id: 'resolved', label: 'Resolved', style: 'border-green-500 text-green-400' },
+    { id: 'new', label: 'New', style: 'border-red-500 text-red-400' },
+    { id: 'open', label: 'Still open', style: 'border-yellow-500 text-yellow-400' },
+];
+
+const versionLabel = (m: ManuscriptFile) => `v${m.version || 1}: ${m.name}`;
+
+// What changed between two versions of a manuscript: findings the revision resolved, findings it introduced, findings
+// still open, and how the scores moved.
+export default function VersionDiffModal({ isOpen, onClose, versions }: VersionDiffModalProps) {
+    const current = versions[versions.length - 1];
+    const earlier = versions.slice(0, -1).filter(v => v.status === 'completed');
+    const [previousId, setPreviousId] = useState('');
+    const [change, setChange] = useState<FindingChange>('resolved');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setPreviousId(earlier[earlier.length - 1]?.id || '');
+        setChange('resolved');
+    }, [isOpen, current?.id]);
+
+    const previous = earlier.find(v => v.id === previousId);
+    const diff = useMemo(() => previous && current ? diffVersions(previous, current) : null, [previous, current]);
+    const shown = diff?.findings.filter(f => f.change === change) || [];
+
+    return (
+        <Modal isOpen={isOpen && !!current} onClose={onClose} title={`Revision Changes: ${current?.name}`} size="xl">
+            {!diff || !previous ? <p className="text-center text-slate-500 py-8">There is no completed earlier version to compare with.</p> :
+            <div className="space-y-4 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-slate-500">Compared with</span>
+                    <select value={previousId} onChange={e => setPreviousId(e.target.value)} className="p-1.5 text-sm border rounded dark:bg-slate-700 dark:border-slate-600">
+                        {earlier.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+                    </select>
+                    <span className="text-slate-500">→ {versionLabel(current)}</span>
+                </div>
+                <p className="text-slate-400">{describeVersionDiff(diff)}. Findings are matched by rule or checklist item, otherwise by wording, so check borderline matches against the reports.</p>
+
+                {diff.scores.length > 0 && (
+                    <table className="w-full text-xs">
+                        <thead><tr className="text-left text-slate-500"><th className="py-1 font-medium">Score</th><th className="py-1 font-medium">v{previous.version || 1}</th><th className="py-1 font-medium">v{current.version || 1}</th><th className="py-1 font-medium">Change</th></tr></thead>
+                        <tbody>
+                            {diff.scores.map(s => (
+                                <tr key={s.metric} className="border-t border-slate-200 dark:border-slate-700">
+                                    <td className="py-1 text-slate-300">{s.label}</td>
+                                    <td className="py-1">{s.previous}</td>
+                                    <td className="py-1">{s.current}</td>
+                                    <td className={`py-1 font-semibold ${s.delta === 0 ? 'text-slate-500' : s.improved ? 'text-green-400' : 'text-red-400'}`}>{s.delta > 0 ? `+${s.delta}` : s.delta}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                <div className="flex border-b border-slate-700">
+                    {CHANGES.map(c => (
+                        <button key={c.id} onClick={() => setChange(c.id)} className={`px-4 py-2 text-sm font-medium whitespace-nowrap ${change === c.id ? `border-b-2 ${c.style}` : 'text-slate-400 hover:text-white'}`}>{c.label} ({diff.counts[c.id]})</button>
+                    ))}
+                </div>
+                <div className="max-h-96 overflow-y-auto space-y-2 pr-2">
+                    {shown.length === 0 && <p className="text-center text-slate-500 py-4">No findings.</p>}
+                    {shown.map((f, index) => (
+                        <div key={index} className="p-3 bg-slate-900/50 rounded-md border border-slate-700">
+                            <p className="text-xs text-slate-500">{f.report} · {f.category} · <span className="uppercase">{f.severity.replace(/_/g, ' ')}</span>{f.previousSeverity && <span> (was {f.previousSeverity.replace(/_/g, ' ')})</span>}</p>
+                            <p className="mt-1 text-slate-300">{f.text}</p>
+                        </div>
+                    ))}
+                </div>
+            </div>}
+        </Modal>
+    );
+}
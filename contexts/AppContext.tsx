@@ -1,7 +1,13 @@
-import React, { createContext, useReducer, ReactNode, useCallback, useMemo, useEffect } from 'react';
-import { User, Role, UsageLog, UserDataStore, PdfFile, ManuscriptFile, AppState, StatusBarMessage, ExtractedAsset, BookFile } from '../types';
+import React, { createContext, useReducer, ReactNode, useCallback, useMemo, useEffect, useLayoutEffect } from 'react';
+import { User, Role, UsageLog, UserDataStore, PdfFile, ManuscriptFile, AppState, StatusBarMessage, ExtractedAsset, BookFile, PromptTemplateHistory, PromptTemplateVersion, CheckableRule, RuleItem, ReportingGuidelineId, ProfileStageConfig, ReportBranding } from '../types';
 import { USERS, USAGE_LOGS } from '../constants';
 import { loadInitialState, STORAGE_KEY } from '../services/migrationService';
+import { setCustomPromptTemplates, BUILT_IN_PROMPT_VERSION } from '../services/promptRegistry';
+
+// Changes to a manuscript, or a function computing them from the stored manuscript when they depend on its
+// current state (e.g. triage edited while a run was in flight).
+type ManuscriptUpdate = Partial<ManuscriptFile> | ((manuscript: ManuscriptFile) => Partial<ManuscriptFile>);
+const applyUpdate = (manuscript: ManuscriptFile, updates: ManuscriptUpdate) => ({ ...manuscript, ...(typeof updates === 'function' ? updates(manuscript) : updates) });
 
 interface AppContextType {
   theme: 'light' | 'dark';
@@ -13,7 +19,10 @@ interface AppContextType {
   deleteUser: (userId: number) => void;
   updateUser: (user: User) => void;
   usageLogs: UsageLog[];
-  addUsageLog: (log: Omit<UsageLog, 'id' | 'timestamp' | 'promptTokens' | 'responseTokens'>) => { promptTokens: number, responseTokens: number };
+  addUsageLog: (log: Omit<UsageLog, 'id' | 'timestamp'>) => void;
+  promptTemplates: Record<string, PromptTemplateHistory>;
+  savePromptTemplateVersion: (promptId: string, template: string, note: string) => void;
+  activatePromptTemplateVersion: (promptId: string, version: number) => void;
   statusBarMessage: StatusBarMessage | null;
   setStatusBarMessage: (message: string, type: 'success' | 'error' | 'info') => void;
   login: (email: string, password?: string) => boolean;
@@ -21,6 +30,7 @@ interface AppContextType {
   currentUserData: UserDataStore | null;
   createMetadataFolder: (name: string) => void;
   deleteMetadataFolder: (folderId: string) => void;
+  updateMetadataFolderBypassCache: (folderId: string, bypassCache: boolean) => void;
   addPdfFilesToFolder: (folderId: string, files: PdfFile[]) => void;
   createMetadataFolderAndAddPdfs: (folderName: string, files: PdfFile[]) => void;
   updatePdfFile: (pdfId: string, updates: Partial<PdfFile>) => void;
@@ -30,6 +40,7 @@ interface AppContextType {
   deleteMetadataAsset: (pdfId: string, assetId: string) => void;
   createBookFolder: (name: string) => void;
   deleteBookFolder: (folderId: string) => void;
+  updateBookFolderBypassCache: (folderId: string, bypassCache: boolean) => void;
   addBookFilesToFolder: (folderId: string, files: BookFile[]) => void;
   updateBookFile: (bookId: string, updates: Partial<BookFile>) => void;
   deleteBookFile: (folderId: string, bookId: string) => void;
@@ -38,17 +49,25 @@ interface AppContextType {
   deleteComplianceProfile: (profileId: string) => void;
   addRuleFilesToProfile: (profileId: string, newRuleFiles: Record<string, any>) => void;
   deleteRuleFileFromProfile: (profileId: string, ruleFileId: string) => void;
+  addCheckableRule: (profileId: string, rule: CheckableRule) => void;
+  deleteCheckableRule: (profileId: string, ruleId: string) => void;
+  updateRuleFileRules: (ruleFileId: string, rules: RuleItem[]) => void;
+  updateProfileReportingGuidelines: (profileId: string, guidelineIds: ReportingGuidelineId[]) => void;
+  updateProfileStageConfig: (profileId: string, stageId: string, config: ProfileStageConfig) => void;
+  updateReportBranding: (branding: ReportBranding) => void;
   createJournalComplianceFolder: (name: string, profileId: string | null) => void;
   deleteJournalComplianceFolder: (folderId: string) => void;
   updateJournalComplianceFolderProfile: (folderId: string, profileId: string | null) => void;
+  updateJournalComplianceFolderBypassCache: (folderId: string, bypassCache: boolean) => void;
   addManuscriptsToJournalComplianceFolder: (folderId: string, files: ManuscriptFile[]) => void;
-  updateJournalComplianceManuscript: (manuscriptId: string, updates: Partial<ManuscriptFile>) => void;
+  updateJournalComplianceManuscript: (manuscriptId: string, updates: ManuscriptUpdate) => void;
   deleteJournalComplianceManuscript: (folderId: string, manuscriptId: string) => void;
   createBookComplianceFolder: (name: string, profileId: string | null) => void;
   deleteBookComplianceFolder: (folderId: string) => void;
   updateBookComplianceFolderProfile: (folderId: string, profileId: string | null) => void;
+  updateBookComplianceFolderBypassCache: (folderId: string, bypassCache: boolean) => void;
   addManuscriptsToBookComplianceFolder: (folderId: string, files: ManuscriptFile[]) => void;
-  updateBookComplianceManuscript: (manuscriptId: string, updates: Partial<ManuscriptFile>) => void;
+  updateBookComplianceManuscript: (manuscriptId: string, updates: ManuscriptUpdate) => void;
   deleteBookComplianceManuscript: (folderId: string, manuscriptId: string) => void;
 }
 
@@ -84,6 +103,8 @@ type Action =
   | { type: 'DELETE_USER'; payload: number }
   | { type: 'UPDATE_USER'; payload: User }
   | { type: 'ADD_USAGE_LOG'; payload: UsageLog }
+  | { type: 'SAVE_PROMPT_VERSION'; payload: { promptId: string; version: PromptTemplateVersion } }
+  | { type: 'SET_ACTIVE_PROMPT_VERSION'; payload: { promptId: string; version: number } }
   | { type: 'UPDATE_CURRENT_USER_STORE'; payload: (store: UserDataStore) => UserDataStore };
 
 const appReducer = (state: CombinedState, action: Action): CombinedState => {
@@ -118,6 +139,16 @@ const appReducer = (state: CombinedState, action: Action): CombinedState => {
         const totalTokens = action.payload.promptTokens + action.payload.responseTokens;
         return { ...state, appState: { ...state.appState, usageLogs: [action.payload, ...state.appState.usageLogs], users: state.appState.users.map(u => (u.id === action.payload.userId ? { ...u, tokensUsed: u.tokensUsed + totalTokens } : u)) } };
     }
+    case 'SAVE_PROMPT_VERSION': {
+        const { promptId, version } = action.payload;
+        const history = state.appState.promptTemplates?.[promptId] || { activeVersion: BUILT_IN_PROMPT_VERSION, versions: [] };
+        return { ...state, appState: { ...state.appState, promptTemplates: { ...state.appState.promptTemplates, [promptId]: { activeVersion: version.version, versions: [...history.versions, version] } } } };
+    }
+    case 'SET_ACTIVE_PROMPT_VERSION': {
+        const { promptId, version } = action.payload;
+        const history = state.appState.promptTemplates?.[promptId] || { activeVersion: BUILT_IN_PROMPT_VERSION, versions: [] };
+        return { ...state, appState: { ...state.appState, promptTemplates: { ...state.appState.promptTemplates, [promptId]: { ...history, activeVersion: version } } } };
+    }
     case 'UPDATE_CURRENT_USER_STORE': {
       const { currentUserId, appData } = state.appState;
       if (!currentUserId) return state;
@@ -150,6 +181,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [state.appState, state.isInitialized]);
 
+  // aiService renders prompts outside React, so keep the registry in step with the stored templates. A layout effect
+  // runs before the pages' effects and handlers that start analyses.
+  useLayoutEffect(() => setCustomPromptTemplates(state.appState.promptTemplates), [state.appState.promptTemplates]);
+
   const currentUser = useMemo(() => state.appState.users.find(u => u.id === state.appState.currentUserId) || null, [state.appState.currentUserId, state.appState.users]);
   const currentUserData = useMemo(() => currentUser ? state.appState.appData[currentUser.id] || defaultUserData : null, [state.appState.appData, currentUser]);
   
@@ -204,18 +239,28 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setStatusBarMessage(`User ${updatedUser.email} updated.`, 'success');
   }, [setStatusBarMessage]);
 
-  const addUsageLog = useCallback((log: Omit<UsageLog, 'id' | 'timestamp' | 'promptTokens' | 'responseTokens'>): { promptTokens: number, responseTokens: number } => {
-    const promptTokens = Math.floor(Math.random() * 3000) + 500;
-    const responseTokens = Math.floor(Math.random() * 2000) + 300;
-    const newLog: UsageLog = { ...log, id: `log_${Date.now()}`, timestamp: new Date().toISOString(), promptTokens, responseTokens };
+  const addUsageLog = useCallback((log: Omit<UsageLog, 'id' | 'timestamp'>) => {
+    const newLog: UsageLog = { ...log, id: `log_${Date.now()}`, timestamp: new Date().toISOString() };
     dispatch({ type: 'ADD_USAGE_LOG', payload: newLog });
-    return { promptTokens, responseTokens };
   }, []);
 
+  const savePromptTemplateVersion = useCallback((promptId: string, template: string, note: string) => {
+    const existing = state.appState.promptTemplates?.[promptId]?.versions || [];
+    const version: PromptTemplateVersion = { version: Math.max(BUILT_IN_PROMPT_VERSION, ...existing.map(v => v.version)) + 1, template, note, createdAt: new Date().toISOString(), createdBy: currentUser?.email };
+    dispatch({ type: 'SAVE_PROMPT_VERSION', payload: { promptId, version } });
+    setStatusBarMessage(`Prompt saved as version ${version.version} and activated.`, 'success');
+  }, [state.appState.promptTemplates, currentUser, setStatusBarMessage]);
+
+  const activatePromptTemplateVersion = useCallback((promptId: string, version: number) => {
+    dispatch({ type: 'SET_ACTIVE_PROMPT_VERSION', payload: { promptId, version } });
+    setStatusBarMessage(`Prompt version ${version} is now active.`, 'info');
+  }, [setStatusBarMessage]);
+
   const updateCurrentUserStore = useCallback((updater: (store: UserDataStore) => UserDataStore) => dispatch({ type: 'UPDATE_CURRENT_USER_STORE', payload: updater }), []);
 
   const createMetadataFolder = useCallback((name: string) => updateCurrentUserStore(store => ({ ...store, metadataFolders: [...store.metadataFolders, { id: Date.now().toString(), name, pdfFiles: [] }] })), [updateCurrentUserStore]);
   const deleteMetadataFolder = useCallback((folderId: string) => updateCurrentUserStore(store => ({ ...store, metadataFolders: store.metadataFolders.filter(f => f.id !== folderId) })), [updateCurrentUserStore]);
+  const updateMetadataFolderBypassCache = useCallback((folderId: string, bypassCache: boolean) => updateCurrentUserStore(store => ({ ...store, metadataFolders: store.metadataFolders.map(f => f.id === folderId ? { ...f, bypassCache } : f) })), [updateCurrentUserStore]);
   const addPdfFilesToFolder = useCallback((folderId: string, files: PdfFile[]) => updateCurrentUserStore(store => ({ ...store, metadataFolders: store.metadataFolders.map(f => f.id === folderId ? { ...f, pdfFiles: [...f.pdfFiles, ...files] } : f) })), [updateCurrentUserStore]);
   const createMetadataFolderAndAddPdfs = useCallback((folderName: string, files: PdfFile[]) => {
     const newFolder = { id: Date.now().toString(), name: folderName, pdfFiles: files };
@@ -255,6 +300,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // Book Metadata Actions
   const createBookFolder = useCallback((name: string) => updateCurrentUserStore(store => ({ ...store, bookFolders: [...store.bookFolders, { id: Date.now().toString(), name, bookFiles: [] }] })), [updateCurrentUserStore]);
   const deleteBookFolder = useCallback((folderId: string) => updateCurrentUserStore(store => ({ ...store, bookFolders: store.bookFolders.filter(f => f.id !== folderId) })), [updateCurrentUserStore]);
+  const updateBookFolderBypassCache = useCallback((folderId: string, bypassCache: boolean) => updateCurrentUserStore(store => ({ ...store, bookFolders: store.bookFolders.map(f => f.id === folderId ? { ...f, bypassCache } : f) })), [updateCurrentUserStore]);
   const addBookFilesToFolder = useCallback((folderId: string, files: BookFile[]) => updateCurrentUserStore(store => ({ ...store, bookFolders: store.bookFolders.map(f => f.id === folderId ? { ...f, bookFiles: [...f.bookFiles, ...files] } : f) })), [updateCurrentUserStore]);
   const updateBookFile = useCallback((bookId: string, updates: Partial<BookFile>) => updateCurrentUserStore(store => ({ ...store, bookFolders: store.bookFolders.map(f => ({ ...f, bookFiles: f.bookFiles.map(p => p.id === bookId ? { ...p, ...updates } : p) })) })), [updateCurrentUserStore]);
   const deleteBookFile = useCallback((folderId: string, bookId: string) => updateCurrentUserStore(store => ({ ...store, bookFolders: store.bookFolders.map(f => f.id === folderId ? { ...f, bookFiles: f.bookFiles.filter(p => p.id !== bookId) } : f) })), [updateCurrentUserStore]);
@@ -264,21 +310,29 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const deleteComplianceProfile = useCallback((profileId: string) => updateCurrentUserStore(store => ({ ...store, complianceProfiles: store.complianceProfiles.filter(p => p.id !== profileId) })), [updateCurrentUserStore]);
   const addRuleFilesToProfile = useCallback((profileId: string, newRuleFiles: Record<string, any>) => updateCurrentUserStore(store => ({ ...store, ruleFiles: { ...store.ruleFiles, ...newRuleFiles }, complianceProfiles: store.complianceProfiles.map(p => p.id === profileId ? { ...p, ruleFileIds: [...p.ruleFileIds, ...Object.keys(newRuleFiles)] } : p) })), [updateCurrentUserStore]);
   const deleteRuleFileFromProfile = useCallback((profileId: string, ruleFileId: string) => updateCurrentUserStore(store => ({...store, complianceProfiles: store.complianceProfiles.map(p => p.id === profileId ? { ...p, ruleFileIds: p.ruleFileIds.filter(id => id !== ruleFileId) } : p) })), [updateCurrentUserStore]);
+  const addCheckableRule = useCallback((profileId: string, rule: CheckableRule) => updateCurrentUserStore(store => ({ ...store, complianceProfiles: store.complianceProfiles.map(p => p.id === profileId ? { ...p, checkableRules: [...(p.checkableRules || []), rule] } : p) })), [updateCurrentUserStore]);
+  const updateRuleFileRules = useCallback((ruleFileId: string, rules: RuleItem[]) => updateCurrentUserStore(store => store.ruleFiles[ruleFileId] ? { ...store, ruleFiles: { ...store.ruleFiles, [ruleFileId]: { ...store.ruleFiles[ruleFileId], rules } } } : store), [updateCurrentUserStore]);
+  const updateProfileReportingGuidelines = useCallback((profileId: string, guidelineIds: ReportingGuidelineId[]) => updateCurrentUserStore(store => ({ ...store, complianceProfiles: store.complianceProfiles.map(p => p.id === profileId ? { ...p, reportingGuidelines: guidelineIds } : p) })), [updateCurrentUserStore]);
+  const updateProfileStageConfig = useCallback((profileId: string, stageId: string, config: ProfileStageConfig) => updateCurrentUserStore(store => ({ ...store, complianceProfiles: store.complianceProfiles.map(p => p.id === profileId ? { ...p, stages: { ...p.stages, [stageId]: config } } : p) })), [updateCurrentUserStore]);
+  const updateReportBranding = useCallback((branding: ReportBranding) => updateCurrentUserStore(store => ({ ...store, reportBranding: branding })), [updateCurrentUserStore]);
+  const deleteCheckableRule = useCallback((profileId: string, ruleId: string) => updateCurrentUserStore(store => ({ ...store, complianceProfiles: store.complianceProfiles.map(p => p.id === profileId ? { ...p, checkableRules: (p.checkableRules || []).filter(r => r.id !== ruleId) } : p) })), [updateCurrentUserStore]);
   
   // Journal Compliance Actions
   const createJournalComplianceFolder = useCallback((name: string, profileId: string | null) => updateCurrentUserStore(store => ({ ...store, journalComplianceFolders: [...store.journalComplianceFolders, { id: Date.now().toString(), name, profileId, manuscripts: [] }] })), [updateCurrentUserStore]);
   const deleteJournalComplianceFolder = useCallback((folderId: string) => updateCurrentUserStore(store => ({ ...store, journalComplianceFolders: store.journalComplianceFolders.filter(f => f.id !== folderId) })), [updateCurrentUserStore]);
   const updateJournalComplianceFolderProfile = useCallback((folderId: string, profileId: string | null) => updateCurrentUserStore(store => ({ ...store, journalComplianceFolders: store.journalComplianceFolders.map(f => f.id === folderId ? { ...f, profileId } : f) })), [updateCurrentUserStore]);
+  const updateJournalComplianceFolderBypassCache = useCallback((folderId: string, bypassCache: boolean) => updateCurrentUserStore(store => ({ ...store, journalComplianceFolders: store.journalComplianceFolders.map(f => f.id === folderId ? { ...f, bypassCache } : f) })), [updateCurrentUserStore]);
   const addManuscriptsToJournalComplianceFolder = useCallback((folderId: string, files: ManuscriptFile[]) => updateCurrentUserStore(store => ({ ...store, journalComplianceFolders: store.journalComplianceFolders.map(f => f.id === folderId ? { ...f, manuscripts: [...f.manuscripts, ...files] } : f) })), [updateCurrentUserStore]);
-  const updateJournalComplianceManuscript = useCallback((manuscriptId: string, updates: Partial<ManuscriptFile>) => updateCurrentUserStore(store => ({ ...store, journalComplianceFolders: store.journalComplianceFolders.map(f => ({ ...f, manuscripts: f.manuscripts.map(m => m.id === manuscriptId ? { ...m, ...updates } : m) })) })), [updateCurrentUserStore]);
+  const updateJournalComplianceManuscript = useCallback((manuscriptId: string, updates: ManuscriptUpdate) => updateCurrentUserStore(store => ({ ...store, journalComplianceFolders: store.journalComplianceFolders.map(f => ({ ...f, manuscripts: f.manuscripts.map(m => m.id === manuscriptId ? applyUpdate(m, updates) : m) })) })), [updateCurrentUserStore]);
   const deleteJournalComplianceManuscript = useCallback((folderId: string, manuscriptId: string) => updateCurrentUserStore(store => ({ ...store, journalComplianceFolders: store.journalComplianceFolders.map(f => f.id === folderId ? { ...f, manuscripts: f.manuscripts.filter(m => m.id !== manuscriptId) } : f) })), [updateCurrentUserStore]);
   
   // Book Compliance Actions
   const createBookComplianceFolder = useCallback((name: string, profileId: string | null) => updateCurrentUserStore(store => ({ ...store, bookComplianceFolders: [...store.bookComplianceFolders, { id: Date.now().toString(), name, profileId, manuscripts: [] }] })), [updateCurrentUserStore]);
   const deleteBookComplianceFolder = useCallback((folderId: string) => updateCurrentUserStore(store => ({ ...store, bookComplianceFolders: store.bookComplianceFolders.filter(f => f.id !== folderId) })), [updateCurrentUserStore]);
   const updateBookComplianceFolderProfile = useCallback((folderId: string, profileId: string | null) => updateCurrentUserStore(store => ({ ...store, bookComplianceFolders: store.bookComplianceFolders.map(f => f.id === folderId ? { ...f, profileId } : f) })), [updateCurrentUserStore]);
+  const updateBookComplianceFolderBypassCache = useCallback((folderId: string, bypassCache: boolean) => updateCurrentUserStore(store => ({ ...store, bookComplianceFolders: store.bookComplianceFolders.map(f => f.id === folderId ? { ...f, bypassCache } : f) })), [updateCurrentUserStore]);
   const addManuscriptsToBookComplianceFolder = useCallback((folderId: string, files: ManuscriptFile[]) => updateCurrentUserStore(store => ({ ...store, bookComplianceFolders: store.bookComplianceFolders.map(f => f.id === folderId ? { ...f, manuscripts: [...f.manuscripts, ...files] } : f) })), [updateCurrentUserStore]);
-  const updateBookComplianceManuscript = useCallback((manuscriptId: string, updates: Partial<ManuscriptFile>) => updateCurrentUserStore(store => ({ ...store, bookComplianceFolders: store.bookComplianceFolders.map(f => ({ ...f, manuscripts: f.manuscripts.map(m => m.id === manuscriptId ? { ...m, ...updates } : m) })) })), [updateCurrentUserStore]);
+  const updateBookComplianceManuscript = useCallback((manuscriptId: string, updates: ManuscriptUpdate) => updateCurrentUserStore(store => ({ ...store, bookComplianceFolders: store.bookComplianceFolders.map(f => ({ ...f, manuscripts: f.manuscripts.map(m => m.id === manuscriptId ? applyUpdate(m, updates) : m) })) })), [updateCurrentUserStore]);
   const deleteBookComplianceManuscript = useCallback((folderId: string, manuscriptId: string) => updateCurrentUserStore(store => ({ ...store, bookComplianceFolders: store.bookComplianceFolders.map(f => f.id === folderId ? { ...f, manuscripts: f.manuscripts.filter(m => m.id !== manuscriptId) } : f) })), [updateCurrentUserStore]);
 
 
@@ -292,18 +346,21 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     deleteUser,
     updateUser,
     addUsageLog,
+    promptTemplates: state.appState.promptTemplates || {},
+    savePromptTemplateVersion,
+    activatePromptTemplateVersion,
     statusBarMessage: state.statusBarMessage,
     setStatusBarMessage,
     login,
     logout,
     currentUserData,
-    createMetadataFolder, deleteMetadataFolder, addPdfFilesToFolder, createMetadataFolderAndAddPdfs,
+    createMetadataFolder, deleteMetadataFolder, updateMetadataFolderBypassCache, addPdfFilesToFolder, createMetadataFolderAndAddPdfs,
     updatePdfFile, deletePdfFile, addMetadataAsset, updateMetadataAsset, deleteMetadataAsset,
-    createBookFolder, deleteBookFolder, addBookFilesToFolder, updateBookFile, deleteBookFile,
-    createJournalComplianceProfile, createBookComplianceProfile, deleteComplianceProfile, addRuleFilesToProfile, deleteRuleFileFromProfile,
-    createJournalComplianceFolder, deleteJournalComplianceFolder, updateJournalComplianceFolderProfile, addManuscriptsToJournalComplianceFolder, updateJournalComplianceManuscript, deleteJournalComplianceManuscript,
-    createBookComplianceFolder, deleteBookComplianceFolder, updateBookComplianceFolderProfile, addManuscriptsToBookComplianceFolder, updateBookComplianceManuscript, deleteBookComplianceManuscript,
-  }), [state, currentUser, currentUserData, toggleTheme, addUser, deleteUser, updateUser, addUsageLog, setStatusBarMessage, login, logout, createMetadataFolder, deleteMetadataFolder, addPdfFilesToFolder, createMetadataFolderAndAddPdfs, updatePdfFile, deletePdfFile, addMetadataAsset, updateMetadataAsset, deleteMetadataAsset, createBookFolder, deleteBookFolder, addBookFilesToFolder, updateBookFile, deleteBookFile, createJournalComplianceProfile, createBookComplianceProfile, deleteComplianceProfile, addRuleFilesToProfile, deleteRuleFileFromProfile, createJournalComplianceFolder, deleteJournalComplianceFolder, updateJournalComplianceFolderProfile, addManuscriptsToJournalComplianceFolder, updateJournalComplianceManuscript, deleteJournalComplianceManuscript, createBookComplianceFolder, deleteBookComplianceFolder, updateBookComplianceFolderProfile, addManuscriptsToBookComplianceFolder, updateBookComplianceManuscript, deleteBookComplianceManuscript]);
+    createBookFolder, deleteBookFolder, updateBookFolderBypassCache, addBookFilesToFolder, updateBookFile, deleteBookFile,
+    createJournalComplianceProfile, createBookComplianceProfile, deleteComplianceProfile, addRuleFilesToProfile, deleteRuleFileFromProfile, addCheckableRule, deleteCheckableRule, updateRuleFileRules, updateProfileReportingGuidelines, updateProfileStageConfig, updateReportBranding,
+    createJournalComplianceFolder, deleteJournalComplianceFolder, updateJournalComplianceFolderProfile, updateJournalComplianceFolderBypassCache, addManuscriptsToJournalComplianceFolder, updateJournalComplianceManuscript, deleteJournalComplianceManuscript,
+    createBookComplianceFolder, deleteBookComplianceFolder, updateBookComplianceFolderProfile, updateBookComplianceFolderBypassCache, addManuscriptsToBookComplianceFolder, updateBookComplianceManuscript, deleteBookComplianceManuscript,
+  }), [state, currentUser, currentUserData, toggleTheme, addUser, deleteUser, updateUser, addUsageLog, savePromptTemplateVersion, activatePromptTemplateVersion, setStatusBarMessage, login, logout, createMetadataFolder, deleteMetadataFolder, updateMetadataFolderBypassCache, addPdfFilesToFolder, createMetadataFolderAndAddPdfs, updatePdfFile, deletePdfFile, addMetadataAsset, updateMetadataAsset, deleteMetadataAsset, createBookFolder, deleteBookFolder, updateBookFolderBypassCache, addBookFilesToFolder, updateBookFile, deleteBookFile, createJournalComplianceProfile, createBookComplianceProfile, deleteComplianceProfile, addRuleFilesToProfile, deleteRuleFileFromProfile, addCheckableRule, deleteCheckableRule, updateRuleFileRules, updateProfileReportingGuidelines, updateProfileStageConfig, updateReportBranding, createJournalComplianceFolder, deleteJournalComplianceFolder, updateJournalComplianceFolderProfile, updateJournalComplianceFolderBypassCache, addManuscriptsToJournalComplianceFolder, updateJournalComplianceManuscript, deleteJournalComplianceManuscript, createBookComplianceFolder, deleteBookComplianceFolder, updateBookComplianceFolderProfile, updateBookComplianceFolderBypassCache, addManuscriptsToBookComplianceFolder, updateBookComplianceManuscript, deleteBookComplianceManuscript]);
 
   if (!state.isInitialized) return null;
 
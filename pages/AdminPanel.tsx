@@ -1,7 +1,8 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAppContext } from '../hooks/useAppContext';
 import { User, Role } from '../types';
+import { PromptId, PROMPT_IDS, PROMPT_DEFINITIONS, listPromptVersions, getActivePromptVersion, fillTemplate, checkTemplateVariables } from '../services/promptRegistry';
 import Modal from '../components/Modal';
 import { TrashIcon, PencilIcon } from '../components/icons/Icons';
 
@@ -73,6 +74,112 @@ const UserForm: React.FC<{ user?: User | null, onSave: (data: any) => void, onCa
     );
 };
 
+const PromptTemplateSection: React.FC = () => {
+    const { promptTemplates, savePromptTemplateVersion, activatePromptTemplateVersion } = useAppContext();
+    const [promptId, setPromptId] = useState<PromptId>('complianceCheck');
+    const [draft, setDraft] = useState('');
+    const [note, setNote] = useState('');
+    const [sampleText, setSampleText] = useState('');
+    const [showPreview, setShowPreview] = useState(false);
+
+    const versions = useMemo(() => listPromptVersions(promptId, promptTemplates), [promptId, promptTemplates]);
+    const activeVersion = useMemo(() => getActivePromptVersion(promptId, promptTemplates), [promptId, promptTemplates]);
+    const activeTemplate = versions.find(v => v.version === activeVersion)?.template || '';
+    const definition = PROMPT_DEFINITIONS[promptId];
+
+    useEffect(() => {
+        setDraft(activeTemplate);
+        setNote('');
+    }, [promptId, activeTemplate]);
+
+    const { unknown, missing } = checkTemplateVariables(promptId, draft);
+    const preview = useMemo(() => fillTemplate(draft, Object.fromEntries(Object.keys(definition.variables).map(name =>
+        [name, name === 'section' && sampleText ? sampleText : `[${name}]`]
+    ))), [draft, definition, sampleText]);
+
+    const handleSave = () => {
+        savePromptTemplateVersion(promptId, draft, note.trim());
+        setNote('');
+    };
+
+    return (
+        <section>
+            <h3 className="text-xl font-semibold text-gray-800 dark:text-white mb-1">Prompt Templates</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Saving creates a new version and makes it active for all users. Reports record the prompt versions that produced them.</p>
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg p-6 space-y-4">
+                <div className="flex flex-wrap items-center gap-3">
+                    <select value={promptId} onChange={e => { setPromptId(e.target.value as PromptId); setShowPreview(false); }} className="pl-3 pr-10 py-2 text-sm border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 focus:outline-none focus:ring-primary-500 focus:border-primary-500 rounded-md">
+                        {PROMPT_IDS.map(id => <option key={id} value={id}>{PROMPT_DEFINITIONS[id].label} (v{getActivePromptVersion(id, promptTemplates)})</option>)}
+                    </select>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">{definition.description}</span>
+                </div>
+
+                {Object.keys(definition.variables).length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {Object.entries(definition.variables).map(([name, description]) => (
+                            <code key={name} title={description} className="px-2 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-700 text-primary-700 dark:text-primary-300 cursor-help">{`{{${name}}}`}</code>
+                        ))}
+                    </div>
+                )}
+
+                <textarea value={draft} onChange={e => setDraft(e.target.value)} rows={14} spellCheck={false} className="block w-full px-3 py-2 font-mono text-xs bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500" />
+
+                {(unknown.length > 0 || missing.length > 0) && (
+                    <div className="text-xs text-yellow-600 dark:text-yellow-400 space-y-1">
+                        {unknown.length > 0 && <p>Unknown variables (will render empty): {unknown.map(v => `{{${v}}}`).join(', ')}</p>}
+                        {missing.length > 0 && <p>Not used by this template: {missing.map(v => `{{${v}}}`).join(', ')}</p>}
+                    </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-3">
+                    <input type="text" value={note} onChange={e => setNote(e.target.value)} placeholder="Change note (optional)" className="flex-1 min-w-[12rem] px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500" />
+                    <button onClick={() => setShowPreview(p => !p)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600">{showPreview ? 'Hide Preview' : 'Preview'}</button>
+                    <button onClick={() => setDraft(activeTemplate)} disabled={draft === activeTemplate} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600 disabled:opacity-50">Discard Changes</button>
+                    <button onClick={handleSave} disabled={!draft.trim() || draft === activeTemplate} className="px-4 py-2 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md shadow-sm hover:bg-primary-700 disabled:opacity-50">Save as New Version</button>
+                </div>
+
+                {showPreview && (
+                    <div className="space-y-2">
+                        {'section' in definition.variables && (
+                            <textarea value={sampleText} onChange={e => setSampleText(e.target.value)} rows={3} placeholder="Optional sample document text for {{section}}" className="block w-full px-3 py-2 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md" />
+                        )}
+                        <pre className="p-3 text-xs whitespace-pre-wrap bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md max-h-80 overflow-y-auto">{preview}</pre>
+                    </div>
+                )}
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                        <thead className="bg-gray-50 dark:bg-gray-700">
+                            <tr>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Version</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Created</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Note</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {[...versions].reverse().map(v => (
+                                <tr key={v.version}>
+                                    <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                                        v{v.version}
+                                        {v.version === activeVersion && <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">active</span>}
+                                    </td>
+                                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{v.createdAt ? `${new Date(v.createdAt).toLocaleString()}${v.createdBy ? ` by ${v.createdBy}` : ''}` : 'Shipped with the app'}</td>
+                                    <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-300">{v.note || '-'}</td>
+                                    <td className="px-4 py-2 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                                        <button onClick={() => setDraft(v.template)} className="text-primary-600 hover:text-primary-900 dark:text-primary-400 dark:hover:text-primary-200">Load</button>
+                                        {v.version !== activeVersion && <button onClick={() => activatePromptTemplateVersion(promptId, v.version)} className="text-primary-600 hover:text-primary-900 dark:text-primary-400 dark:hover:text-primary-200">{v.version < activeVersion ? 'Roll back' : 'Activate'}</button>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </section>
+    );
+};
+
 export default function AdminPanel() {
   const { users, addUser, deleteUser, updateUser, usageLogs } = useAppContext();
   const [isAddUserModalOpen, setAddUserModalOpen] = useState(false);
@@ -140,6 +247,9 @@ export default function AdminPanel() {
         </div>
       </section>
 
+      {/* Prompt Template Section */}
+      <PromptTemplateSection />
+
       {/* Global Usage History Section */}
       <section>
         <h3 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">Global Usage History</h3>
@@ -8,58 +8,36 @@ import {
     ChevronLeftIcon, DownloadIcon, CheckIcon, XIcon, ExclamationIcon, ChevronDownIcon,
     TrashIcon, FolderIcon, PlusCircleIcon, UploadIcon, ClipboardListIcon, ShieldCheckIcon, DocumentTextIcon, InfoIcon, BookOpenIcon, PhotographIcon, PencilIcon
 } from '../components/icons/Icons';
-import * as pdfjsLib from 'pdfjs-dist';
-import mammoth from 'mammoth';
-import { performComplianceCheck, analyzeBookStructure, analyzeReadability, validateBookMetadata, analyzeBookVisuals, analyzeBookEditorial } from '../services/aiService';
+import { performComplianceCheck, analyzeBookStructure, analyzeReadability, validateBookMetadata, analyzeBookVisuals, analyzeBookEditorial, recordStageUsage, totalUsage, recordStageCoverage, describeCoverage, coveragePercent, describeValidation, AiResult } from '../services/aiService';
+import { getDefaultModel } from '../services/llmProvider';
+import { ingestDocument, describeDocument, acceptFor, acceptAttribute } from '../services/documentIngestion';
+import { createLocator, describeBookStructure } from '../services/documentModel';
+import ModelSelector from '../components/ModelSelector';
+import { withResultCache, hashContent } from '../services/resultCache';
+import { describePromptVersions } from '../services/promptRegistry';
+import { evaluateRules, summarizeRuleFindings } from '../services/ruleEngine';
+import { splitRuleDocument, rulesOf, listProfileRules, formatRulesForPrompt, assignRuleIds, computeRuleCoverage, describeRuleCoverage, describeRuleReference } from '../services/ruleDocument';
+import { buildReport, renderReportDocx, renderReportHtml, printReport, reportFileName, ReportFormat, ReportSectionId } from '../services/reportExport';
+import { BOOK_STAGES, ProcessingJob, StageSettings, stagesToRun, stageSettings, isStageEnabled, carryOverResults, stageState, failRunningStages } from '../services/pipelineStages';
+import { diffVersions, describeVersionDiff, versionChain, hasNewerVersion } from '../services/versionDiff';
+import { TRIAGE_KEYS, TriageFilter, carryOverTriage, countTriage, describeTriage, describeTriageFilter, matchesTriageFilter, triageStatusOf } from '../services/findingTriage';
+import { createQuoteVerifier, verifyQuotes, summarizeQuoteVerification, isUnverified, describeQuoteVerification, describeFindingLocation } from '../services/quoteVerifier';
 import {
-    ComplianceFinding, FindingStatus, ComplianceProfile, RuleFile,
-    ComplianceProjectFolder, ManuscriptFile, ManuscriptStatus, BookStructuralIssue, ManuscriptIssuePriority, ReadabilityIssue, BookMetadataIssue, VisualAssetIssue, BookEditorialIssue
+    ComplianceFinding, FindingStatus, ComplianceProfile, RuleFile, CheckableRule, RuleItem, ProfileStageConfig,
+    ComplianceProjectFolder, ManuscriptFile, ManuscriptStatus, BookStructuralIssue, ManuscriptIssuePriority, ReadabilityIssue, BookMetadataIssue, VisualAssetIssue, BookEditorialIssue, StageUsage, QuoteVerification, ReportBranding, StageRunStatus
 } from '../types';
 import ScoringDashboard from '../components/ScoringDashboard';
-
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs`;
-
-async function extractTextFromFile(file: File): Promise<string> {
-    const arrayBuffer = await file.arrayBuffer();
-
-    if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-        const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(arrayBuffer) }).promise;
-        let fullText = '';
-        for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map(item => 'str' in item ? item.str : '').join(' ');
-            fullText += `[Page ${i}]\n${pageText}\n\n`;
-            
-            // Yield to main thread every 20 pages to prevent UI hanging
-            if (i % 20 === 0) {
-                await new Promise(resolve => setTimeout(resolve, 0));
-            }
-        }
-        return fullText;
-    } else if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || file.name.endsWith('.docx')) {
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        // Heuristic to simulate page numbers for Word documents
-        const words = result.value.split(/\s+/);
-        const wordsPerPage = 300; // An average page has about 300 words
-        let fullText = '';
-        let pageCounter = 1;
-        for (let i = 0; i < words.length; i += wordsPerPage) {
-            const chunk = words.slice(i, i + wordsPerPage).join(' ');
-            if (chunk.trim()) {
-                fullText += `[Page ${pageCounter}]\n${chunk}\n\n`;
-                pageCounter++;
-            }
-            // Yield every 50 chunks
-            if (pageCounter % 50 === 0) {
-                await new Promise(resolve => setTimeout(resolve, 0));
-            }
-        }
-        return fullText;
-    } else {
-        throw new Error(`Unsupported file type: ${file.name}. Please upload a PDF or DOCX file.`);
-    }
-}
+import CoverageSummary from '../components/CoverageSummary';
+import CheckableRulesEditor from '../components/CheckableRulesEditor';
+import RuleListEditor from '../components/RuleListEditor';
+import RuleCoverageSummary from '../components/RuleCoverageSummary';
+import QuoteVerificationBadge from '../components/QuoteVerificationBadge';
+import ReportExportModal from '../components/ReportExportModal';
+import StageStatusPanel from '../components/StageStatusPanel';
+import VersionDiffModal from '../components/VersionDiffModal';
+import PipelineStagesEditor from '../components/PipelineStagesEditor';
+import FindingTriageControl, { TriageChange } from '../components/FindingTriageControl';
+import TriageFilterBar from '../components/TriageFilterBar';
 
 const renderStatusIcon = (status: FindingStatus | 'Pass' | 'Fail' | 'Warning' | 'Info') => {
     // Map FindingStatus and new status strings to color classes
@@ -99,19 +77,30 @@ const ManuscriptStatusIndicator: React.FC<{ status: ManuscriptStatus }> = ({ sta
     return <span className={`px-2 py-1 text-xs font-medium rounded-full ${styles[status]}`}>{status}</span>;
 };
 
-const ProfileCard: React.FC<{ profile: ComplianceProfile; ruleFiles: Record<string, RuleFile>; isExpanded: boolean; onExpandToggle: (id: string) => void; onDelete: (id: string) => void; onRuleDelete: (ruleId: string) => void; onDrop: (files: File[]) => void; }> = ({ profile, ruleFiles, isExpanded, onExpandToggle, onDelete, onRuleDelete, onDrop }) => {
-    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: { 'application/pdf': ['.pdf'], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'] } });
+const ProfileCard: React.FC<{ profile: ComplianceProfile; ruleFiles: Record<string, RuleFile>; isExpanded: boolean; onExpandToggle: (id: string) => void; onDelete: (id: string) => void; onRuleDelete: (ruleId: string) => void; onCheckableRuleAdd: (rule: CheckableRule) => void; onCheckableRuleDelete: (ruleId: string) => void; onRuleFileRulesChange: (ruleFileId: string, rules: RuleItem[]) => void; onStageConfigChange: (stageId: string, config: ProfileStageConfig) => void; canUseProModel?: boolean; onDrop: (files: File[]) => void; }> = ({ profile, ruleFiles, isExpanded, onExpandToggle, onDelete, onRuleDelete, onCheckableRuleAdd, onCheckableRuleDelete, onRuleFileRulesChange, onStageConfigChange, canUseProModel, onDrop }) => {
+    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: acceptFor(['pdf', 'docx']) });
+    const [openRuleFileId, setOpenRuleFileId] = useState<string | null>(null);
     return (
         <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md overflow-hidden transition-all duration-300">
             <button onClick={() => onExpandToggle(profile.id)} className="w-full p-4 flex justify-between items-center text-left hover:bg-slate-50 dark:hover:bg-slate-700/50">
-                <div><p className="font-bold text-lg text-slate-800 dark:text-slate-100">{profile.name}</p><p className="text-sm text-slate-500">{profile.ruleFileIds.length} rule file(s)</p></div>
+                <div><p className="font-bold text-lg text-slate-800 dark:text-slate-100">{profile.name}</p><p className="text-sm text-slate-500">{profile.ruleFileIds.length} rule file(s), {profile.checkableRules?.length || 0} checkable rule(s)</p></div>
                 <div className="flex items-center space-x-2">
                     <button onClick={(e) => { e.stopPropagation(); onDelete(profile.id)}} className="p-2 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50"><TrashIcon className="h-5 w-5"/></button>
                     <ChevronDownIcon className={`h-5 w-5 transition-transform ${isExpanded ? 'rotate-180' : ''}`}/>
                 </div>
             </button>
             {isExpanded && <div className="p-4 border-t border-slate-200 dark:border-slate-700 space-y-3">
-                {profile.ruleFileIds.map(id => (<div key={id} className="flex justify-between items-center bg-slate-100 dark:bg-slate-700/50 p-2 rounded-md"><p className="text-sm truncate">{ruleFiles[id]?.name}</p><button onClick={() => onRuleDelete(id)} className="text-slate-400 hover:text-red-500 ml-2"><XIcon className="h-4 w-4"/></button></div>))}
+                {profile.ruleFileIds.map(id => (<div key={id} className="space-y-2">
+                    <div className="flex justify-between items-center bg-slate-100 dark:bg-slate-700/50 p-2 rounded-md">
+                        <button onClick={() => setOpenRuleFileId(openRuleFileId === id ? null : id)} disabled={!ruleFiles[id]} className="flex items-center min-w-0 text-left">
+                            <ChevronDownIcon className={`h-4 w-4 mr-1 flex-shrink-0 transition-transform ${openRuleFileId === id ? 'rotate-180' : ''}`}/>
+                            <span className="text-sm truncate">{ruleFiles[id]?.name}</span>
+                            {ruleFiles[id] && <span className="ml-2 text-xs text-slate-500 whitespace-nowrap">{rulesOf(ruleFiles[id]).length} rule(s)</span>}
+                        </button>
+                        <button onClick={() => onRuleDelete(id)} className="text-slate-400 hover:text-red-500 ml-2"><XIcon className="h-4 w-4"/></button>
+                    </div>
+                    {openRuleFileId === id && ruleFiles[id] && <RuleListEditor ruleFileId={id} rules={rulesOf(ruleFiles[id])} onChange={(rules) => onRuleFileRulesChange(id, rules)} />}
+                </div>))}
                 <div {...getRootProps()} className="mt-2 border-2 border-dashed rounded-lg p-6 text-center cursor-pointer hover:border-sky-500 hover:bg-sky-50 dark:hover:bg-sky-900/20 text-slate-500 hover:text-sky-600 dark:hover:text-sky-400 transition-colors">
                     <input {...getInputProps()} />
                     <UploadIcon className="h-8 w-8 mx-auto" />
@@ -121,27 +110,40 @@ const ProfileCard: React.FC<{ profile: ComplianceProfile; ruleFiles: Record<stri
                         <span>Your files are processed securely.</span>
                     </div>
                 </div>
+                <CheckableRulesEditor rules={profile.checkableRules || []} onAdd={onCheckableRuleAdd} onDelete={onCheckableRuleDelete} />
+                <PipelineStagesEditor stages={BOOK_STAGES} config={profile.stages || {}} canUseProModel={canUseProModel} onChange={onStageConfigChange} />
             </div>}
         </div>
     );
 };
 
-const ManuscriptRow: React.FC<{ manuscript: ManuscriptFile; onViewReport: (m: ManuscriptFile) => void; onViewLogs: (m: ManuscriptFile) => void; onManuscriptDelete: (id: string) => void; onDownloadReport: (m: ManuscriptFile) => void; }> = ({ manuscript, onViewReport, onViewLogs, onManuscriptDelete, onDownloadReport }) => (
+const ManuscriptRow: React.FC<{ manuscript: ManuscriptFile; isSuperseded: boolean; onViewReport: (m: ManuscriptFile) => void; onViewLogs: (m: ManuscriptFile) => void; onManuscriptDelete: (id: string) => void; onDownloadReport: (m: ManuscriptFile) => void; onUploadRevision: (m: ManuscriptFile, file: File) => void; onCompare: (m: ManuscriptFile) => void; }> = ({ manuscript, isSuperseded, onViewReport, onViewLogs, onManuscriptDelete, onDownloadReport, onUploadRevision, onCompare }) => (
     <div className="bg-slate-100 dark:bg-slate-700/50 p-3 rounded-md">
         <div className="flex justify-between items-center gap-4">
             <div className="flex-1 min-w-0">
                 <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{manuscript.name}</p>
                  <div className="mt-1">
                     <ManuscriptStatusIndicator status={manuscript.status} />
+                    {(manuscript.version || isSuperseded) && <span title={isSuperseded ? 'A newer version was uploaded' : undefined} className="ml-2 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300">v{manuscript.version || 1}{isSuperseded && ' (revised)'}</span>}
+                    {manuscript.status === 'completed' && manuscript.cachedStages && manuscript.cachedStages.length > 0 && (
+                        <span title={`Reused from cache: ${manuscript.cachedStages.join(', ')}`} className="ml-2 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-slate-200 dark:bg-slate-600 text-slate-600 dark:text-slate-300">Cached ({manuscript.cachedStages.length})</span>
+                    )}
                 </div>
             </div>
             <div className="flex items-center space-x-2 ml-2 flex-shrink-0">
+                {(manuscript.status === 'completed' || manuscript.status === 'error') && <button onClick={() => onViewReport(manuscript)} className="px-2 py-1 text-xs font-semibold text-sky-700 dark:text-sky-300 bg-sky-100 dark:bg-sky-900/50 rounded-md hover:bg-sky-200 dark:hover:bg-sky-900">View Report</button>}
                 {manuscript.status === 'completed' && (
                     <>
-                        <button onClick={() => onViewReport(manuscript)} className="px-2 py-1 text-xs font-semibold text-sky-700 dark:text-sky-300 bg-sky-100 dark:bg-sky-900/50 rounded-md hover:bg-sky-200 dark:hover:bg-sky-900">View Report</button>
                         <button onClick={() => onDownloadReport(manuscript)} className="px-2 py-1 text-xs font-semibold text-slate-700 dark:text-slate-300 bg-slate-200 dark:bg-slate-600 rounded-md hover:bg-slate-300 dark:hover:bg-slate-500 inline-flex items-center"><DownloadIcon className="h-3 w-3 mr-1.5"/>Download</button>
                     </>
                 )}
+                {manuscript.previousVersionId && manuscript.status === 'completed' && <button onClick={() => onCompare(manuscript)} className="px-2 py-1 text-xs font-semibold text-indigo-700 dark:text-indigo-300 bg-indigo-100 dark:bg-indigo-900/50 rounded-md hover:bg-indigo-200 dark:hover:bg-indigo-900">Compare</button>}
+                {!isSuperseded && (manuscript.status === 'completed' || manuscript.status === 'error') && (
+                    <label title="Upload Revision" className="p-1.5 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-full cursor-pointer">
+                        <UploadIcon className="h-4 w-4"/>
+                        <input type="file" accept={acceptAttribute(['pdf', 'docx', 'epub'])} onChange={e => { const file = e.target.files?.[0]; if (file) onUploadRevision(manuscript, file); e.target.value = ''; }} className="hidden"/>
+                    </label>
+                )}
                 <button onClick={() => onViewLogs(manuscript)} title="View Logs" className="p-1.5 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-full"><ClipboardListIcon className="h-4 w-4"/></button>
                 <button onClick={() => onManuscriptDelete(manuscript.id)} title="Delete" className="p-1.5 text-slate-500 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full"><TrashIcon className="h-4 w-4"/></button>
             </div>
@@ -150,20 +152,20 @@ const ManuscriptRow: React.FC<{ manuscript: ManuscriptFile; onViewReport: (m: Ma
     </div>
 );
 
-const FolderCard: React.FC<{ folder: ComplianceProjectFolder; profiles: ComplianceProfile[]; isExpanded: boolean; onExpandToggle: (id: string) => void; onDelete: (id: string) => void; onMapProfile: (profId: string | null) => void; onManuscriptDelete: (id: string) => void; onDrop: (files: File[]) => void; onViewReport: (m: ManuscriptFile) => void; onViewLogs: (m: ManuscriptFile) => void; onDownloadReport: (m: ManuscriptFile) => void; }> = ({ folder, profiles, isExpanded, onExpandToggle, onDelete, onMapProfile, onManuscriptDelete, onDrop, onViewReport, onViewLogs, onDownloadReport }) => {
-    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: { 'application/pdf': ['.pdf'], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'] } });
+const FolderCard: React.FC<{ folder: ComplianceProjectFolder; profiles: ComplianceProfile[]; isExpanded: boolean; onExpandToggle: (id: string) => void; onDelete: (id: string) => void; onMapProfile: (profId: string | null) => void; onToggleBypassCache: (bypass: boolean) => void; onManuscriptDelete: (id: string) => void; onDrop: (files: File[]) => void; onViewReport: (m: ManuscriptFile) => void; onViewLogs: (m: ManuscriptFile) => void; onDownloadReport: (m: ManuscriptFile) => void; onUploadRevision: (m: ManuscriptFile, file: File) => void; onCompare: (m: ManuscriptFile) => void; }> = ({ folder, profiles, isExpanded, onExpandToggle, onDelete, onMapProfile, onToggleBypassCache, onManuscriptDelete, onDrop, onViewReport, onViewLogs, onDownloadReport, onUploadRevision, onCompare }) => {
+    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: acceptFor(['pdf', 'docx', 'epub']) });
     return (
          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md transition-all duration-300">
             <button onClick={() => onExpandToggle(folder.id)} className="w-full p-4 flex justify-between items-center text-left hover:bg-slate-50 dark:hover:bg-slate-700/50">
-                <div><p className="font-bold text-lg text-slate-800 dark:text-slate-100">{folder.name}</p><div className="mt-1" onClick={e => e.stopPropagation()}><select value={folder.profileId || ''} onChange={e => onMapProfile(e.target.value || null)} className="text-sm bg-slate-100 dark:bg-slate-700 border rounded-md p-1 focus:ring-purple-500 focus:border-purple-500"><option value="">-- Map a Profile --</option>{profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</select></div></div>
+                <div><p className="font-bold text-lg text-slate-800 dark:text-slate-100">{folder.name}</p><div className="mt-1" onClick={e => e.stopPropagation()}><select value={folder.profileId || ''} onChange={e => onMapProfile(e.target.value || null)} className="text-sm bg-slate-100 dark:bg-slate-700 border rounded-md p-1 focus:ring-purple-500 focus:border-purple-500"><option value="">-- Map a Profile --</option>{profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</select><label className="ml-3 inline-flex items-center text-xs text-slate-500 dark:text-slate-400" title="Re-run every stage even if an identical analysis is cached"><input type="checkbox" checked={!!folder.bypassCache} onChange={e => onToggleBypassCache(e.target.checked)} className="mr-1 h-3.5 w-3.5 rounded text-purple-600 focus:ring-purple-500"/>Bypass cache</label></div></div>
                 <div className="flex items-center space-x-2"><button onClick={(e) => { e.stopPropagation(); onDelete(folder.id)}} className="p-2 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50"><TrashIcon className="h-5 w-5"/></button><ChevronDownIcon className={`h-5 w-5 transition-transform ${isExpanded ? 'rotate-180' : ''}`}/></div>
             </button>
             {isExpanded && <div className="p-4 border-t border-slate-200 dark:border-slate-700">
-                <div className="space-y-2">{folder.manuscripts.map(m => <ManuscriptRow key={m.id} manuscript={m} onViewReport={onViewReport} onViewLogs={onViewLogs} onManuscriptDelete={onManuscriptDelete} onDownloadReport={onDownloadReport} />)}</div>
+                <div className="space-y-2">{folder.manuscripts.map(m => <ManuscriptRow key={m.id} manuscript={m} isSuperseded={hasNewerVersion(folder.manuscripts, m)} onViewReport={onViewReport} onViewLogs={onViewLogs} onManuscriptDelete={onManuscriptDelete} onDownloadReport={onDownloadReport} onUploadRevision={onUploadRevision} onCompare={onCompare} />)}</div>
                 <div {...getRootProps()} className="mt-4 border-2 border-dashed rounded-lg p-6 text-center cursor-pointer hover:border-purple-500 hover:bg-purple-50 dark:hover:bg-purple-900/20 text-slate-500 hover:text-purple-600 dark:hover:text-purple-400 transition-colors">
                     <input {...getInputProps()} />
                     <UploadIcon className="h-8 w-8 mx-auto" />
-                    <p className="mt-2 text-sm">Upload Manuscripts (.pdf, .docx)</p>
+                    <p className="mt-2 text-sm">Upload Manuscripts (.pdf, .docx, .epub)</p>
                     <div className="mt-2 flex items-center justify-center text-xs text-slate-500">
                         <ShieldCheckIcon className="h-4 w-4 mr-1.5 text-green-500"/>
                         <span>Your files are processed securely.</span>
@@ -175,14 +177,14 @@ const FolderCard: React.FC<{ folder: ComplianceProjectFolder; profiles: Complian
 };
 
 const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) => {
-    const { currentUser, addUsageLog, setStatusBarMessage, currentUserData, createBookComplianceProfile, deleteComplianceProfile, addRuleFilesToProfile, deleteRuleFileFromProfile, createBookComplianceFolder, deleteBookComplianceFolder, updateBookComplianceFolderProfile, addManuscriptsToBookComplianceFolder, updateBookComplianceManuscript, deleteBookComplianceManuscript } = useAppContext();
+    const { currentUser, addUsageLog, setStatusBarMessage, currentUserData, createBookComplianceProfile, deleteComplianceProfile, addRuleFilesToProfile, deleteRuleFileFromProfile, addCheckableRule, deleteCheckableRule, updateRuleFileRules, updateProfileStageConfig, updateReportBranding, createBookComplianceFolder, deleteBookComplianceFolder, updateBookComplianceFolderProfile, updateBookComplianceFolderBypassCache, addManuscriptsToBookComplianceFolder, updateBookComplianceManuscript, deleteBookComplianceManuscript } = useAppContext();
     const allProfiles = currentUserData?.complianceProfiles || [];
     const profiles = useMemo(() => allProfiles.filter(p => p.type === 'book'), [allProfiles]);
     const ruleFiles = currentUserData?.ruleFiles || {};
     const folders = currentUserData?.bookComplianceFolders || [];
     
     const [activeTab, setActiveTab] = useState<'profiles' | 'projects'>('projects');
-    const [processingQueue, setProcessingQueue] = useState<string[]>([]);
+    const [processingQueue, setProcessingQueue] = useState<ProcessingJob[]>([]);
     const [isProcessing, setIsProcessing] = useState(false);
     const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({});
     const transientFiles = useRef<Map<string, File>>(new Map());
@@ -192,10 +194,16 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
     const [newProfileName, setNewProfileName] = useState('');
     const [newFolderName, setNewFolderName] = useState('');
     const [selectedProfileForFolder, setSelectedProfileForFolder] = useState<string | null>(null);
-    const [selectedModel, setSelectedModel] = useState(currentUser?.canUseProModel ? 'gemini-3-pro-preview' : 'gemini-2.5-flash');
+    const [selectedModel, setSelectedModel] = useState(() => getDefaultModel(currentUser?.canUseProModel));
     const [reportTab, setReportTab] = useState<'compliance' | 'structure' | 'readability' | 'metadata' | 'visuals' | 'editorial'>('compliance');
     
     const [isHeaderExpanded, setIsHeaderExpanded] = useState(true);
+    const [hideUnverified, setHideUnverified] = useState(false);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    const [triageFilter, setTriageFilter] = useState<TriageFilter>('active');
+    // Findings to show and export; triage applies when the report's key is given.
+    const visibleFindings = <T extends object>(items: T[] | undefined, triageKey?: (item: T) => string, manuscript = selectedManuscript): T[] => (items || []).filter(item =>
+        (!hideUnverified || !isUnverified(item)) && (!triageKey || matchesTriageFilter(triageFilter, triageStatusOf(manuscript?.triage, triageKey(item)))));
 
     const addComplianceLog = useCallback((manuscriptId: string, message: string) => {
         const timestamp = new Date().toLocaleTimeString();
@@ -211,9 +219,9 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
         const newRuleFileEntries: Record<string, RuleFile> = {};
         for (const file of acceptedFiles) {
             try {
-                const textContent = await extractTextFromFile(file);
+                const { text: textContent } = await ingestDocument(file);
                 const id = Math.random().toString(36).substring(2, 9);
-                newRuleFileEntries[id] = { id, name: file.name, textContent };
+                newRuleFileEntries[id] = { id, name: file.name, textContent, rules: splitRuleDocument(id, textContent) };
             } catch (error) {
                 setStatusBarMessage(`Failed to process ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
             }
@@ -224,14 +232,25 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
         }
     }, [setStatusBarMessage, addRuleFilesToProfile]);
 
+    const [compareId, setCompareId] = useState<string | null>(null);
+    const compared = folders.flatMap(f => f.manuscripts).find(m => m.id === compareId);
+    const handleUploadRevision = (folderId: string, previous: ManuscriptFile, file: File) => {
+        const id = Math.random().toString(36).substring(2, 9);
+        transientFiles.current.set(id, file);
+        const revision: ManuscriptFile = { id, name: file.name, fileSize: file.size, status: 'queued', logs: [], progress: 0, version: (previous.version || 1) + 1, previousVersionId: previous.id };
+        addManuscriptsToBookComplianceFolder(folderId, [revision]);
+        setProcessingQueue(prev => [...prev, { manuscriptId: id }]);
+        setStatusBarMessage(`${file.name} added to queue as version ${revision.version} of ${previous.name}.`, 'info');
+    };
+
     const onManuscriptsDrop = useCallback((acceptedFiles: File[], folderId: string) => {
         const newManuscripts: ManuscriptFile[] = acceptedFiles.map(file => {
             const id = Math.random().toString(36).substring(2, 9);
             transientFiles.current.set(id, file);
-            return { id, name: file.name, status: 'queued', logs: [], progress: 0 };
+            return { id, name: file.name, fileSize: file.size, status: 'queued', logs: [], progress: 0 };
         });
         addManuscriptsToBookComplianceFolder(folderId, newManuscripts);
-        setProcessingQueue(prev => [...prev, ...newManuscripts.map(m => m.id)]);
+        setProcessingQueue(prev => [...prev, ...newManuscripts.map(m => ({ manuscriptId: m.id }))]);
         setStatusBarMessage(`${newManuscripts.length} manuscript(s) added to queue.`, 'info');
     }, [setStatusBarMessage, addManuscriptsToBookComplianceFolder]);
 
@@ -239,7 +258,7 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
         const processNextInQueue = async () => {
             if (isProcessing || processingQueue.length === 0) return;
             setIsProcessing(true);
-            const manuscriptId = processingQueue[0];
+            const { manuscriptId, stageIds } = processingQueue[0];
             const findResult = folders.reduce((acc, f) => {
                 const m = f.manuscripts.find(ms => ms.id === manuscriptId);
                 if (m) { acc.folder = f; acc.manuscript = m; }
@@ -254,112 +273,195 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                 setIsProcessing(false); setProcessingQueue(q => q.slice(1)); return;
             }
             const profile = profiles.find(p => p.id === folder.profileId);
-            if (!profile || profile.ruleFileIds.length === 0) {
+            if (!profile || (profile.ruleFileIds.length === 0 && !profile.checkableRules?.length)) {
                 addComplianceLog(manuscriptId, `ERROR: Profile '${profile?.name || 'Unknown'}' is empty.`);
                 updateBookComplianceManuscript(manuscriptId, { status: 'error' });
                 setIsProcessing(false); setProcessingQueue(q => q.slice(1)); return;
             }
             
+            const stages = stagesToRun(BOOK_STAGES, manuscript, profile, stageIds);
+            const runs = (id: string) => stages.some(stage => stage.id === id);
+            const settingsOf = (id: string) => stageSettings(profile, id, selectedModel, currentUser?.canUseProModel);
+            let stageStates = { ...manuscript.stages };
+            const setStage = (id: string, status: StageRunStatus, error?: string) => {
+                stageStates = { ...stageStates, [id]: stageState(status, error) };
+                updateBookComplianceManuscript(manuscriptId, { stages: stageStates });
+            };
+
             updateBookComplianceManuscript(manuscriptId, { status: 'processing', progress: 0 });
-            addComplianceLog(manuscriptId, "Processing started.");
+            addComplianceLog(manuscriptId, stageIds ? `Processing started for: ${stages.map(stage => stage.label).join(', ')}.` : "Processing started.");
+            const disabled = BOOK_STAGES.filter(stage => !isStageEnabled(profile, stage));
+            if (disabled.length > 0) addComplianceLog(manuscriptId, `Stages off in profile '${profile.name}': ${disabled.map(stage => stage.label).join(', ')}.`);
+            stages.forEach(stage => {
+                const { model, rejectedModel } = settingsOf(stage.id);
+                if (rejectedModel) addComplianceLog(manuscriptId, `WARNING: ${stage.label} is set to ${rejectedModel}, which this account may not use; running it with ${model}.`);
+            });
             try {
                 addComplianceLog(manuscriptId, "Extracting text from manuscript...");
-                const manuscriptText = await extractTextFromFile(fileObject);
+                const ingested = await ingestDocument(fileObject, ['pdf', 'docx', 'epub']);
+                const manuscriptText = ingested.text;
+                addComplianceLog(manuscriptId, `Extracted ${describeDocument(ingested)}.`);
+                ingested.warnings?.forEach(warning => addComplianceLog(manuscriptId, `WARNING: ${warning}`));
+                const declaredStructure = describeBookStructure(ingested);
+                const structureVariant = declaredStructure ? await hashContent(declaredStructure) : undefined;
                 
                 const CHUNK_SIZE_PAGES = 25;
                 const pageChunks = manuscriptText.split(/(?=\[Page \d+\])/g);
                 const textChunks = pageChunks.reduce((acc, chunk, i) => (i % CHUNK_SIZE_PAGES ? acc[acc.length - 1] += chunk : acc.push(chunk), acc), [] as string[]);
-                addComplianceLog(manuscriptId, `Split into ${textChunks.length} chunks.`);
+                if (runs('compliance')) addComplianceLog(manuscriptId, `Split into ${textChunks.length} chunks.`);
 
-                const rulesText = profile.ruleFileIds.map(id => ruleFiles[id]?.textContent).filter(Boolean).join('\n\n---\n\n');
-                if (!rulesText.trim()) throw new Error('No rule documents found or they are empty.');
+                const rulesText = formatRulesForPrompt(profile.ruleFileIds.map(id => ruleFiles[id]).filter(Boolean));
+                const profileRules = listProfileRules(profile, ruleFiles);
+                if (!rulesText.trim() && !profile.checkableRules?.length) throw new Error('No rule documents found or they are empty.');
+                if (!rulesText.trim() && runs('compliance')) addComplianceLog(manuscriptId, 'No rule documents in the profile; only its checkable rules will be evaluated.');
                 
-                const totalSteps = textChunks.length + 5; // chunks + structural + readability + metadata + visuals + editorial
-
-                let allFindings: ComplianceFinding[] = [];
-                for (const [index, chunk] of textChunks.entries()) {
-                    updateBookComplianceManuscript(manuscriptId, { progress: Math.round(((index + 1) / totalSteps) * 100) });
-                    addComplianceLog(manuscriptId, `Processing compliance chunk ${index + 1}/${textChunks.length}...`);
+                const totalSteps = (runs('compliance') ? textChunks.length : 0) + stages.filter(stage => stage.id !== 'compliance').length; // One step per compliance chunk and per other stage
+                let step = 0;
+                const advance = () => updateBookComplianceManuscript(manuscriptId, { progress: Math.round((++step / Math.max(totalSteps, 1)) * 100) });
+                const stageUsage: StageUsage[] = [];
+                const { stageCoverage, cachedStages, promptVersions } = carryOverResults(manuscript, stages);
+                const logValidation = (stage: string, result: { validationIssues?: string[], repairs?: number }) => {
+                    const summary = describeValidation(result);
+                    if (summary) addComplianceLog(manuscriptId, `WARNING: ${stage} output did not fully match the expected format (${summary}).`);
+                };
+                const recordResult = (stage: string, { usage, coverage, cached, promptVersions: stageVersions, ...validation }: AiResult<unknown>) => {
+                    recordStageUsage(stageUsage, stage, usage);
+                    recordStageCoverage(stageCoverage, stage, coverage);
+                    if (cached && !cachedStages.includes(stage)) cachedStages.push(stage);
+                    Object.assign(promptVersions, stageVersions);
+                    logValidation(stage, validation);
+                };
+                // Runs one single-call stage; a failure is logged and recorded on the stage, and the run goes on.
+                const runStage = async <T,>(id: string, call: (settings: StageSettings) => Promise<AiResult<T[]>>): Promise<T[] | undefined> => {
+                    const stage = BOOK_STAGES.find(s => s.id === id)!;
+                    const settings = settingsOf(id);
+                    advance();
+                    setStage(id, 'running');
+                    addComplianceLog(manuscriptId, `Starting ${stage.label.toLowerCase()} with ${settings.model}...`);
                     try {
-                        const { findings } = await performComplianceCheck(chunk, rulesText, selectedModel, false); // Always false for books
-                        if (findings.length > 0) {
-                            addComplianceLog(manuscriptId, `Found ${findings.length} compliance issues in chunk ${index + 1}.`);
-                            allFindings.push(...findings);
+                        const result = await call(settings);
+                        recordResult(stage.label, result);
+                        addComplianceLog(manuscriptId, `${stage.label} finished. Found ${result.data.length} items.`);
+                        setStage(id, 'completed');
+                        return result.data;
+                    } catch (stageError) {
+                        const message = stageError instanceof Error ? stageError.message : "Unknown";
+                        addComplianceLog(manuscriptId, `ERROR during ${stage.label.toLowerCase()}: ${message}`);
+                        setStage(id, 'failed', message);
+                        return undefined;
+                    }
+                };
+                const docHash = await hashContent(manuscriptText);
+                const rulesHash = await hashContent(rulesText);
+                const verifyQuote = createQuoteVerifier(manuscriptText, createLocator(ingested));
+                const verified: { quoteVerification?: QuoteVerification }[] = [];
+                const results: Partial<ManuscriptFile> = {};
+
+                if (runs('compliance')) {
+                    setStage('compliance', 'running');
+                    const { model, options, cacheVariant } = settingsOf('compliance');
+                    let allFindings: ComplianceFinding[] = [];
+                    let failedChunks = 0;
+                    for (const [index, chunk] of (rulesText.trim() ? textChunks : []).entries()) {
+                        advance();
+                        addComplianceLog(manuscriptId, `Processing compliance chunk ${index + 1}/${textChunks.length}...`);
+                        try {
+                            const result = await withResultCache({ docHash: await hashContent(chunk), stage: 'complianceCheck', model, rulesHash, variant: cacheVariant('book') }, folder.bypassCache, () => performComplianceCheck(chunk, rulesText, model, false, options)); // Always false for books
+                            const { findings } = result.data;
+                            recordResult('Compliance Check', result);
+                            if (findings.length > 0) {
+                                addComplianceLog(manuscriptId, `Found ${findings.length} compliance issues in chunk ${index + 1}.`);
+                                allFindings.push(...findings);
+                            }
+                        } catch (chunkError) {
+                            failedChunks++;
+                            addComplianceLog(manuscriptId, `ERROR processing compliance chunk ${index + 1}: ${chunkError instanceof Error ? chunkError.message : "Unknown"}`);
+                            recordStageCoverage(stageCoverage, 'Compliance Check', { totalChars: chunk.length, analyzedChars: 0, totalSections: 1, analyzedSections: 0 });
                         }
-                    } catch (chunkError) { addComplianceLog(manuscriptId, `ERROR processing compliance chunk ${index + 1}: ${chunkError instanceof Error ? chunkError.message : "Unknown"}`); }
-                    if (index < textChunks.length - 1) await new Promise<void>(resolve => setTimeout(() => resolve(), 1500));
-                }
-                
-                updateBookComplianceManuscript(manuscriptId, { progress: Math.round(((textChunks.length + 1) / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Compliance check finished. Found ${allFindings.length} items. Starting structural analysis...`);
-                let structuralIssues: BookStructuralIssue[] = [];
-                try {
-                    structuralIssues = await analyzeBookStructure(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Structural analysis finished. Found ${structuralIssues.length} issues.`);
-                } catch (analysisError) {
-                    addComplianceLog(manuscriptId, `ERROR during structural analysis: ${analysisError instanceof Error ? analysisError.message : "Unknown"}`);
+                        if (index < textChunks.length - 1) await new Promise<void>(resolve => setTimeout(() => resolve(), 1500));
+                    }
+
+                    allFindings = assignRuleIds(allFindings, profileRules);
+                    const unmatched = allFindings.filter(f => !f.ruleId).length;
+                    if (unmatched > 0) addComplianceLog(manuscriptId, `WARNING: ${unmatched} compliance finding(s) could not be tied to a profile rule.`);
+                    addComplianceLog(manuscriptId, `Compliance check finished. Found ${allFindings.length} items.`);
+                    allFindings = verifyQuotes(allFindings, verifyQuote, f => f.manuscriptQuote, { get: f => f.manuscriptPage, set: (f, page) => ({ ...f, manuscriptPage: page }) });
+                    verified.push(...allFindings);
+                    if (profile.checkableRules?.length) {
+                        // Added after quote verification: their evidence is measured text ("Numbered in the text: 1, 2"), not always a verbatim quote.
+                        const ruleFindings = evaluateRules(profile.checkableRules, ingested);
+                        addComplianceLog(manuscriptId, `Checkable rules: ${summarizeRuleFindings(ruleFindings)}.`);
+                        allFindings = [...ruleFindings, ...allFindings];
+                    }
+                    const ruleCoverage = computeRuleCoverage(profileRules, allFindings);
+                    addComplianceLog(manuscriptId, `Rule coverage: ${describeRuleCoverage(ruleCoverage)}.`);
+                    Object.assign(results, { complianceReport: allFindings, ruleCoverage });
+                    setStage('compliance', failedChunks > 0 ? 'failed' : 'completed', failedChunks > 0 ? `${failedChunks} of ${textChunks.length} chunk(s) failed` : undefined);
                 }
 
-                updateBookComplianceManuscript(manuscriptId, { progress: Math.round(((textChunks.length + 2) / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Structural analysis finished. Starting readability analysis...`);
-                let readabilityIssues: ReadabilityIssue[] = [];
-                try {
-                    readabilityIssues = await analyzeReadability(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Readability analysis finished. Found ${readabilityIssues.length} items.`);
-                } catch (readabilityError) {
-                    addComplianceLog(manuscriptId, `ERROR during readability analysis: ${readabilityError instanceof Error ? readabilityError.message : "Unknown"}`);
+                if (runs('structure')) {
+                    const structuralIssues = await runStage<BookStructuralIssue>('structure', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'bookStructure', model, variant: cacheVariant(structureVariant) }, folder.bypassCache, () => analyzeBookStructure(manuscriptText, declaredStructure, model, options)));
+                    if (structuralIssues) results.structuralReport = structuralIssues;
                 }
-
-                updateBookComplianceManuscript(manuscriptId, { progress: Math.round(((textChunks.length + 3) / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Readability analysis finished. Starting metadata & TOC validation...`);
-                let metadataIssues: BookMetadataIssue[] = [];
-                try {
-                    metadataIssues = await validateBookMetadata(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Metadata validation finished. Found ${metadataIssues.length} items.`);
-                } catch (metaError) {
-                    addComplianceLog(manuscriptId, `ERROR during metadata validation: ${metaError instanceof Error ? metaError.message : "Unknown"}`);
+                if (runs('readability')) {
+                    const readabilityIssues = await runStage<ReadabilityIssue>('readability', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'readability', model, variant: cacheVariant() }, folder.bypassCache, () => analyzeReadability(manuscriptText, model, options)));
+                    if (readabilityIssues) results.readabilityReport = readabilityIssues;
                 }
-
-                updateBookComplianceManuscript(manuscriptId, { progress: Math.round(((textChunks.length + 4) / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Metadata validation finished. Starting visual asset analysis...`);
-                let visualIssues: VisualAssetIssue[] = [];
-                try {
-                    visualIssues = await analyzeBookVisuals(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Visual asset analysis finished. Found ${visualIssues.length} items.`);
-                } catch (visualError) {
-                    addComplianceLog(manuscriptId, `ERROR during visual analysis: ${visualError instanceof Error ? visualError.message : "Unknown"}`);
+                if (runs('metadata')) {
+                    const metadataIssues = await runStage<BookMetadataIssue>('metadata', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'bookMetadata', model, variant: cacheVariant(structureVariant) }, folder.bypassCache, () => validateBookMetadata(manuscriptText, declaredStructure, model, options)));
+                    if (metadataIssues) results.bookMetadataReport = metadataIssues;
                 }
-
-                updateBookComplianceManuscript(manuscriptId, { progress: Math.round(((textChunks.length + 5) / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Visual analysis finished. Starting editorial check...`);
-                let editorialIssues: BookEditorialIssue[] = [];
-                try {
-                    editorialIssues = await analyzeBookEditorial(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Editorial check finished. Found ${editorialIssues.length} items.`);
-                } catch (edError) {
-                    addComplianceLog(manuscriptId, `ERROR during editorial check: ${edError instanceof Error ? edError.message : "Unknown"}`);
+                if (runs('visuals')) {
+                    const visualIssues = await runStage<VisualAssetIssue>('visuals', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'bookVisuals', model, variant: cacheVariant() }, folder.bypassCache, () => analyzeBookVisuals(manuscriptText, model, options)));
+                    if (visualIssues) results.visualAssetReport = visualIssues;
+                }
+                if (runs('editorial')) {
+                    const editorialIssues = await runStage<BookEditorialIssue>('editorial', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'bookEditorial', model, variant: cacheVariant() }, folder.bypassCache, () => analyzeBookEditorial(manuscriptText, model, options)));
+                    if (editorialIssues) {
+                        results.bookEditorialReport = verifyQuotes(editorialIssues, verifyQuote, i => i.quote);
+                        verified.push(...results.bookEditorialReport);
+                    }
                 }
 
+                const quoteSummary = summarizeQuoteVerification(verified);
+                if (quoteSummary) addComplianceLog(manuscriptId, `Quote check: ${quoteSummary}.`);
+                const previousVersion = folder.manuscripts.find(m => m.id === manuscript.previousVersionId);
+                if (previousVersion?.status === 'completed') addComplianceLog(manuscriptId, `Changes since version ${previousVersion.version || 1}: ${describeVersionDiff(diffVersions(previousVersion, { ...manuscript, ...results }))}.`);
+                const partialStages = Object.entries(stageCoverage).filter(([, c]) => coveragePercent(c) < 100);
+                if (partialStages.length > 0) {
+                    addComplianceLog(manuscriptId, `WARNING: Partial coverage - ${partialStages.map(([stage, c]) => `${stage}: ${describeCoverage(c)}`).join('; ')}.`);
+                }
+                if (cachedStages.length > 0) {
+                    addComplianceLog(manuscriptId, `Reused cached results for: ${cachedStages.join(', ')}.`);
+                }
+                const { promptTokens, responseTokens } = totalUsage(stageUsage);
+                addComplianceLog(manuscriptId, `Token usage: ${promptTokens} prompt / ${responseTokens} response across ${stageUsage.length} stage(s).`);
                 addUsageLog({ 
                     userId: currentUser!.id, 
                     toolName: 'Book Compliance Checker', 
-                    modelName: selectedModel,
+                    modelName: Array.from(new Set(stages.map(stage => settingsOf(stage.id).model))).join(', '),
+                    promptTokens,
+                    responseTokens,
+                    stages: stageUsage,
                     outputId: manuscriptId,
                     outputName: fileObject.name,
                 });
-                updateBookComplianceManuscript(manuscriptId, { 
+                // Triage comes from the stored manuscript, so changes made while the run was in flight are kept.
+                updateBookComplianceManuscript(manuscriptId, stored => ({
                     status: 'completed', 
-                    complianceReport: allFindings, 
-                    structuralReport: structuralIssues, 
-                    readabilityReport: readabilityIssues, 
-                    bookMetadataReport: metadataIssues,
-                    visualAssetReport: visualIssues,
-                    bookEditorialReport: editorialIssues,
+                    ...results,
+                    triage: carryOverTriage(stored, { ...stored, ...results }),
+                    analysisCoverage: stageCoverage,
+                    cachedStages,
+                    promptVersions,
+                    stages: stageStates,
+                    estimatedPages: ingested.estimatedPages,
                     progress: 100 
-                });
+                }));
             } catch (error) {
-                addComplianceLog(manuscriptId, `FATAL ERROR: ${error instanceof Error ? error.message : "Unknown"}`);
-                updateBookComplianceManuscript(manuscriptId, { status: 'error' });
+                const message = error instanceof Error ? error.message : "Unknown";
+                addComplianceLog(manuscriptId, `FATAL ERROR: ${message}`);
+                updateBookComplianceManuscript(manuscriptId, { status: 'error', stages: failRunningStages(stageStates, message) });
             } finally {
                 setIsProcessing(false);
                 setProcessingQueue(q => q.slice(1));
@@ -378,14 +480,40 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
 
     const handleDownloadReport = (manuscript: ManuscriptFile) => {
         const fileName = `${manuscript.name}_report.csv`;
-        let csvContent = `File Name,${escapeCsvField(manuscript.name)}\nStatus,${escapeCsvField(manuscript.status)}\n\n`;
+        let csvContent = `File Name,${escapeCsvField(manuscript.name)}\nStatus,${escapeCsvField(manuscript.status)}\n`;
+        if (hideUnverified) csvContent += 'Note,Findings whose quote was not found in the manuscript are excluded\n';
+        if (describeTriageFilter(triageFilter)) csvContent += `Note,${describeTriageFilter(triageFilter)}\n`;
+        csvContent += '\n';
+
+        if (manuscript.analysisCoverage && Object.keys(manuscript.analysisCoverage).length > 0) {
+            csvContent += '## ANALYSIS COVERAGE ##\n';
+            csvContent += 'Stage,Coverage,Sections Analyzed,Pages Analyzed\n';
+            Object.entries(manuscript.analysisCoverage).forEach(([stage, c]) => {
+                csvContent += [stage, `${coveragePercent(c)}%`, `${c.analyzedSections}/${c.totalSections}`, c.totalPages ? `${c.analyzedPages}/${c.totalPages}` : 'N/A'].map(escapeCsvField).join(',') + '\n';
+            });
+            csvContent += '\n';
+        }
+
+        if (manuscript.promptVersions) {
+            csvContent += `Prompt Versions,${escapeCsvField(describePromptVersions(manuscript.promptVersions))}\n\n`;
+        }
 
         // Compliance
         if (manuscript.complianceReport && manuscript.complianceReport.length > 0) {
             csvContent += '## COMPLIANCE REPORT ##\n';
-            csvContent += 'Status,Category,Summary,Manuscript Quote,Manuscript Page,Rule Content,Rule Page,Recommendation\n';
-            manuscript.complianceReport.forEach(f => {
-                csvContent += [f.status, f.checkCategory, f.summary, f.manuscriptQuote, f.manuscriptPage, f.ruleContent, f.rulePage, f.recommendation].map(escapeCsvField).join(',') + '\n';
+            csvContent += 'Status,Category,Summary,Manuscript Quote,Manuscript Page,Quote Check,Rule,Rule Content,Rule Page,Recommendation,Triage\n';
+            visibleFindings(manuscript.complianceReport, TRIAGE_KEYS.compliance, manuscript).forEach(f => {
+                csvContent += [f.status, f.checkCategory, f.summary, f.manuscriptQuote, manuscript.estimatedPages ? describeFindingLocation(f.manuscriptPage, f.quoteVerification, true) : f.manuscriptPage, describeQuoteVerification(f.quoteVerification), describeRuleReference(manuscript.ruleCoverage, f.ruleId), f.ruleContent, f.deterministic ? 'Checked locally' : f.rulePage, f.recommendation, describeTriage(manuscript.triage?.[TRIAGE_KEYS.compliance(f)])].map(escapeCsvField).join(',') + '\n';
+            });
+            csvContent += '\n';
+        }
+
+        if (manuscript.ruleCoverage && manuscript.ruleCoverage.length > 0) {
+            csvContent += '## RULE COVERAGE ##\n';
+            csvContent += `Summary,${escapeCsvField(describeRuleCoverage(manuscript.ruleCoverage))}\n`;
+            csvContent += 'Rule,Rule ID,Status,Findings,Rule Text\n';
+            manuscript.ruleCoverage.forEach(entry => {
+                csvContent += [entry.label, entry.ruleId, entry.status, entry.findingCount, entry.text].map(escapeCsvField).join(',') + '\n';
             });
             csvContent += '\n';
         }
@@ -393,9 +521,9 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
         // Structural
         if (manuscript.structuralReport && manuscript.structuralReport.length > 0) {
             csvContent += '## STRUCTURAL ANALYSIS REPORT ##\n';
-            csvContent += 'Priority,Category,Location,Summary,Details,Recommendation\n';
-            manuscript.structuralReport.forEach(f => {
-                csvContent += [f.priority, f.issueCategory, f.location, f.summary, f.details, f.recommendation].map(escapeCsvField).join(',') + '\n';
+            csvContent += 'Priority,Category,Location,Summary,Details,Recommendation,Triage\n';
+            visibleFindings(manuscript.structuralReport, TRIAGE_KEYS.structure, manuscript).forEach(f => {
+                csvContent += [f.priority, f.issueCategory, f.location, f.summary, f.details, f.recommendation, describeTriage(manuscript.triage?.[TRIAGE_KEYS.structure(f)])].map(escapeCsvField).join(',') + '\n';
             });
             csvContent += '\n';
         }
@@ -403,9 +531,9 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
         // Readability
         if (manuscript.readabilityReport && manuscript.readabilityReport.length > 0) {
             csvContent += '## READABILITY ANALYSIS REPORT ##\n';
-            csvContent += 'Priority,Category,Location,Summary,Details,Quote,Recommendation\n';
-            manuscript.readabilityReport.forEach(f => {
-                csvContent += [f.priority, f.issueCategory, f.location, f.summary, f.details, f.quote, f.recommendation].map(escapeCsvField).join(',') + '\n';
+            csvContent += 'Priority,Category,Location,Summary,Details,Quote,Recommendation,Triage\n';
+            visibleFindings(manuscript.readabilityReport, TRIAGE_KEYS.readability, manuscript).forEach(f => {
+                csvContent += [f.priority, f.issueCategory, f.location, f.summary, f.details, f.quote, f.recommendation, describeTriage(manuscript.triage?.[TRIAGE_KEYS.readability(f)])].map(escapeCsvField).join(',') + '\n';
             });
             csvContent += '\n';
         }
@@ -413,9 +541,9 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
         // Metadata
         if (manuscript.bookMetadataReport && manuscript.bookMetadataReport.length > 0) {
             csvContent += '## METADATA & TOC VALIDATION REPORT ##\n';
-            csvContent += 'Status,Category,Summary,Details,Recommendation\n';
-            manuscript.bookMetadataReport.forEach(f => {
-                csvContent += [f.status, f.category, f.summary, f.details, f.recommendation].map(escapeCsvField).join(',') + '\n';
+            csvContent += 'Status,Category,Summary,Details,Recommendation,Triage\n';
+            visibleFindings(manuscript.bookMetadataReport, TRIAGE_KEYS.bookMetadata, manuscript).forEach(f => {
+                csvContent += [f.status, f.category, f.summary, f.details, f.recommendation, describeTriage(manuscript.triage?.[TRIAGE_KEYS.bookMetadata(f)])].map(escapeCsvField).join(',') + '\n';
             });
             csvContent += '\n';
         }
@@ -423,9 +551,9 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
         // Visuals
         if (manuscript.visualAssetReport && manuscript.visualAssetReport.length > 0) {
             csvContent += '## VISUAL ASSET VALIDATION REPORT ##\n';
-            csvContent += 'Status,Category,Location,Description,Recommendation\n';
-            manuscript.visualAssetReport.forEach(f => {
-                csvContent += [f.status, f.category, f.location, f.description, f.recommendation].map(escapeCsvField).join(',') + '\n';
+            csvContent += 'Status,Category,Location,Description,Recommendation,Triage\n';
+            visibleFindings(manuscript.visualAssetReport, TRIAGE_KEYS.visuals, manuscript).forEach(f => {
+                csvContent += [f.status, f.category, f.location, f.description, f.recommendation, describeTriage(manuscript.triage?.[TRIAGE_KEYS.visuals(f)])].map(escapeCsvField).join(',') + '\n';
             });
             csvContent += '\n';
         }
@@ -433,9 +561,9 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
         // Editorial
         if (manuscript.bookEditorialReport && manuscript.bookEditorialReport.length > 0) {
             csvContent += '## COMPREHENSIVE EDITORIAL CHECK ##\n';
-            csvContent += 'Severity,Category,Location,Quote,Suggestion\n';
-            manuscript.bookEditorialReport.forEach(f => {
-                csvContent += [f.severity, f.category, f.location, f.quote, f.suggestion].map(escapeCsvField).join(',') + '\n';
+            csvContent += 'Severity,Category,Location,Quote,Quote Check,Suggestion,Triage\n';
+            visibleFindings(manuscript.bookEditorialReport, TRIAGE_KEYS.bookEditorial, manuscript).forEach(f => {
+                csvContent += [f.severity, f.category, f.location, f.quote, describeQuoteVerification(f.quoteVerification), f.suggestion, describeTriage(manuscript.triage?.[TRIAGE_KEYS.bookEditorial(f)])].map(escapeCsvField).join(',') + '\n';
             });
             csvContent += '\n';
         }
@@ -451,6 +579,58 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
         setStatusBarMessage(`Downloading report for ${manuscript.name}`, 'success');
     };
 
+    const handleExportReport = (manuscript: ManuscriptFile, format: ReportFormat, sectionIds: ReportSectionId[], branding: ReportBranding) => {
+        const report = buildReport(manuscript, 'Book Compliance Report', sectionIds, { hideUnverified, triageFilter });
+        if (format === 'pdf') {
+            printReport(renderReportHtml(report, branding));
+            setStatusBarMessage(`Printing report for ${manuscript.name}; choose "Save as PDF" to create the PDF`, 'info');
+            return;
+        }
+        const blob = format === 'docx'
+            ? new Blob([renderReportDocx(report, branding)], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' })
+            : new Blob([renderReportHtml(report, branding)], { type: 'text/html;charset=utf-8;' });
+        const a = document.createElement('a');
+        a.href = URL.createObjectURL(blob);
+        a.download = reportFileName(manuscript, format);
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(a.href);
+        setStatusBarMessage(`Exported ${format.toUpperCase()} report for ${manuscript.name}`, 'success');
+    };
+
+    const handleTriageChange = (manuscript: ManuscriptFile, key: string, change: TriageChange) =>
+        updateBookComplianceManuscript(manuscript.id, stored => ({ triage: { ...stored.triage, [key]: { ...change, updatedAt: new Date().toISOString(), updatedBy: currentUser?.email } } }));
+    const triageBar = (keys: string[]) => <TriageFilterBar value={triageFilter} counts={countTriage(selectedManuscript?.triage, keys)} onChange={setTriageFilter} />;
+    const triageControl = (key: string) => selectedManuscript && <FindingTriageControl triage={selectedManuscript.triage?.[key]} onChange={change => handleTriageChange(selectedManuscript, key, change)} />;
+
+    const profileOf = (manuscript: ManuscriptFile) => profiles.find(p => p.id === folders.find(f => f.manuscripts.some(m => m.id === manuscript.id))?.profileId);
+
+    // The open report follows the stored manuscript, so stage runs started from it show up as they progress.
+    useEffect(() => {
+        if (!selectedManuscript) return;
+        const stored = folders.flatMap(f => f.manuscripts).find(m => m.id === selectedManuscript.id);
+        if (stored && stored !== selectedManuscript) setSelectedManuscript(stored);
+    }, [folders, selectedManuscript]);
+
+    const [, setAttachedFiles] = useState(0); // Re-renders the stage panel once a file is attached again
+    const handleRunStages = (manuscript: ManuscriptFile, stageIds: string[]) => {
+        updateBookComplianceManuscript(manuscript.id, { status: 'queued' });
+        setProcessingQueue(prev => [...prev, { manuscriptId: manuscript.id, stageIds }]);
+        setStatusBarMessage(`Queued ${stageIds.length} stage(s) of ${manuscript.name}.`, 'info');
+    };
+    const handleSkipStage = (manuscript: ManuscriptFile, stageId: string, skipped: boolean) =>
+        updateBookComplianceManuscript(manuscript.id, { stages: { ...manuscript.stages, [stageId]: stageState(skipped ? 'skipped' : 'pending') } });
+    // Stage re-runs merge into the stored results, so only the file those results came from is accepted.
+    const handleAttachFile = (manuscript: ManuscriptFile, file: File) => {
+        if (file.name !== manuscript.name || (manuscript.fileSize !== undefined && file.size !== manuscript.fileSize)) {
+            setStatusBarMessage(`${file.name} is not the file ${manuscript.name} was checked from. Upload it as a new version instead.`, 'error');
+            return;
+        }
+        transientFiles.current.set(manuscript.id, file);
+        setAttachedFiles(n => n + 1);
+    };
+
     return (
         <div className="animate-fade-in h-full flex flex-col p-4 md:p-6 lg:p-8 bg-slate-100 dark:bg-slate-900">
             <div className="flex items-center justify-between mb-4 flex-shrink-0">
@@ -476,6 +656,7 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                         )}
                     </div>
                 </div>
+                <ModelSelector value={selectedModel} onChange={setSelectedModel} canUseProModel={currentUser?.canUseProModel} disabled={isProcessing} />
             </div>
             
             <div className="flex border-b border-slate-200 dark:border-slate-700 mb-6 overflow-x-auto">
@@ -497,7 +678,7 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                                 <p className="mt-1 text-sm text-slate-500">Get started by creating a compliance profile to hold your rule documents.</p>
                             </div>
                         ) : (
-                            profiles.map(p => <ProfileCard key={p.id} profile={p} ruleFiles={ruleFiles} onExpandToggle={(id) => setExpandedSections(prev => ({...prev, [id]: !prev[id]}))} isExpanded={!!expandedSections[p.id]} onDelete={deleteComplianceProfile} onRuleDelete={(ruleId) => deleteRuleFileFromProfile(p.id, ruleId)} onDrop={(files) => onRulesDrop(files, p.id)} />)
+                            profiles.map(p => <ProfileCard key={p.id} profile={p} ruleFiles={ruleFiles} onExpandToggle={(id) => setExpandedSections(prev => ({...prev, [id]: !prev[id]}))} isExpanded={!!expandedSections[p.id]} onDelete={deleteComplianceProfile} onRuleDelete={(ruleId) => deleteRuleFileFromProfile(p.id, ruleId)} onCheckableRuleAdd={(rule) => addCheckableRule(p.id, rule)} onCheckableRuleDelete={(ruleId) => deleteCheckableRule(p.id, ruleId)} onRuleFileRulesChange={updateRuleFileRules} onStageConfigChange={(stageId, config) => updateProfileStageConfig(p.id, stageId, config)} canUseProModel={currentUser?.canUseProModel} onDrop={(files) => onRulesDrop(files, p.id)} />)
                         )}
                     </section>
                 )}
@@ -506,7 +687,10 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                     <section className="space-y-4 animate-fade-in">
                         <div className="flex justify-between items-center px-2">
                             <h3 className="text-xl font-semibold bg-clip-text text-transparent bg-gradient-to-r from-yellow-500 to-orange-500">Project Folders</h3>
-                            <button onClick={() => { setSelectedProfileForFolder(profiles[0]?.id || null); setModal('createFolder')}} className="flex items-center px-3 py-2 text-sm bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 shadow"><FolderIcon className="h-5 w-5 mr-2"/>Create Folder</button>
+                            <div className="flex items-center gap-4">
+                                <label className="inline-flex items-center text-sm text-slate-500 dark:text-slate-400" title="Hide findings whose quoted evidence could not be found in the manuscript, in reports and CSV exports"><input type="checkbox" checked={hideUnverified} onChange={e => setHideUnverified(e.target.checked)} className="mr-1.5 h-4 w-4 rounded text-yellow-600 focus:ring-yellow-500"/>Hide unverified findings</label>
+                                <button onClick={() => { setSelectedProfileForFolder(profiles[0]?.id || null); setModal('createFolder')}} className="flex items-center px-3 py-2 text-sm bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 shadow"><FolderIcon className="h-5 w-5 mr-2"/>Create Folder</button>
+                            </div>
                         </div>
                          {folders.length === 0 ? (
                             <div className="text-center py-16 px-4 border-2 border-dashed rounded-lg">
@@ -515,7 +699,7 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                                 <p className="mt-1 text-sm text-slate-500">Create a project folder to upload and check book manuscripts.</p>
                             </div>
                          ) : (
-                            folders.map(f => <FolderCard key={f.id} folder={f} profiles={profiles} onExpandToggle={(id) => setExpandedSections(prev => ({...prev, [id]: !prev[id]}))} isExpanded={!!expandedSections[f.id]} onDelete={deleteBookComplianceFolder} onMapProfile={(profId) => updateBookComplianceFolderProfile(f.id, profId)} onManuscriptDelete={(manId) => deleteBookComplianceManuscript(f.id, manId)} onDrop={(files) => onManuscriptsDrop(files, f.id)} onViewReport={(man) => {setSelectedManuscript(man); setReportTab('compliance'); setModal('viewReport');}} onViewLogs={(man) => {setSelectedManuscript(man); setModal('viewLogs');}} onDownloadReport={handleDownloadReport} />)
+                            folders.map(f => <FolderCard key={f.id} folder={f} profiles={profiles} onExpandToggle={(id) => setExpandedSections(prev => ({...prev, [id]: !prev[id]}))} isExpanded={!!expandedSections[f.id]} onDelete={deleteBookComplianceFolder} onMapProfile={(profId) => updateBookComplianceFolderProfile(f.id, profId)} onToggleBypassCache={(bypass) => updateBookComplianceFolderBypassCache(f.id, bypass)} onManuscriptDelete={(manId) => deleteBookComplianceManuscript(f.id, manId)} onDrop={(files) => onManuscriptsDrop(files, f.id)} onViewReport={(man) => {setSelectedManuscript(man); setReportTab('compliance'); setModal('viewReport');}} onViewLogs={(man) => {setSelectedManuscript(man); setModal('viewLogs');}} onDownloadReport={handleDownloadReport} onUploadRevision={(man, file) => handleUploadRevision(f.id, man, file)} onCompare={(man) => setCompareId(man.id)} />)
                          )}
                     </section>
                 )}
@@ -538,6 +722,7 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                 </form>
             </Modal>
             <Modal isOpen={modal === 'viewReport' && !!selectedManuscript} onClose={() => setModal(null)} title={`Report: ${selectedManuscript?.name}`} size="2xl">
+                {selectedManuscript && <StageStatusPanel stages={BOOK_STAGES} manuscript={selectedManuscript} profile={profileOf(selectedManuscript)} hasFile={transientFiles.current.has(selectedManuscript.id)} onRun={stageIds => handleRunStages(selectedManuscript, stageIds)} onSkip={(stageId, skipped) => handleSkipStage(selectedManuscript, stageId, skipped)} onAttachFile={file => handleAttachFile(selectedManuscript, file)} />}
                 <div className="flex border-b border-slate-700 mb-4 overflow-x-auto">
                     <button onClick={() => setReportTab('compliance')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'compliance' ? 'border-b-2 border-yellow-500 text-yellow-400' : 'text-slate-400 hover:text-white'}`}>
                         Compliance ({selectedManuscript?.complianceReport?.length || 0})
@@ -558,11 +743,16 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                         Editorial ({selectedManuscript?.bookEditorialReport?.length || 0})
                     </button>
                 </div>
+                <CoverageSummary coverage={selectedManuscript?.analysisCoverage} />
+                {selectedManuscript?.promptVersions && <p className="mb-4 text-xs text-slate-500">Prompt versions: {describePromptVersions(selectedManuscript.promptVersions)}</p>}
+                <label className="mb-4 inline-flex items-center text-xs text-slate-400"><input type="checkbox" checked={hideUnverified} onChange={e => setHideUnverified(e.target.checked)} className="mr-1.5 h-3.5 w-3.5 rounded text-yellow-600 focus:ring-yellow-500"/>Hide findings whose quote was not found in the manuscript</label>
 
                 {reportTab === 'compliance' && (
                     <div className="space-y-4 max-h-[85vh] overflow-y-auto pr-2">
-                        {(selectedManuscript?.complianceReport || []).length === 0 && <p className="text-center text-slate-500">No compliance issues found.</p>}
-                        {selectedManuscript?.complianceReport?.map((finding, index) => (
+                        <RuleCoverageSummary coverage={selectedManuscript?.ruleCoverage} />
+                        {triageBar(visibleFindings(selectedManuscript?.complianceReport).map(TRIAGE_KEYS.compliance))}
+                        {visibleFindings<ComplianceFinding>(selectedManuscript?.complianceReport, TRIAGE_KEYS.compliance).length === 0 && <p className="text-center text-slate-500">No compliance issues found.</p>}
+                        {visibleFindings<ComplianceFinding>(selectedManuscript?.complianceReport, TRIAGE_KEYS.compliance).map((finding, index) => (
                             <div key={index} className="bg-slate-900 rounded-lg p-4">
                                <div className="flex items-start justify-between gap-4">
                                     <h4 className="font-semibold text-lg mb-2 text-slate-200 flex-1">{finding.checkCategory}</h4>{renderStatusIcon(finding.status)}
@@ -570,17 +760,19 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                                <p className="text-sm text-slate-400 italic mb-4">"{finding.summary}"</p>
                                <div className="space-y-3 text-sm">
                                     <p><strong className="font-medium text-cyan-400">Recommendation:</strong> <span className="text-slate-300">{finding.recommendation}</span></p>
-                                    <p><strong className="font-medium text-cyan-400">Manuscript (p. {finding.manuscriptPage}):</strong> <span className="text-slate-300 italic">"{finding.manuscriptQuote}"</span></p>
-                                    <p><strong className="font-medium text-cyan-400">Rule (p. {finding.rulePage}):</strong> <span className="text-slate-300 italic">"{finding.ruleContent}"</span></p>
+                                    <p><strong className="font-medium text-cyan-400">Manuscript ({describeFindingLocation(finding.manuscriptPage, finding.quoteVerification, selectedManuscript?.estimatedPages)}):</strong> <span className="text-slate-300 italic">"{finding.manuscriptQuote}"</span><QuoteVerificationBadge verification={finding.quoteVerification} /></p>
+                                    <p><strong className="font-medium text-cyan-400">Rule: {describeRuleReference(selectedManuscript?.ruleCoverage, finding.ruleId)} ({finding.deterministic ? 'checked locally' : `p. ${finding.rulePage}`}):</strong> <span className="text-slate-300 italic">"{finding.ruleContent}"</span></p>
                                </div>
+                               {triageControl(TRIAGE_KEYS.compliance(finding))}
                             </div>
                         ))}
                     </div>
                 )}
                 {reportTab === 'structure' && (
                     <div className="space-y-4 max-h-[85vh] overflow-y-auto pr-2">
-                        {(selectedManuscript?.structuralReport || []).length === 0 && <p className="text-center text-slate-500">No structural issues found.</p>}
-                        {selectedManuscript?.structuralReport?.map((finding, index) => (
+                        {triageBar((selectedManuscript?.structuralReport || []).map(TRIAGE_KEYS.structure))}
+                        {visibleFindings(selectedManuscript?.structuralReport, TRIAGE_KEYS.structure).length === 0 && <p className="text-center text-slate-500">No structural issues found.</p>}
+                        {visibleFindings(selectedManuscript?.structuralReport, TRIAGE_KEYS.structure).map((finding, index) => (
                             <div key={index} className="bg-slate-900 rounded-lg p-4">
                                <div className="flex items-start justify-between gap-4">
                                     <h4 className="font-semibold text-lg mb-2 text-slate-200 flex-1">{finding.issueCategory}</h4>
@@ -595,14 +787,16 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                                     <p><strong className="font-medium text-teal-400">Details:</strong> <span className="text-slate-300">{finding.details}</span></p>
                                     <p><strong className="font-medium text-teal-400">Recommendation:</strong> <span className="text-slate-300">{finding.recommendation}</span></p>
                                </div>
+                               {triageControl(TRIAGE_KEYS.structure(finding))}
                             </div>
                         ))}
                     </div>
                 )}
                 {reportTab === 'readability' && (
                     <div className="space-y-4 max-h-[85vh] overflow-y-auto pr-2">
-                        {(selectedManuscript?.readabilityReport || []).length === 0 && <p className="text-center text-slate-500">No readability issues found.</p>}
-                        {selectedManuscript?.readabilityReport?.map((finding, index) => (
+                        {triageBar((selectedManuscript?.readabilityReport || []).map(TRIAGE_KEYS.readability))}
+                        {visibleFindings(selectedManuscript?.readabilityReport, TRIAGE_KEYS.readability).length === 0 && <p className="text-center text-slate-500">No readability issues found.</p>}
+                        {visibleFindings(selectedManuscript?.readabilityReport, TRIAGE_KEYS.readability).map((finding, index) => (
                             <div key={index} className="bg-slate-900 rounded-lg p-4">
                                <div className="flex items-start justify-between gap-4">
                                     <h4 className="font-semibold text-lg mb-2 text-slate-200 flex-1">{finding.issueCategory}</h4>
@@ -618,14 +812,16 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                                     {finding.quote && <p><strong className="font-medium text-indigo-400">Quote:</strong> <span className="text-slate-300 italic">"{finding.quote}"</span></p>}
                                     <p><strong className="font-medium text-indigo-400">Recommendation:</strong> <span className="text-slate-300">{finding.recommendation}</span></p>
                                </div>
+                               {triageControl(TRIAGE_KEYS.readability(finding))}
                             </div>
                         ))}
                     </div>
                 )}
                 {reportTab === 'metadata' && (
                     <div className="space-y-4 max-h-[85vh] overflow-y-auto pr-2">
-                        {(selectedManuscript?.bookMetadataReport || []).length === 0 && <p className="text-center text-slate-500">No metadata discrepancies found.</p>}
-                        {selectedManuscript?.bookMetadataReport?.map((finding, index) => (
+                        {triageBar((selectedManuscript?.bookMetadataReport || []).map(TRIAGE_KEYS.bookMetadata))}
+                        {visibleFindings(selectedManuscript?.bookMetadataReport, TRIAGE_KEYS.bookMetadata).length === 0 && <p className="text-center text-slate-500">No metadata discrepancies found.</p>}
+                        {visibleFindings(selectedManuscript?.bookMetadataReport, TRIAGE_KEYS.bookMetadata).map((finding, index) => (
                             <div key={index} className="bg-slate-900 rounded-lg p-4 border border-slate-700">
                                 <div className="flex items-center justify-between mb-2">
                                     <h4 className="font-semibold text-lg text-slate-200">{finding.category}</h4>
@@ -642,14 +838,16 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                                     <p><strong className="font-medium text-pink-400">Details:</strong> <span className="text-slate-300">{finding.details}</span></p>
                                     {finding.status !== 'Pass' && <p><strong className="font-medium text-pink-400">Recommendation:</strong> <span className="text-slate-300">{finding.recommendation}</span></p>}
                                 </div>
+                                {triageControl(TRIAGE_KEYS.bookMetadata(finding))}
                             </div>
                         ))}
                     </div>
                 )}
                 {reportTab === 'visuals' && (
                     <div className="space-y-4 max-h-[85vh] overflow-y-auto pr-2">
-                        {(selectedManuscript?.visualAssetReport || []).length === 0 && <p className="text-center text-slate-500">No visual asset issues found.</p>}
-                        {selectedManuscript?.visualAssetReport?.map((finding, index) => (
+                        {triageBar((selectedManuscript?.visualAssetReport || []).map(TRIAGE_KEYS.visuals))}
+                        {visibleFindings(selectedManuscript?.visualAssetReport, TRIAGE_KEYS.visuals).length === 0 && <p className="text-center text-slate-500">No visual asset issues found.</p>}
+                        {visibleFindings(selectedManuscript?.visualAssetReport, TRIAGE_KEYS.visuals).map((finding, index) => (
                             <div key={index} className="bg-slate-900 rounded-lg p-4 border border-slate-700">
                                 <div className="flex items-start justify-between gap-4">
                                     <div className="flex items-center gap-2">
@@ -663,14 +861,16 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                                     <p><strong className="font-medium text-blue-400">Description:</strong> <span className="text-slate-300">{finding.description}</span></p>
                                     <p><strong className="font-medium text-blue-400">Recommendation:</strong> <span className="text-slate-300">{finding.recommendation}</span></p>
                                 </div>
+                                {triageControl(TRIAGE_KEYS.visuals(finding))}
                             </div>
                         ))}
                     </div>
                 )}
                 {reportTab === 'editorial' && (
                     <div className="space-y-4 max-h-[85vh] overflow-y-auto pr-2">
-                        {(selectedManuscript?.bookEditorialReport || []).length === 0 && <p className="text-center text-slate-500">No editorial issues found.</p>}
-                        {selectedManuscript?.bookEditorialReport?.map((finding, index) => (
+                        {triageBar(visibleFindings(selectedManuscript?.bookEditorialReport).map(TRIAGE_KEYS.bookEditorial))}
+                        {visibleFindings<BookEditorialIssue>(selectedManuscript?.bookEditorialReport, TRIAGE_KEYS.bookEditorial).length === 0 && <p className="text-center text-slate-500">No editorial issues found.</p>}
+                        {visibleFindings<BookEditorialIssue>(selectedManuscript?.bookEditorialReport, TRIAGE_KEYS.bookEditorial).map((finding, index) => (
                             <div key={index} className="bg-slate-900 rounded-lg p-4 border border-slate-700">
                                 <div className="flex items-center justify-between mb-2">
                                     <div className="flex items-center gap-2">
@@ -681,15 +881,21 @@ const BookComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                                 </div>
                                 <div className="space-y-3 text-sm mt-3">
                                     <p><strong className="font-medium text-orange-400">Location:</strong> <span className="text-slate-300">{finding.location}</span></p>
-                                    <div className="bg-slate-950 p-3 rounded border-l-2 border-orange-500/50 italic text-slate-400">"{finding.quote}"</div>
+                                    <div className="bg-slate-950 p-3 rounded border-l-2 border-orange-500/50 italic text-slate-400">"{finding.quote}"<QuoteVerificationBadge verification={finding.quoteVerification} /></div>
                                     <p><strong className="font-medium text-orange-400">Suggestion:</strong> <span className="text-slate-300">{finding.suggestion}</span></p>
                                 </div>
+                                {triageControl(TRIAGE_KEYS.bookEditorial(finding))}
                             </div>
                         ))}
                     </div>
                 )}
-                <div className="text-center pt-4 border-t border-slate-700 mt-4"><button onClick={() => selectedManuscript && handleDownloadReport(selectedManuscript)} className="text-sm text-slate-400 hover:underline">Download Full Report (CSV)</button></div>
+                <div className="text-center pt-4 border-t border-slate-700 mt-4 space-x-4">
+                    <button onClick={() => selectedManuscript && handleDownloadReport(selectedManuscript)} className="text-sm text-slate-400 hover:underline">Download Full Report (CSV)</button>
+                    <button onClick={() => setIsExportOpen(true)} className="text-sm text-slate-400 hover:underline">Export Report (DOCX / PDF / HTML)</button>
+                </div>
             </Modal>
+            <ReportExportModal isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} manuscript={selectedManuscript} hideUnverified={hideUnverified} triageFilter={triageFilter} branding={currentUserData?.reportBranding || {}} onBrandingChange={updateReportBranding} onExport={(manuscript, format, sectionIds, branding) => { handleExportReport(manuscript, format, sectionIds, branding); setIsExportOpen(false); }} />
+            <VersionDiffModal isOpen={!!compareId} onClose={() => setCompareId(null)} versions={compared ? versionChain(folders.flatMap(f => f.manuscripts), compared) : []} />
              <Modal isOpen={modal === 'viewLogs' && !!selectedManuscript} onClose={() => setModal(null)} title={`Logs: ${selectedManuscript?.name}`}>
                 <div className="bg-slate-900 text-white font-mono text-xs rounded-md p-4 max-h-96 overflow-y-auto">
                     {(selectedManuscript?.logs || []).map((log, index) => <p key={index}>{log}</p>)}
@@ -7,32 +7,14 @@ import {
     ChevronLeftIcon, DownloadIcon, XIcon,
     TrashIcon, FolderIcon, PlusCircleIcon, UploadIcon, ClipboardListIcon, ShieldCheckIcon, DocumentTextIcon, CheckIcon, ExclamationIcon, ChevronDownIcon
 } from '../components/icons/Icons';
-import * as pdfjsLib from 'pdfjs-dist';
-import mammoth from 'mammoth';
 import { extractBookMetadata } from '../services/aiService';
+import { withResultCache, hashContent } from '../services/resultCache';
+import { getDefaultModel } from '../services/llmProvider';
+import { ingestDocument, describeDocument, acceptFor } from '../services/documentIngestion';
+import { describeDocumentMetadata } from '../services/documentModel';
+import ModelSelector from '../components/ModelSelector';
 import { BookFile, BookFileStatus, BookProjectFolder } from '../types';
 
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs`;
-
-// ... (keep extractTextFromFile and other helpers as is)
-async function extractTextFromFile(file: File): Promise<string> {
-    const arrayBuffer = await file.arrayBuffer();
-
-    if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-        const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(arrayBuffer) }).promise;
-        let fullText = '';
-        for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map(item => 'str' in item ? item.str : '').join(' ');
-            fullText += `[Page ${i}]\n${pageText}\n\n`;
-        }
-        return fullText;
-    } else {
-        throw new Error(`Unsupported file type: ${file.name}. Please upload a PDF file.`);
-    }
-}
-
 const EditableCodeBlock: React.FC<{
     code: string;
     language: string;
@@ -99,7 +81,7 @@ const EditableCodeBlock: React.FC<{
 
 
 const BookMetadataExtractor: React.FC<{ onBack: () => void }> = ({ onBack }) => {
-    const { currentUser, addUsageLog, setStatusBarMessage, currentUserData, createBookFolder, deleteBookFolder, addBookFilesToFolder, updateBookFile, deleteBookFile } = useAppContext();
+    const { currentUser, addUsageLog, setStatusBarMessage, currentUserData, createBookFolder, deleteBookFolder, updateBookFolderBypassCache, addBookFilesToFolder, updateBookFile, deleteBookFile } = useAppContext();
     const folders = currentUserData?.bookFolders || [];
     
     const [view, setView] = useState<'dashboard' | 'editor'>('dashboard');
@@ -110,7 +92,7 @@ const BookMetadataExtractor: React.FC<{ onBack: () => void }> = ({ onBack }) =>
 
     const [modal, setModal] = useState<'createFolder' | 'viewLogs' | null>(null);
     const [newFolderName, setNewFolderName] = useState('');
-    const [selectedModel, setSelectedModel] = useState(currentUser?.canUseProModel ? 'gemini-3-pro-preview' : 'gemini-2.5-flash');
+    const [selectedModel, setSelectedModel] = useState(() => getDefaultModel(currentUser?.canUseProModel));
     
     const [isHeaderExpanded, setIsHeaderExpanded] = useState(true);
 
@@ -139,7 +121,8 @@ const BookMetadataExtractor: React.FC<{ onBack: () => void }> = ({ onBack }) =>
             if (isProcessing || processingQueue.length === 0) return;
             setIsProcessing(true);
             const bookId = processingQueue[0];
-            const bookFile = folders.flatMap(f => f.bookFiles).find(p => p.id === bookId);
+            const folder = folders.find(f => f.bookFiles.some(p => p.id === bookId));
+            const bookFile = folder?.bookFiles.find(p => p.id === bookId);
             const fileObject = transientFiles.current.get(bookId);
 
             if (!bookFile || !fileObject) {
@@ -151,18 +134,24 @@ const BookMetadataExtractor: React.FC<{ onBack: () => void }> = ({ onBack }) =>
             updateBookFile(bookId, { status: 'processing', progress: 0 });
             addLog(bookId, "Processing started.");
             try {
-                addLog(bookId, "Extracting full text from PDF...");
+                addLog(bookId, "Extracting full text...");
                 updateBookFile(bookId, { progress: 25 });
-                const manuscriptText = await extractTextFromFile(fileObject);
-                addLog(bookId, `Text extracted. Sending to AI for metadata generation...`);
+                const ingested = await ingestDocument(fileObject, ['pdf', 'epub']);
+                const manuscriptText = ingested.text;
+                const knownMetadata = describeDocumentMetadata(ingested.metadata);
+                if (knownMetadata) addLog(bookId, "Using the publication metadata declared in the EPUB package as a starting point.");
+                ingested.warnings?.forEach(warning => addLog(bookId, `WARNING: ${warning}`));
+                addLog(bookId, `Text extracted (${describeDocument(ingested)}). Sending to AI for metadata generation...`);
                 updateBookFile(bookId, { progress: 50 });
 
-                const metadata = await extractBookMetadata(manuscriptText, selectedModel);
+                const { data: metadata, usage, cached, promptVersions } = await withResultCache({ docHash: await hashContent(manuscriptText), stage: 'bookMetadataExtraction', model: selectedModel, variant: knownMetadata ? await hashContent(knownMetadata) : undefined }, folder?.bypassCache, () => extractBookMetadata(manuscriptText, knownMetadata, selectedModel));
                 
-                addLog(bookId, "Metadata successfully generated.");
+                addLog(bookId, cached ? "Metadata reused from cache." : "Metadata successfully generated.");
                 updateBookFile(bookId, {
                     status: 'completed',
                     progress: 100,
+                    fromCache: !!cached,
+                    promptVersions,
                     onixMetadata: metadata.onix,
                     marcMetadata: metadata.marc
                 });
@@ -171,6 +160,7 @@ const BookMetadataExtractor: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                     userId: currentUser!.id, 
                     toolName: 'Book Metadata Extractor', 
                     modelName: selectedModel,
+                    ...usage,
                     outputId: bookId,
                     outputName: fileObject.name,
                 });
@@ -205,11 +195,14 @@ const BookMetadataExtractor: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                             <ChevronDownIcon className={`h-5 w-5 text-slate-500 transition-transform duration-300 ${isHeaderExpanded ? 'rotate-180' : ''}`} />
                         </div>
                         {isHeaderExpanded && (
-                            <p className="text-sm text-slate-500 animate-fade-in origin-top">Generate ONIX and MARC records from PDF files.</p>
+                            <p className="text-sm text-slate-500 animate-fade-in origin-top">Generate ONIX and MARC records from PDF and EPUB files.</p>
                         )}
                     </div>
                 </div>
-                <button onClick={() => setModal('createFolder')} className="flex items-center px-3 py-2 text-sm bg-green-500 text-white rounded-lg hover:bg-green-600 shadow"><FolderIcon className="h-5 w-5 mr-2"/>New Project</button>
+                <div className="flex items-center gap-4">
+                    <ModelSelector value={selectedModel} onChange={setSelectedModel} canUseProModel={currentUser?.canUseProModel} disabled={isProcessing} />
+                    <button onClick={() => setModal('createFolder')} className="flex items-center px-3 py-2 text-sm bg-green-500 text-white rounded-lg hover:bg-green-600 shadow"><FolderIcon className="h-5 w-5 mr-2"/>New Project</button>
+                </div>
             </div>
             
             <div className="flex-grow overflow-y-auto">
@@ -221,7 +214,7 @@ const BookMetadataExtractor: React.FC<{ onBack: () => void }> = ({ onBack }) =>
                             <p className="mt-1 text-sm text-slate-500">Create a project to upload and process your books or journals.</p>
                         </div>
                      ) : (
-                        folders.map(f => <FolderCard key={f.id} folder={f} onDelete={deleteBookFolder} onFileDelete={(bookId) => deleteBookFile(f.id, bookId)} onDrop={(files) => onDrop(files, f.id)} onView={(bookId) => {setCurrentBook({ folderId: f.id, bookId }); setView('editor');}} onShowLogs={(book) => {/* TODO */}} />)
+                        folders.map(f => <FolderCard key={f.id} folder={f} onDelete={deleteBookFolder} onToggleBypassCache={(bypass) => updateBookFolderBypassCache(f.id, bypass)} onFileDelete={(bookId) => deleteBookFile(f.id, bookId)} onDrop={(files) => onDrop(files, f.id)} onView={(bookId) => {setCurrentBook({ folderId: f.id, bookId }); setView('editor');}} onShowLogs={(book) => {/* TODO */}} />)
                      )}
                 </section>
             </div>
@@ -237,20 +230,23 @@ const BookMetadataExtractor: React.FC<{ onBack: () => void }> = ({ onBack }) =>
 };
 
 // ... (FolderCard, BookFileRow, EditorView, export default BookMetadataExtractor)
-const FolderCard: React.FC<{ folder: BookProjectFolder; isExpanded?: boolean; onDelete: (id: string) => void; onFileDelete: (id: string) => void; onDrop: (files: File[]) => void; onView: (bookId: string) => void; onShowLogs: (book: BookFile) => void; }> = ({ folder, onDelete, onFileDelete, onDrop, onView, onShowLogs }) => {
-    const { getRootProps, getInputProps, isDragActive } = useDropzone({ onDrop, accept: { 'application/pdf': ['.pdf'] } });
+const FolderCard: React.FC<{ folder: BookProjectFolder; isExpanded?: boolean; onDelete: (id: string) => void; onToggleBypassCache: (bypass: boolean) => void; onFileDelete: (id: string) => void; onDrop: (files: File[]) => void; onView: (bookId: string) => void; onShowLogs: (book: BookFile) => void; }> = ({ folder, onDelete, onToggleBypassCache, onFileDelete, onDrop, onView, onShowLogs }) => {
+    const { getRootProps, getInputProps, isDragActive } = useDropzone({ onDrop, accept: acceptFor(['pdf', 'epub']) });
     return (
         <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md transition-all duration-300">
             <div className="w-full p-4 flex justify-between items-center text-left">
                 <div className="flex items-center gap-3"><FolderIcon className="h-6 w-6 text-green-500" /><p className="font-bold text-lg text-slate-800 dark:text-slate-100">{folder.name}</p></div>
-                <button onClick={() => onDelete(folder.id)} className="p-2 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50"><TrashIcon className="h-5 w-5"/></button>
+                <div className="flex items-center gap-2">
+                    <label className="inline-flex items-center text-xs text-slate-500 dark:text-slate-400" title="Regenerate metadata even if an identical document is cached"><input type="checkbox" checked={!!folder.bypassCache} onChange={e => onToggleBypassCache(e.target.checked)} className="mr-1 h-3.5 w-3.5 rounded text-green-600 focus:ring-green-500"/>Bypass cache</label>
+                    <button onClick={() => onDelete(folder.id)} className="p-2 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50"><TrashIcon className="h-5 w-5"/></button>
+                </div>
             </div>
             <div className="p-4 border-t border-slate-200 dark:border-slate-700">
                 <div className="space-y-2">{folder.bookFiles.map(m => <BookFileRow key={m.id} bookFile={m} onView={onView} onShowLogs={onShowLogs} onDelete={onFileDelete} />)}</div>
                 <div {...getRootProps()} className="mt-4 border-2 border-dashed rounded-lg p-6 text-center cursor-pointer hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20 text-slate-500 hover:text-green-600 dark:hover:text-green-400 transition-colors">
                     <input {...getInputProps()} />
                     <UploadIcon className="h-8 w-8 mx-auto" />
-                    <p className="mt-2 text-sm">Upload Book or Journal PDF</p>
+                    <p className="mt-2 text-sm">Upload Book or Journal (.pdf, .epub)</p>
                     <div className="mt-2 flex items-center justify-center text-xs text-slate-500">
                         <ShieldCheckIcon className="h-4 w-4 mr-1.5 text-green-500"/>
                         <span>Your files are processed securely.</span>
@@ -268,7 +264,7 @@ const BookFileRow: React.FC<{ bookFile: BookFile; onView: (id: string) => void;
             <div className="flex justify-between items-center gap-4">
                 <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{bookFile.name}</p>
-                    <div className="mt-1"><span className={`px-2 py-1 text-xs font-medium rounded-full ${statusStyles[bookFile.status]}`}>{bookFile.status}</span></div>
+                    <div className="mt-1"><span className={`px-2 py-1 text-xs font-medium rounded-full ${statusStyles[bookFile.status]}`}>{bookFile.status}</span>{bookFile.status === 'completed' && bookFile.fromCache && <span className="ml-2 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-slate-200 dark:bg-slate-600 text-slate-600 dark:text-slate-300">Cached</span>}</div>
                 </div>
                 <div className="flex items-center space-x-2 ml-2 flex-shrink-0">
                     {bookFile.status === 'completed' && <button onClick={() => onView(bookFile.id)} className="px-2 py-1 text-xs font-semibold text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/50 rounded-md hover:bg-green-200 dark:hover:bg-green-900">View Metadata</button>}
@@ -7,49 +7,14 @@ import {
     ChevronLeftIcon, DownloadIcon, CheckIcon, XIcon, ExclamationIcon, ChevronDownIcon,
     TrashIcon, FolderIcon, PlusCircleIcon, UploadIcon, ClipboardListIcon, ShieldCheckIcon, DocumentTextIcon, BookOpenIcon
 } from '../components/icons/Icons';
-import * as pdfjsLib from 'pdfjs-dist';
-import mammoth from 'mammoth';
-import { performComplianceCheck } from '../services/aiService';
+import { performComplianceCheck, addUsage, emptyUsage } from '../services/aiService';
+import { getDefaultModel } from '../services/llmProvider';
+import { ingestDocument, describeDocument, acceptFor } from '../services/documentIngestion';
 import {
     ComplianceFinding, FindingStatus, ComplianceProfile, RuleFile,
     ComplianceProjectFolder, ManuscriptFile, ManuscriptStatus, JournalRecommendation
 } from '../types';
 
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs`;
-
-async function extractTextFromFile(file: File): Promise<string> {
-    const arrayBuffer = await file.arrayBuffer();
-
-    if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-        const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(arrayBuffer) }).promise;
-        let fullText = '';
-        for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map(item => 'str' in item ? item.str : '').join(' ');
-            fullText += `[Page ${i}]\n${pageText}\n\n`;
-        }
-        return fullText;
-    } else if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || file.name.endsWith('.docx')) {
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        // Heuristic to simulate page numbers for Word documents
-        const words = result.value.split(/\s+/);
-        const wordsPerPage = 300; // An average page has about 300 words
-        let fullText = '';
-        let pageCounter = 1;
-        for (let i = 0; i < words.length; i += wordsPerPage) {
-            const chunk = words.slice(i, i + wordsPerPage).join(' ');
-            if (chunk.trim()) {
-                fullText += `[Page ${pageCounter}]\n${chunk}\n\n`;
-                pageCounter++;
-            }
-        }
-        return fullText;
-    } else {
-        throw new Error(`Unsupported file type: ${file.name}. Please upload a PDF or DOCX file.`);
-    }
-}
-
 const renderStatusIcon = (status: FindingStatus) => {
     const styles = { pass: 'text-green-400 bg-green-900/50 border-green-500/50', warn: 'text-yellow-400 bg-yellow-900/50 border-yellow-500/50', fail: 'text-red-400 bg-red-900/50 border-red-500/50' };
     const Icon = { pass: CheckIcon, warn: ExclamationIcon, fail: XIcon }[status];
@@ -81,7 +46,7 @@ const ComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) => {
     const [newProfileName, setNewProfileName] = useState('');
     const [newFolderName, setNewFolderName] = useState('');
     const [selectedProfileForFolder, setSelectedProfileForFolder] = useState<string | null>(null);
-    const [selectedModel, setSelectedModel] = useState(currentUser?.canUseProModel ? 'gemini-3-pro-preview' : 'gemini-2.5-flash');
+    const [selectedModel, setSelectedModel] = useState(() => getDefaultModel(currentUser?.canUseProModel));
 
     const addComplianceLog = useCallback((manuscriptId: string, message: string) => {
         const timestamp = new Date().toLocaleTimeString();
@@ -97,7 +62,7 @@ const ComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) => {
         const newRuleFileEntries: Record<string, RuleFile> = {};
         for (const file of acceptedFiles) {
             try {
-                const textContent = await extractTextFromFile(file);
+                const { text: textContent } = await ingestDocument(file);
                 const id = Math.random().toString(36).substring(2, 9);
                 newRuleFileEntries[id] = { id, name: file.name, textContent };
             } catch (error) {
@@ -150,7 +115,10 @@ const ComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) => {
             addComplianceLog(manuscriptId, "Processing started.");
             try {
                 addComplianceLog(manuscriptId, "Extracting text from manuscript...");
-                const manuscriptText = await extractTextFromFile(fileObject);
+                const ingested = await ingestDocument(fileObject);
+                const manuscriptText = ingested.text;
+                addComplianceLog(manuscriptId, `Extracted ${describeDocument(ingested)}.`);
+                ingested.warnings?.forEach(warning => addComplianceLog(manuscriptId, `WARNING: ${warning}`));
                 
                 const CHUNK_SIZE_PAGES = 25;
                 const pageChunks = manuscriptText.split(/(?=\[Page \d+\])/g);
@@ -162,12 +130,14 @@ const ComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) => {
 
                 let allFindings: ComplianceFinding[] = [];
                 let allRecommendations: JournalRecommendation[] = [];
+                let runUsage = emptyUsage();
                 for (const [index, chunk] of textChunks.entries()) {
                     updateJournalComplianceManuscript(manuscriptId, { progress: Math.round(((index + 1) / textChunks.length) * 100) });
                     addComplianceLog(manuscriptId, `Processing chunk ${index + 1}/${textChunks.length}...`);
                     try {
                         const isFirstChunk = index === 0;
-                        const { findings, recommendations } = await performComplianceCheck(chunk, rulesText, selectedModel, isFirstChunk);
+                        const { data: { findings, recommendations }, usage } = await performComplianceCheck(chunk, rulesText, selectedModel, isFirstChunk);
+                        runUsage = addUsage(runUsage, usage);
                         if (findings.length > 0) {
                             addComplianceLog(manuscriptId, `Found ${findings.length} compliance issues in chunk ${index + 1}.`);
                             allFindings.push(...findings);
@@ -185,6 +155,7 @@ const ComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                     userId: currentUser!.id, 
                     toolName: 'Journal Compliance Checker', 
                     modelName: selectedModel,
+                    ...runUsage,
                     outputId: manuscriptId,
                     outputName: fileObject.name,
                 });
@@ -355,7 +326,7 @@ const ComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) => {
 };
 
 const ProfileCard: React.FC<{ profile: ComplianceProfile; ruleFiles: Record<string, RuleFile>; isExpanded: boolean; onExpandToggle: (id: string) => void; onDelete: (id: string) => void; onRuleDelete: (ruleId: string) => void; onDrop: (files: File[]) => void; }> = ({ profile, ruleFiles, isExpanded, onExpandToggle, onDelete, onRuleDelete, onDrop }) => {
-    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: { 'application/pdf': ['.pdf'], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'] } });
+    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: acceptFor(['pdf', 'docx']) });
     return (
         <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md overflow-hidden transition-all duration-300">
             <button onClick={() => onExpandToggle(profile.id)} className="w-full p-4 flex justify-between items-center text-left hover:bg-slate-50 dark:hover:bg-slate-700/50">
@@ -407,7 +378,7 @@ const ManuscriptRow: React.FC<{ manuscript: ManuscriptFile; onViewReport: (m: Ma
 
 
 const FolderCard: React.FC<{ folder: ComplianceProjectFolder; profiles: ComplianceProfile[]; isExpanded: boolean; onExpandToggle: (id: string) => void; onDelete: (id: string) => void; onMapProfile: (profId: string | null) => void; onManuscriptDelete: (id: string) => void; onDrop: (files: File[]) => void; onViewReport: (m: ManuscriptFile) => void; onViewLogs: (m: ManuscriptFile) => void; onDownloadLog: (m: ManuscriptFile) => void; }> = ({ folder, profiles, isExpanded, onExpandToggle, onDelete, onMapProfile, onManuscriptDelete, onDrop, onViewReport, onViewLogs, onDownloadLog }) => {
-    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: { 'application/pdf': ['.pdf'], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'] } });
+    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: acceptFor(['pdf', 'docx']) });
     return (
          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md transition-all duration-300">
             <button onClick={() => onExpandToggle(folder.id)} className="w-full p-4 flex justify-between items-center text-left hover:bg-slate-50 dark:hover:bg-slate-700/50">
@@ -2,7 +2,9 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { ExtractedAsset } from '../types';
 import { useAppContext } from '../hooks/useAppContext';
-import { generateMetadataForImage } from '../services/aiService';
+import { generateMetadataForImage, addUsage, emptyUsage } from '../services/aiService';
+import { DEFAULT_MODEL } from '../services/llmProvider';
+import ModelSelector from '../components/ModelSelector';
 import Spinner from '../components/Spinner';
 import { UploadIcon, ChevronLeftIcon, SparklesIcon, DownloadIcon, TrashIcon, XIcon, ExclamationIcon, ShieldCheckIcon, ChevronDownIcon } from '../components/icons/Icons';
 
@@ -20,7 +22,7 @@ export default function ImageMetadataExtractor({ onBack }: { onBack: () => void
     const [imageAssets, setImageAssets] = useState<ImageAsset[]>([]);
     const [status, setStatus] = useState<'idle' | 'processing' | 'done' | 'error'>('idle');
     const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
-    const [selectedModel, setSelectedModel] = useState('gemini-2.5-flash');
+    const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL);
     const [isHeaderExpanded, setIsHeaderExpanded] = useState(true);
 
     const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -56,6 +58,7 @@ export default function ImageMetadataExtractor({ onBack }: { onBack: () => void
 
         setStatus('processing');
         const assetsToProcess = imageAssets.filter(a => a.status === 'pending');
+        let runUsage = emptyUsage();
 
         for (const [index, asset] of assetsToProcess.entries()) {
             setImageAssets(prev => prev.map(a => a.id === asset.id ? { ...a, status: 'processing' } : a));
@@ -67,7 +70,8 @@ export default function ImageMetadataExtractor({ onBack }: { onBack: () => void
                     reader.onerror = error => reject(error);
                 });
 
-                const metadata = await generateMetadataForImage(base64, asset.file.type, selectedModel);
+                const { data: metadata, usage } = await generateMetadataForImage(base64, asset.file.type, selectedModel);
+                runUsage = addUsage(runUsage, usage);
                 setImageAssets(prev => prev.map(a => a.id === asset.id ? { ...a, status: 'done', metadata: { ...metadata, id: a.id } } : a));
 
             } catch (err) {
@@ -89,6 +93,7 @@ export default function ImageMetadataExtractor({ onBack }: { onBack: () => void
             userId: currentUser.id, 
             toolName: 'Image Metadata Generator', 
             modelName: selectedModel,
+            ...runUsage,
             outputName: `${assetsToProcess.length} image(s) processed`,
             reportData: resultsForLog
         });
@@ -270,6 +275,7 @@ export default function ImageMetadataExtractor({ onBack }: { onBack: () => void
                         )}
                     </div>
                 </div>
+                <ModelSelector value={selectedModel} onChange={setSelectedModel} canUseProModel={currentUser?.canUseProModel} disabled={status === 'processing'} />
             </div>
             
             <div className="flex-grow overflow-hidden">
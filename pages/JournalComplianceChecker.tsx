@@ -7,49 +7,42 @@ import {
     ChevronLeftIcon, DownloadIcon, CheckIcon, XIcon, ExclamationIcon, ChevronDownIcon,
     TrashIcon, FolderIcon, PlusCircleIcon, UploadIcon, ClipboardListIcon, ShieldCheckIcon, DocumentTextIcon, BookOpenIcon, InfoIcon, PencilIcon, SparklesIcon, LockClosedIcon
 } from '../components/icons/Icons';
-import * as pdfjsLib from 'pdfjs-dist';
-import mammoth from 'mammoth';
-import { analyzeManuscript, performComplianceCheck, scoreManuscript, analyzeJournalMetadata, simulatePeerReview, generateEditorialEnhancements, performIntegrityCheck } from '../services/aiService';
+import { analyzeManuscript, performComplianceCheck, scoreManuscript, analyzeJournalMetadata, simulatePeerReview, generateEditorialEnhancements, performIntegrityCheck, evaluateReportingChecklist, recordStageUsage, totalUsage, recordStageCoverage, describeCoverage, coveragePercent, describeValidation, AiResult } from '../services/aiService';
+import { getDefaultModel } from '../services/llmProvider';
+import { ingestDocument, describeDocument, acceptFor, acceptAttribute } from '../services/documentIngestion';
+import { createLocator } from '../services/documentModel';
+import { buildJatsFrontMatter } from '../services/jatsExport';
+import { checkReferences, describeReferenceCheck } from '../services/referenceCheck';
+import { REPORTING_GUIDELINES, guidelineLabel, suggestGuidelines, formatChecklistForPrompt, completeChecklist, summarizeChecklist } from '../services/reportingGuidelines';
+import ModelSelector from '../components/ModelSelector';
+import { withResultCache, hashContent } from '../services/resultCache';
+import { describePromptVersions } from '../services/promptRegistry';
+import { evaluateRules, summarizeRuleFindings } from '../services/ruleEngine';
+import { splitRuleDocument, rulesOf, listProfileRules, formatRulesForPrompt, assignRuleIds, computeRuleCoverage, describeRuleCoverage, describeRuleReference } from '../services/ruleDocument';
+import { buildReport, renderReportDocx, renderReportHtml, printReport, reportFileName, ReportFormat, ReportSectionId } from '../services/reportExport';
+import { renderLetterDocx, letterFileName } from '../services/revisionLetter';
+import { JOURNAL_STAGES, ProcessingJob, StageSettings, stagesToRun, stageSettings, isStageEnabled, carryOverResults, stageState, failRunningStages } from '../services/pipelineStages';
+import { diffVersions, describeVersionDiff, versionChain, hasNewerVersion } from '../services/versionDiff';
+import { TRIAGE_KEYS, TriageFilter, checklistTriageKey, carryOverTriage, countTriage, describeTriage, describeTriageFilter, matchesTriageFilter, triageStatusOf } from '../services/findingTriage';
+import { createQuoteVerifier, verifyQuotes, summarizeQuoteVerification, isUnverified, describeQuoteVerification, describeFindingLocation } from '../services/quoteVerifier';
 import {
-    ComplianceFinding, FindingStatus, ComplianceProfile, RuleFile,
-    ComplianceProjectFolder, ManuscriptFile, ManuscriptStatus, JournalRecommendation, ManuscriptIssuePriority, ManuscriptIssue, PeerReviewSimulation, EditorialReport, IntegrityIssue
+    ComplianceFinding, FindingStatus, ComplianceProfile, RuleFile, CheckableRule, RuleItem, ReportingChecklistReport, ReportingGuidelineId, ProfileStageConfig,
+    ComplianceProjectFolder, ManuscriptFile, ManuscriptStatus, JournalRecommendation, ManuscriptIssuePriority, ManuscriptIssue, PeerReviewSimulation, EditorialReport, IntegrityIssue, StageUsage, QuoteVerification, ReportBranding, RevisionLetter, StageRunStatus
 } from '../types';
 import ScoringDashboard from '../components/ScoringDashboard';
-
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs`;
-
-async function extractTextFromFile(file: File): Promise<string> {
-    const arrayBuffer = await file.arrayBuffer();
-
-    if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-        const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(arrayBuffer) }).promise;
-        let fullText = '';
-        for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map(item => 'str' in item ? item.str : '').join(' ');
-            fullText += `[Page ${i}]\n${pageText}\n\n`;
-        }
-        return fullText;
-    } else if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || file.name.endsWith('.docx')) {
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        // Heuristic to simulate page numbers for Word documents
-        const words = result.value.split(/\s+/);
-        const wordsPerPage = 300; // An average page has about 300 words
-        let fullText = '';
-        let pageCounter = 1;
-        for (let i = 0; i < words.length; i += wordsPerPage) {
-            const chunk = words.slice(i, i + wordsPerPage).join(' ');
-            if (chunk.trim()) {
-                fullText += `[Page ${pageCounter}]\n${chunk}\n\n`;
-                pageCounter++;
-            }
-        }
-        return fullText;
-    } else {
-        throw new Error(`Unsupported file type: ${file.name}. Please upload a PDF or DOCX file.`);
-    }
-}
+import CoverageSummary from '../components/CoverageSummary';
+import CheckableRulesEditor from '../components/CheckableRulesEditor';
+import RuleListEditor from '../components/RuleListEditor';
+import RuleCoverageSummary from '../components/RuleCoverageSummary';
+import ComplianceDashboard from '../components/ComplianceDashboard';
+import QuoteVerificationBadge from '../components/QuoteVerificationBadge';
+import ReportExportModal from '../components/ReportExportModal';
+import RevisionLetterComposer from '../components/RevisionLetterComposer';
+import StageStatusPanel from '../components/StageStatusPanel';
+import VersionDiffModal from '../components/VersionDiffModal';
+import PipelineStagesEditor from '../components/PipelineStagesEditor';
+import FindingTriageControl, { TriageChange } from '../components/FindingTriageControl';
+import TriageFilterBar from '../components/TriageFilterBar';
 
 const renderStatusIcon = (status: FindingStatus) => {
     const styles = { pass: 'text-green-400 bg-green-900/50 border-green-500/50', warn: 'text-yellow-400 bg-yellow-900/50 border-yellow-500/50', fail: 'text-red-400 bg-red-900/50 border-red-500/50' };
@@ -72,14 +65,14 @@ const ManuscriptStatusIndicator: React.FC<{ status: ManuscriptStatus }> = ({ sta
 };
 
 const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack }) => {
-    const { currentUser, addUsageLog, setStatusBarMessage, currentUserData, createJournalComplianceProfile, deleteComplianceProfile, addRuleFilesToProfile, deleteRuleFileFromProfile, createJournalComplianceFolder, deleteJournalComplianceFolder, updateJournalComplianceFolderProfile, addManuscriptsToJournalComplianceFolder, updateJournalComplianceManuscript, deleteJournalComplianceManuscript } = useAppContext();
+    const { currentUser, addUsageLog, setStatusBarMessage, currentUserData, createJournalComplianceProfile, deleteComplianceProfile, addRuleFilesToProfile, deleteRuleFileFromProfile, addCheckableRule, deleteCheckableRule, updateRuleFileRules, updateProfileReportingGuidelines, updateProfileStageConfig, updateReportBranding, createJournalComplianceFolder, deleteJournalComplianceFolder, updateJournalComplianceFolderProfile, updateJournalComplianceFolderBypassCache, addManuscriptsToJournalComplianceFolder, updateJournalComplianceManuscript, deleteJournalComplianceManuscript } = useAppContext();
     const allProfiles = currentUserData?.complianceProfiles || [];
     const profiles = useMemo(() => allProfiles.filter(p => p.type === 'journal'), [allProfiles]);
     const ruleFiles = currentUserData?.ruleFiles || {};
     const folders = currentUserData?.journalComplianceFolders || [];
     
     const [activeTab, setActiveTab] = useState<'profiles' | 'projects'>('projects');
-    const [processingQueue, setProcessingQueue] = useState<string[]>([]);
+    const [processingQueue, setProcessingQueue] = useState<ProcessingJob[]>([]);
     const [isProcessing, setIsProcessing] = useState(false);
     const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({});
     const transientFiles = useRef<Map<string, File>>(new Map());
@@ -89,10 +82,17 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
     const [newProfileName, setNewProfileName] = useState('');
     const [newFolderName, setNewFolderName] = useState('');
     const [selectedProfileForFolder, setSelectedProfileForFolder] = useState<string | null>(null);
-    const [selectedModel, setSelectedModel] = useState(currentUser?.canUseProModel ? 'gemini-3-pro-preview' : 'gemini-2.5-flash');
-    const [reportTab, setReportTab] = useState<'compliance' | 'analysis' | 'recommendations' | 'scoring' | 'metadata' | 'peerReview' | 'editorial' | 'integrity'>('compliance');
+    const [selectedModel, setSelectedModel] = useState(() => getDefaultModel(currentUser?.canUseProModel));
+    const [reportTab, setReportTab] = useState<'compliance' | 'analysis' | 'recommendations' | 'scoring' | 'metadata' | 'peerReview' | 'editorial' | 'integrity' | 'references' | 'checklists'>('compliance');
     
     const [isHeaderExpanded, setIsHeaderExpanded] = useState(true);
+    const [hideUnverified, setHideUnverified] = useState(false);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    const [isLetterOpen, setIsLetterOpen] = useState(false);
+    const [triageFilter, setTriageFilter] = useState<TriageFilter>('active');
+    // Findings to show and export; triage applies when the report's key is given.
+    const visibleFindings = <T extends object>(items: T[] | undefined, triageKey?: (item: T) => string, manuscript = selectedManuscript): T[] => (items || []).filter(item =>
+        (!hideUnverified || !isUnverified(item)) && (!triageKey || matchesTriageFilter(triageFilter, triageStatusOf(manuscript?.triage, triageKey(item)))));
 
     const addComplianceLog = useCallback((manuscriptId: string, message: string) => {
         const timestamp = new Date().toLocaleTimeString();
@@ -108,9 +108,9 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
         const newRuleFileEntries: Record<string, RuleFile> = {};
         for (const file of acceptedFiles) {
             try {
-                const textContent = await extractTextFromFile(file);
+                const { text: textContent } = await ingestDocument(file);
                 const id = Math.random().toString(36).substring(2, 9);
-                newRuleFileEntries[id] = { id, name: file.name, textContent };
+                newRuleFileEntries[id] = { id, name: file.name, textContent, rules: splitRuleDocument(id, textContent) };
             } catch (error) {
                 setStatusBarMessage(`Failed to process ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
             }
@@ -121,14 +121,25 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
         }
     }, [setStatusBarMessage, addRuleFilesToProfile]);
 
+    const [compareId, setCompareId] = useState<string | null>(null);
+    const compared = folders.flatMap(f => f.manuscripts).find(m => m.id === compareId);
+    const handleUploadRevision = (folderId: string, previous: ManuscriptFile, file: File) => {
+        const id = Math.random().toString(36).substring(2, 9);
+        transientFiles.current.set(id, file);
+        const revision: ManuscriptFile = { id, name: file.name, fileSize: file.size, status: 'queued', logs: [], progress: 0, version: (previous.version || 1) + 1, previousVersionId: previous.id };
+        addManuscriptsToJournalComplianceFolder(folderId, [revision]);
+        setProcessingQueue(prev => [...prev, { manuscriptId: id }]);
+        setStatusBarMessage(`${file.name} added to queue as version ${revision.version} of ${previous.name}.`, 'info');
+    };
+
     const onManuscriptsDrop = useCallback((acceptedFiles: File[], folderId: string) => {
         const newManuscripts: ManuscriptFile[] = acceptedFiles.map(file => {
             const id = Math.random().toString(36).substring(2, 9);
             transientFiles.current.set(id, file);
-            return { id, name: file.name, status: 'queued', logs: [], progress: 0 };
+            return { id, name: file.name, fileSize: file.size, status: 'queued', logs: [], progress: 0 };
         });
         addManuscriptsToJournalComplianceFolder(folderId, newManuscripts);
-        setProcessingQueue(prev => [...prev, ...newManuscripts.map(m => m.id)]);
+        setProcessingQueue(prev => [...prev, ...newManuscripts.map(m => ({ manuscriptId: m.id }))]);
         setStatusBarMessage(`${newManuscripts.length} manuscript(s) added to queue.`, 'info');
     }, [setStatusBarMessage, addManuscriptsToJournalComplianceFolder]);
 
@@ -136,7 +147,7 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
         const processNextInQueue = async () => {
             if (isProcessing || processingQueue.length === 0) return;
             setIsProcessing(true);
-            const manuscriptId = processingQueue[0];
+            const { manuscriptId, stageIds } = processingQueue[0];
             const findResult = folders.reduce((acc, f) => {
                 const m = f.manuscripts.find(ms => ms.id === manuscriptId);
                 if (m) { acc.folder = f; acc.manuscript = m; }
@@ -151,136 +162,242 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                 setIsProcessing(false); setProcessingQueue(q => q.slice(1)); return;
             }
             const profile = profiles.find(p => p.id === folder.profileId);
-            if (!profile || profile.ruleFileIds.length === 0) {
+            if (!profile || (profile.ruleFileIds.length === 0 && !profile.checkableRules?.length)) {
                 addComplianceLog(manuscriptId, `ERROR: Profile '${profile?.name || 'Unknown'}' is empty.`);
                 updateJournalComplianceManuscript(manuscriptId, { status: 'error' });
                 setIsProcessing(false); setProcessingQueue(q => q.slice(1)); return;
             }
             
+            const stages = stagesToRun(JOURNAL_STAGES, manuscript, profile, stageIds);
+            const runs = (id: string) => stages.some(stage => stage.id === id);
+            const settingsOf = (id: string) => stageSettings(profile, id, selectedModel, currentUser?.canUseProModel);
+            let stageStates = { ...manuscript.stages };
+            const setStage = (id: string, status: StageRunStatus, error?: string) => {
+                stageStates = { ...stageStates, [id]: stageState(status, error) };
+                updateJournalComplianceManuscript(manuscriptId, { stages: stageStates });
+            };
+
             updateJournalComplianceManuscript(manuscriptId, { status: 'processing', progress: 0 });
-            addComplianceLog(manuscriptId, "Processing started.");
+            addComplianceLog(manuscriptId, stageIds ? `Processing started for: ${stages.map(stage => stage.label).join(', ')}.` : "Processing started.");
+            const disabled = JOURNAL_STAGES.filter(stage => !isStageEnabled(profile, stage));
+            if (disabled.length > 0) addComplianceLog(manuscriptId, `Stages off in profile '${profile.name}': ${disabled.map(stage => stage.label).join(', ')}.`);
+            stages.forEach(stage => {
+                const { model, rejectedModel } = settingsOf(stage.id);
+                if (rejectedModel) addComplianceLog(manuscriptId, `WARNING: ${stage.label} is set to ${rejectedModel}, which this account may not use; running it with ${model}.`);
+            });
             try {
                 addComplianceLog(manuscriptId, "Extracting text from manuscript...");
-                const manuscriptText = await extractTextFromFile(fileObject);
+                const ingested = await ingestDocument(fileObject, ['pdf', 'docx', 'latex', 'jats']);
+                const manuscriptText = ingested.text;
+                addComplianceLog(manuscriptId, `Extracted ${describeDocument(ingested)}.`);
+                ingested.warnings?.forEach(warning => addComplianceLog(manuscriptId, `WARNING: ${warning}`));
+                const referenceReport = checkReferences(ingested);
+                addComplianceLog(manuscriptId, `Reference check: ${describeReferenceCheck(referenceReport)}.`);
                 
                 const CHUNK_SIZE_PAGES = 25;
                 const pageChunks = manuscriptText.split(/(?=\[Page \d+\])/g);
                 const textChunks = pageChunks.reduce((acc, chunk, i) => (i % CHUNK_SIZE_PAGES ? acc[acc.length - 1] += chunk : acc.push(chunk), acc), [] as string[]);
-                addComplianceLog(manuscriptId, `Split into ${textChunks.length} chunks.`);
+                if (runs('compliance')) addComplianceLog(manuscriptId, `Split into ${textChunks.length} chunks.`);
 
-                const rulesText = profile.ruleFileIds.map(id => ruleFiles[id]?.textContent).filter(Boolean).join('\n\n---\n\n');
-                if (!rulesText.trim()) throw new Error('No rule documents found or they are empty.');
+                const rulesText = formatRulesForPrompt(profile.ruleFileIds.map(id => ruleFiles[id]).filter(Boolean));
+                const profileRules = listProfileRules(profile, ruleFiles);
+                if (!rulesText.trim() && !profile.checkableRules?.length) throw new Error('No rule documents found or they are empty.');
+                if (!rulesText.trim() && runs('compliance')) addComplianceLog(manuscriptId, 'No rule documents in the profile; only its checkable rules will be evaluated.');
 
-                const totalSteps = textChunks.length + 6; // Compliance chunks + analysis + scoring + metadata + peer review + editorial + integrity
-
-                let allFindings: ComplianceFinding[] = [];
-                let allRecommendations: JournalRecommendation[] = [];
-                for (const [index, chunk] of textChunks.entries()) {
-                    updateJournalComplianceManuscript(manuscriptId, { progress: Math.round(((index + 1) / totalSteps) * 100) });
-                    addComplianceLog(manuscriptId, `Processing compliance chunk ${index + 1}/${textChunks.length}...`);
+                const totalSteps = (runs('compliance') ? textChunks.length : 0) + stages.filter(stage => stage.id !== 'compliance').length; // One step per compliance chunk and per other stage
+                let step = 0;
+                const advance = () => updateJournalComplianceManuscript(manuscriptId, { progress: Math.round((++step / Math.max(totalSteps, 1)) * 100) });
+                const stageUsage: StageUsage[] = [];
+                const { stageCoverage, cachedStages, promptVersions } = carryOverResults(manuscript, stages);
+                const logValidation = (stage: string, result: { validationIssues?: string[], repairs?: number }) => {
+                    const summary = describeValidation(result);
+                    if (summary) addComplianceLog(manuscriptId, `WARNING: ${stage} output did not fully match the expected format (${summary}).`);
+                };
+                const recordResult = (stage: string, { usage, coverage, cached, promptVersions: stageVersions, ...validation }: AiResult<unknown>) => {
+                    recordStageUsage(stageUsage, stage, usage);
+                    recordStageCoverage(stageCoverage, stage, coverage);
+                    if (cached && !cachedStages.includes(stage)) cachedStages.push(stage);
+                    Object.assign(promptVersions, stageVersions);
+                    logValidation(stage, validation);
+                };
+                // Runs one single-call stage; a failure is logged and recorded on the stage, and the run goes on.
+                const runStage = async <T,>(id: string, call: (settings: StageSettings) => Promise<AiResult<T>>, describe: (data: T) => string): Promise<T | undefined> => {
+                    const stage = JOURNAL_STAGES.find(s => s.id === id)!;
+                    const settings = settingsOf(id);
+                    advance();
+                    setStage(id, 'running');
+                    addComplianceLog(manuscriptId, `Starting ${stage.label.toLowerCase()} with ${settings.model}...`);
                     try {
-                        const isFirstChunk = index === 0;
-                        const { findings, recommendations } = await performComplianceCheck(chunk, rulesText, selectedModel, isFirstChunk);
-                        if (findings.length > 0) {
-                            addComplianceLog(manuscriptId, `Found ${findings.length} compliance issues in chunk ${index + 1}.`);
-                            allFindings.push(...findings);
-                        }
-                        if (isFirstChunk && recommendations.length > 0) {
-                            addComplianceLog(manuscriptId, `Received ${recommendations.length} journal recommendations.`);
-                            allRecommendations.push(...recommendations);
+                        const result = await call(settings);
+                        recordResult(stage.label, result);
+                        addComplianceLog(manuscriptId, `${stage.label} finished. ${describe(result.data)}`.trim());
+                        setStage(id, 'completed');
+                        return result.data;
+                    } catch (stageError) {
+                        const message = stageError instanceof Error ? stageError.message : "Unknown";
+                        addComplianceLog(manuscriptId, `ERROR during ${stage.label.toLowerCase()}: ${message}`);
+                        setStage(id, 'failed', message);
+                        return undefined;
+                    }
+                };
+                const docHash = await hashContent(manuscriptText);
+                const rulesHash = await hashContent(rulesText);
+                const verifyQuote = createQuoteVerifier(manuscriptText, createLocator(ingested));
+                const verified: { quoteVerification?: QuoteVerification }[] = [];
+                const results: Partial<ManuscriptFile> = {};
+
+                if (runs('compliance')) {
+                    setStage('compliance', 'running');
+                    const { model, options, cacheVariant } = settingsOf('compliance');
+                    let allFindings: ComplianceFinding[] = [];
+                    const allRecommendations: JournalRecommendation[] = [];
+                    let failedChunks = 0;
+                    for (const [index, chunk] of (rulesText.trim() ? textChunks : []).entries()) {
+                        advance();
+                        addComplianceLog(manuscriptId, `Processing compliance chunk ${index + 1}/${textChunks.length}...`);
+                        try {
+                            const isFirstChunk = index === 0;
+                            const result = await withResultCache({ docHash: await hashContent(chunk), stage: 'complianceCheck', model, rulesHash, variant: cacheVariant(String(isFirstChunk)) }, folder.bypassCache, () => performComplianceCheck(chunk, rulesText, model, isFirstChunk, options));
+                            const { findings, recommendations } = result.data;
+                            recordResult('Compliance Check', result);
+                            if (findings.length > 0) {
+                                addComplianceLog(manuscriptId, `Found ${findings.length} compliance issues in chunk ${index + 1}.`);
+                                allFindings.push(...findings);
+                            }
+                            if (isFirstChunk && recommendations.length > 0) {
+                                addComplianceLog(manuscriptId, `Received ${recommendations.length} journal recommendations.`);
+                                allRecommendations.push(...recommendations);
+                            }
+                        } catch (chunkError) {
+                            failedChunks++;
+                            addComplianceLog(manuscriptId, `ERROR processing compliance chunk ${index + 1}: ${chunkError instanceof Error ? chunkError.message : "Unknown"}`);
+                            recordStageCoverage(stageCoverage, 'Compliance Check', { totalChars: chunk.length, analyzedChars: 0, totalSections: 1, analyzedSections: 0 });
                         }
-                    } catch (chunkError) { addComplianceLog(manuscriptId, `ERROR processing compliance chunk ${index + 1}: ${chunkError instanceof Error ? chunkError.message : "Unknown"}`); }
-                    if (index < textChunks.length - 1) await new Promise<void>(resolve => setTimeout(() => resolve(), 1500));
-                }
+                        if (index < textChunks.length - 1) await new Promise<void>(resolve => setTimeout(() => resolve(), 1500));
+                    }
 
-                updateJournalComplianceManuscript(manuscriptId, { progress: Math.round((textChunks.length / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Compliance check finished. Found ${allFindings.length} items. Starting manuscript analysis...`);
-                
-                let analysisIssues: ManuscriptIssue[] = [];
-                try {
-                    analysisIssues = await analyzeManuscript(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Manuscript analysis finished. Found ${analysisIssues.length} issues.`);
-                } catch (analysisError) {
-                    addComplianceLog(manuscriptId, `ERROR during manuscript analysis: ${analysisError instanceof Error ? analysisError.message : "Unknown"}`);
+                    allFindings = assignRuleIds(allFindings, profileRules);
+                    const unmatched = allFindings.filter(f => !f.ruleId).length;
+                    if (unmatched > 0) addComplianceLog(manuscriptId, `WARNING: ${unmatched} compliance finding(s) could not be tied to a profile rule.`);
+                    addComplianceLog(manuscriptId, `Compliance check finished. Found ${allFindings.length} items.`);
+                    allFindings = verifyQuotes(allFindings, verifyQuote, f => f.manuscriptQuote, { get: f => f.manuscriptPage, set: (f, page) => ({ ...f, manuscriptPage: page }) });
+                    verified.push(...allFindings);
+                    if (profile.checkableRules?.length) {
+                        // Added after quote verification: their evidence is measured text ("Numbered in the text: 1, 2"), not always a verbatim quote.
+                        const ruleFindings = evaluateRules(profile.checkableRules, ingested, referenceReport.references.length);
+                        addComplianceLog(manuscriptId, `Checkable rules: ${summarizeRuleFindings(ruleFindings)}.`);
+                        allFindings = [...ruleFindings, ...allFindings];
+                    }
+                    const ruleCoverage = computeRuleCoverage(profileRules, allFindings);
+                    addComplianceLog(manuscriptId, `Rule coverage: ${describeRuleCoverage(ruleCoverage)}.`);
+                    Object.assign(results, { complianceReport: allFindings, ruleCoverage, journalRecommendations: allRecommendations });
+                    setStage('compliance', failedChunks > 0 ? 'failed' : 'completed', failedChunks > 0 ? `${failedChunks} of ${textChunks.length} chunk(s) failed` : undefined);
                 }
 
-                updateJournalComplianceManuscript(manuscriptId, { progress: Math.round(((textChunks.length + 1) / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Manuscript analysis finished. Starting scoring...`);
-                
-                let scores = null;
-                try {
-                    scores = await scoreManuscript(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Manuscript scoring finished successfully.`);
-                } catch (scoringError) {
-                     addComplianceLog(manuscriptId, `ERROR during manuscript scoring: ${scoringError instanceof Error ? scoringError.message : "Unknown"}`);
+                if (runs('analysis')) {
+                    const analysisIssues = await runStage('analysis', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'manuscriptAnalysis', model, variant: cacheVariant() }, folder.bypassCache, () => analyzeManuscript(manuscriptText, model, options)), data => `Found ${data.length} issues.`);
+                    if (analysisIssues) {
+                        results.analysisReport = verifyQuotes(analysisIssues, verifyQuote, i => i.quote, { get: i => i.pageNumber, set: (i, page) => ({ ...i, pageNumber: page }) });
+                        verified.push(...results.analysisReport);
+                    }
                 }
-
-                updateJournalComplianceManuscript(manuscriptId, { progress: Math.round(((textChunks.length + 2) / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Scoring finished. Starting metadata analysis...`);
-
-                let metadataReport = null;
-                try {
-                    metadataReport = await analyzeJournalMetadata(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Metadata analysis finished.`);
-                } catch (metaError) {
-                    addComplianceLog(manuscriptId, `ERROR during metadata analysis: ${metaError instanceof Error ? metaError.message : "Unknown"}`);
+                if (runs('scoring')) {
+                    const scores = await runStage('scoring', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'scoring', model, variant: cacheVariant() }, folder.bypassCache, () => scoreManuscript(manuscriptText, model, options)), () => '');
+                    if (scores) results.scores = scores;
                 }
-
-                updateJournalComplianceManuscript(manuscriptId, { progress: Math.round(((textChunks.length + 3) / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Metadata analysis finished. Starting peer review simulation...`);
-
-                let peerReviewSimulation = null;
-                try {
-                    peerReviewSimulation = await simulatePeerReview(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Peer review simulation finished.`);
-                } catch (reviewError) {
-                    addComplianceLog(manuscriptId, `ERROR during peer review simulation: ${reviewError instanceof Error ? reviewError.message : "Unknown"}`);
+                if (runs('metadata')) {
+                    const metadataReport = await runStage('metadata', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'journalMetadata', model, variant: cacheVariant() }, folder.bypassCache, () => analyzeJournalMetadata(manuscriptText, model, options)), () => '');
+                    if (metadataReport) results.metadataAnalysisReport = metadataReport;
                 }
-
-                updateJournalComplianceManuscript(manuscriptId, { progress: Math.round(((textChunks.length + 4) / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Peer review simulation finished. Starting editorial assistant...`);
-
-                let editorialReport = null;
-                try {
-                    editorialReport = await generateEditorialEnhancements(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Editorial assistant finished.`);
-                } catch (editError) {
-                    addComplianceLog(manuscriptId, `ERROR during editorial assistant: ${editError instanceof Error ? editError.message : "Unknown"}`);
+                if (runs('peerReview')) {
+                    const peerReviewSimulation = await runStage('peerReview', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'peerReview', model, variant: cacheVariant() }, folder.bypassCache, () => simulatePeerReview(manuscriptText, model, options)), () => '');
+                    if (peerReviewSimulation) results.peerReviewSimulation = peerReviewSimulation;
+                }
+                if (runs('editorial')) {
+                    const editorialReport = await runStage('editorial', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'editorial', model, variant: cacheVariant() }, folder.bypassCache, () => generateEditorialEnhancements(manuscriptText, model, options)), () => '');
+                    if (editorialReport) results.editorialReport = editorialReport;
+                }
+                if (runs('integrity')) {
+                    const integrityReport = await runStage('integrity', ({ model, options, cacheVariant }) => withResultCache({ docHash, stage: 'integrity', model, variant: cacheVariant() }, folder.bypassCache, () => performIntegrityCheck(manuscriptText, model, options)), () => '');
+                    if (integrityReport) {
+                        results.integrityReport = verifyQuotes<IntegrityIssue>(integrityReport, verifyQuote, i => i.snippet);
+                        verified.push(...results.integrityReport);
+                    }
                 }
 
-                updateJournalComplianceManuscript(manuscriptId, { progress: Math.round(((textChunks.length + 5) / totalSteps) * 100) });
-                addComplianceLog(manuscriptId, `Editorial assistant finished. Starting integrity check...`);
-
-                let integrityReport = null;
-                try {
-                    integrityReport = await performIntegrityCheck(manuscriptText, selectedModel);
-                    addComplianceLog(manuscriptId, `Integrity check finished.`);
-                } catch (intError) {
-                    addComplianceLog(manuscriptId, `ERROR during integrity check: ${intError instanceof Error ? intError.message : "Unknown"}`);
+                if (runs('checklists')) {
+                    advance();
+                    setStage('checklists', 'running');
+                    const { model, options, cacheVariant } = settingsOf('checklists');
+                    // The section type comes from this run's metadata analysis, or the stored one when it was not re-run.
+                    const predictedSectionType = (results.metadataAnalysisReport || manuscript.metadataAnalysisReport)?.predictedSectionType;
+                    const guidelines = [
+                        ...(profile.reportingGuidelines || []).map(id => ({ id, reason: `Selected in profile '${profile.name}'` })),
+                        ...suggestGuidelines(predictedSectionType, manuscriptText).filter(s => !profile.reportingGuidelines?.includes(s.id)),
+                    ];
+                    addComplianceLog(manuscriptId, guidelines.length > 0 ? `Reporting guidelines: ${guidelines.map(g => `${g.id} (${g.reason})`).join('; ')}.` : 'No reporting guideline was suggested for this manuscript.');
+                    const reportingChecklists: ReportingChecklistReport[] = [];
+                    const failedChecklists: string[] = [];
+                    for (const { id, reason } of guidelines) {
+                        const guideline = REPORTING_GUIDELINES[id];
+                        const stage = `${guidelineLabel(guideline)} Checklist`;
+                        try {
+                            const result = await withResultCache({ docHash, stage: 'reportingChecklist', model, variant: cacheVariant(guidelineLabel(guideline)) }, folder.bypassCache, () => evaluateReportingChecklist(manuscriptText, guidelineLabel(guideline), formatChecklistForPrompt(guideline), model, options));
+                            const checklist = completeChecklist(guideline, reason, result.data);
+                            reportingChecklists.push({ ...checklist, items: verifyQuotes(checklist.items, verifyQuote, i => i.evidence, { get: i => i.page, set: (i, page) => ({ ...i, page }) }) });
+                            recordResult(stage, result);
+                            addComplianceLog(manuscriptId, `${summarizeChecklist(checklist)}.`);
+                        } catch (checklistError) {
+                            failedChecklists.push(guidelineLabel(guideline));
+                            addComplianceLog(manuscriptId, `ERROR during ${stage}: ${checklistError instanceof Error ? checklistError.message : "Unknown"}`);
+                        }
+                    }
+                    verified.push(...reportingChecklists.flatMap(c => c.items));
+                    results.reportingChecklists = reportingChecklists;
+                    setStage('checklists', failedChecklists.length > 0 ? 'failed' : 'completed', failedChecklists.length > 0 ? `Failed: ${failedChecklists.join(', ')}` : undefined);
                 }
 
+                const quoteSummary = summarizeQuoteVerification(verified);
+                if (quoteSummary) addComplianceLog(manuscriptId, `Quote check: ${quoteSummary}.`);
+                const previousVersion = folder.manuscripts.find(m => m.id === manuscript.previousVersionId);
+                if (previousVersion?.status === 'completed') addComplianceLog(manuscriptId, `Changes since version ${previousVersion.version || 1}: ${describeVersionDiff(diffVersions(previousVersion, { ...manuscript, ...results }))}.`);
+                const partialStages = Object.entries(stageCoverage).filter(([, c]) => coveragePercent(c) < 100);
+                if (partialStages.length > 0) {
+                    addComplianceLog(manuscriptId, `WARNING: Partial coverage - ${partialStages.map(([stage, c]) => `${stage}: ${describeCoverage(c)}`).join('; ')}.`);
+                }
+                if (cachedStages.length > 0) {
+                    addComplianceLog(manuscriptId, `Reused cached results for: ${cachedStages.join(', ')}.`);
+                }
+                const { promptTokens, responseTokens } = totalUsage(stageUsage);
+                addComplianceLog(manuscriptId, `Token usage: ${promptTokens} prompt / ${responseTokens} response across ${stageUsage.length} stage(s).`);
                 addUsageLog({ 
                     userId: currentUser!.id, 
                     toolName: 'Journal Compliance Checker', 
-                    modelName: selectedModel,
+                    modelName: Array.from(new Set(stages.map(stage => settingsOf(stage.id).model))).join(', '),
+                    promptTokens,
+                    responseTokens,
+                    stages: stageUsage,
                     outputId: manuscriptId,
                     outputName: fileObject.name,
                 });
-                updateJournalComplianceManuscript(manuscriptId, { 
+                // Triage comes from the stored manuscript, so changes made while the run was in flight are kept.
+                updateJournalComplianceManuscript(manuscriptId, stored => ({
                     status: 'completed', 
-                    complianceReport: allFindings, 
-                    journalRecommendations: allRecommendations, 
-                    analysisReport: analysisIssues,
-                    scores: scores || undefined,
-                    metadataAnalysisReport: metadataReport || undefined,
-                    peerReviewSimulation: peerReviewSimulation || undefined,
-                    editorialReport: editorialReport || undefined,
-                    integrityReport: integrityReport || undefined,
+                    ...results,
+                    triage: carryOverTriage(stored, { ...stored, ...results }),
+                    referenceReport,
+                    documentMetadata: ingested.metadata,
+                    analysisCoverage: stageCoverage,
+                    cachedStages,
+                    promptVersions,
+                    stages: stageStates,
+                    estimatedPages: ingested.estimatedPages,
                     progress: 100 
-                });
+                }));
             } catch (error) {
-                addComplianceLog(manuscriptId, `FATAL ERROR: ${error instanceof Error ? error.message : "Unknown"}`);
-                updateJournalComplianceManuscript(manuscriptId, { status: 'error' });
+                const message = error instanceof Error ? error.message : "Unknown";
+                addComplianceLog(manuscriptId, `FATAL ERROR: ${message}`);
+                updateJournalComplianceManuscript(manuscriptId, { status: 'error', stages: failRunningStages(stageStates, message) });
             } finally {
                 setIsProcessing(false);
                 setProcessingQueue(q => q.slice(1));
@@ -291,7 +408,23 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
 
     const handleDownloadReport = (manuscript: ManuscriptFile) => {
         const fileName = `${manuscript.name}_report.csv`;
-        let csvContent = `File Name,${escapeCsvField(manuscript.name)}\nStatus,${escapeCsvField(manuscript.status)}\n\n`;
+        let csvContent = `File Name,${escapeCsvField(manuscript.name)}\nStatus,${escapeCsvField(manuscript.status)}\n`;
+        if (hideUnverified) csvContent += 'Note,Findings whose quote was not found in the manuscript are excluded\n';
+        if (describeTriageFilter(triageFilter)) csvContent += `Note,${describeTriageFilter(triageFilter)}\n`;
+        csvContent += '\n';
+
+        if (manuscript.analysisCoverage && Object.keys(manuscript.analysisCoverage).length > 0) {
+            csvContent += '## ANALYSIS COVERAGE ##\n';
+            csvContent += 'Stage,Coverage,Sections Analyzed,Pages Analyzed\n';
+            Object.entries(manuscript.analysisCoverage).forEach(([stage, c]) => {
+                csvContent += [stage, `${coveragePercent(c)}%`, `${c.analyzedSections}/${c.totalSections}`, c.totalPages ? `${c.analyzedPages}/${c.totalPages}` : 'N/A'].map(escapeCsvField).join(',') + '\n';
+            });
+            csvContent += '\n';
+        }
+
+        if (manuscript.promptVersions) {
+            csvContent += `Prompt Versions,${escapeCsvField(describePromptVersions(manuscript.promptVersions))}\n\n`;
+        }
 
         if (manuscript.scores) {
             csvContent += '## SCORING REPORT ##\n';
@@ -305,9 +438,9 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
 
         if (manuscript.integrityReport) {
             csvContent += '## RESEARCH INTEGRITY REPORT ##\n';
-            csvContent += 'Category,Status,Finding,Snippet,Recommendation\n';
-            manuscript.integrityReport.forEach(item => {
-                csvContent += [item.category, item.status, item.finding, item.snippet, item.recommendation].map(escapeCsvField).join(',') + '\n';
+            csvContent += 'Category,Status,Finding,Snippet,Quote Check,Recommendation,Triage\n';
+            visibleFindings(manuscript.integrityReport, TRIAGE_KEYS.integrity, manuscript).forEach(item => {
+                csvContent += [item.category, item.status, item.finding, item.snippet, describeQuoteVerification(item.quoteVerification), item.recommendation, describeTriage(manuscript.triage?.[TRIAGE_KEYS.integrity(item)])].map(escapeCsvField).join(',') + '\n';
             });
             csvContent += '\n';
         }
@@ -342,18 +475,48 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
 
         if (manuscript.complianceReport && manuscript.complianceReport.length > 0) {
             csvContent += '## COMPLIANCE REPORT ##\n';
-            csvContent += 'Status,Category,Summary,Manuscript Quote,Manuscript Page,Rule Content,Rule Page,Recommendation\n';
-            manuscript.complianceReport.forEach(f => {
-                csvContent += [f.status, f.checkCategory, f.summary, f.manuscriptQuote, f.manuscriptPage, f.ruleContent, f.rulePage, f.recommendation].map(escapeCsvField).join(',') + '\n';
+            csvContent += 'Status,Category,Summary,Manuscript Quote,Manuscript Page,Quote Check,Rule,Rule Content,Rule Page,Recommendation,Triage\n';
+            visibleFindings(manuscript.complianceReport, TRIAGE_KEYS.compliance, manuscript).forEach(f => {
+                csvContent += [f.status, f.checkCategory, f.summary, f.manuscriptQuote, manuscript.estimatedPages ? describeFindingLocation(f.manuscriptPage, f.quoteVerification, true) : f.manuscriptPage, describeQuoteVerification(f.quoteVerification), describeRuleReference(manuscript.ruleCoverage, f.ruleId), f.ruleContent, f.deterministic ? 'Checked locally' : f.rulePage, f.recommendation, describeTriage(manuscript.triage?.[TRIAGE_KEYS.compliance(f)])].map(escapeCsvField).join(',') + '\n';
             });
             csvContent += '\n';
         }
 
+        if (manuscript.ruleCoverage && manuscript.ruleCoverage.length > 0) {
+            csvContent += '## RULE COVERAGE ##\n';
+            csvContent += `Summary,${escapeCsvField(describeRuleCoverage(manuscript.ruleCoverage))}\n`;
+            csvContent += 'Rule,Rule ID,Status,Findings,Rule Text\n';
+            manuscript.ruleCoverage.forEach(entry => {
+                csvContent += [entry.label, entry.ruleId, entry.status, entry.findingCount, entry.text].map(escapeCsvField).join(',') + '\n';
+            });
+            csvContent += '\n';
+        }
+
+        manuscript.reportingChecklists?.forEach(checklist => {
+            csvContent += `## REPORTING CHECKLIST: ${checklist.name} ##\n`;
+            csvContent += checklistCsv(manuscript, checklist) + '\n';
+        });
+
         if (manuscript.analysisReport && manuscript.analysisReport.length > 0) {
             csvContent += '## MANUSCRIPT ANALYSIS REPORT ##\n';
-            csvContent += 'Priority,Category,Summary,Quote,Page Number,Recommendation\n';
-            manuscript.analysisReport.forEach(f => {
-                csvContent += [f.priority, f.issueCategory, f.summary, f.quote, f.pageNumber, f.recommendation].map(escapeCsvField).join(',') + '\n';
+            csvContent += 'Priority,Category,Summary,Quote,Page Number,Quote Check,Recommendation,Triage\n';
+            visibleFindings(manuscript.analysisReport, TRIAGE_KEYS.analysis, manuscript).forEach(f => {
+                csvContent += [f.priority, f.issueCategory, f.summary, f.quote, manuscript.estimatedPages ? describeFindingLocation(f.pageNumber, f.quoteVerification, true) : f.pageNumber, describeQuoteVerification(f.quoteVerification), f.recommendation, describeTriage(manuscript.triage?.[TRIAGE_KEYS.analysis(f)])].map(escapeCsvField).join(',') + '\n';
+            });
+            csvContent += '\n';
+        }
+
+        if (manuscript.referenceReport && manuscript.referenceReport.references.length > 0) {
+            csvContent += '## REFERENCE CHECK ##\n';
+            csvContent += `Citation Style,${escapeCsvField(manuscript.referenceReport.citationStyle)}\nIn-text Citations,${manuscript.referenceReport.citationCount}\n`;
+            csvContent += 'Finding,Summary,Quote,Page Number,Triage\n';
+            visibleFindings(manuscript.referenceReport.findings, TRIAGE_KEYS.references, manuscript).forEach(f => {
+                csvContent += [f.type, f.summary, f.quote, manuscript.estimatedPages ? f.location || `approx. p. ${f.page}` : f.page, describeTriage(manuscript.triage?.[TRIAGE_KEYS.references(f)])].map(escapeCsvField).join(',') + '\n';
+            });
+            csvContent += '\n## PARSED REFERENCES ##\n';
+            csvContent += 'Label,Authors,Year,Title,Container,Volume,Issue,Pages,DOI\n';
+            manuscript.referenceReport.references.forEach(r => {
+                csvContent += [r.label, r.authors.join('; '), r.year, r.title, r.container, r.volume, r.issue, r.pages, r.doi].map(escapeCsvField).join(',') + '\n';
             });
             csvContent += '\n';
         }
@@ -394,6 +557,115 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
         URL.revokeObjectURL(a.href);
         setStatusBarMessage(`Downloading report for ${manuscript.name}`, 'success');
     };
+
+    const handleExportReport = (manuscript: ManuscriptFile, format: ReportFormat, sectionIds: ReportSectionId[], branding: ReportBranding) => {
+        const report = buildReport(manuscript, 'Journal Compliance Report', sectionIds, { hideUnverified, triageFilter });
+        if (format === 'pdf') {
+            printReport(renderReportHtml(report, branding));
+            setStatusBarMessage(`Printing report for ${manuscript.name}; choose "Save as PDF" to create the PDF`, 'info');
+            return;
+        }
+        const blob = format === 'docx'
+            ? new Blob([renderReportDocx(report, branding)], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' })
+            : new Blob([renderReportHtml(report, branding)], { type: 'text/html;charset=utf-8;' });
+        const a = document.createElement('a');
+        a.href = URL.createObjectURL(blob);
+        a.download = reportFileName(manuscript, format);
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(a.href);
+        setStatusBarMessage(`Exported ${format.toUpperCase()} report for ${manuscript.name}`, 'success');
+    };
+
+    const handleSaveLetter = (manuscript: ManuscriptFile, revisionLetter: RevisionLetter) => {
+        updateJournalComplianceManuscript(manuscript.id, { revisionLetter });
+        setSelectedManuscript(m => m && m.id === manuscript.id ? { ...m, revisionLetter } : m);
+        setStatusBarMessage(`Saved revision letter for ${manuscript.name}`, 'success');
+    };
+
+    const handleTriageChange = (manuscript: ManuscriptFile, key: string, change: TriageChange) =>
+        updateJournalComplianceManuscript(manuscript.id, stored => ({ triage: { ...stored.triage, [key]: { ...change, updatedAt: new Date().toISOString(), updatedBy: currentUser?.email } } }));
+    const triageBar = (keys: string[]) => <TriageFilterBar value={triageFilter} counts={countTriage(selectedManuscript?.triage, keys)} onChange={setTriageFilter} />;
+    const triageControl = (key: string) => selectedManuscript && <FindingTriageControl triage={selectedManuscript.triage?.[key]} onChange={change => handleTriageChange(selectedManuscript, key, change)} />;
+
+    const handleExportLetter = (manuscript: ManuscriptFile, format: 'docx' | 'txt', text: string) => {
+        const blob = format === 'docx'
+            ? new Blob([renderLetterDocx(text, `Revision letter: ${manuscript.name}`, currentUserData?.reportBranding)], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' })
+            : new Blob([text], { type: 'text/plain;charset=utf-8;' });
+        const a = document.createElement('a');
+        a.href = URL.createObjectURL(blob);
+        a.download = letterFileName(manuscript, format);
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(a.href);
+        setStatusBarMessage(`Exported revision letter for ${manuscript.name}`, 'success');
+    };
+
+    // The open report follows the stored manuscript, so stage runs started from it show up as they progress.
+    useEffect(() => {
+        if (!selectedManuscript) return;
+        const stored = folders.flatMap(f => f.manuscripts).find(m => m.id === selectedManuscript.id);
+        if (stored && stored !== selectedManuscript) setSelectedManuscript(stored);
+    }, [folders, selectedManuscript]);
+
+    const [, setAttachedFiles] = useState(0); // Re-renders the stage panel once a file is attached again
+    const handleRunStages = (manuscript: ManuscriptFile, stageIds: string[]) => {
+        updateJournalComplianceManuscript(manuscript.id, { status: 'queued' });
+        setProcessingQueue(prev => [...prev, { manuscriptId: manuscript.id, stageIds }]);
+        setStatusBarMessage(`Queued ${stageIds.length} stage(s) of ${manuscript.name}.`, 'info');
+    };
+    const handleSkipStage = (manuscript: ManuscriptFile, stageId: string, skipped: boolean) =>
+        updateJournalComplianceManuscript(manuscript.id, { stages: { ...manuscript.stages, [stageId]: stageState(skipped ? 'skipped' : 'pending') } });
+    // Stage re-runs merge into the stored results, so only the file those results came from is accepted.
+    const handleAttachFile = (manuscript: ManuscriptFile, file: File) => {
+        if (file.name !== manuscript.name || (manuscript.fileSize !== undefined && file.size !== manuscript.fileSize)) {
+            setStatusBarMessage(`${file.name} is not the file ${manuscript.name} was checked from. Upload it as a new version instead.`, 'error');
+            return;
+        }
+        transientFiles.current.set(manuscript.id, file);
+        setAttachedFiles(n => n + 1);
+    };
+
+    const profileOf = (manuscript: ManuscriptFile | null) => profiles.find(p => p.id === folders.find(f => f.manuscripts.some(m => m.id === manuscript?.id))?.profileId);
+    // The journal of a manuscript is the compliance profile its folder is checked against.
+    const journalOf = (manuscript: ManuscriptFile | null) => profileOf(manuscript)?.name || '';
+
+    // A completed checklist: every item with its status and where in the manuscript it is reported.
+    const checklistCsv = (manuscript: ManuscriptFile, checklist: ReportingChecklistReport) => {
+        const triageKey = checklistTriageKey(checklist.guidelineId);
+        return [
+            `Reason,${escapeCsvField(checklist.reason)}`,
+            `Summary,${escapeCsvField(summarizeChecklist(checklist))}`,
+            'Item,Checklist Item,Status,Reported On,Evidence,Quote Check,Reasoning,Triage',
+            ...visibleFindings(checklist.items, triageKey, manuscript).map(item => [item.itemId, item.checklistItem, item.status.replace(/_/g, ' '), item.evidence ? describeFindingLocation(item.page, item.quoteVerification, manuscript.estimatedPages) : '', item.evidence, describeQuoteVerification(item.quoteVerification), item.reasoning, describeTriage(manuscript.triage?.[triageKey(item)])].map(escapeCsvField).join(',')),
+        ].join('\n') + '\n';
+    };
+
+    const handleDownloadChecklist = (manuscript: ManuscriptFile, checklist: ReportingChecklistReport) => {
+        const blob = new Blob([checklistCsv(manuscript, checklist)], { type: 'text/csv;charset=utf-8;' });
+        const a = document.createElement('a');
+        a.href = URL.createObjectURL(blob);
+        a.download = `${manuscript.name.replace(/\.[^.]+$/, '')}_${checklist.guidelineId}_checklist.csv`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(a.href);
+        setStatusBarMessage(`Downloading ${checklist.name} checklist for ${manuscript.name}`, 'success');
+    };
+
+    const handleExportJats = (manuscript: ManuscriptFile) => {
+        const blob = new Blob([buildJatsFrontMatter(manuscript)], { type: 'application/xml;charset=utf-8;' });
+        const a = document.createElement('a');
+        a.href = URL.createObjectURL(blob);
+        a.download = `${manuscript.name.replace(/\.[^.]+$/, '')}_jats_front.xml`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(a.href);
+        setStatusBarMessage(`Exported JATS front matter for ${manuscript.name}`, 'success');
+    };
     
     const escapeCsvField = (field: any): string => {
         const stringField = String(field ?? '');
@@ -430,6 +702,7 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                         )}
                     </div>
                 </div>
+                <ModelSelector value={selectedModel} onChange={setSelectedModel} canUseProModel={currentUser?.canUseProModel} disabled={isProcessing} />
             </div>
             
             <div className="flex border-b border-slate-200 dark:border-slate-700 mb-6 overflow-x-auto">
@@ -451,7 +724,7 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                                 <p className="mt-1 text-sm text-slate-500">Get started by creating a compliance profile to hold your rule documents.</p>
                             </div>
                         ) : (
-                            profiles.map(p => <ProfileCard key={p.id} profile={p} ruleFiles={ruleFiles} onExpandToggle={(id) => setExpandedSections(prev => ({...prev, [id]: !prev[id]}))} isExpanded={!!expandedSections[p.id]} onDelete={deleteComplianceProfile} onRuleDelete={(ruleId) => deleteRuleFileFromProfile(p.id, ruleId)} onDrop={(files) => onRulesDrop(files, p.id)} />)
+                            profiles.map(p => <ProfileCard key={p.id} profile={p} ruleFiles={ruleFiles} onExpandToggle={(id) => setExpandedSections(prev => ({...prev, [id]: !prev[id]}))} isExpanded={!!expandedSections[p.id]} onDelete={deleteComplianceProfile} onRuleDelete={(ruleId) => deleteRuleFileFromProfile(p.id, ruleId)} onCheckableRuleAdd={(rule) => addCheckableRule(p.id, rule)} onCheckableRuleDelete={(ruleId) => deleteCheckableRule(p.id, ruleId)} onRuleFileRulesChange={updateRuleFileRules} onGuidelinesChange={(ids) => updateProfileReportingGuidelines(p.id, ids)} onStageConfigChange={(stageId, config) => updateProfileStageConfig(p.id, stageId, config)} canUseProModel={currentUser?.canUseProModel} onDrop={(files) => onRulesDrop(files, p.id)} />)
                         )}
                     </section>
                 )}
@@ -460,7 +733,10 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                     <section className="space-y-4 animate-fade-in">
                         <div className="flex justify-between items-center px-2">
                             <h3 className="text-xl font-semibold bg-clip-text text-transparent bg-gradient-to-r from-purple-500 to-fuchsia-500">Project Folders</h3>
-                            <button onClick={() => { setSelectedProfileForFolder(profiles[0]?.id || null); setModal('createFolder')}} className="flex items-center px-3 py-2 text-sm bg-purple-500 text-white rounded-lg hover:bg-purple-600 shadow"><FolderIcon className="h-5 w-5 mr-2"/>Create Folder</button>
+                            <div className="flex items-center gap-4">
+                                <label className="inline-flex items-center text-sm text-slate-500 dark:text-slate-400" title="Hide findings whose quoted evidence could not be found in the manuscript, in reports and CSV exports"><input type="checkbox" checked={hideUnverified} onChange={e => setHideUnverified(e.target.checked)} className="mr-1.5 h-4 w-4 rounded text-purple-600 focus:ring-purple-500"/>Hide unverified findings</label>
+                                <button onClick={() => { setSelectedProfileForFolder(profiles[0]?.id || null); setModal('createFolder')}} className="flex items-center px-3 py-2 text-sm bg-purple-500 text-white rounded-lg hover:bg-purple-600 shadow"><FolderIcon className="h-5 w-5 mr-2"/>Create Folder</button>
+                            </div>
                         </div>
                          {folders.length === 0 ? (
                             <div className="text-center py-16 px-4 border-2 border-dashed rounded-lg">
@@ -469,7 +745,7 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                                 <p className="mt-1 text-sm text-slate-500">Create a project folder to upload and check manuscripts for compliance.</p>
                             </div>
                          ) : (
-                            folders.map(f => <FolderCard key={f.id} folder={f} profiles={profiles} onExpandToggle={(id) => setExpandedSections(prev => ({...prev, [id]: !prev[id]}))} isExpanded={!!expandedSections[f.id]} onDelete={deleteJournalComplianceFolder} onMapProfile={(profId) => updateJournalComplianceFolderProfile(f.id, profId)} onManuscriptDelete={(manId) => deleteJournalComplianceManuscript(f.id, manId)} onDrop={(files) => onManuscriptsDrop(files, f.id)} onViewReport={(man) => {setSelectedManuscript(man); setReportTab('scoring'); setModal('viewReport');}} onViewLogs={(man) => {setSelectedManuscript(man); setModal('viewLogs');}} onDownloadReport={handleDownloadReport} />)
+                            folders.map(f => <FolderCard key={f.id} folder={f} profiles={profiles} onExpandToggle={(id) => setExpandedSections(prev => ({...prev, [id]: !prev[id]}))} isExpanded={!!expandedSections[f.id]} onDelete={deleteJournalComplianceFolder} onMapProfile={(profId) => updateJournalComplianceFolderProfile(f.id, profId)} onToggleBypassCache={(bypass) => updateJournalComplianceFolderBypassCache(f.id, bypass)} onManuscriptDelete={(manId) => deleteJournalComplianceManuscript(f.id, manId)} onDrop={(files) => onManuscriptsDrop(files, f.id)} onViewReport={(man) => {setSelectedManuscript(man); setReportTab('scoring'); setModal('viewReport');}} onViewLogs={(man) => {setSelectedManuscript(man); setModal('viewLogs');}} onDownloadReport={handleDownloadReport} onUploadRevision={(man, file) => handleUploadRevision(f.id, man, file)} onCompare={(man) => setCompareId(man.id)} />)
                          )}
                     </section>
                 )}
@@ -492,16 +768,22 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                 </form>
             </Modal>
             <Modal isOpen={modal === 'viewReport' && !!selectedManuscript} onClose={() => setModal(null)} title={`Report: ${selectedManuscript?.name}`} size="2xl">
+                {selectedManuscript && <StageStatusPanel stages={JOURNAL_STAGES} manuscript={selectedManuscript} profile={profileOf(selectedManuscript)} hasFile={transientFiles.current.has(selectedManuscript.id)} onRun={stageIds => handleRunStages(selectedManuscript, stageIds)} onSkip={(stageId, skipped) => handleSkipStage(selectedManuscript, stageId, skipped)} onAttachFile={file => handleAttachFile(selectedManuscript, file)} />}
                 <div className="flex border-b border-slate-700 mb-4 overflow-x-auto">
                     <button onClick={() => setReportTab('scoring')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'scoring' ? 'border-b-2 border-teal-500 text-teal-400' : 'text-slate-400 hover:text-white'}`}>Scoring Report</button>
                     <button onClick={() => setReportTab('compliance')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'compliance' ? 'border-b-2 border-purple-500 text-purple-400' : 'text-slate-400 hover:text-white'}`}>Compliance ({selectedManuscript?.complianceReport?.length || 0})</button>
                     <button onClick={() => setReportTab('integrity')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'integrity' ? 'border-b-2 border-red-500 text-red-400' : 'text-slate-400 hover:text-white'}`}>Research Integrity</button>
                     <button onClick={() => setReportTab('analysis')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'analysis' ? 'border-b-2 border-yellow-500 text-yellow-400' : 'text-slate-400 hover:text-white'}`}>Manuscript Analysis ({selectedManuscript?.analysisReport?.length || 0})</button>
+                    <button onClick={() => setReportTab('references')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'references' ? 'border-b-2 border-emerald-500 text-emerald-400' : 'text-slate-400 hover:text-white'}`}>References ({selectedManuscript?.referenceReport?.findings.length || 0})</button>
+                    <button onClick={() => setReportTab('checklists')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'checklists' ? 'border-b-2 border-fuchsia-500 text-fuchsia-400' : 'text-slate-400 hover:text-white'}`}>Checklists ({selectedManuscript?.reportingChecklists?.length || 0})</button>
                     <button onClick={() => setReportTab('editorial')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'editorial' ? 'border-b-2 border-orange-500 text-orange-400' : 'text-slate-400 hover:text-white'}`}>Editorial Assistant</button>
                     <button onClick={() => setReportTab('peerReview')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'peerReview' ? 'border-b-2 border-indigo-500 text-indigo-400' : 'text-slate-400 hover:text-white'}`}>Peer Review</button>
                     <button onClick={() => setReportTab('recommendations')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'recommendations' ? 'border-b-2 border-sky-500 text-sky-400' : 'text-slate-400 hover:text-white'}`}>Recommendations ({selectedManuscript?.journalRecommendations?.length || 0})</button>
                     <button onClick={() => setReportTab('metadata')} className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap ${reportTab === 'metadata' ? 'border-b-2 border-pink-500 text-pink-400' : 'text-slate-400 hover:text-white'}`}>Metadata Analysis</button>
                 </div>
+                <CoverageSummary coverage={selectedManuscript?.analysisCoverage} />
+                {selectedManuscript?.promptVersions && <p className="mb-4 text-xs text-slate-500">Prompt versions: {describePromptVersions(selectedManuscript.promptVersions)}</p>}
+                <label className="mb-4 inline-flex items-center text-xs text-slate-400"><input type="checkbox" checked={hideUnverified} onChange={e => setHideUnverified(e.target.checked)} className="mr-1.5 h-3.5 w-3.5 rounded text-purple-600 focus:ring-purple-500"/>Hide findings whose quote was not found in the manuscript</label>
                  <div className="space-y-4 max-h-[85vh] overflow-y-auto pr-2">
                     {reportTab === 'scoring' && (selectedManuscript?.scores ? <ScoringDashboard scores={selectedManuscript.scores} /> : <p className="text-center text-slate-500 py-8">Scoring data is not available for this manuscript.</p>)}
                     {reportTab === 'integrity' && (
@@ -514,7 +796,8 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                                 </div>
                                 <p className="text-sm text-slate-400 mt-1">This automated audit checks for critical policy requirements. A 'Fail' or 'Warning' indicates a potential breach of publication ethics that requires manual review.</p>
                             </div>
-                            {selectedManuscript.integrityReport.map((item, index) => (
+                            {triageBar(visibleFindings(selectedManuscript.integrityReport).map(TRIAGE_KEYS.integrity))}
+                            {visibleFindings<IntegrityIssue>(selectedManuscript.integrityReport, TRIAGE_KEYS.integrity).map((item, index) => (
                                 <div key={index} className="bg-slate-900 rounded-lg p-4 border border-slate-700">
                                     <div className="flex items-center justify-between mb-2">
                                         <h5 className="font-semibold text-slate-200">{item.category}</h5>
@@ -530,12 +813,13 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                                     <p className="text-sm text-slate-300 mb-3">{item.finding}</p>
                                     {item.snippet && (
                                         <div className="bg-slate-950 p-3 rounded text-xs text-slate-400 italic border-l-2 border-slate-600 mb-3">
-                                            "{item.snippet}"
+                                            "{item.snippet}"<QuoteVerificationBadge verification={item.quoteVerification} />
                                         </div>
                                     )}
                                     {item.status !== 'Pass' && item.status !== 'N/A' && (
                                         <p className="text-sm text-orange-400"><strong className="font-semibold">Recommendation:</strong> {item.recommendation}</p>
                                     )}
+                                    {triageControl(TRIAGE_KEYS.integrity(item))}
                                 </div>
                             ))}
                         </div>
@@ -633,9 +917,11 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                             </section>
                         </div>
                     )}
-                    {reportTab === 'compliance' && (
-                        (selectedManuscript?.complianceReport || []).length === 0 ? <p className="text-center text-slate-500 py-8">No compliance issues found.</p> :
-                        selectedManuscript?.complianceReport?.map((finding, index) => (
+                    {reportTab === 'compliance' && <>
+                        <RuleCoverageSummary coverage={selectedManuscript?.ruleCoverage} />
+                        {triageBar(visibleFindings(selectedManuscript?.complianceReport).map(TRIAGE_KEYS.compliance))}
+                        {visibleFindings<ComplianceFinding>(selectedManuscript?.complianceReport, TRIAGE_KEYS.compliance).length === 0 ? <p className="text-center text-slate-500 py-8">No compliance issues found.</p> :
+                        visibleFindings<ComplianceFinding>(selectedManuscript?.complianceReport, TRIAGE_KEYS.compliance).map((finding, index) => (
                             <div key={index} className="bg-slate-900 rounded-lg p-4">
                                <div className="flex items-start justify-between gap-4">
                                     <h4 className="font-semibold text-lg mb-2 text-slate-200 flex-1">{finding.checkCategory}</h4>{renderStatusIcon(finding.status)}
@@ -643,15 +929,17 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                                <p className="text-sm text-slate-400 italic mb-4">"{finding.summary}"</p>
                                <div className="space-y-3 text-sm">
                                     <p><strong className="font-medium text-cyan-400">Recommendation:</strong> <span className="text-slate-300">{finding.recommendation}</span></p>
-                                    <p><strong className="font-medium text-cyan-400">Manuscript (p. {finding.manuscriptPage}):</strong> <span className="text-slate-300 italic">"{finding.manuscriptQuote}"</span></p>
-                                    <p><strong className="font-medium text-cyan-400">Rule (p. {finding.rulePage}):</strong> <span className="text-slate-300 italic">"{finding.ruleContent}"</span></p>
+                                    <p><strong className="font-medium text-cyan-400">Manuscript ({describeFindingLocation(finding.manuscriptPage, finding.quoteVerification, selectedManuscript?.estimatedPages)}):</strong> <span className="text-slate-300 italic">"{finding.manuscriptQuote}"</span><QuoteVerificationBadge verification={finding.quoteVerification} /></p>
+                                    <p><strong className="font-medium text-cyan-400">Rule: {describeRuleReference(selectedManuscript?.ruleCoverage, finding.ruleId)} ({finding.deterministic ? 'checked locally' : `p. ${finding.rulePage}`}):</strong> <span className="text-slate-300 italic">"{finding.ruleContent}"</span></p>
                                </div>
+                               {triageControl(TRIAGE_KEYS.compliance(finding))}
                             </div>
-                        ))
-                    )}
-                     {reportTab === 'analysis' && (
-                        (selectedManuscript?.analysisReport || []).length === 0 ? <p className="text-center text-slate-500 py-8">No editorial issues found.</p> :
-                        selectedManuscript?.analysisReport?.map((finding, index) => (
+                        ))}
+                    </>}
+                     {reportTab === 'analysis' && <>
+                        {triageBar(visibleFindings(selectedManuscript?.analysisReport).map(TRIAGE_KEYS.analysis))}
+                        {visibleFindings<ManuscriptIssue>(selectedManuscript?.analysisReport, TRIAGE_KEYS.analysis).length === 0 ? <p className="text-center text-slate-500 py-8">No editorial issues found.</p> :
+                        visibleFindings<ManuscriptIssue>(selectedManuscript?.analysisReport, TRIAGE_KEYS.analysis).map((finding, index) => (
                             <div key={index} className="bg-slate-900 rounded-lg p-4">
                                 <div className="flex items-start justify-between gap-4">
                                     <h4 className="font-semibold text-lg mb-2 text-slate-200 flex-1">{finding.issueCategory}</h4>
@@ -662,12 +950,67 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                                    {renderPriorityVisuals(finding.priority).tag}
                                </div>
                                <div className="space-y-3 text-sm">
-                                    <p><strong className="font-medium text-yellow-400">Location:</strong> <span className="text-slate-300">Page {finding.pageNumber}</span></p>
-                                    <p><strong className="font-medium text-yellow-400">Quote:</strong> <span className="text-slate-300 italic">"{finding.quote}"</span></p>
+                                    <p><strong className="font-medium text-yellow-400">Location:</strong> <span className="text-slate-300">{describeFindingLocation(finding.pageNumber, finding.quoteVerification, selectedManuscript?.estimatedPages)}</span></p>
+                                    <p><strong className="font-medium text-yellow-400">Quote:</strong> <span className="text-slate-300 italic">"{finding.quote}"</span><QuoteVerificationBadge verification={finding.quoteVerification} /></p>
                                     <p><strong className="font-medium text-yellow-400">Recommendation:</strong> <span className="text-slate-300">{finding.recommendation}</span></p>
                                </div>
+                               {triageControl(TRIAGE_KEYS.analysis(finding))}
                             </div>
-                        ))
+                        ))}
+                    </>}
+                    {reportTab === 'references' && (
+                        !selectedManuscript?.referenceReport || selectedManuscript.referenceReport.references.length === 0 ? <p className="text-center text-slate-500 py-8">No reference list was found in this manuscript.</p> :
+                        <div className="space-y-6">
+                            <p className="text-sm text-slate-400">{describeReferenceCheck(selectedManuscript.referenceReport)}. These checks are rule-based and repeatable; they do not depend on the selected model.</p>
+                            {selectedManuscript.referenceReport.findings.length > 0 && triageBar(selectedManuscript.referenceReport.findings.map(TRIAGE_KEYS.references))}
+                            {selectedManuscript.referenceReport.findings.length === 0 ? <p className="text-center text-slate-500 py-4">Every reference is cited and every citation has a reference.</p> :
+                            visibleFindings(selectedManuscript.referenceReport.findings, TRIAGE_KEYS.references).map((finding, index) => (
+                                <div key={index} className="bg-slate-900 rounded-lg p-4">
+                                    <div className="flex items-center justify-between mb-2">
+                                        <h4 className="font-semibold text-slate-200">{finding.type}</h4>
+                                        <span className="text-xs text-slate-400">{selectedManuscript.estimatedPages ? finding.location || `approx. p. ${finding.page}` : `p. ${finding.page}`}</span>
+                                    </div>
+                                    <p className="text-sm text-slate-300 mb-2">{finding.summary}</p>
+                                    <p className="text-xs text-slate-400 italic border-l-2 border-slate-600 pl-3">"{finding.quote}"</p>
+                                    {triageControl(TRIAGE_KEYS.references(finding))}
+                                </div>
+                            ))}
+                            <div className="bg-slate-900 rounded-lg p-4 overflow-x-auto">
+                                <h4 className="text-lg font-semibold text-emerald-400 mb-3">Parsed Reference List</h4>
+                                <table className="w-full text-xs text-left text-slate-300">
+                                    <thead className="text-slate-400"><tr><th className="p-2">#</th><th className="p-2">Authors</th><th className="p-2">Year</th><th className="p-2">Title</th><th className="p-2">Source</th><th className="p-2">DOI</th></tr></thead>
+                                    <tbody>
+                                        {selectedManuscript.referenceReport.references.map((ref, index) => (
+                                            <tr key={index} className="border-t border-slate-800 align-top">
+                                                <td className="p-2">{ref.label}</td>
+                                                <td className="p-2">{ref.authors.length > 3 ? `${ref.authors.slice(0, 3).join('; ')} et al.` : ref.authors.join('; ')}</td>
+                                                <td className="p-2">{ref.year}</td>
+                                                <td className="p-2">{ref.title}</td>
+                                                <td className="p-2">{[ref.container, ref.volume && `${ref.volume}${ref.issue ? `(${ref.issue})` : ''}`, ref.pages].filter(Boolean).join(', ')}</td>
+                                                <td className="p-2 break-all">{ref.doi}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                    {reportTab === 'checklists' && (
+                        !selectedManuscript?.reportingChecklists?.length ? <p className="text-center text-slate-500 py-8">No reporting guideline checklist was completed. Select guidelines in the compliance profile to always evaluate them.</p> :
+                        <div className="space-y-6">
+                            {selectedManuscript.reportingChecklists.map(checklist => (
+                                <div key={checklist.guidelineId} className="space-y-3">
+                                    <div className="flex items-start justify-between gap-4">
+                                        <div>
+                                            <p className="text-sm text-slate-300">{summarizeChecklist(checklist)}</p>
+                                            <p className="text-xs text-slate-500">{checklist.reason}</p>
+                                        </div>
+                                        <button onClick={() => handleDownloadChecklist(selectedManuscript, checklist)} className="flex items-center px-3 py-1.5 text-sm bg-fuchsia-600 text-white rounded-md hover:bg-fuchsia-700 whitespace-nowrap"><DownloadIcon className="h-4 w-4 mr-1.5"/>Completed checklist</button>
+                                    </div>
+                                    <ComplianceDashboard report={visibleFindings(checklist.items)} title={`${checklist.name} Checklist`} estimatedPages={selectedManuscript.estimatedPages} triage={selectedManuscript.triage} triageKeyOf={checklistTriageKey(checklist.guidelineId)} triageFilter={triageFilter} onTriageFilterChange={setTriageFilter} onTriageChange={(key, change) => handleTriageChange(selectedManuscript, key, change)} />
+                                </div>
+                            ))}
+                        </div>
                     )}
                     {reportTab === 'peerReview' && (
                         !selectedManuscript?.peerReviewSimulation ? <p className="text-center text-slate-500 py-8">No peer review simulation available.</p> :
@@ -835,8 +1178,16 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
                         </div>
                     )}
                 </div>
-                <div className="text-center pt-4 border-t border-slate-700 mt-4"><button onClick={() => selectedManuscript && handleDownloadReport(selectedManuscript)} className="text-sm text-slate-400 hover:underline">Download Full Report (CSV)</button></div>
+                <div className="text-center pt-4 border-t border-slate-700 mt-4 space-x-4">
+                    <button onClick={() => selectedManuscript && handleDownloadReport(selectedManuscript)} className="text-sm text-slate-400 hover:underline">Download Full Report (CSV)</button>
+                    <button onClick={() => setIsExportOpen(true)} className="text-sm text-slate-400 hover:underline">Export Report (DOCX / PDF / HTML)</button>
+                    <button onClick={() => setIsLetterOpen(true)} className="text-sm text-slate-400 hover:underline">Compose Revision Letter</button>
+                    <button onClick={() => selectedManuscript && handleExportJats(selectedManuscript)} disabled={!selectedManuscript?.metadataAnalysisReport} title={selectedManuscript?.metadataAnalysisReport ? undefined : 'Run the metadata analysis first'} className="text-sm text-slate-400 hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed">Export JATS Front Matter (XML)</button>
+                </div>
             </Modal>
+            <ReportExportModal isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} manuscript={selectedManuscript} hideUnverified={hideUnverified} triageFilter={triageFilter} branding={currentUserData?.reportBranding || {}} onBrandingChange={updateReportBranding} onExport={(manuscript, format, sectionIds, branding) => { handleExportReport(manuscript, format, sectionIds, branding); setIsExportOpen(false); }} />
+            <RevisionLetterComposer isOpen={isLetterOpen} onClose={() => setIsLetterOpen(false)} manuscript={selectedManuscript} journal={journalOf(selectedManuscript)} onSave={handleSaveLetter} onExport={handleExportLetter} />
+            <VersionDiffModal isOpen={!!compareId} onClose={() => setCompareId(null)} versions={compared ? versionChain(folders.flatMap(f => f.manuscripts), compared) : []} />
              <Modal isOpen={modal === 'viewLogs' && !!selectedManuscript} onClose={() => setModal(null)} title={`Logs: ${selectedManuscript?.name}`}>
                 <div className="bg-slate-900 text-white font-mono text-xs rounded-md p-4 max-h-96 overflow-y-auto">
                     {(selectedManuscript?.logs || []).map((log, index) => <p key={index}>{log}</p>)}
@@ -847,19 +1198,30 @@ const JournalComplianceChecker: React.FC<{ onBack: () => void }> = ({ onBack })
 };
 
 // ... (ProfileCard, ManuscriptRow, FolderCard, export default BookComplianceChecker)
-const ProfileCard: React.FC<{ profile: ComplianceProfile; ruleFiles: Record<string, RuleFile>; isExpanded: boolean; onExpandToggle: (id: string) => void; onDelete: (id: string) => void; onRuleDelete: (ruleId: string) => void; onDrop: (files: File[]) => void; }> = ({ profile, ruleFiles, isExpanded, onExpandToggle, onDelete, onRuleDelete, onDrop }) => {
-    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: { 'application/pdf': ['.pdf'], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'] } });
+const ProfileCard: React.FC<{ profile: ComplianceProfile; ruleFiles: Record<string, RuleFile>; isExpanded: boolean; onExpandToggle: (id: string) => void; onDelete: (id: string) => void; onRuleDelete: (ruleId: string) => void; onCheckableRuleAdd: (rule: CheckableRule) => void; onCheckableRuleDelete: (ruleId: string) => void; onRuleFileRulesChange: (ruleFileId: string, rules: RuleItem[]) => void; onGuidelinesChange: (guidelineIds: ReportingGuidelineId[]) => void; onStageConfigChange: (stageId: string, config: ProfileStageConfig) => void; canUseProModel?: boolean; onDrop: (files: File[]) => void; }> = ({ profile, ruleFiles, isExpanded, onExpandToggle, onDelete, onRuleDelete, onCheckableRuleAdd, onCheckableRuleDelete, onRuleFileRulesChange, onGuidelinesChange, onStageConfigChange, canUseProModel, onDrop }) => {
+    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: acceptFor(['pdf', 'docx']) });
+    const [openRuleFileId, setOpenRuleFileId] = useState<string | null>(null);
     return (
         <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md overflow-hidden transition-all duration-300">
             <button onClick={() => onExpandToggle(profile.id)} className="w-full p-4 flex justify-between items-center text-left hover:bg-slate-50 dark:hover:bg-slate-700/50">
-                <div><p className="font-bold text-lg text-slate-800 dark:text-slate-100">{profile.name}</p><p className="text-sm text-slate-500">{profile.ruleFileIds.length} rule file(s)</p></div>
+                <div><p className="font-bold text-lg text-slate-800 dark:text-slate-100">{profile.name}</p><p className="text-sm text-slate-500">{profile.ruleFileIds.length} rule file(s), {profile.checkableRules?.length || 0} checkable rule(s)</p></div>
                 <div className="flex items-center space-x-2">
                     <button onClick={(e) => { e.stopPropagation(); onDelete(profile.id)}} className="p-2 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50"><TrashIcon className="h-5 w-5"/></button>
                     <ChevronDownIcon className={`h-5 w-5 transition-transform ${isExpanded ? 'rotate-180' : ''}`}/>
                 </div>
             </button>
             {isExpanded && <div className="p-4 border-t border-slate-200 dark:border-slate-700 space-y-3">
-                {profile.ruleFileIds.map(id => (<div key={id} className="flex justify-between items-center bg-slate-100 dark:bg-slate-700/50 p-2 rounded-md"><p className="text-sm truncate">{ruleFiles[id]?.name}</p><button onClick={() => onRuleDelete(id)} className="text-slate-400 hover:text-red-500 ml-2"><XIcon className="h-4 w-4"/></button></div>))}
+                {profile.ruleFileIds.map(id => (<div key={id} className="space-y-2">
+                    <div className="flex justify-between items-center bg-slate-100 dark:bg-slate-700/50 p-2 rounded-md">
+                        <button onClick={() => setOpenRuleFileId(openRuleFileId === id ? null : id)} disabled={!ruleFiles[id]} className="flex items-center min-w-0 text-left">
+                            <ChevronDownIcon className={`h-4 w-4 mr-1 flex-shrink-0 transition-transform ${openRuleFileId === id ? 'rotate-180' : ''}`}/>
+                            <span className="text-sm truncate">{ruleFiles[id]?.name}</span>
+                            {ruleFiles[id] && <span className="ml-2 text-xs text-slate-500 whitespace-nowrap">{rulesOf(ruleFiles[id]).length} rule(s)</span>}
+                        </button>
+                        <button onClick={() => onRuleDelete(id)} className="text-slate-400 hover:text-red-500 ml-2"><XIcon className="h-4 w-4"/></button>
+                    </div>
+                    {openRuleFileId === id && ruleFiles[id] && <RuleListEditor ruleFileId={id} rules={rulesOf(ruleFiles[id])} onChange={(rules) => onRuleFileRulesChange(id, rules)} />}
+                </div>))}
                 <div {...getRootProps()} className="mt-2 border-2 border-dashed rounded-lg p-6 text-center cursor-pointer hover:border-sky-500 hover:bg-sky-50 dark:hover:bg-sky-900/20 text-slate-500 hover:text-sky-600 dark:hover:text-sky-400 transition-colors">
                     <input {...getInputProps()} />
                     <UploadIcon className="h-8 w-8 mx-auto" />
@@ -869,27 +1231,52 @@ const ProfileCard: React.FC<{ profile: ComplianceProfile; ruleFiles: Record<stri
                         <span>Your files are processed securely.</span>
                     </div>
                 </div>
+                <CheckableRulesEditor rules={profile.checkableRules || []} onAdd={onCheckableRuleAdd} onDelete={onCheckableRuleDelete} />
+                <div className="space-y-1">
+                    <p className="text-sm font-semibold text-slate-700 dark:text-slate-300">Reporting Guidelines</p>
+                    <p className="text-xs text-slate-500">Checked guidelines are evaluated for every manuscript; others are suggested from the article type and study design.</p>
+                    <div className="flex flex-wrap gap-3 pt-1">
+                        {Object.values(REPORTING_GUIDELINES).map(guideline => (
+                            <label key={guideline.id} title={guideline.scope} className="flex items-center text-sm text-slate-700 dark:text-slate-300">
+                                <input type="checkbox" checked={!!profile.reportingGuidelines?.includes(guideline.id)} onChange={(e) => onGuidelinesChange(e.target.checked ? [...(profile.reportingGuidelines || []), guideline.id] : (profile.reportingGuidelines || []).filter(id => id !== guideline.id))} className="mr-1.5 rounded" />
+                                {guidelineLabel(guideline)}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <PipelineStagesEditor stages={JOURNAL_STAGES} config={profile.stages || {}} canUseProModel={canUseProModel} onChange={onStageConfigChange} />
             </div>}
         </div>
     );
 };
 
-const ManuscriptRow: React.FC<{ manuscript: ManuscriptFile; onViewReport: (m: ManuscriptFile) => void; onViewLogs: (m: ManuscriptFile) => void; onManuscriptDelete: (id: string) => void; onDownloadReport: (m: ManuscriptFile) => void; }> = ({ manuscript, onViewReport, onViewLogs, onManuscriptDelete, onDownloadReport }) => (
+const ManuscriptRow: React.FC<{ manuscript: ManuscriptFile; isSuperseded: boolean; onViewReport: (m: ManuscriptFile) => void; onViewLogs: (m: ManuscriptFile) => void; onManuscriptDelete: (id: string) => void; onDownloadReport: (m: ManuscriptFile) => void; onUploadRevision: (m: ManuscriptFile, file: File) => void; onCompare: (m: ManuscriptFile) => void; }> = ({ manuscript, isSuperseded, onViewReport, onViewLogs, onManuscriptDelete, onDownloadReport, onUploadRevision, onCompare }) => (
     <div className="bg-slate-100 dark:bg-slate-700/50 p-3 rounded-md">
         <div className="flex justify-between items-center gap-4">
             <div className="flex-1 min-w-0">
                 <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{manuscript.name}</p>
                  <div className="mt-1">
                     <ManuscriptStatusIndicator status={manuscript.status} />
+                    {(manuscript.version || isSuperseded) && <span title={isSuperseded ? 'A newer version was uploaded' : undefined} className="ml-2 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300">v{manuscript.version || 1}{isSuperseded && ' (revised)'}</span>}
+                    {manuscript.status === 'completed' && manuscript.cachedStages && manuscript.cachedStages.length > 0 && (
+                        <span title={`Reused from cache: ${manuscript.cachedStages.join(', ')}`} className="ml-2 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-slate-200 dark:bg-slate-600 text-slate-600 dark:text-slate-300">Cached ({manuscript.cachedStages.length})</span>
+                    )}
                 </div>
             </div>
             <div className="flex items-center space-x-2 ml-2 flex-shrink-0">
+                {(manuscript.status === 'completed' || manuscript.status === 'error') && <button onClick={() => onViewReport(manuscript)} className="px-2 py-1 text-xs font-semibold text-sky-700 dark:text-sky-300 bg-sky-100 dark:bg-sky-900/50 rounded-md hover:bg-sky-200 dark:hover:bg-sky-900">View Report</button>}
                 {manuscript.status === 'completed' && (
                     <>
-                        <button onClick={() => onViewReport(manuscript)} className="px-2 py-1 text-xs font-semibold text-sky-700 dark:text-sky-300 bg-sky-100 dark:bg-sky-900/50 rounded-md hover:bg-sky-200 dark:hover:bg-sky-900">View Report</button>
                         <button onClick={() => onDownloadReport(manuscript)} className="px-2 py-1 text-xs font-semibold text-slate-700 dark:text-slate-300 bg-slate-200 dark:bg-slate-600 rounded-md hover:bg-slate-300 dark:hover:bg-slate-500 inline-flex items-center"><DownloadIcon className="h-3 w-3 mr-1.5"/>Download</button>
                     </>
                 )}
+                {manuscript.previousVersionId && manuscript.status === 'completed' && <button onClick={() => onCompare(manuscript)} className="px-2 py-1 text-xs font-semibold text-indigo-700 dark:text-indigo-300 bg-indigo-100 dark:bg-indigo-900/50 rounded-md hover:bg-indigo-200 dark:hover:bg-indigo-900">Compare</button>}
+                {!isSuperseded && (manuscript.status === 'completed' || manuscript.status === 'error') && (
+                    <label title="Upload Revision" className="p-1.5 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-full cursor-pointer">
+                        <UploadIcon className="h-4 w-4"/>
+                        <input type="file" accept={acceptAttribute(['pdf', 'docx', 'latex', 'jats'])} onChange={e => { const file = e.target.files?.[0]; if (file) onUploadRevision(manuscript, file); e.target.value = ''; }} className="hidden"/>
+                    </label>
+                )}
                 <button onClick={() => onViewLogs(manuscript)} title="View Logs" className="p-1.5 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-full"><ClipboardListIcon className="h-4 w-4"/></button>
                 <button onClick={() => onManuscriptDelete(manuscript.id)} title="Delete" className="p-1.5 text-slate-500 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full"><TrashIcon className="h-4 w-4"/></button>
             </div>
@@ -899,20 +1286,20 @@ const ManuscriptRow: React.FC<{ manuscript: ManuscriptFile; onViewReport: (m: Ma
 );
 
 
-const FolderCard: React.FC<{ folder: ComplianceProjectFolder; profiles: ComplianceProfile[]; isExpanded: boolean; onExpandToggle: (id: string) => void; onDelete: (id: string) => void; onMapProfile: (profId: string | null) => void; onManuscriptDelete: (id: string) => void; onDrop: (files: File[]) => void; onViewReport: (m: ManuscriptFile) => void; onViewLogs: (m: ManuscriptFile) => void; onDownloadReport: (m: ManuscriptFile) => void; }> = ({ folder, profiles, isExpanded, onExpandToggle, onDelete, onMapProfile, onManuscriptDelete, onDrop, onViewReport, onViewLogs, onDownloadReport }) => {
-    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: { 'application/pdf': ['.pdf'], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'] } });
+const FolderCard: React.FC<{ folder: ComplianceProjectFolder; profiles: ComplianceProfile[]; isExpanded: boolean; onExpandToggle: (id: string) => void; onDelete: (id: string) => void; onMapProfile: (profId: string | null) => void; onToggleBypassCache: (bypass: boolean) => void; onManuscriptDelete: (id: string) => void; onDrop: (files: File[]) => void; onViewReport: (m: ManuscriptFile) => void; onViewLogs: (m: ManuscriptFile) => void; onDownloadReport: (m: ManuscriptFile) => void; onUploadRevision: (m: ManuscriptFile, file: File) => void; onCompare: (m: ManuscriptFile) => void; }> = ({ folder, profiles, isExpanded, onExpandToggle, onDelete, onMapProfile, onToggleBypassCache, onManuscriptDelete, onDrop, onViewReport, onViewLogs, onDownloadReport, onUploadRevision, onCompare }) => {
+    const { getRootProps, getInputProps } = useDropzone({ onDrop, accept: acceptFor(['pdf', 'docx', 'latex', 'jats']) });
     return (
          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md transition-all duration-300">
             <button onClick={() => onExpandToggle(folder.id)} className="w-full p-4 flex justify-between items-center text-left hover:bg-slate-50 dark:hover:bg-slate-700/50">
-                <div><p className="font-bold text-lg text-slate-800 dark:text-slate-100">{folder.name}</p><div className="mt-1" onClick={e => e.stopPropagation()}><select value={folder.profileId || ''} onChange={e => onMapProfile(e.target.value || null)} className="text-sm bg-slate-100 dark:bg-slate-700 border rounded-md p-1 focus:ring-purple-500 focus:border-purple-500"><option value="">-- Map a Profile --</option>{profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</select></div></div>
+                <div><p className="font-bold text-lg text-slate-800 dark:text-slate-100">{folder.name}</p><div className="mt-1" onClick={e => e.stopPropagation()}><select value={folder.profileId || ''} onChange={e => onMapProfile(e.target.value || null)} className="text-sm bg-slate-100 dark:bg-slate-700 border rounded-md p-1 focus:ring-purple-500 focus:border-purple-500"><option value="">-- Map a Profile --</option>{profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</select><label className="ml-3 inline-flex items-center text-xs text-slate-500 dark:text-slate-400" title="Re-run every stage even if an identical analysis is cached"><input type="checkbox" checked={!!folder.bypassCache} onChange={e => onToggleBypassCache(e.target.checked)} className="mr-1 h-3.5 w-3.5 rounded text-purple-600 focus:ring-purple-500"/>Bypass cache</label></div></div>
                 <div className="flex items-center space-x-2"><button onClick={(e) => { e.stopPropagation(); onDelete(folder.id)}} className="p-2 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50"><TrashIcon className="h-5 w-5"/></button><ChevronDownIcon className={`h-5 w-5 transition-transform ${isExpanded ? 'rotate-180' : ''}`}/></div>
             </button>
             {isExpanded && <div className="p-4 border-t border-slate-200 dark:border-slate-700">
-                <div className="space-y-2">{folder.manuscripts.map(m => <ManuscriptRow key={m.id} manuscript={m} onViewReport={onViewReport} onViewLogs={onViewLogs} onManuscriptDelete={onManuscriptDelete} onDownloadReport={onDownloadReport} />)}</div>
+                <div className="space-y-2">{folder.manuscripts.map(m => <ManuscriptRow key={m.id} manuscript={m} isSuperseded={hasNewerVersion(folder.manuscripts, m)} onViewReport={onViewReport} onViewLogs={onViewLogs} onManuscriptDelete={onManuscriptDelete} onDownloadReport={onDownloadReport} onUploadRevision={onUploadRevision} onCompare={onCompare} />)}</div>
                 <div {...getRootProps()} className="mt-4 border-2 border-dashed rounded-lg p-6 text-center cursor-pointer hover:border-purple-500 hover:bg-purple-50 dark:hover:bg-purple-900/20 text-slate-500 hover:text-purple-600 dark:hover:text-purple-400 transition-colors">
                     <input {...getInputProps()} />
                     <UploadIcon className="h-8 w-8 mx-auto" />
-                    <p className="mt-2 text-sm">Upload Manuscripts (.pdf, .docx)</p>
+                    <p className="mt-2 text-sm">Upload Manuscripts (.pdf, .docx, LaTeX .zip/.tex, JATS .xml)</p>
                     <div className="mt-2 flex items-center justify-center text-xs text-slate-500">
                         <ShieldCheckIcon className="h-4 w-4 mr-1.5 text-green-500"/>
                         <span>Your files are processed securely.</span>
@@ -1,15 +1,17 @@
 import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { ExtractedAsset, BoundingBox, MetadataProjectFolder, PdfFile, PdfFileStatus } from '../types';
+import { ExtractedAsset, BoundingBox, MetadataProjectFolder, PdfFile, PdfFileStatus, PromptVersionMap } from '../types';
 import { useAppContext } from '../hooks/useAppContext';
-import { extractAssetsFromPage, generateMetadataForCroppedImage } from '../services/aiService';
+import { extractAssetsFromPage, generateMetadataForCroppedImage, addUsage, emptyUsage } from '../services/aiService';
+import { withResultCache, hashContent } from '../services/resultCache';
+import { DEFAULT_MODEL } from '../services/llmProvider';
+import ModelSelector from '../components/ModelSelector';
 import Spinner from '../components/Spinner';
 import { UploadIcon, ChevronLeftIcon, SparklesIcon, DownloadIcon, TrashIcon, ChevronDownIcon, XIcon, CursorClickIcon, ExclamationIcon, FolderIcon, DocumentTextIcon, PlusCircleIcon, ClipboardListIcon, ShieldCheckIcon, CheckIcon } from '../components/icons/Icons';
-import * as pdfjsLib from 'pdfjs-dist';
+import { pdfjsLib } from '../services/pdfjs';
+import { openPdfRenderer, blobToDataUrl } from '../services/pdfWorkerClient';
 import Modal from '../components/Modal';
 
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs`;
-
 // --- Helper Functions ---
 const sortAssets = (assets: ExtractedAsset[]): ExtractedAsset[] => {
     return assets.sort((a, b) => {
@@ -272,7 +274,7 @@ const EditorView: React.FC<EditorViewProps> = ({ folder, pdfFile, onBack, onAsse
             croppedContext.drawImage(tempCanvas, sx, sy, sWidth, sHeight, 0, 0, sWidth, sHeight);
 
             const imageDataUrl = croppedCanvas.toDataURL('image/png');
-            const newMetadata = await generateMetadataForCroppedImage(imageDataUrl, model);
+            const { data: newMetadata, usage } = await generateMetadataForCroppedImage(imageDataUrl, model);
 
             const newAsset: ExtractedAsset = {
                 ...newMetadata,
@@ -287,6 +289,7 @@ const EditorView: React.FC<EditorViewProps> = ({ folder, pdfFile, onBack, onAsse
                 userId: currentUser.id, 
                 toolName: 'PDF Asset Analyzer (Manual Add)', 
                 modelName: model,
+                ...usage,
                 outputId: pdfFile.id,
                 outputName: `${pdfFile.name} (Asset: ${newAsset.assetId})`,
             });
@@ -416,7 +419,7 @@ const EditorView: React.FC<EditorViewProps> = ({ folder, pdfFile, onBack, onAsse
 
 // --- Main Dashboard Component ---
 export const MetadataExtractor = ({ onBack }: { onBack: () => void }) => {
-    const { currentUser, addUsageLog, setStatusBarMessage, currentUserData, createMetadataFolder, deleteMetadataFolder, addPdfFilesToFolder, updatePdfFile, deletePdfFile, addMetadataAsset, updateMetadataAsset, deleteMetadataAsset, createMetadataFolderAndAddPdfs } = useAppContext();
+    const { currentUser, addUsageLog, setStatusBarMessage, currentUserData, createMetadataFolder, deleteMetadataFolder, updateMetadataFolderBypassCache, addPdfFilesToFolder, updatePdfFile, deletePdfFile, addMetadataAsset, updateMetadataAsset, deleteMetadataAsset, createMetadataFolderAndAddPdfs } = useAppContext();
     const folders = currentUserData?.metadataFolders || [];
 
     const [view, setView] = useState<'dashboard' | 'editor'>('dashboard');
@@ -427,7 +430,7 @@ export const MetadataExtractor = ({ onBack }: { onBack: () => void }) => {
     const [createFolderModalOpen, setCreateFolderModalOpen] = useState(false);
     const [newFolderName, setNewFolderName] = useState('');
     const [logModalState, setLogModalState] = useState({ isOpen: false, logs: [] as string[], fileName: '' });
-    const [selectedModel, setSelectedModel] = useState('gemini-2.5-flash');
+    const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL);
     const [isHeaderExpanded, setIsHeaderExpanded] = useState(true);
 
     const handleInitialDrop = useCallback((acceptedFiles: File[]) => {
@@ -471,7 +474,8 @@ export const MetadataExtractor = ({ onBack }: { onBack: () => void }) => {
             if (isProcessing || processingQueue.length === 0) return;
             setIsProcessing(true);
             const pdfId = processingQueue[0];
-            const pdfFile = folders.flatMap(f => f.pdfFiles).find(p => p.id === pdfId);
+            const folder = folders.find(f => f.pdfFiles.some(p => p.id === pdfId));
+            const pdfFile = folder?.pdfFiles.find(p => p.id === pdfId);
             const fileObject = transientFiles.current.get(pdfId);
 
             if (!pdfFile || !fileObject) {
@@ -487,8 +491,11 @@ export const MetadataExtractor = ({ onBack }: { onBack: () => void }) => {
             try {
                 addLog(pdfId, `Loading PDF...`);
                 const fileBuffer = await fileObject.arrayBuffer();
-                const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(fileBuffer) }).promise;
+                const pdf = await openPdfRenderer(fileBuffer);
                 let allAssets: ExtractedAsset[] = [];
+                let runUsage = emptyUsage();
+                const cachedPages: number[] = [];
+                const promptVersions: PromptVersionMap = {};
                 addLog(pdfId, `PDF has ${pdf.numPages} pages. Beginning asset extraction.`);
 
                 for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
@@ -497,35 +504,36 @@ export const MetadataExtractor = ({ onBack }: { onBack: () => void }) => {
                         updatePdfFile(pdfId, { progress });
                         addLog(pdfId, `Processing page ${pageNum}/${pdf.numPages}...`);
                         
-                        const page = await pdf.getPage(pageNum);
-                        const viewport = page.getViewport({ scale: 1.5 });
-                        const canvas = document.createElement('canvas');
-                        canvas.height = viewport.height;
-                        canvas.width = viewport.width;
-                        const context = canvas.getContext('2d');
-                        if (!context) throw new Error("Canvas 2D context not available");
-                        await (page.render as any)({ canvasContext: context, viewport }).promise;
-                        const pageImageBase64 = canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
+                        const pageImage = await pdf.renderPage(pageNum, { scale: 1.5, mimeType: 'image/jpeg', quality: 0.8 });
+                        const pageImageBase64 = (await blobToDataUrl(pageImage)).split(',')[1];
                         
-                        const assetsOnPage = await extractAssetsFromPage(pageImageBase64, selectedModel);
+                        const { data: assetsOnPage, usage, cached, promptVersions: pageVersions } = await withResultCache({ docHash: await hashContent(pageImageBase64), stage: 'assetExtraction', model: selectedModel }, folder?.bypassCache, () => extractAssetsFromPage(pageImageBase64, selectedModel));
+                        runUsage = addUsage(runUsage, usage);
+                        Object.assign(promptVersions, pageVersions);
+                        if (cached) {
+                            cachedPages.push(pageNum);
+                            addLog(pdfId, `Page ${pageNum} reused from cache.`);
+                        }
                         if (assetsOnPage.length > 0) {
                             addLog(pdfId, `Found ${assetsOnPage.length} asset(s) on page ${pageNum}.`);
                             allAssets = [...allAssets, ...assetsOnPage.map(asset => ({...asset, id: `${performance.now()}-${Math.random().toString(36).substring(2, 9)}`, pageNumber: pageNum}))];
                         }
-                        if (pageNum < pdf.numPages) await new Promise<void>(resolve => setTimeout(() => resolve(undefined), 1100));
+                        if (pageNum < pdf.numPages && !cached) await new Promise<void>(resolve => setTimeout(() => resolve(undefined), 1100));
                     } catch (pageError) {
                         hasErrors = true;
                         const errorMessage = pageError instanceof Error ? pageError.message : "Unknown error during page processing.";
                         addLog(pdfId, `ERROR on page ${pageNum}: ${errorMessage}`);
                     }
                 }
+                await pdf.close();
                 
-                updatePdfFile(pdfId, { status: hasErrors ? 'error' : 'completed', assets: allAssets, progress: 100 });
+                updatePdfFile(pdfId, { status: hasErrors ? 'error' : 'completed', assets: allAssets, progress: 100, cachedPages, promptVersions });
                 addLog(pdfId, `Processing finished ${hasErrors ? 'with errors' : 'successfully'}.`);
                 addUsageLog({ 
                     userId: currentUser!.id, 
                     toolName: 'PDF Asset Analyzer', 
                     modelName: selectedModel,
+                    ...runUsage,
                     outputId: pdfId,
                     outputName: fileObject.name,
                 });
@@ -552,27 +560,22 @@ export const MetadataExtractor = ({ onBack }: { onBack: () => void }) => {
 
         setStatusBarMessage(`Regenerating metadata for ${asset.assetId}...`, 'info');
         try {
-            const pdfDoc = await pdfjsLib.getDocument({ data: new Uint8Array(await fileObject.arrayBuffer()) }).promise;
-            const page = await pdfDoc.getPage(asset.pageNumber);
-            const scale = 2;
-            const viewport = page.getViewport({ scale });
-            const canvas = document.createElement('canvas');
-            canvas.width = viewport.width; canvas.height = viewport.height;
-            const context = canvas.getContext('2d');
-            if (!context) throw new Error("Could not get canvas context");
-            await (page.render as any)({ canvasContext: context, viewport }).promise;
+            const renderer = await openPdfRenderer(await fileObject.arrayBuffer());
+            const pageImage = await renderer.renderPage(asset.pageNumber, { scale: 2, mimeType: 'image/png' }).finally(() => renderer.close());
+            const pageBitmap = await createImageBitmap(pageImage);
 
             const { x, y, width, height } = asset.boundingBox;
             const croppedCanvas = document.createElement('canvas');
-            const sx = (x / 100) * canvas.width; const sy = (y / 100) * canvas.height;
-            const sWidth = (width / 100) * canvas.width; const sHeight = (height / 100) * canvas.height;
+            const sx = (x / 100) * pageBitmap.width; const sy = (y / 100) * pageBitmap.height;
+            const sWidth = (width / 100) * pageBitmap.width; const sHeight = (height / 100) * pageBitmap.height;
             croppedCanvas.width = sWidth; croppedCanvas.height = sHeight;
             const croppedContext = croppedCanvas.getContext('2d');
             if (!croppedContext) throw new Error("Could not get cropped canvas context");
-            croppedContext.drawImage(canvas, sx, sy, sWidth, sHeight, 0, 0, sWidth, sHeight);
+            croppedContext.drawImage(pageBitmap, sx, sy, sWidth, sHeight, 0, 0, sWidth, sHeight);
+            pageBitmap.close();
 
             const imageDataUrl = croppedCanvas.toDataURL('image/png');
-            const newMetadata = await generateMetadataForCroppedImage(imageDataUrl, modelName);
+            const { data: newMetadata, usage } = await generateMetadataForCroppedImage(imageDataUrl, modelName);
             
             updateMetadataAsset(pdfId, assetId, { ...newMetadata, assetId: newMetadata.assetId || asset.assetId });
 
@@ -581,6 +584,7 @@ export const MetadataExtractor = ({ onBack }: { onBack: () => void }) => {
                 userId: currentUser!.id, 
                 toolName: 'PDF Asset Analyzer (Regen)', 
                 modelName: modelName,
+                ...usage,
                 outputId: pdfId,
                 outputName: `${fileObject.name} (Asset: ${asset.assetId})`,
             });
@@ -649,6 +653,7 @@ export const MetadataExtractor = ({ onBack }: { onBack: () => void }) => {
                     </div>
                 </div>
                  <div className="flex items-center gap-4">
+                    <ModelSelector value={selectedModel} onChange={setSelectedModel} canUseProModel={currentUser?.canUseProModel} disabled={isProcessing} />
                     <button onClick={() => setCreateFolderModalOpen(true)} className="flex items-center px-3 py-2 text-sm bg-primary-500 text-white rounded-lg hover:bg-primary-600 shadow"><PlusCircleIcon className="h-5 w-5 mr-2"/>New Folder</button>
                 </div>
             </div>
@@ -666,7 +671,7 @@ export const MetadataExtractor = ({ onBack }: { onBack: () => void }) => {
                         <p className="text-xs text-gray-500 mt-2">A "Default Project" folder will be created for you automatically.</p>
                     </div>
                 ) : (
-                    folders.map(folder => <FolderCard key={folder.id} folder={folder} onDrop={onDrop} onView={(pdfId) => { setCurrentPdf({ folderId: folder.id, pdfId }); setView('editor');}} onDeletePdf={(pdfId) => deletePdfFile(folder.id, pdfId)} onDeleteFolder={() => deleteMetadataFolder(folder.id)} onShowLogs={(pdf) => setLogModalState({isOpen: true, logs: pdf.logs || [], fileName: pdf.name})} />)
+                    folders.map(folder => <FolderCard key={folder.id} folder={folder} onDrop={onDrop} onView={(pdfId) => { setCurrentPdf({ folderId: folder.id, pdfId }); setView('editor');}} onDeletePdf={(pdfId) => deletePdfFile(folder.id, pdfId)} onDeleteFolder={() => deleteMetadataFolder(folder.id)} onToggleBypassCache={(bypass) => updateMetadataFolderBypassCache(folder.id, bypass)} onShowLogs={(pdf) => setLogModalState({isOpen: true, logs: pdf.logs || [], fileName: pdf.name})} />)
                 )}
             </div>
              <Modal isOpen={createFolderModalOpen} onClose={() => setCreateFolderModalOpen(false)} title="Create New Folder">
@@ -687,13 +692,18 @@ export const MetadataExtractor = ({ onBack }: { onBack: () => void }) => {
     );
 };
 
-const FolderCard: React.FC<{ folder: MetadataProjectFolder, onDrop: (files: File[], folderId: string) => void, onView: (pdfId: string) => void, onDeletePdf: (pdfId: string) => void, onDeleteFolder: () => void, onShowLogs: (pdf: PdfFile) => void }> = ({ folder, onDrop, onView, onDeletePdf, onDeleteFolder, onShowLogs }) => {
+const FolderCard: React.FC<{ folder: MetadataProjectFolder, onDrop: (files: File[], folderId: string) => void, onView: (pdfId: string) => void, onDeletePdf: (pdfId: string) => void, onDeleteFolder: () => void, onToggleBypassCache: (bypass: boolean) => void, onShowLogs: (pdf: PdfFile) => void }> = ({ folder, onDrop, onView, onDeletePdf, onDeleteFolder, onToggleBypassCache, onShowLogs }) => {
     const { getRootProps, getInputProps, isDragActive } = useDropzone({ onDrop: (files) => onDrop(files, folder.id), accept: { 'application/pdf': ['.pdf'] }, noClick: true });
     return (
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md overflow-hidden">
             <div className="p-4 bg-gray-50 dark:bg-gray-700/50 flex justify-between items-center border-b border-gray-200 dark:border-gray-700">
                 <div className="flex items-center gap-3"> <FolderIcon className="h-6 w-6 text-primary-500" /> <h3 className="font-bold text-lg">{folder.name}</h3> </div>
-                <button onClick={onDeleteFolder} className="p-2 rounded-md text-gray-400 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700"><TrashIcon className="h-5 w-5"/></button>
+                <div className="flex items-center gap-2">
+                    <label className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400" title="Re-analyze every page even if an identical page is cached">
+                        <input type="checkbox" checked={!!folder.bypassCache} onChange={e => onToggleBypassCache(e.target.checked)} className="mr-1 h-3.5 w-3.5 rounded text-primary-600 focus:ring-primary-500"/>Bypass cache
+                    </label>
+                    <button onClick={onDeleteFolder} className="p-2 rounded-md text-gray-400 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700"><TrashIcon className="h-5 w-5"/></button>
+                </div>
             </div>
             <div {...getRootProps({ className: `p-4 relative transition-colors ${isDragActive ? 'bg-primary-500/10' : ''}` })}>
                  {isDragActive && <div className="absolute inset-0 bg-primary-500/20 border-2 border-dashed border-primary-500 rounded-b-xl flex items-center justify-center"><p className="font-semibold text-primary-600">Drop files to upload</p></div>}
@@ -724,6 +734,7 @@ const PdfFileRow: React.FC<{ pdf: PdfFile, onView: (pdfId: string) => void, onDe
                     <p className="text-sm truncate flex-1">{pdf.name}</p>
                 </div>
                 <div className="flex items-center space-x-3 ml-4 flex-shrink-0">
+                    {pdf.status === 'completed' && pdf.cachedPages && pdf.cachedPages.length > 0 && <span className="text-xs text-gray-500" title={`Pages reused from cache: ${pdf.cachedPages.join(', ')}`}>{pdf.cachedPages.length} cached</span>}
                     <p className={`text-xs font-medium capitalize ${statusStyles[pdf.status]}`}>{pdf.status}</p>
                     <button onClick={() => onShowLogs(pdf)} className="text-gray-400 hover:text-gray-200" title="View Logs"><ClipboardListIcon className="h-4 w-4"/></button>
                     {pdf.status === 'completed' && <button onClick={() => onView(pdf.id)} className="text-xs text-primary-500 hover:underline">View</button>}
@@ -239,7 +239,10 @@ export default function UsageDashboard() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-300 max-w-xs truncate" title={log.outputName}>{log.outputName || '-'}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-300">{log.promptTokens.toLocaleString()}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-300">{log.responseTokens.toLocaleString()}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900 dark:text-slate-100">{(log.promptTokens + log.responseTokens).toLocaleString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900 dark:text-slate-100" title={log.stages?.map(st => `${st.stage}: ${(st.promptTokens + st.responseTokens).toLocaleString()}`).join('\n')}>
+                    {(log.promptTokens + log.responseTokens).toLocaleString()}
+                    {log.stages && log.stages.length > 0 && <span className="block text-xs font-normal text-slate-400">{log.stages.length} stage(s)</span>}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-center text-sm">
                      <button
                         onClick={() => handleDownload(log)}
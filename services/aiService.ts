@@ -1,8 +1,9 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
+import { Type } from "@google/genai";
 import {
     ExtractedAsset,
     ComplianceFinding,
+    ComplianceItem,
     JournalRecommendation,
     ManuscriptIssue,
     ManuscriptScores,
@@ -15,10 +16,15 @@ import {
     BookMetadataIssue,
     VisualAssetIssue,
     BookEditorialIssue,
-    AssetType
+    AssetType,
+    TokenUsage,
+    StageUsage,
+    AnalysisCoverage,
+    PromptVersionMap
 } from '../types';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { generateContent, LlmInlineData, LlmResponse } from './llmProvider';
+import { PromptId, getActivePromptVersion, renderPrompt } from './promptRegistry';
+import { validateAgainstSchema, formatSchemaIssue, SchemaIssue } from './schemaValidator';
 
 async function apiCallWithRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
     try {
@@ -32,6 +38,137 @@ async function apiCallWithRetry<T>(fn: () => Promise<T>, retries = 3, delay = 10
     }
 }
 
+// Every API function returns its parsed result together with the provider-reported token usage for that call.
+export interface AiResult<T> {
+    data: T;
+    usage: TokenUsage;
+    coverage?: AnalysisCoverage; // Set by text analyses that run in map-reduce mode
+    cached?: boolean; // True when served from the result cache instead of a live model call
+    promptVersions?: PromptVersionMap; // Prompt template versions used to produce this result
+    validationIssues?: string[]; // Fields that were coerced or dropped to fit the response schema
+    repairs?: number; // Repair requests made because a response did not validate
+}
+
+// Thrown when a response still does not match its schema after the repair request.
+export class SchemaValidationError extends Error {
+    issues: string[];
+    constructor(message: string, issues: string[]) {
+        super(message);
+        this.name = 'SchemaValidationError';
+        this.issues = issues;
+    }
+}
+
+type ResultDetails = Pick<AiResult<unknown>, 'promptVersions' | 'validationIssues' | 'repairs'>;
+
+const mergeDetails = (...parts: ResultDetails[]): ResultDetails => ({
+    promptVersions: Object.assign({}, ...parts.map(p => p.promptVersions)),
+    validationIssues: parts.flatMap(p => p.validationIssues || []),
+    repairs: parts.reduce((sum, p) => sum + (p.repairs || 0), 0),
+});
+
+// Pins the active version of a prompt template for one analysis, so every section renders the same wording
+// and the result records which version produced it.
+interface PinnedPrompt {
+    versions: PromptVersionMap;
+    render: (variables: Record<string, string | number>) => string;
+}
+
+function pinPrompt(id: PromptId, fixed: Record<string, string | number> = {}): PinnedPrompt {
+    const version = getActivePromptVersion(id);
+    return { versions: { [id]: version }, render: variables => renderPrompt(id, { ...fixed, ...variables }, version) };
+}
+
+export const emptyUsage = (): TokenUsage => ({ promptTokens: 0, responseTokens: 0 });
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+    promptTokens: a.promptTokens + b.promptTokens,
+    responseTokens: a.responseTokens + b.responseTokens,
+});
+
+// Accumulates usage under a named pipeline stage, merging repeated calls (e.g. compliance chunks) into one entry.
+export const recordStageUsage = (stages: StageUsage[], stage: string, usage: TokenUsage) => {
+    const existing = stages.find(s => s.stage === stage);
+    if (existing) Object.assign(existing, addUsage(existing, usage));
+    else stages.push({ stage, ...usage });
+};
+
+export const totalUsage = (stages: TokenUsage[]): TokenUsage => stages.reduce(addUsage, emptyUsage());
+
+// Sums coverage for a stage that runs more than once per document (e.g. one compliance call per page chunk).
+export const recordStageCoverage = (coverageByStage: Record<string, AnalysisCoverage>, stage: string, coverage?: AnalysisCoverage) => {
+    if (!coverage) return;
+    const existing = coverageByStage[stage];
+    if (!existing) { coverageByStage[stage] = { ...coverage }; return; }
+    coverageByStage[stage] = {
+        totalChars: existing.totalChars + coverage.totalChars,
+        analyzedChars: existing.analyzedChars + coverage.analyzedChars,
+        totalSections: existing.totalSections + coverage.totalSections,
+        analyzedSections: existing.analyzedSections + coverage.analyzedSections,
+        ...(existing.totalPages !== undefined || coverage.totalPages !== undefined ? {
+            totalPages: (existing.totalPages || 0) + (coverage.totalPages || 0),
+            analyzedPages: (existing.analyzedPages || 0) + (coverage.analyzedPages || 0),
+        } : {}),
+    };
+};
+
+export const coveragePercent = (coverage: AnalysisCoverage) => coverage.totalChars > 0 ? Math.round((coverage.analyzedChars / coverage.totalChars) * 100) : 100;
+
+export const describeCoverage = (coverage: AnalysisCoverage) =>
+    `${coveragePercent(coverage)}% of text (${coverage.analyzedSections}/${coverage.totalSections} sections${coverage.totalPages ? `, ${coverage.analyzedPages}/${coverage.totalPages} pages` : ''})`;
+
+// Routes a structured-output request through the provider registered for the model and returns the cleaned JSON text.
+async function generateJson(modelName: string, prompt: string, responseSchema: any, inlineData?: LlmInlineData[]): Promise<{ jsonText: string | undefined, usage: TokenUsage }> {
+    const response = await apiCallWithRetry<LlmResponse>(() => generateContent({ model: modelName, prompt, inlineData, responseSchema }));
+    return { jsonText: response.text?.replace(/```json|```/g, '').trim(), usage: response.usage };
+}
+
+function parseAndValidate<T>(jsonText: string | undefined, schema: any): { value: T, issues: SchemaIssue[] } {
+    // An empty reply to a list schema means nothing was found, as before validation existed.
+    if (!jsonText && String(schema.type).toUpperCase() === 'ARRAY') return { value: [] as unknown as T, issues: [] };
+    try {
+        return validateAgainstSchema<T>(jsonText ? JSON.parse(jsonText) : undefined, schema);
+    } catch (error) {
+        return { value: undefined as unknown as T, issues: [{ path: '$', kind: 'invalid', message: `not valid JSON (${error instanceof Error ? error.message : 'parse error'})` }] };
+    }
+}
+
+// Like generateJson, but validates the parsed result against the schema. Output that cannot be parsed, misses required
+// fields or loses list items gets one repair request; the call only fails if the output is still invalid after that.
+// The repair request carries the same inline data (e.g. page images), so the model can restore items taken from it.
+async function generateValidatedJson<T>(modelName: string, prompt: string, responseSchema: any, inlineData?: LlmInlineData[]): Promise<AiResult<T>> {
+    const first = await generateJson(modelName, prompt, responseSchema, inlineData);
+    const firstAttempt = parseAndValidate<T>(first.jsonText, responseSchema);
+    if (firstAttempt.issues.every(i => i.kind === 'coerced')) {
+        return { data: firstAttempt.value, usage: first.usage, validationIssues: firstAttempt.issues.map(formatSchemaIssue) };
+    }
+
+    const repairPrompt = pinPrompt('jsonRepair');
+    const repair = await generateJson(modelName, repairPrompt.render({
+        problems: firstAttempt.issues.filter(i => i.kind !== 'coerced').map(i => `- ${formatSchemaIssue(i)}`).join('\n'),
+        response: first.jsonText || '(empty response)',
+    }), responseSchema, inlineData);
+    const repairedAttempt = parseAndValidate<T>(repair.jsonText, responseSchema);
+    const usage = addUsage(first.usage, repair.usage);
+
+    // Keep the original output if the repair made things worse (e.g. it had only dropped items and the repair is unusable).
+    const firstIsUsable = !firstAttempt.issues.some(i => i.kind === 'invalid');
+    const best = repairedAttempt.issues.some(i => i.kind === 'invalid') && firstIsUsable ? firstAttempt : repairedAttempt;
+    const invalid = best.issues.filter(i => i.kind === 'invalid').map(formatSchemaIssue);
+    if (invalid.length > 0) {
+        throw new SchemaValidationError(`AI response did not match the expected format after a repair attempt: ${invalid.slice(0, 3).join('; ')}`, invalid);
+    }
+    return { data: best.value, usage, promptVersions: repairPrompt.versions, validationIssues: best.issues.map(formatSchemaIssue), repairs: 1 };
+}
+
+// One-line summary of validation work for page logs, or null when the output validated cleanly.
+export const describeValidation = (result: ResultDetails): string | null => {
+    const issues = result.validationIssues?.length || 0;
+    const repairs = result.repairs || 0;
+    if (issues === 0 && repairs === 0) return null;
+    return [repairs > 0 ? `${repairs} response(s) repaired` : '', issues > 0 ? `${issues} field(s) coerced or dropped` : ''].filter(Boolean).join(', ');
+};
+
 // --- Schemas ---
 
 const ASSET_EXTRACTION_SCHEMA = {
@@ -85,6 +222,7 @@ const COMPLIANCE_CHECK_SCHEMA = {
                     manuscriptPage: { type: Type.NUMBER },
                     ruleContent: { type: Type.STRING },
                     rulePage: { type: Type.NUMBER },
+                    ruleId: { type: Type.STRING },
                     recommendation: { type: Type.STRING },
                 },
                 required: ['checkCategory', 'status', 'summary', 'recommendation']
@@ -122,17 +260,20 @@ const MANUSCRIPT_ANALYSIS_SCHEMA = {
     }
 };
 
+const SCORE_SCHEMA = { type: Type.OBJECT, properties: { score: { type: Type.NUMBER }, reasoning: { type: Type.STRING } }, required: ['score'] };
+
 const MANUSCRIPT_SCORING_SCHEMA = {
     type: Type.OBJECT,
     properties: {
-        complianceScore: { type: Type.OBJECT, properties: { score: { type: Type.NUMBER }, reasoning: { type: Type.STRING } } },
-        scientificQualityScore: { type: Type.OBJECT, properties: { score: { type: Type.NUMBER }, reasoning: { type: Type.STRING } } },
-        writingQualityScore: { type: Type.OBJECT, properties: { score: { type: Type.NUMBER }, reasoning: { type: Type.STRING } } },
-        citationMaturityScore: { type: Type.OBJECT, properties: { score: { type: Type.NUMBER }, reasoning: { type: Type.STRING } } },
-        noveltyScore: { type: Type.OBJECT, properties: { score: { type: Type.NUMBER }, reasoning: { type: Type.STRING } } },
-        dataIntegrityRiskScore: { type: Type.OBJECT, properties: { score: { type: Type.NUMBER }, reasoning: { type: Type.STRING } } },
-        editorAcceptanceLikelihood: { type: Type.OBJECT, properties: { score: { type: Type.NUMBER }, reasoning: { type: Type.STRING } } },
-    }
+        complianceScore: SCORE_SCHEMA,
+        scientificQualityScore: SCORE_SCHEMA,
+        writingQualityScore: SCORE_SCHEMA,
+        citationMaturityScore: SCORE_SCHEMA,
+        noveltyScore: SCORE_SCHEMA,
+        dataIntegrityRiskScore: SCORE_SCHEMA,
+        editorAcceptanceLikelihood: SCORE_SCHEMA,
+    },
+    required: ['complianceScore', 'scientificQualityScore', 'writingQualityScore', 'citationMaturityScore', 'noveltyScore', 'dataIntegrityRiskScore', 'editorAcceptanceLikelihood']
 };
 
 const METADATA_ANALYSIS_SCHEMA = {
@@ -211,7 +352,23 @@ const INTEGRITY_CHECK_SCHEMA = {
             finding: { type: Type.STRING },
             snippet: { type: Type.STRING },
             recommendation: { type: Type.STRING }
-        }
+        },
+        required: ['category', 'status', 'finding']
+    }
+};
+
+const REPORTING_CHECKLIST_SCHEMA = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            itemId: { type: Type.STRING },
+            status: { type: Type.STRING, enum: ['COMPLIANT', 'PARTIALLY_COMPLIANT', 'NOT_COMPLIANT', 'NOT_APPLICABLE'] },
+            evidence: { type: Type.STRING },
+            page: { type: Type.NUMBER },
+            reasoning: { type: Type.STRING }
+        },
+        required: ['itemId', 'status', 'reasoning']
     }
 };
 
@@ -226,7 +383,8 @@ const BOOK_STRUCTURAL_SCHEMA = {
             details: { type: Type.STRING },
             location: { type: Type.STRING },
             recommendation: { type: Type.STRING }
-        }
+        },
+        required: ['issueCategory', 'priority', 'summary']
     }
 };
 
@@ -242,7 +400,8 @@ const READABILITY_SCHEMA = {
             location: { type: Type.STRING },
             quote: { type: Type.STRING },
             recommendation: { type: Type.STRING }
-        }
+        },
+        required: ['issueCategory', 'priority', 'summary']
     }
 };
 
@@ -256,7 +415,8 @@ const BOOK_METADATA_SCHEMA = {
             summary: { type: Type.STRING },
             details: { type: Type.STRING },
             recommendation: { type: Type.STRING }
-        }
+        },
+        required: ['category', 'status', 'summary']
     }
 };
 
@@ -270,7 +430,8 @@ const BOOK_VISUALS_SCHEMA = {
             description: { type: Type.STRING },
             location: { type: Type.STRING },
             recommendation: { type: Type.STRING }
-        }
+        },
+        required: ['category', 'status', 'description']
     }
 };
 
@@ -284,7 +445,8 @@ const BOOK_EDITORIAL_SCHEMA = {
             quote: { type: Type.STRING },
             location: { type: Type.STRING },
             suggestion: { type: Type.STRING }
-        }
+        },
+        required: ['category', 'severity', 'quote']
     }
 };
 
@@ -293,341 +455,267 @@ const BOOK_METADATA_EXTRACTION_SCHEMA = {
     properties: {
         onix: { type: Type.STRING, description: "Full ONIX 3.0 XML record" },
         marc: { type: Type.STRING, description: "Full MARC21 text record" }
-    }
+    },
+    required: ['onix', 'marc']
 };
 
 
-// --- API Functions ---
+// --- Map-Reduce over Long Documents ---
 
-export async function extractAssetsFromPage(pageImageBase64: string, modelName: string): Promise<ExtractedAsset[]> {
-    const prompt = `Analyze this PDF page image. Identify all Figures, Tables, Images, Equations, Maps, and Graphs. 
-    For each, extract:
-    - Type (AssetType)
-    - A brief visual description (preview)
-    - Accessibility Alt Text
-    - Keywords (SEO)
-    - Taxonomy classification
-    - Bounding Box (0-100% relative coordinates)`;
-
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: {
-            parts: [
-                { inlineData: { mimeType: 'image/jpeg', data: pageImageBase64 } },
-                { text: prompt }
-            ]
-        },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: ASSET_EXTRACTION_SCHEMA,
-        },
-    }));
+export interface AnalysisOptions {
+    sectionChars?: number; // Max characters per section sent to the model
+    maxSections?: number; // Upper bound on map calls per analysis; anything beyond is reported as not covered
+}
 
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    if (!jsonText) return [];
-    return JSON.parse(jsonText);
+const DEFAULT_MAX_SECTIONS = 40;
+
+const countPages = (text: string) => (text.match(/\[Page \d+\]/g) || []).length;
+
+const normalizeKey = (...parts: any[]) => parts.map(p => String(p ?? '').toLowerCase().replace(/\s+/g, ' ').trim()).join('|');
+
+function dedupeBy<T>(items: T[], keyOf: (item: T) => string): T[] {
+    const seen = new Set<string>();
+    return items.filter(item => {
+        const key = keyOf(item);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
 }
 
-export async function generateMetadataForCroppedImage(imageDataUrl: string, modelName: string): Promise<ExtractedAsset> {
-     // ImageDataUrl is "data:image/png;base64,..."
-    const base64 = imageDataUrl.split(',')[1];
-    const prompt = `Analyze this cropped image asset. Generate accessibility and SEO metadata:
-    - Determine Asset Type (Figure, Table, Image, etc.)
-    - Detailed Alt Text
-    - Keywords
-    - Taxonomy`;
-
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: {
-            parts: [
-                { inlineData: { mimeType: 'image/png', data: base64 } },
-                { text: prompt }
-            ]
-        },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: SINGLE_ASSET_SCHEMA,
-        },
-    }));
-    
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    if (!jsonText) throw new Error("No response from AI");
-    // Add dummy ID and other fields that will be overwritten by the caller
-    const result = JSON.parse(jsonText);
-    return { ...result, id: '', assetId: `Asset-${Math.floor(Math.random()*1000)}` };
+// Splits text into sections of at most sectionChars, breaking on [Page N] markers first, then line breaks or spaces.
+export function splitIntoSections(text: string, sectionChars: number): string[] {
+    if (text.length <= sectionChars) return [text];
+    const pieces = text.split(/(?=\[Page \d+\])/g).flatMap(page => {
+        const parts: string[] = [];
+        let rest = page;
+        while (rest.length > sectionChars) {
+            const breakAt = Math.max(rest.lastIndexOf('\n', sectionChars), rest.lastIndexOf(' ', sectionChars));
+            const cut = breakAt > sectionChars / 2 ? breakAt : sectionChars;
+            parts.push(rest.slice(0, cut));
+            rest = rest.slice(cut);
+        }
+        if (rest) parts.push(rest);
+        return parts;
+    });
+
+    const sections: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        if (current && current.length + piece.length > sectionChars) {
+            sections.push(current);
+            current = '';
+        }
+        current += piece;
+    }
+    if (current) sections.push(current);
+    return sections;
 }
 
-export async function generateMetadataForImage(base64Data: string, mimeType: string, modelName: string): Promise<ExtractedAsset> {
-    const prompt = `Analyze this image. Generate metadata: Asset Type, Alt Text, Keywords, Taxonomy.`;
+// Runs analyzeSection over every section (up to maxSections). A failed section is skipped and shows up as reduced coverage;
+// the analysis only fails outright when no section succeeds.
+async function mapSections<T>(
+    text: string,
+    defaultSectionChars: number,
+    options: AnalysisOptions,
+    analyzeSection: (section: string, note: string, index: number) => Promise<AiResult<T>>
+): Promise<{ results: T[], usage: TokenUsage, coverage: AnalysisCoverage, details: ResultDetails }> {
+    const allSections = splitIntoSections(text, options.sectionChars || defaultSectionChars);
+    const sections = allSections.slice(0, options.maxSections ?? DEFAULT_MAX_SECTIONS);
+    const results: T[] = [];
+    const sectionDetails: ResultDetails[] = [];
+    let usage = emptyUsage();
+    let analyzedChars = 0;
+    let analyzedPages = 0;
+    let lastError: unknown = null;
+
+    for (const [index, section] of sections.entries()) {
+        const note = allSections.length > 1 ? `\n    NOTE: This is section ${index + 1} of ${allSections.length} of a longer document. Report only on the text provided.` : '';
+        try {
+            const result = await analyzeSection(section, note, index);
+            results.push(result.data);
+            sectionDetails.push(result);
+            usage = addUsage(usage, result.usage);
+            analyzedChars += section.length;
+            analyzedPages += countPages(section);
+        } catch (error) {
+            console.error(`Section ${index + 1}/${sections.length} failed:`, error);
+            lastError = error;
+        }
+    }
+    if (results.length === 0 && lastError) throw lastError;
+
+    const totalPages = countPages(text);
+    const coverage: AnalysisCoverage = {
+        totalChars: text.length,
+        analyzedChars,
+        totalSections: allSections.length,
+        analyzedSections: results.length,
+        ...(totalPages > 0 ? { totalPages, analyzedPages } : {}),
+    };
+    return { results, usage, coverage, details: mergeDetails(...sectionDetails) };
+}
 
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: {
-            parts: [
-                { inlineData: { mimeType: mimeType, data: base64Data } },
-                { text: prompt }
-            ]
-        },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: SINGLE_ASSET_SCHEMA,
-        },
-    }));
-
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    if (!jsonText) throw new Error("No response from AI");
-    const result = JSON.parse(jsonText);
-     return { ...result, id: '', assetId: `Image-${Math.floor(Math.random()*1000)}` };
-}
-
-export async function performComplianceCheck(textChunk: string, rulesText: string, modelName: string, isFirstChunk: boolean): Promise<{ findings: ComplianceFinding[], recommendations: JournalRecommendation[] }> {
-    const prompt = `
-    Check this manuscript text against the provided submission guidelines/rules.
-    
-    MANUSCRIPT TEXT:
-    ${textChunk.substring(0, 25000)}
-
-    RULES:
-    ${rulesText}
-
-    Task:
-    1. Identify compliance issues (pass, fail, warn).
-    2. Provide specific evidence from the manuscript and the rule.
-    ${isFirstChunk ? '3. Based on the abstract/intro, recommend 3 suitable journals.' : ''}
-    `;
-
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: COMPLIANCE_CHECK_SCHEMA,
-        },
-    }));
+// Asks the model to consolidate per-section results into a single document-level result with the same schema.
+async function reduceWithModel<T>(partials: any[], schema: any, modelName: string, label: string): Promise<AiResult<T>> {
+    const prompt = pinPrompt('sectionMerge');
+    const result = await generateValidatedJson<T>(modelName, prompt.render({ count: partials.length, label, partials: JSON.stringify(partials) }), schema);
+    return { ...result, promptVersions: { ...prompt.versions, ...result.promptVersions } };
+}
 
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    if (!jsonText) return { findings: [], recommendations: [] };
-    const result = JSON.parse(jsonText);
-    return { findings: result.findings || [], recommendations: result.recommendations || [] };
+async function mapReduceList<T>(
+    text: string,
+    defaultSectionChars: number,
+    options: AnalysisOptions,
+    modelName: string,
+    schema: any,
+    prompt: PinnedPrompt, // Rendered with { section, note } for each section
+    keyOf: (item: T) => string,
+    modelReduceLabel?: string // When set, multi-section results are merged by the model instead of concatenated
+): Promise<AiResult<T[]>> {
+    const { results, usage, coverage, details } = await mapSections<T[]>(text, defaultSectionChars, options, (section, note) =>
+        generateValidatedJson<T[]>(modelName, prompt.render({ section, note }), schema)
+    );
+
+    if (modelReduceLabel && results.length > 1) {
+        const reduced = await reduceWithModel<T[]>(results, schema, modelName, modelReduceLabel);
+        return { data: dedupeBy(reduced.data, keyOf), usage: addUsage(usage, reduced.usage), coverage, ...mergeDetails({ promptVersions: prompt.versions }, details, reduced) };
+    }
+    return { data: dedupeBy(results.flat(), keyOf), usage, coverage, ...mergeDetails({ promptVersions: prompt.versions }, details) };
 }
 
-export async function analyzeManuscript(text: string, modelName: string): Promise<ManuscriptIssue[]> {
-    const prompt = `Analyze this manuscript for: Grammar, Plagiarism Concerns, Structure, Clarity, Ethics, Spelling, Citations.
-    Return a list of issues.
-    TEXT: ${text.substring(0, 30000)}`;
+async function mapReduceObject<T>(
+    text: string,
+    defaultSectionChars: number,
+    options: AnalysisOptions,
+    modelName: string,
+    schema: any,
+    label: string,
+    prompt: PinnedPrompt // Rendered with { section, note } for each section
+): Promise<AiResult<T>> {
+    const { results, usage, coverage, details } = await mapSections<T>(text, defaultSectionChars, options, (section, note) =>
+        generateValidatedJson<T>(modelName, prompt.render({ section, note }), schema)
+    );
+    if (results.length === 0) throw new Error(`No ${label} generated`);
+    if (results.length === 1) return { data: results[0], usage, coverage, ...mergeDetails({ promptVersions: prompt.versions }, details) };
+
+    const reduced = await reduceWithModel<T>(results, schema, modelName, label);
+    return { data: reduced.data, usage: addUsage(usage, reduced.usage), coverage, ...mergeDetails({ promptVersions: prompt.versions }, details, reduced) };
+}
 
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: MANUSCRIPT_ANALYSIS_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    return jsonText ? JSON.parse(jsonText) : [];
+
+// --- API Functions ---
+
+export async function extractAssetsFromPage(pageImageBase64: string, modelName: string): Promise<AiResult<ExtractedAsset[]>> {
+    const prompt = pinPrompt('assetExtraction');
+    const result = await generateValidatedJson<ExtractedAsset[]>(modelName, prompt.render({}), ASSET_EXTRACTION_SCHEMA, [{ mimeType: 'image/jpeg', data: pageImageBase64 }]);
+    return { ...result, promptVersions: { ...prompt.versions, ...result.promptVersions } };
 }
 
-export async function scoreManuscript(text: string, modelName: string): Promise<ManuscriptScores> {
-    const prompt = `Score this manuscript (0-100) on: Compliance, Scientific Quality, Writing Quality, Citation Maturity, Novelty, Data Integrity Risk, Editor Acceptance Likelihood. Provide reasoning.
-    TEXT: ${text.substring(0, 30000)}`;
+export async function generateMetadataForCroppedImage(imageDataUrl: string, modelName: string): Promise<AiResult<ExtractedAsset>> {
+     // ImageDataUrl is "data:image/png;base64,..."
+    const base64 = imageDataUrl.split(',')[1];
+    const prompt = pinPrompt('croppedAssetMetadata');
+    const result = await generateValidatedJson<ExtractedAsset>(modelName, prompt.render({}), SINGLE_ASSET_SCHEMA, [{ mimeType: 'image/png', data: base64 }]);
+    // Add dummy ID and other fields that will be overwritten by the caller
+    return { ...result, data: { ...result.data, id: '', assetId: `Asset-${Math.floor(Math.random()*1000)}` }, promptVersions: { ...prompt.versions, ...result.promptVersions } };
+}
 
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: MANUSCRIPT_SCORING_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    if (!jsonText) throw new Error("No scores generated");
-    return JSON.parse(jsonText);
-}
-
-export async function analyzeJournalMetadata(text: string, modelName: string): Promise<MetadataAnalysisReport> {
-    const prompt = `Analyze manuscript metadata. Predict section type, generate keywords, validate ORCIDs (mock validation), extract funding info, suggest taxonomy, and check corresponding author details.
-    TEXT: ${text.substring(0, 15000)}`;
-
-     const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: METADATA_ANALYSIS_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    if (!jsonText) throw new Error("No metadata analysis generated");
-    return JSON.parse(jsonText);
-}
-
-export async function simulatePeerReview(text: string, modelName: string): Promise<PeerReviewSimulation> {
-    const prompt = `Simulate a peer review. Summarize, list strengths/weaknesses, concerns, gaps, questions, and suitability.
-    TEXT: ${text.substring(0, 30000)}`;
-
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: PEER_REVIEW_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    if (!jsonText) throw new Error("No peer review generated");
-    return JSON.parse(jsonText);
-}
-
-export async function generateEditorialEnhancements(text: string, modelName: string): Promise<EditorialReport> {
-    const prompt = `Act as an Editorial Assistant. Suggest titles, rewrite abstract, keywords, ethics statement, citation fixes, and content improvements (grammar/clarity).
-    TEXT: ${text.substring(0, 30000)}`;
-
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: EDITORIAL_ENHANCEMENT_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    if (!jsonText) throw new Error("No editorial report generated");
-    return JSON.parse(jsonText);
-}
-
-export async function performIntegrityCheck(text: string, modelName: string): Promise<IntegrityIssue[]> {
-    const prompt = `Perform a Research Integrity Check. Check for Ethics Approval, Consent, Clinical Trial Registration, Conflict of Interest, Author Contribution, Data Integrity.
-    TEXT: ${text.substring(0, 30000)}`;
-
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: INTEGRITY_CHECK_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    return jsonText ? JSON.parse(jsonText) : [];
+export async function generateMetadataForImage(base64Data: string, mimeType: string, modelName: string): Promise<AiResult<ExtractedAsset>> {
+    const prompt = pinPrompt('imageMetadata');
+    const result = await generateValidatedJson<ExtractedAsset>(modelName, prompt.render({}), SINGLE_ASSET_SCHEMA, [{ mimeType: mimeType, data: base64Data }]);
+     return { ...result, data: { ...result.data, id: '', assetId: `Image-${Math.floor(Math.random()*1000)}` }, promptVersions: { ...prompt.versions, ...result.promptVersions } };
 }
 
-export async function analyzeBookStructure(text: string, modelName: string): Promise<BookStructuralIssue[]> {
-    const prompt = `Analyze Book Structure: Chapter Sequence, Completeness, Formatting, Content Anomalies.
-    TEXT: ${text.substring(0, 30000)}`;
+export async function performComplianceCheck(textChunk: string, rulesText: string, modelName: string, isFirstChunk: boolean, options: AnalysisOptions = {}): Promise<AiResult<{ findings: ComplianceFinding[], recommendations: JournalRecommendation[] }>> {
+    const compliancePrompt = pinPrompt('complianceCheck');
+    const { results, usage, coverage, details } = await mapSections(textChunk, 25000, options, async (section, note, index) => {
+        const wantsRecommendations = isFirstChunk && index === 0;
+        const prompt = compliancePrompt.render({
+            section,
+            note,
+            rules: rulesText,
+            recommendationTask: wantsRecommendations ? '3. Based on the abstract/intro, recommend 3 suitable journals.' : '',
+        });
+
+        const result = await generateValidatedJson<{ findings: ComplianceFinding[], recommendations: JournalRecommendation[] }>(modelName, prompt, COMPLIANCE_CHECK_SCHEMA);
+        return { ...result, data: { findings: result.data.findings, recommendations: wantsRecommendations ? result.data.recommendations : [] } };
+    });
+
+    const findings = dedupeBy(results.flatMap(r => r.findings), f => normalizeKey(f.checkCategory, f.status, f.manuscriptQuote || f.summary));
+    return { data: { findings, recommendations: results.flatMap(r => r.recommendations) }, usage, coverage, ...mergeDetails({ promptVersions: compliancePrompt.versions }, details) };
+}
 
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: BOOK_STRUCTURAL_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    return jsonText ? JSON.parse(jsonText) : [];
+export async function analyzeManuscript(text: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<ManuscriptIssue[]>> {
+    return mapReduceList<ManuscriptIssue>(text, 30000, options, modelName, MANUSCRIPT_ANALYSIS_SCHEMA, pinPrompt('manuscriptAnalysis'), i => normalizeKey(i.issueCategory, i.quote || i.summary));
 }
 
-export async function analyzeReadability(text: string, modelName: string): Promise<ReadabilityIssue[]> {
-    const prompt = `Analyze Book Readability: Score, Tone, Clarity, Passive Voice.
-    TEXT: ${text.substring(0, 30000)}`;
+export async function scoreManuscript(text: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<ManuscriptScores>> {
+    return mapReduceObject<ManuscriptScores>(text, 30000, options, modelName, MANUSCRIPT_SCORING_SCHEMA, 'scores', pinPrompt('scoring'));
+}
 
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: READABILITY_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    return jsonText ? JSON.parse(jsonText) : [];
+export async function analyzeJournalMetadata(text: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<MetadataAnalysisReport>> {
+    return mapReduceObject<MetadataAnalysisReport>(text, 15000, options, modelName, METADATA_ANALYSIS_SCHEMA, 'metadata analysis', pinPrompt('journalMetadata'));
 }
 
-export async function validateBookMetadata(text: string, modelName: string): Promise<BookMetadataIssue[]> {
-    const prompt = `Validate Book Metadata & TOC against content. Check TOC Mismatch, Chapter Numbering, Front Matter.
-    TEXT: ${text.substring(0, 10000)}`;
+export async function simulatePeerReview(text: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<PeerReviewSimulation>> {
+    return mapReduceObject<PeerReviewSimulation>(text, 30000, options, modelName, PEER_REVIEW_SCHEMA, 'peer review', pinPrompt('peerReview'));
+}
 
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: BOOK_METADATA_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    return jsonText ? JSON.parse(jsonText) : [];
+export async function generateEditorialEnhancements(text: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<EditorialReport>> {
+    return mapReduceObject<EditorialReport>(text, 30000, options, modelName, EDITORIAL_ENHANCEMENT_SCHEMA, 'editorial report', pinPrompt('editorial'));
 }
 
-export async function analyzeBookVisuals(text: string, modelName: string): Promise<VisualAssetIssue[]> {
-    const prompt = `Analyze textual references to Book Visuals. Check Numbering, Captions, Broken Refs, Placeholders.
-    TEXT: ${text.substring(0, 30000)}`;
+export async function performIntegrityCheck(text: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<IntegrityIssue[]>> {
+    // Integrity checks are document-level (e.g. an ethics statement anywhere counts), so partial results are reconciled by the model.
+    return mapReduceList<IntegrityIssue>(text, 30000, options, modelName, INTEGRITY_CHECK_SCHEMA, pinPrompt('integrity'), i => normalizeKey(i.category, i.status, i.finding), 'integrity check');
+}
 
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: BOOK_VISUALS_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    return jsonText ? JSON.parse(jsonText) : [];
+// Returns the raw assessment of every section; services/reportingGuidelines merges them into one checklist, since an
+// item counts as reported wherever in the manuscript it is reported.
+export async function evaluateReportingChecklist(text: string, guideline: string, items: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<ComplianceItem[][]>> {
+    const prompt = pinPrompt('reportingChecklist', { guideline, items });
+    const { results, usage, coverage, details } = await mapSections<ComplianceItem[]>(text, 30000, options, (section, note) =>
+        generateValidatedJson<ComplianceItem[]>(modelName, prompt.render({ section, note }), REPORTING_CHECKLIST_SCHEMA)
+    );
+    return { data: results, usage, coverage, ...mergeDetails({ promptVersions: prompt.versions }, details) };
 }
 
-export async function analyzeBookEditorial(manuscriptText: string, modelName: string): Promise<BookEditorialIssue[]> {
-    const prompt = `
-        You are an expert copyeditor for high-quality book manuscripts. Perform a precise editorial check on the text provided.
+// Structure the file declares itself (see describeBookStructure) is authoritative over what the model infers from the text.
+const structureNote = (structure: string) => structure
+    ? `\n    DECLARED STRUCTURE (from the file's own navigation and reading order; use it as the real TOC and chapter boundaries, and report where the text disagrees with it):\n${structure}`
+    : '';
 
-        **Tasks:**
-        1. **Grammar:** Identify objective grammatical errors such as subject-verb disagreement, incorrect verb tense, dangling modifiers, and misuse of articles.
-           - **CRITICAL EXCLUSION:** Do NOT report on hyphenation, en-dashes, em-dashes, or compound words. Assume all hyphenation choices are intentional stylistic decisions.
-        
-        2. **Unclear Meaning (Style):** Flag sentences that are convoluted, ambiguous, or poorly constructed to the point where meaning is lost. Identify awkward phrasing that disrupts the reading flow. Map these to the 'Unclear Meaning' category.
-        
-        3. **Repetition:** Detect unintentional repetition of words (e.g., "the the") or redundancy in immediate proximity.
+export async function analyzeBookStructure(text: string, structure: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<BookStructuralIssue[]>> {
+    return mapReduceList<BookStructuralIssue>(text, 30000, options, modelName, BOOK_STRUCTURAL_SCHEMA, pinPrompt('bookStructure', { structure: structureNote(structure) }), i => normalizeKey(i.issueCategory, i.summary, i.location));
+}
 
-        Report findings using the JSON schema provided.
+export async function analyzeReadability(text: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<ReadabilityIssue[]>> {
+    return mapReduceList<ReadabilityIssue>(text, 30000, options, modelName, READABILITY_SCHEMA, pinPrompt('readability'), i => normalizeKey(i.issueCategory, i.quote || i.summary));
+}
+
+export async function validateBookMetadata(text: string, structure: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<BookMetadataIssue[]>> {
+    return mapReduceList<BookMetadataIssue>(text, 10000, options, modelName, BOOK_METADATA_SCHEMA, pinPrompt('bookMetadata', { structure: structureNote(structure) }), i => normalizeKey(i.category, i.status, i.summary));
+}
 
-        MANUSCRIPT TEXT:
-        ${manuscriptText.substring(0, 30000)}
-    `;
+export async function analyzeBookVisuals(text: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<VisualAssetIssue[]>> {
+    return mapReduceList<VisualAssetIssue>(text, 30000, options, modelName, BOOK_VISUALS_SCHEMA, pinPrompt('bookVisuals'), i => normalizeKey(i.category, i.description, i.location));
+}
 
+export async function analyzeBookEditorial(manuscriptText: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<BookEditorialIssue[]>> {
     try {
-        const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-            model: modelName,
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: BOOK_EDITORIAL_SCHEMA,
-            },
-        }));
-        // Clean potential markdown formatting from the response
-        const jsonText = response.text?.replace(/```json|```/g, '').trim();
-        if (!jsonText) return [];
-        const result = JSON.parse(jsonText);
-        return Array.isArray(result) ? result : [];
+        return await mapReduceList<BookEditorialIssue>(manuscriptText, 30000, options, modelName, BOOK_EDITORIAL_SCHEMA, pinPrompt('bookEditorial'), i => normalizeKey(i.category, i.quote));
     } catch (error) {
         console.error("Error analyzing book editorial:", error);
         throw new Error("Failed to analyze book editorial.");
     }
 }
 
-export async function extractBookMetadata(text: string, modelName: string): Promise<{ onix: string, marc: string }> {
-    const prompt = `Extract Book Metadata from text. Generate a full valid ONIX 3.0 XML record and a MARC21 text record.
-    TEXT: ${text.substring(0, 15000)}`;
-
-    const response = await apiCallWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: BOOK_METADATA_EXTRACTION_SCHEMA,
-        },
-    }));
-    const jsonText = response.text?.replace(/```json|```/g, '').trim();
-    if (!jsonText) throw new Error("No metadata generated");
-    return JSON.parse(jsonText);
+// knownMetadata is the publication metadata the file already declares (see describeDocumentMetadata); the records keep it
+// and only fill gaps from the text.
+export async function extractBookMetadata(text: string, knownMetadata: string, modelName: string, options: AnalysisOptions = {}): Promise<AiResult<{ onix: string, marc: string }>> {
+    const seed = knownMetadata
+        ? `\n    EXISTING METADATA (declared in the EPUB package; keep these values and only add what is missing from the text):\n${knownMetadata}`
+        : '';
+    return mapReduceObject<{ onix: string, marc: string }>(text, 15000, options, modelName, BOOK_METADATA_EXTRACTION_SCHEMA, 'metadata', pinPrompt('bookMetadataExtraction', { knownMetadata: seed }));
 }
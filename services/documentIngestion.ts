@@ -0,0 +1,94 @@
+
+import { DocumentFormat, DocumentModel } from '../types';
+import { assembleDocument } from './documentModel';
+import { ingestDocx } from './docxIngestion';
+import { ingestEpub } from './epubIngestion';
+import { ingestJats } from './jatsIngestion';
+import { ingestLatex } from './latexIngestion';
+import { LOW_OCR_CONFIDENCE } from './ocrEngine';
+import { extractPdfText } from './pdfWorkerClient';
+
+// Single entry point for turning an uploaded file into a DocumentModel. Every tool that reads manuscript or rule text
+// goes through ingestDocument, so new formats and extraction fixes only need to land here.
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const EPUB_MIME = 'application/epub+zip';
+
+const FORMAT_LABELS: Record<DocumentFormat, string> = { pdf: 'PDF', docx: 'DOCX', epub: 'EPUB', latex: 'LaTeX (.tex or .zip)', jats: 'JATS XML' };
+
+// react-dropzone `accept` entries per format.
+export const DOCUMENT_ACCEPT: Record<DocumentFormat, Record<string, string[]>> = {
+    pdf: { 'application/pdf': ['.pdf'] },
+    docx: { [DOCX_MIME]: ['.docx'] },
+    epub: { [EPUB_MIME]: ['.epub'] },
+    latex: { 'application/zip': ['.zip'], 'application/x-zip-compressed': ['.zip'], 'application/x-tex': ['.tex'], 'text/x-tex': ['.tex'] },
+    jats: { 'application/xml': ['.xml'], 'text/xml': ['.xml', '.nxml'] },
+};
+
+export const acceptFor = (formats: DocumentFormat[]) => Object.assign({}, ...formats.map(format => DOCUMENT_ACCEPT[format]));
+// The same formats as the accept attribute of a file input.
+export const acceptAttribute = (formats: DocumentFormat[]) => Array.from(new Set(formats.flatMap(format => Object.entries(DOCUMENT_ACCEPT[format]).flatMap(([mime, extensions]) => [mime, ...extensions])))).join(',');
+
+export function detectFormat(file: File): DocumentFormat | null {
+    const name = file.name.toLowerCase();
+    if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+    if (file.type === DOCX_MIME || name.endsWith('.docx')) return 'docx';
+    if (file.type === EPUB_MIME || name.endsWith('.epub')) return 'epub';
+    if (name.endsWith('.tex') || name.endsWith('.zip')) return 'latex'; // A zip is read as a LaTeX source bundle
+    if (name.endsWith('.xml') || name.endsWith('.nxml')) return 'jats';
+    return null;
+}
+
+async function ingestPdf(file: File, arrayBuffer: ArrayBuffer): Promise<DocumentModel> {
+    const { pages, ocrConfidence } = await extractPdfText(arrayBuffer);
+    const model = assembleDocument(file.name, 'pdf', pages, false);
+    if (model.paragraphs.length + model.headings.length === 0) {
+        throw new Error(`No text could be extracted from ${file.name}, even with OCR. The file may be blank or its scans unreadable.`);
+    }
+    if (ocrConfidence.length > 0) {
+        ocrConfidence.forEach(([page, confidence]) => { model.pages[page - 1].ocrConfidence = confidence; });
+        const lowConfidence = ocrConfidence.filter(([, confidence]) => confidence < LOW_OCR_CONFIDENCE);
+        model.warnings = lowConfidence.map(([page, confidence]) => `Page ${page} has no text layer and OCR confidence is low (${confidence}%); quotes and findings from it may be inaccurate.`);
+    }
+    return model;
+}
+
+export async function ingestDocument(file: File, formats: DocumentFormat[] = ['pdf', 'docx']): Promise<DocumentModel> {
+    const format = detectFormat(file);
+    if (!format || !formats.includes(format)) {
+        throw new Error(`Unsupported file type: ${file.name}. Please upload a ${formats.map(f => FORMAT_LABELS[f]).join(' or ')} file.`);
+    }
+    const arrayBuffer = await file.arrayBuffer();
+    switch (format) {
+        case 'pdf':
+            return ingestPdf(file, arrayBuffer);
+        case 'docx':
+            return ingestDocx(file.name, arrayBuffer);
+        case 'epub':
+            return ingestEpub(file.name, arrayBuffer);
+        case 'latex':
+            return ingestLatex(file.name, arrayBuffer);
+        case 'jats':
+            return ingestJats(file.name, arrayBuffer);
+    }
+}
+
+export function describeDocument(model: DocumentModel): string {
+    const parts = [
+        `${model.pages.length} ${model.estimatedPages ? 'estimated ' : ''}page(s)`,
+        ...(model.chapters ? [`${model.chapters.length} chapter(s)`] : []),
+        `${model.paragraphs.length} paragraph(s)`,
+        `${model.headings.length} heading(s)`,
+    ];
+    if (model.toc && model.toc.length > 0) parts.push(`${model.toc.length} TOC entr${model.toc.length === 1 ? 'y' : 'ies'}`);
+    if (model.images && model.images.length > 0) parts.push(`${model.images.length} image(s)`);
+    if (model.references && model.references.length > 0) parts.push(`${model.references.length} bibliography entr${model.references.length === 1 ? 'y' : 'ies'}`);
+    const ocrPages = model.pages.filter(page => page.ocrConfidence !== undefined).length;
+    if (ocrPages > 0) parts.push(`${ocrPages} scanned page(s) read by OCR`);
+    if (model.tables.length > 0) parts.push(`${model.tables.length} table(s)`);
+    if (model.footnotes.length > 0) parts.push(`${model.footnotes.length} footnote(s)/endnote(s)`);
+    if (model.comments.length > 0) parts.push(`${model.comments.length} reviewer comment(s)`);
+    if (model.revisions.length > 0) parts.push(`${model.revisions.length} tracked change(s), read as accepted`);
+    return parts.join(', ');
+}
@@ -0,0 +1,174 @@
+
+import { DocumentFormat, DocumentMetadata, DocumentModel, DocumentParagraph, DocumentSpan } from '../types';
+
+// Builds DocumentModels from the per-format parsers in services/*Ingestion.ts, and maps text offsets back to
+// human-readable locations (section and paragraph) for findings.
+
+// A block of text on one page before offsets are assigned.
+export interface RawBlock {
+    kind: 'paragraph' | 'heading' | 'footnote' | 'table';
+    text: string;
+    level?: number; // Heading level
+    listLevel?: number;
+    label?: string; // Footnote marker
+    noteKind?: 'footnote' | 'endnote';
+    rows?: string[][]; // Table cells
+    comments?: { author: string, date?: string, text: string }[];
+    revisions?: { type: 'insertion' | 'deletion', author: string, date?: string, text: string }[];
+}
+
+export const WORDS_PER_ESTIMATED_PAGE = 300; // An average page has about 300 words
+
+export const emptyDocumentModel = (fileName: string, format: DocumentFormat, estimatedPages: boolean): DocumentModel => ({
+    fileName, format, text: '', pages: [], paragraphs: [], headings: [], footnotes: [], tables: [], comments: [], revisions: [], estimatedPages,
+});
+
+// Serializes pages of blocks into the [Page N]-marked text and records where every block landed. Paragraphs are
+// numbered within the section started by the nearest preceding heading.
+export function assembleDocument(fileName: string, format: DocumentFormat, pages: RawBlock[][], estimatedPages: boolean): DocumentModel {
+    const model = emptyDocumentModel(fileName, format, estimatedPages);
+    let text = '';
+    let section: string | undefined;
+    let paragraph = 0;
+    pages.forEach((blocks, index) => {
+        const page = index + 1;
+        const pageStart = text.length;
+        text += `[Page ${page}]\n`;
+        blocks.forEach(block => {
+            const span: DocumentSpan = { page, start: text.length, end: text.length + block.text.length };
+            text += `${block.text}\n`;
+            switch (block.kind) {
+                case 'heading':
+                    model.headings.push({ ...span, text: block.text, section, level: block.level || 1 });
+                    section = block.text;
+                    paragraph = 0;
+                    break;
+                case 'footnote':
+                    model.footnotes.push({ ...span, text: block.text, label: block.label || '', kind: block.noteKind });
+                    break;
+                case 'table':
+                    model.tables.push({ ...span, rows: block.rows || [], section });
+                    break;
+                default: {
+                    const entry: DocumentParagraph = { ...span, text: block.text, section, paragraph: ++paragraph };
+                    if (block.listLevel !== undefined) entry.listLevel = block.listLevel;
+                    model.paragraphs.push(entry);
+                }
+            }
+            block.comments?.forEach(comment => model.comments.push({ ...span, ...comment }));
+            block.revisions?.forEach(revision => model.revisions.push({ ...span, ...revision }));
+        });
+        text += '\n';
+        model.pages.push({ page, start: pageStart, end: text.length });
+    });
+    model.text = text;
+    return model;
+}
+
+// Splits blocks into estimated pages for sources without page layout. Footnotes stay on the page of their paragraph.
+// Sources that mark some page breaks pass them as `breakBefore`; with `estimate` off only those breaks are used.
+export function paginateByWords(blocks: RawBlock[], { breakBefore, estimate = true }: { breakBefore?: (index: number) => boolean, estimate?: boolean } = {}): RawBlock[][] {
+    const pages: RawBlock[][] = [[]];
+    let words = 0;
+    blocks.forEach((block, index) => {
+        const pageFull = breakBefore?.(index) || (estimate && words >= WORDS_PER_ESTIMATED_PAGE && block.kind !== 'footnote');
+        if (pageFull && pages[pages.length - 1].length > 0) {
+            pages.push([]);
+            words = 0;
+        }
+        pages[pages.length - 1].push(block);
+        words += block.text.split(' ').length;
+    });
+    return pages.filter(page => page.length > 0);
+}
+
+// List and appendix numbering in letters: 1 is "a", 26 is "z", 27 is "aa".
+export const toLetters = (n: number) => {
+    let result = '';
+    for (let value = n; value > 0; value = Math.floor((value - 1) / 26)) result = String.fromCharCode(97 + ((value - 1) % 26)) + result;
+    return result;
+};
+
+// Title and author lines as a typeset article prints them, for sources where front matter is markup rather than text.
+export function frontMatterBlocks(metadata: DocumentMetadata): RawBlock[] {
+    const blocks: RawBlock[] = [];
+    if (metadata.title) blocks.push({ kind: 'heading', text: metadata.title, level: 1 });
+    metadata.creators.forEach(creator => blocks.push({
+        kind: 'paragraph',
+        text: [
+            creator.name,
+            creator.affiliations?.length ? `(${creator.affiliations.join('; ')})` : '',
+            creator.orcid ? `ORCID ${creator.orcid}` : '',
+            creator.email || '',
+            creator.corresponding ? '[corresponding author]' : '',
+        ].filter(Boolean).join(' '),
+    }));
+    return blocks;
+}
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+// Returns a function describing where a text offset falls, e.g. `"2.1 Participants", paragraph 3`.
+export function createLocator(model: DocumentModel): (offset: number) => string | undefined {
+    const spans: (DocumentSpan & { describe: () => string })[] = [
+        ...model.headings.map(h => ({ ...h, describe: () => `heading "${truncate(h.text, 60)}"` })),
+        ...model.paragraphs.map(p => ({ ...p, describe: () => `${p.section ? `"${truncate(p.section, 60)}"` : 'opening text'}, paragraph ${p.paragraph}` })),
+        ...model.tables.map(t => ({ ...t, describe: () => `table${t.section ? ` in "${truncate(t.section, 60)}"` : ''}` })),
+        ...model.footnotes.map(f => ({ ...f, describe: () => `${f.kind || 'footnote'} ${f.label}` })),
+    ].sort((a, b) => a.start - b.start);
+
+    return offset => {
+        // Binary search for the last span starting at or before the offset.
+        let low = 0;
+        let high = spans.length - 1;
+        let found = -1;
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            if (spans[mid].start <= offset) {
+                found = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return found >= 0 && offset <= spans[found].end ? spans[found].describe() : undefined;
+    };
+}
+
+// The table of contents and chapter boundaries a file declares for itself (EPUB), rendered for prompts. Empty for
+// formats without them, where the model has to infer structure from the text.
+export function describeBookStructure(model: DocumentModel): string {
+    if (!model.chapters || model.chapters.length === 0) return '';
+    const lines: string[] = [];
+    if (model.toc && model.toc.length > 0) {
+        lines.push('Table of contents:');
+        model.toc.forEach(entry => lines.push(`${'  '.repeat(entry.level - 1)}- ${entry.title}${entry.page ? ` (p. ${entry.page})` : ' (target not in the reading order)'}`));
+    } else {
+        lines.push('Table of contents: none declared.');
+    }
+    lines.push('Chapters in reading order:');
+    model.chapters.forEach((chapter, index) => {
+        const images = (model.images || []).filter(image => image.chapter === chapter.href).length;
+        const pages = chapter.start === chapter.end ? 'no text' : chapter.page === chapter.endPage ? `p. ${chapter.page}` : `pp. ${chapter.page}-${chapter.endPage}`;
+        lines.push(`${index + 1}. ${chapter.title} [${chapter.href}], ${pages}${images > 0 ? `, ${images} image(s)` : ''}`);
+    });
+    return lines.join('\n');
+}
+
+// Publication metadata declared in the file, rendered for prompts. Empty when the file declares none.
+export function describeDocumentMetadata(metadata?: DocumentMetadata): string {
+    if (!metadata) return '';
+    const lines: string[] = [];
+    const add = (label: string, value?: string) => { if (value) lines.push(`${label}: ${value}`); };
+    add('Title', metadata.title);
+    add('Series', metadata.series);
+    metadata.creators.forEach(creator => add(`Contributor${creator.role ? ` (${creator.role})` : ''}`, creator.fileAs ? `${creator.name} [sort as ${creator.fileAs}]` : creator.name));
+    add('Publisher', metadata.publisher);
+    add('Publication date', metadata.date);
+    add('Language', metadata.language);
+    metadata.identifiers.forEach(identifier => add(`Identifier${identifier.scheme ? ` (${identifier.scheme})` : ''}`, identifier.value));
+    add('Subjects', metadata.subjects.join('; '));
+    add('Rights', metadata.rights);
+    add('Description', metadata.description);
+    return lines.join('\n');
+}
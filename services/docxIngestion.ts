@@ -0,0 +1,292 @@
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { DocumentModel } from '../types';
+import { RawBlock, assembleDocument, paginateByWords, toLetters } from './documentModel';
+import { child, children, descendants, normalizeSpace } from './xml';
+
+// Reads a .docx package directly (WordprocessingML), keeping what raw-text extraction throws away: heading levels from
+// paragraph styles, numbered and bulleted lists, tables, footnotes and endnotes, reviewer comments and tracked changes.
+// Tracked changes are read as accepted: insertions stay in the text, deletions are only recorded on the model.
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+interface StyleInfo {
+    name: string;
+    basedOn?: string;
+    outlineLevel?: number;
+}
+
+interface NoteRef {
+    kind: 'footnote' | 'endnote';
+    id: string;
+    label: string;
+}
+
+interface ParagraphContent {
+    text: string;
+    breakBefore: boolean; // A page break (rendered by Word or explicit) occurred before any text in this paragraph
+    breakAfter: boolean;
+    commentIds: string[];
+    notes: NoteRef[];
+    revisions: NonNullable<RawBlock['revisions']>;
+}
+
+// A block plus where Word says a page starts.
+interface PlacedBlock {
+    block: RawBlock;
+    breakBefore: boolean;
+}
+
+const attr = (el: Element | null | undefined, name: string): string | null =>
+    el ? (el.getAttributeNS(W_NS, name) ?? el.getAttribute(`w:${name}`)) : null;
+
+const toRoman = (n: number) => {
+    const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+    let result = '';
+    for (const [value, numeral] of numerals) {
+        while (n >= value) { result += numeral; n -= value; }
+    }
+    return result;
+};
+
+function formatListNumber(n: number, format: string): string {
+    switch (format) {
+        case 'lowerLetter': return `${toLetters(n)}.`;
+        case 'upperLetter': return `${toLetters(n).toUpperCase()}.`;
+        case 'lowerRoman': return `${toRoman(n)}.`;
+        case 'upperRoman': return `${toRoman(n).toUpperCase()}.`;
+        case 'bullet': case 'none': return '-';
+        default: return `${n}.`;
+    }
+}
+
+export async function ingestDocx(fileName: string, arrayBuffer: ArrayBuffer): Promise<DocumentModel> {
+    const files = unzipSync(new Uint8Array(arrayBuffer));
+    const parser = new DOMParser();
+    const readXml = (path: string) => files[path] ? parser.parseFromString(strFromU8(files[path]), 'application/xml').documentElement : null;
+
+    const documentXml = readXml('word/document.xml');
+    const body = child(documentXml, 'body');
+    if (!body) throw new Error(`${fileName} is not a valid Word document (word/document.xml is missing).`);
+
+    // Paragraph styles, for heading levels.
+    const styles = new Map<string, StyleInfo>();
+    children(readXml('word/styles.xml'), 'style').forEach(style => {
+        const id = attr(style, 'styleId');
+        if (!id) return;
+        const outline = attr(child(child(style, 'pPr'), 'outlineLvl'), 'val');
+        styles.set(id, {
+            name: attr(child(style, 'name'), 'val') || id,
+            basedOn: attr(child(style, 'basedOn'), 'val') || undefined,
+            outlineLevel: outline !== null ? parseInt(outline, 10) : undefined,
+        });
+    });
+    const headingLevel = (styleId: string | null, paragraphOutline: string | null): number | undefined => {
+        if (paragraphOutline !== null && parseInt(paragraphOutline, 10) < 9) return parseInt(paragraphOutline, 10) + 1;
+        for (let id = styleId, depth = 0; id && depth < 10; depth++) {
+            const style = styles.get(id);
+            if (!style) break;
+            const named = style.name.match(/^heading\s*(\d)$/i);
+            if (named) return parseInt(named[1], 10);
+            if (/^title$/i.test(style.name)) return 1;
+            if (style.outlineLevel !== undefined && style.outlineLevel < 9) return style.outlineLevel + 1;
+            id = style.basedOn || null;
+        }
+        return undefined;
+    };
+
+    // List formats: numId -> level -> numFmt.
+    const numberingXml = readXml('word/numbering.xml');
+    const abstractFormats = new Map<string, Map<number, string>>();
+    children(numberingXml, 'abstractNum').forEach(abstract => {
+        const levels = new Map<number, string>();
+        children(abstract, 'lvl').forEach(lvl => levels.set(parseInt(attr(lvl, 'ilvl') || '0', 10), attr(child(lvl, 'numFmt'), 'val') || 'decimal'));
+        abstractFormats.set(attr(abstract, 'abstractNumId') || '', levels);
+    });
+    const listFormats = new Map<string, Map<number, string>>();
+    children(numberingXml, 'num').forEach(num => {
+        const levels = abstractFormats.get(attr(child(num, 'abstractNumId'), 'val') || '');
+        if (levels) listFormats.set(attr(num, 'numId') || '', levels);
+    });
+    const listCounters = new Map<string, number[]>();
+
+    // Notes and comments, keyed by id.
+    const readNotes = (path: string, tag: string) => {
+        const notes = new Map<string, string>();
+        children(readXml(path), tag).forEach(note => {
+            const type = attr(note, 'type');
+            if (type === 'separator' || type === 'continuationSeparator' || type === 'continuationNotice') return;
+            notes.set(attr(note, 'id') || '', normalizeSpace(children(note, 'p').map(p => readParagraph(p).text).join(' ')));
+        });
+        return notes;
+    };
+    const footnoteLabels = new Map<string, string>();
+    const endnoteLabels = new Map<string, string>();
+    const placedComments = new Set<string>();
+    let hasRenderedPages = false; // Word saves lastRenderedPageBreak markers after laying out the document
+
+    // Walks runs in document order. Deleted text is collected separately so it never reaches the analyzed text.
+    function readParagraph(paragraph: Element): ParagraphContent {
+        const content: ParagraphContent = { text: '', breakBefore: false, breakAfter: false, commentIds: [], notes: [], revisions: [] };
+        const markBreak = () => {
+            if (content.text.trim()) content.breakAfter = true; else content.breakBefore = true;
+        };
+        const walk = (el: Element, deleted: boolean): string => {
+            let collected = '';
+            for (const node of Array.from(el.children)) {
+                switch (node.localName) {
+                    case 'pPr': case 'rPr': case 'instrText': case 'drawing': case 'pict': case 'object':
+                        break;
+                    case 't':
+                        if (!deleted) content.text += node.textContent || '';
+                        collected += node.textContent || '';
+                        break;
+                    case 'delText':
+                        collected += node.textContent || '';
+                        break;
+                    case 'tab': case 'cr':
+                        if (!deleted) content.text += ' ';
+                        collected += ' ';
+                        break;
+                    case 'br':
+                        if (attr(node, 'type') === 'page') markBreak();
+                        else if (!deleted) content.text += ' ';
+                        break;
+                    case 'lastRenderedPageBreak':
+                        hasRenderedPages = true;
+                        markBreak();
+                        break;
+                    case 'ins': case 'moveTo':
+                    case 'del': case 'moveFrom': {
+                        const isDeletion = node.localName === 'del' || node.localName === 'moveFrom';
+                        const text = normalizeSpace(walk(node, deleted || isDeletion));
+                        if (text) content.revisions.push({ type: isDeletion ? 'deletion' : 'insertion', author: attr(node, 'author') || 'Unknown', date: attr(node, 'date') || undefined, text });
+                        collected += text;
+                        break;
+                    }
+                    case 'footnoteReference': case 'endnoteReference': {
+                        const kind = node.localName === 'footnoteReference' ? 'footnote' : 'endnote';
+                        const labels = kind === 'footnote' ? footnoteLabels : endnoteLabels;
+                        const id = attr(node, 'id') || '';
+                        if (!labels.has(id)) labels.set(id, kind === 'footnote' ? String(labels.size + 1) : toRoman(labels.size + 1));
+                        const label = labels.get(id)!;
+                        if (!deleted) content.text += `[${label}]`;
+                        content.notes.push({ kind, id, label });
+                        break;
+                    }
+                    case 'commentRangeStart': case 'commentReference': {
+                        const id = attr(node, 'id') || '';
+                        if (!placedComments.has(id)) { placedComments.add(id); content.commentIds.push(id); }
+                        break;
+                    }
+                    default:
+                        collected += walk(node, deleted);
+                }
+            }
+            return collected;
+        };
+        walk(paragraph, false);
+        content.text = normalizeSpace(content.text);
+        return content;
+    }
+
+    const footnotes = readNotes('word/footnotes.xml', 'footnote');
+    const endnotes = readNotes('word/endnotes.xml', 'endnote');
+    const comments = new Map<string, { author: string, date?: string, text: string }>();
+    children(readXml('word/comments.xml'), 'comment').forEach(comment => {
+        comments.set(attr(comment, 'id') || '', {
+            author: attr(comment, 'author') || 'Unknown',
+            date: attr(comment, 'date') || undefined,
+            text: normalizeSpace(children(comment, 'p').map(p => readParagraph(p).text).join(' ')),
+        });
+    });
+    // Comment ids seen while reading comments.xml itself must not count as placed.
+    placedComments.clear();
+
+    const placed: PlacedBlock[] = [];
+    let pendingBreak = false;
+    let pendingComments: string[] = [];
+    let pendingRevisions: ParagraphContent['revisions'] = [];
+    const place = (block: RawBlock, content: Pick<ParagraphContent, 'breakBefore' | 'breakAfter' | 'commentIds' | 'notes' | 'revisions'>) => {
+        const commentIds = [...pendingComments, ...content.commentIds];
+        const revisions = [...pendingRevisions, ...content.revisions];
+        if (!block.text) {
+            // Keep breaks and annotations of empty paragraphs for the next block with text.
+            pendingBreak = pendingBreak || content.breakBefore || content.breakAfter;
+            pendingComments = commentIds;
+            pendingRevisions = revisions;
+            return;
+        }
+        block.comments = commentIds.map(id => comments.get(id)).filter((c): c is NonNullable<typeof c> => !!c);
+        block.revisions = revisions;
+        placed.push({ block, breakBefore: pendingBreak || content.breakBefore });
+        pendingBreak = content.breakAfter;
+        pendingComments = [];
+        pendingRevisions = [];
+        content.notes.filter(note => note.kind === 'footnote').forEach(note => {
+            const text = footnotes.get(note.id);
+            if (text) placed.push({ block: { kind: 'footnote', text: `[${note.label}] ${text}`, label: note.label, noteKind: 'footnote' }, breakBefore: false });
+        });
+    };
+
+    const readTable = (table: Element): { block: RawBlock, content: ParagraphContent } => {
+        const merged: ParagraphContent = { text: '', breakBefore: false, breakAfter: false, commentIds: [], notes: [], revisions: [] };
+        const rows = children(table, 'tr').map(row => children(row, 'tc').map(cell => {
+            const cellText = descendants(cell, 'p').map(p => {
+                const content = readParagraph(p);
+                merged.commentIds.push(...content.commentIds);
+                merged.notes.push(...content.notes);
+                merged.revisions.push(...content.revisions);
+                merged.breakBefore = merged.breakBefore || (!merged.text && content.breakBefore);
+                merged.text += content.text;
+                return content.text;
+            }).filter(Boolean).join(' ');
+            return cellText;
+        }));
+        const text = rows.filter(cells => cells.some(Boolean)).map(cells => `| ${cells.join(' | ')} |`).join('\n');
+        return { block: { kind: 'table', text, rows }, content: merged };
+    };
+
+    const readBodyElements = (parent: Element) => {
+        for (const el of Array.from(parent.children)) {
+            if (el.localName === 'sdt') {
+                const sdtContent = child(el, 'sdtContent');
+                if (sdtContent) readBodyElements(sdtContent);
+            } else if (el.localName === 'tbl') {
+                const { block, content } = readTable(el);
+                place(block, content);
+            } else if (el.localName === 'p') {
+                const pPr = child(el, 'pPr');
+                const content = readParagraph(el);
+                const level = headingLevel(attr(child(pPr, 'pStyle'), 'val'), attr(child(pPr, 'outlineLvl'), 'val'));
+                const numPr = child(pPr, 'numPr');
+                const numId = attr(child(numPr, 'numId'), 'val');
+                if (level !== undefined) {
+                    place({ kind: 'heading', text: content.text, level }, content);
+                } else if (numId && numId !== '0' && content.text) {
+                    const listLevel = parseInt(attr(child(numPr, 'ilvl'), 'val') || '0', 10);
+                    const counters = listCounters.get(numId) || [];
+                    counters[listLevel] = (counters[listLevel] || 0) + 1;
+                    counters.length = listLevel + 1; // Restart deeper levels
+                    listCounters.set(numId, counters);
+                    const marker = formatListNumber(counters[listLevel], listFormats.get(numId)?.get(listLevel) || 'decimal');
+                    place({ kind: 'paragraph', text: `${'  '.repeat(listLevel)}${marker} ${content.text}`, listLevel }, content);
+                } else {
+                    place({ kind: 'paragraph', text: content.text }, content);
+                }
+            }
+        }
+    };
+    readBodyElements(body);
+
+    const endnoteBlocks: RawBlock[] = Array.from(endnoteLabels.entries())
+        .map(([id, label]) => ({ id, label, text: endnotes.get(id) }))
+        .filter(note => note.text)
+        .map(note => ({ kind: 'footnote', text: `[${note.label}] ${note.text}`, label: note.label, noteKind: 'endnote' }));
+
+    // Use Word's own page breaks when the file has them; otherwise estimate by word count, still honouring explicit breaks.
+    // Endnotes are footnote blocks, so they stay on the last page.
+    const pages = paginateByWords([...placed.map(({ block }) => block), ...endnoteBlocks], { breakBefore: index => !!placed[index]?.breakBefore, estimate: !hasRenderedPages });
+
+    return assembleDocument(fileName, 'docx', pages, !hasRenderedPages);
+}
@@ -0,0 +1,319 @@
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { DocumentCreator, DocumentImage, DocumentMetadata, DocumentModel, DocumentTocEntry } from '../types';
+import { RawBlock, assembleDocument, paginateByWords } from './documentModel';
+import { child, children, descendants, normalizeSpace } from './xml';
+
+// Reads an EPUB 2/3 package: publication metadata from the OPF, reading order from the spine, the table of contents from
+// the EPUB 3 navigation document (or the EPUB 2 NCX), and the XHTML chapters themselves. EPUBs have no fixed pages, so
+// every chapter starts a new estimated page and long chapters are split by word count.
+
+const EPUB_NS = 'http://www.idpf.org/2007/ops';
+const OPF_NS = 'http://www.idpf.org/2007/opf';
+
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer',
+    'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+]);
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'template']);
+const NOTE_TYPES = ['footnote', 'endnote', 'rearnote', 'note'];
+
+interface ManifestItem {
+    href: string; // Path inside the zip
+    mediaType: string;
+    properties: string[];
+}
+
+const epubType = (el: Element) => (el.getAttributeNS(EPUB_NS, 'type') ?? el.getAttribute('epub:type') ?? '').split(/\s+/).filter(Boolean);
+
+const opfAttr = (el: Element, name: string) => el.getAttributeNS(OPF_NS, name) ?? el.getAttribute(`opf:${name}`);
+
+const stripFragment = (href: string) => href.split('#')[0];
+
+// Resolves an href found in `base` (a path inside the zip) to a zip path.
+function resolvePath(base: string, href: string): string {
+    let decoded = stripFragment(href);
+    try {
+        decoded = decodeURIComponent(decoded);
+    } catch {
+        // Keep malformed escapes as written
+    }
+    const parts = decoded.startsWith('/') ? [] : base.split('/').slice(0, -1);
+    decoded.split('/').forEach(part => {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(part);
+    });
+    return parts.join('/');
+}
+
+function readMetadata(metadata: Element | undefined): DocumentMetadata {
+    const result: DocumentMetadata = { creators: [], identifiers: [], subjects: [] };
+    if (!metadata) return result;
+
+    // EPUB 3 attaches roles, sort names and identifier types with <meta refines="#id">.
+    const refinements = new Map<string, Map<string, string>>();
+    children(metadata, 'meta').forEach(meta => {
+        const refines = meta.getAttribute('refines');
+        const property = meta.getAttribute('property');
+        if (!refines || !property) return;
+        const id = refines.replace(/^#/, '');
+        if (!refinements.has(id)) refinements.set(id, new Map());
+        refinements.get(id)!.set(property, normalizeSpace(meta.textContent || ''));
+    });
+    const refined = (el: Element, property: string) => refinements.get(el.getAttribute('id') || '')?.get(property);
+    const text = (el: Element) => normalizeSpace(el.textContent || '');
+    const first = (name: string) => {
+        const el = children(metadata, name).find(el => text(el));
+        return el ? text(el) : undefined;
+    };
+
+    result.title = first('title');
+    result.publisher = first('publisher');
+    result.date = first('date');
+    result.language = first('language');
+    result.description = first('description');
+    result.rights = first('rights');
+    ['creator', 'contributor'].forEach(name => children(metadata, name).forEach(el => {
+        if (!text(el)) return;
+        const creator: DocumentCreator = { name: text(el) };
+        const role = refined(el, 'role') || opfAttr(el, 'role') || (name === 'creator' ? undefined : 'ctb');
+        const fileAs = refined(el, 'file-as') || opfAttr(el, 'file-as');
+        if (role) creator.role = role;
+        if (fileAs) creator.fileAs = fileAs;
+        result.creators.push(creator);
+    }));
+    children(metadata, 'identifier').forEach(el => {
+        const value = text(el);
+        if (!value) return;
+        const scheme = refined(el, 'identifier-type') || opfAttr(el, 'scheme') || value.match(/^urn:(isbn|issn|doi|uuid):/i)?.[1].toUpperCase();
+        result.identifiers.push(scheme ? { value: value.replace(/^urn:(isbn|issn|doi|uuid):/i, ''), scheme } : { value });
+    });
+    children(metadata, 'subject').forEach(el => { if (text(el)) result.subjects.push(text(el)); });
+
+    const collection = children(metadata, 'meta').find(meta => meta.getAttribute('property') === 'belongs-to-collection' && !meta.getAttribute('refines'));
+    const calibreSeries = children(metadata, 'meta').find(meta => meta.getAttribute('name') === 'calibre:series');
+    result.series = collection ? text(collection) : calibreSeries?.getAttribute('content') || undefined;
+    return result;
+}
+
+// EPUB 3 navigation document: <nav epub:type="toc"> containing nested <ol> lists.
+function readNavToc(nav: Document, navPath: string): DocumentTocEntry[] {
+    const navs = descendants(nav.documentElement, 'nav');
+    const tocNav = navs.find(el => epubType(el).includes('toc')) || navs[0];
+    const entries: DocumentTocEntry[] = [];
+    const walkList = (list: Element | undefined, level: number) => {
+        children(list, 'li').forEach(item => {
+            const label = child(item, 'a') || child(item, 'span');
+            const title = normalizeSpace(label?.textContent || '');
+            const href = label?.getAttribute('href');
+            if (title) entries.push({ title, level, href: href ? resolvePath(navPath, href) : '' });
+            walkList(child(item, 'ol'), level + 1);
+        });
+    };
+    walkList(child(tocNav, 'ol'), 1);
+    return entries;
+}
+
+// EPUB 2 NCX: nested <navPoint> elements under <navMap>.
+function readNcxToc(ncx: Element, ncxPath: string): DocumentTocEntry[] {
+    const entries: DocumentTocEntry[] = [];
+    const walk = (parent: Element | undefined, level: number) => {
+        children(parent, 'navPoint').forEach(point => {
+            const title = normalizeSpace(child(child(point, 'navLabel'), 'text')?.textContent || '');
+            const src = child(point, 'content')?.getAttribute('src');
+            if (title) entries.push({ title, level, href: src ? resolvePath(ncxPath, src) : '' });
+            walk(point, level + 1);
+        });
+    };
+    walk(child(ncx, 'navMap'), 1);
+    return entries;
+}
+
+interface ChapterContent {
+    blocks: RawBlock[];
+    images: { src: string, alt?: string, blockIndex: number, section?: string }[];
+}
+
+// Flattens one XHTML chapter into blocks. Inline runs between block-level elements become paragraphs, so loose text in a
+// <div> or <section> is not lost.
+function readChapter(doc: Document, chapterPath: string, section: string | undefined): ChapterContent {
+    const content: ChapterContent = { blocks: [], images: [] };
+    const push = (block: RawBlock) => { if (block.text) content.blocks.push(block); };
+    const addImage = (el: Element) => {
+        const src = el.getAttribute('src') || el.getAttribute('href') || el.getAttribute('xlink:href') || el.getAttributeNS('http://www.w3.org/1999/xlink', 'href');
+        if (!src) return;
+        const alt = el.getAttribute('alt') ?? undefined;
+        content.images.push({ src: resolvePath(chapterPath, src), ...(alt !== undefined ? { alt } : {}), blockIndex: content.blocks.length, section });
+    };
+
+    const inlineText = (node: Node): string => {
+        if (node.nodeType === 3) return node.textContent || '';
+        if (node.nodeType !== 1) return '';
+        const el = node as Element;
+        if (SKIPPED_TAGS.has(el.localName)) return '';
+        if (el.localName === 'img' || el.localName === 'image') {
+            addImage(el);
+            return '';
+        }
+        if (el.localName === 'br') return ' ';
+        return Array.from(el.childNodes).map(inlineText).join('');
+    };
+
+    const hasBlockChild = (el: Element) => Array.from(el.children).some(c => BLOCK_TAGS.has(c.localName) || descendants(c, 'p').length > 0);
+
+    const walk = (el: Element, listLevel: number | undefined, marker?: string) => {
+        const name = el.localName;
+        if (SKIPPED_TAGS.has(name)) return;
+        const types = epubType(el);
+        if (types.includes('pagebreak') || el.getAttribute('role') === 'doc-pagebreak') return;
+
+        const heading = name.match(/^h([1-6])$/);
+        if (heading) {
+            const text = normalizeSpace(inlineText(el));
+            push({ kind: 'heading', text, level: parseInt(heading[1], 10) });
+            if (text) section = text;
+            return;
+        }
+        if (name === 'table') {
+            const rows = descendants(el, 'tr').map(row => Array.from(row.children)
+                .filter(cell => cell.localName === 'td' || cell.localName === 'th')
+                .map(cell => normalizeSpace(inlineText(cell))));
+            descendants(el, 'caption').forEach(caption => push({ kind: 'paragraph', text: normalizeSpace(inlineText(caption)) }));
+            push({ kind: 'table', text: rows.map(cells => `| ${cells.join(' | ')} |`).join('\n'), rows });
+            return;
+        }
+        if (NOTE_TYPES.some(type => types.includes(type))) {
+            const text = normalizeSpace(inlineText(el));
+            const label = text.match(/^\[?(\d{1,3}|[*†‡§]|[ivxlc]+)[\].)]?\s/i)?.[1] || el.getAttribute('id') || '';
+            push({ kind: 'footnote', text, label, noteKind: types.includes('footnote') ? 'footnote' : 'endnote' });
+            return;
+        }
+        if (name === 'ul' || name === 'ol') {
+            let counter = parseInt(el.getAttribute('start') || '1', 10);
+            children(el, 'li').forEach(item => walk(item, listLevel === undefined ? 0 : listLevel + 1, name === 'ol' ? `${counter++}.` : '-'));
+            return;
+        }
+
+        const prefix = (text: string) => name === 'li' && listLevel !== undefined ? `${'  '.repeat(listLevel)}${marker} ${text}` : text;
+        const listFields = name === 'li' && listLevel !== undefined ? { listLevel } : {};
+        if (!hasBlockChild(el)) {
+            push({ kind: 'paragraph', text: prefix(normalizeSpace(inlineText(el))), ...listFields });
+            return;
+        }
+
+        // Mixed content: flush inline runs around nested blocks.
+        let run = '';
+        let first = true;
+        const flush = () => {
+            const text = normalizeSpace(run);
+            if (text) {
+                push({ kind: 'paragraph', text: first ? prefix(text) : text, ...(first ? listFields : {}) });
+                first = false;
+            }
+            run = '';
+        };
+        Array.from(el.childNodes).forEach(node => {
+            const element = node.nodeType === 1 ? node as Element : null;
+            if (element && (BLOCK_TAGS.has(element.localName) || descendants(element, 'p').length > 0)) {
+                flush();
+                walk(element, name === 'li' ? listLevel : undefined);
+            } else {
+                run += inlineText(node);
+            }
+        });
+        flush();
+    };
+
+    const body = child(doc.documentElement, 'body') || doc.documentElement;
+    walk(body, undefined);
+    return content;
+}
+
+export async function ingestEpub(fileName: string, arrayBuffer: ArrayBuffer): Promise<DocumentModel> {
+    const files = unzipSync(new Uint8Array(arrayBuffer));
+    const parser = new DOMParser();
+    const readXml = (path: string) => files[path] ? parser.parseFromString(strFromU8(files[path]), 'application/xml').documentElement : null;
+    const readXhtml = (path: string): Document | null => {
+        if (!files[path]) return null;
+        const source = strFromU8(files[path]);
+        const doc = parser.parseFromString(source, 'application/xhtml+xml');
+        // Fall back to the forgiving HTML parser for chapters that are not well-formed XML.
+        return doc.getElementsByTagName('parsererror').length > 0 ? parser.parseFromString(source, 'text/html') : doc;
+    };
+
+    const rootfile = descendants(readXml('META-INF/container.xml') || parser.parseFromString('<x/>', 'application/xml').documentElement, 'rootfile')[0];
+    const opfPath = rootfile?.getAttribute('full-path');
+    const opf = opfPath ? readXml(opfPath) : null;
+    if (!opfPath || !opf) throw new Error(`${fileName} is not a valid EPUB (the package document is missing).`);
+
+    const manifest = new Map<string, ManifestItem>();
+    children(child(opf, 'manifest'), 'item').forEach(item => {
+        const id = item.getAttribute('id');
+        const href = item.getAttribute('href');
+        if (!id || !href) return;
+        manifest.set(id, {
+            href: resolvePath(opfPath, href),
+            mediaType: item.getAttribute('media-type') || '',
+            properties: (item.getAttribute('properties') || '').split(/\s+/).filter(Boolean),
+        });
+    });
+
+    const spine = child(opf, 'spine');
+    const spineItems = children(spine, 'itemref')
+        .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+        .filter((item): item is ManifestItem => !!item && /html|xml/.test(item.mediaType));
+
+    const navItem = Array.from(manifest.values()).find(item => item.properties.includes('nav'));
+    const navDoc = navItem ? readXhtml(navItem.href) : null;
+    const ncxItem = manifest.get(spine?.getAttribute('toc') || '') || Array.from(manifest.values()).find(item => item.mediaType === 'application/x-dtbncx+xml');
+    const ncx = ncxItem ? readXml(ncxItem.href) : null;
+    let toc = navDoc && navItem ? readNavToc(navDoc, navItem.href) : [];
+    if (toc.length === 0 && ncx && ncxItem) toc = readNcxToc(ncx, ncxItem.href);
+
+    // Every spine item starts a new page; long chapters are split by word count. Chapters without text (e.g. an
+    // image-only cover) get no page of their own and point at the page that follows.
+    const pages: RawBlock[][] = [];
+    const chapterPages: { href: string, title: string, startPage: number, endPage: number, empty: boolean }[] = [];
+    const imagePlacements: { image: Omit<DocumentImage, 'page'>, page: number }[] = [];
+    let section: string | undefined;
+    spineItems.forEach(item => {
+        const doc = readXhtml(item.href);
+        if (!doc) return;
+        const { blocks, images } = readChapter(doc, item.href, section);
+        const startPage = pages.length + 1;
+        const blockPages: number[] = [];
+        paginateByWords(blocks).forEach(page => {
+            pages.push(page);
+            page.forEach(() => blockPages.push(pages.length));
+        });
+        blocks.forEach(block => { if (block.kind === 'heading') section = block.text; });
+        images.forEach(({ blockIndex, ...image }) => imagePlacements.push({ image: { ...image, chapter: item.href }, page: blockPages[blockIndex] ?? blockPages[blockPages.length - 1] ?? startPage }));
+        const firstHeading = blocks.find(block => block.kind === 'heading')?.text;
+        const title = toc.find(entry => entry.href === item.href)?.title || firstHeading || item.href.split('/').pop() || item.href;
+        chapterPages.push({ href: item.href, title, startPage, endPage: blocks.length > 0 ? pages.length : startPage, empty: blocks.length === 0 });
+    });
+
+    const model = assembleDocument(fileName, 'epub', pages, true);
+    const lastPage = Math.max(model.pages.length, 1);
+    const clampPage = (page: number) => Math.min(page, lastPage);
+
+    model.metadata = readMetadata(child(opf, 'metadata'));
+    model.chapters = chapterPages.map(chapter => {
+        const page = clampPage(chapter.startPage);
+        const endPage = clampPage(chapter.endPage);
+        return {
+            title: chapter.title,
+            href: chapter.href,
+            page,
+            endPage,
+            start: model.pages[page - 1]?.start ?? 0,
+            end: chapter.empty ? model.pages[page - 1]?.start ?? 0 : model.pages[endPage - 1]?.end ?? model.text.length, // Empty span for chapters without text
+        };
+    });
+    model.toc = toc.map(entry => {
+        const chapter = model.chapters!.find(chapter => chapter.href === entry.href);
+        return chapter ? { ...entry, page: chapter.page } : entry;
+    });
+    model.images = imagePlacements.map(({ image, page }) => ({ ...image, page: clampPage(page) }));
+    return model;
+}
@@ -0,0 +1,97 @@
+import {
+    BookEditorialIssue, BookMetadataIssue, BookStructuralIssue, CitationFinding, ComplianceFinding, ComplianceItem, FindingTriage, IntegrityIssue,
+    ManuscriptFile, ManuscriptIssue, ReadabilityIssue, TriageStatus, VisualAssetIssue
+} from '../types';
+import { ComparableFinding, matchFindings } from './versionDiff';
+
+// Editors triage findings: accept and hand them to the author, dismiss false positives, or mark them resolved.
+// Findings have no ids, so triage is keyed by what identifies a finding in its report: the rule or category and the
+// quoted text. A re-run served from the cache gives the same keys; when the model words a finding differently, the
+// triage follows the finding it most likely is.
+
+export const TRIAGE_LABELS: Record<TriageStatus, string> = {
+    open: 'Open',
+    accepted: 'Accepted',
+    dismissed: 'Dismissed (false positive)',
+    resolved: 'Resolved',
+};
+
+// Which findings a report view or export shows; "active" hides dismissed findings and is the default.
+export type TriageFilter = 'all' | 'active' | TriageStatus;
+
+export const TRIAGE_FILTERS: { id: TriageFilter, label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'active', label: 'Not dismissed' },
+    ...(Object.keys(TRIAGE_LABELS) as TriageStatus[]).map(id => ({ id, label: TRIAGE_LABELS[id] })),
+];
+
+const normalize = (text = '') => text.toLowerCase().replace(/\s+/g, ' ').trim().slice(0, 160);
+const keyOf = (...parts: (string | undefined)[]) => parts.map(normalize).join('|');
+
+export const TRIAGE_KEYS = {
+    compliance: (f: ComplianceFinding) => keyOf('compliance', f.ruleId || f.checkCategory, f.manuscriptQuote || f.summary),
+    analysis: (i: ManuscriptIssue) => keyOf('analysis', i.issueCategory, i.quote || i.summary),
+    integrity: (i: IntegrityIssue) => keyOf('integrity', i.category, i.snippet || i.finding),
+    references: (f: CitationFinding) => keyOf('references', f.type, f.quote, f.summary),
+    structure: (i: BookStructuralIssue) => keyOf('structure', i.issueCategory, i.location, i.summary),
+    readability: (i: ReadabilityIssue) => keyOf('readability', i.issueCategory, i.location, i.quote || i.summary),
+    bookMetadata: (i: BookMetadataIssue) => keyOf('bookMetadata', i.category, i.summary),
+    visuals: (i: VisualAssetIssue) => keyOf('visuals', i.category, i.location, i.description),
+    bookEditorial: (i: BookEditorialIssue) => keyOf('bookEditorial', i.category, i.quote),
+};
+
+export const checklistTriageKey = (guidelineId: string) => (item: ComplianceItem) => keyOf('checklist', guidelineId, item.itemId || item.checklistItem);
+
+export const triageStatusOf = (triage: ManuscriptFile['triage'], key: string): TriageStatus => triage?.[key]?.status ?? 'open';
+
+export const matchesTriageFilter = (filter: TriageFilter, status: TriageStatus) => filter === 'all' || (filter === 'active' ? status !== 'dismissed' : status === filter);
+
+// Every finding of a manuscript that can be triaged, with its key.
+export function triageableFindings(m: ManuscriptFile): { key: string, finding: ComparableFinding }[] {
+    return [
+        ...(m.complianceReport || []).map(f => ({ key: TRIAGE_KEYS.compliance(f), finding: { report: 'Compliance', category: f.checkCategory, key: f.ruleId, text: f.summary, severity: f.status } })),
+        ...(m.analysisReport || []).map(i => ({ key: TRIAGE_KEYS.analysis(i), finding: { report: 'Manuscript Analysis', category: i.issueCategory, text: i.summary, severity: i.priority } })),
+        ...(m.integrityReport || []).map(i => ({ key: TRIAGE_KEYS.integrity(i), finding: { report: 'Integrity', category: i.category, text: i.finding, severity: i.status } })),
+        ...(m.referenceReport?.findings || []).map(f => ({ key: TRIAGE_KEYS.references(f), finding: { report: 'References', category: f.type, key: f.quote, text: f.summary, severity: 'warn' } })),
+        ...(m.reportingChecklists || []).flatMap(c => c.items.map(i => ({ key: checklistTriageKey(c.guidelineId)(i), finding: { report: `${c.guidelineId} Checklist`, category: 'Item', key: i.itemId || i.checklistItem, text: i.checklistItem, severity: i.status } }))),
+        ...(m.structuralReport || []).map(i => ({ key: TRIAGE_KEYS.structure(i), finding: { report: 'Structure', category: i.issueCategory, text: i.summary, severity: i.priority } })),
+        ...(m.readabilityReport || []).map(i => ({ key: TRIAGE_KEYS.readability(i), finding: { report: 'Readability', category: i.issueCategory, text: i.summary, severity: i.priority } })),
+        ...(m.bookMetadataReport || []).map(i => ({ key: TRIAGE_KEYS.bookMetadata(i), finding: { report: 'Metadata & TOC', category: i.category, text: i.summary, severity: i.status } })),
+        ...(m.visualAssetReport || []).map(i => ({ key: TRIAGE_KEYS.visuals(i), finding: { report: 'Visual Assets', category: i.category, text: i.description, severity: i.status } })),
+        ...(m.bookEditorialReport || []).map(i => ({ key: TRIAGE_KEYS.bookEditorial(i), finding: { report: 'Editorial', category: i.category, text: `${i.quote} ${i.suggestion}`, severity: i.severity } })),
+    ];
+}
+
+export function countTriage(triage: ManuscriptFile['triage'], keys: string[]): Record<TriageFilter, number> {
+    const statuses = keys.map(key => triageStatusOf(triage, key));
+    return Object.fromEntries(TRIAGE_FILTERS.map(({ id }) => [id, statuses.filter(status => matchesTriageFilter(id, status)).length])) as Record<TriageFilter, number>;
+}
+
+// The triage of a manuscript after a run replaced some of its reports. Entries whose finding is gone are kept, so a
+// finding that comes back later is still triaged.
+export function carryOverTriage(previous: ManuscriptFile, updated: ManuscriptFile): Record<string, FindingTriage> | undefined {
+    if (!previous.triage) return undefined;
+    const current = triageableFindings(updated);
+    const currentKeys = new Set(current.map(f => f.key));
+    const lost = triageableFindings(previous).filter(f => previous.triage![f.key] && !currentKeys.has(f.key));
+    if (lost.length === 0) return previous.triage;
+    const triage = { ...previous.triage };
+    const untriaged = current.filter(f => !triage[f.key]);
+    matchFindings(lost.map(f => f.finding), untriaged.map(f => f.finding)).forEach((lostIndex, index) => {
+        triage[untriaged[index].key] = triage[lost[lostIndex].key];
+    });
+    return triage;
+}
+
+// The note exports carry when they leave findings out, or '' when they show every finding.
+export function describeTriageFilter(filter: TriageFilter): string {
+    if (filter === 'all') return '';
+    if (filter === 'active') return 'Findings dismissed as false positives are excluded';
+    return `Only findings triaged as ${TRIAGE_LABELS[filter].toLowerCase()} are included`;
+}
+
+export function describeTriage(triage: FindingTriage | undefined): string {
+    if (!triage) return TRIAGE_LABELS.open;
+    const by = [triage.updatedBy, new Date(triage.updatedAt).toLocaleString()].filter(Boolean).join(', ');
+    return `${TRIAGE_LABELS[triage.status]}${triage.assignee ? `, assigned to ${triage.assignee}` : ''}${triage.note ? `: ${triage.note}` : ''} (${by})`;
+}
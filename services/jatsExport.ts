@@ -0,0 +1,173 @@
+
+import { DocumentCreator, ManuscriptFile } from '../types';
+import { escapeXml, removeInvalidXmlChars } from './xml';
+
+// Builds a JATS <front> block (JATS 1.3 article-meta) from the metadata analysis so production can drop it into the
+// article XML. Front matter declared in the uploaded file itself (LaTeX, JATS) supplies the title, authors, affiliations,
+// abstract and author keywords; the analysis adds the section type, taxonomy, generated keywords, funding, validated
+// ORCIDs and the corresponding author. ORCIDs the analysis flagged as invalid are kept only as XML comments.
+
+// Comments may not contain "--".
+const escapeComment = (value: string) => removeInvalidXmlChars(value).replace(/-{2,}/g, '-');
+
+const normalizeName = (name: string) => name.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z]/g, '');
+
+const ORCID_PATTERN = /(\d{4}-\d{4}-\d{4}-\d{3}[\dX])/i;
+
+// Splits a display name into JATS surname/given-names; "Surname, Given" and particles like "van der" are respected.
+function nameElement(name: string): string {
+    const trimmed = name.trim();
+    if (trimmed.includes(',')) {
+        const [surname, given] = trimmed.split(',', 2).map(part => part.trim());
+        return `<name><surname>${escapeXml(surname)}</surname>${given ? `<given-names>${escapeXml(given)}</given-names>` : ''}</name>`;
+    }
+    const words = trimmed.split(/\s+/);
+    if (words.length === 1) return `<name><surname>${escapeXml(trimmed)}</surname></name>`;
+    let surnameStart = words.length - 1;
+    while (surnameStart > 1 && /^(van|von|der|den|de|del|della|di|da|du|la|le|bin|ibn|al|el|ter|ten|dos|das)$/i.test(words[surnameStart - 1])) surnameStart--;
+    return `<name><surname>${escapeXml(words.slice(surnameStart).join(' '))}</surname><given-names>${escapeXml(words.slice(0, surnameStart).join(' '))}</given-names></name>`;
+}
+
+interface ExportContributor {
+    name: string;
+    orcid?: { value: string, isValid: boolean };
+    affiliations: string[];
+    email?: string;
+    corresponding: boolean;
+}
+
+function collectContributors(manuscript: ManuscriptFile): ExportContributor[] {
+    const report = manuscript.metadataAnalysisReport;
+    const declared: DocumentCreator[] = (manuscript.documentMetadata?.creators || []).filter(c => !c.role || c.role === 'aut');
+    const contributors: ExportContributor[] = declared.map(c => ({
+        name: c.name,
+        orcid: c.orcid ? { value: c.orcid, isValid: true } : undefined,
+        affiliations: c.affiliations || [],
+        email: c.email,
+        corresponding: !!c.corresponding,
+    }));
+    const find = (name: string) => {
+        const key = normalizeName(name);
+        return contributors.find(c => normalizeName(c.name) === key);
+    };
+    const findOrAdd = (name: string) => {
+        const existing = find(name);
+        if (existing) return existing;
+        const added: ExportContributor = { name, affiliations: [], corresponding: false };
+        contributors.push(added);
+        return added;
+    };
+
+    // The analysis is authoritative for ORCID validity, including ORCIDs declared in the file. Its entry fields are optional
+    // in the schema, so any of them may be missing.
+    report?.orcidValidation.forEach(entry => {
+        if (!entry.authorName?.trim()) return;
+        const contributor = findOrAdd(entry.authorName);
+        const value = entry.orcid?.match(ORCID_PATTERN)?.[1].toUpperCase() || entry.orcid?.trim();
+        if (value) contributor.orcid = { value, isValid: entry.isValid && ORCID_PATTERN.test(value) };
+    });
+    const corresponding = report?.correspondingAuthor;
+    if (corresponding?.name?.trim()) {
+        const contributor = findOrAdd(corresponding.name);
+        contributor.corresponding = true;
+        if (corresponding.email) contributor.email = corresponding.email;
+        if (corresponding.affiliation && contributor.affiliations.length === 0) contributor.affiliations.push(corresponding.affiliation);
+    }
+    return contributors;
+}
+
+export function buildJatsFrontMatter(manuscript: ManuscriptFile): string {
+    const report = manuscript.metadataAnalysisReport;
+    const declared = manuscript.documentMetadata;
+    const contributors = collectContributors(manuscript);
+    const affiliationIds = new Map<string, string>();
+    contributors.forEach(c => c.affiliations.forEach(aff => { if (!affiliationIds.has(aff)) affiliationIds.set(aff, `aff${affiliationIds.size + 1}`); }));
+    const correspondingAuthors = contributors.filter(c => c.corresponding);
+
+    const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>', `<!-- JATS front matter generated from the metadata analysis of ${escapeComment(manuscript.name)} -->`, '<front>', '  <article-meta>'];
+    const push = (indent: number, text: string) => lines.push(`${'  '.repeat(indent)}${text}`);
+
+    declared?.identifiers.filter(id => id.scheme === 'DOI').forEach(id => push(2, `<article-id pub-id-type="doi">${escapeXml(id.value)}</article-id>`));
+
+    const taxonomy = report?.suggestedTaxonomy.filter(t => t.tags.length > 0) || [];
+    if (report?.predictedSectionType || taxonomy.length > 0) {
+        push(2, '<article-categories>');
+        if (report?.predictedSectionType) {
+            push(3, `<subj-group subj-group-type="heading"><subject>${escapeXml(report.predictedSectionType)}</subject></subj-group>`);
+        }
+        taxonomy.forEach(t => {
+            push(3, `<subj-group subj-group-type="${escapeXml(t.scheme)}">`);
+            t.tags.forEach(tag => push(4, `<subject>${escapeXml(tag)}</subject>`));
+            push(3, '</subj-group>');
+        });
+        push(2, '</article-categories>');
+    }
+
+    push(2, '<title-group>');
+    push(3, `<article-title>${escapeXml(declared?.title || manuscript.name.replace(/\.[^.]+$/, ''))}</article-title>`);
+    push(2, '</title-group>');
+
+    if (contributors.length > 0) {
+        push(2, '<contrib-group>');
+        contributors.forEach(c => {
+            push(3, `<contrib contrib-type="author"${c.corresponding ? ' corresp="yes"' : ''}>`);
+            if (c.orcid?.isValid) push(4, `<contrib-id contrib-id-type="orcid" authenticated="false">https://orcid.org/${escapeXml(c.orcid.value)}</contrib-id>`);
+            else if (c.orcid) push(4, `<!-- ORCID "${escapeComment(c.orcid.value)}" failed validation and was omitted -->`);
+            push(4, nameElement(c.name));
+            c.affiliations.forEach(aff => push(4, `<xref ref-type="aff" rid="${affiliationIds.get(aff)}"/>`));
+            if (c.corresponding && c.email) push(4, '<xref ref-type="corresp" rid="cor1"/>');
+            push(3, '</contrib>');
+        });
+        affiliationIds.forEach((id, aff) => push(3, `<aff id="${id}">${escapeXml(aff)}</aff>`));
+        push(2, '</contrib-group>');
+    }
+
+    const correspondingEmail = correspondingAuthors.find(c => c.email);
+    if (correspondingEmail) {
+        push(2, '<author-notes>');
+        push(3, `<corresp id="cor1">Correspondence: ${escapeXml(correspondingEmail.name)}, <email>${escapeXml(correspondingEmail.email!)}</email></corresp>`);
+        push(2, '</author-notes>');
+    } else if (report?.correspondingAuthor && !report.correspondingAuthor.isComplete) {
+        push(2, '<!-- Corresponding author details are incomplete in the manuscript -->');
+    }
+
+    const pubDate = declared?.date?.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+    if (pubDate) {
+        push(2, `<pub-date publication-format="electronic" date-type="pub">${pubDate[3] ? `<day>${pubDate[3]}</day>` : ''}${pubDate[2] ? `<month>${pubDate[2]}</month>` : ''}<year>${pubDate[1]}</year></pub-date>`);
+    }
+    if (declared?.rights) {
+        push(2, `<permissions><copyright-statement>${escapeXml(declared.rights)}</copyright-statement></permissions>`);
+    }
+    if (declared?.description) {
+        push(2, `<abstract><p>${escapeXml(declared.description)}</p></abstract>`);
+    }
+
+    const authorKeywords = declared?.subjects || [];
+    if (authorKeywords.length > 0) {
+        push(2, '<kwd-group kwd-group-type="author" xml:lang="en">');
+        authorKeywords.forEach(kwd => push(3, `<kwd>${escapeXml(kwd)}</kwd>`));
+        push(2, '</kwd-group>');
+    }
+    const authorKeywordSet = new Set(authorKeywords.map(k => k.toLowerCase()));
+    const generatedKeywords = (report?.generatedKeywords || []).filter(k => k.trim() && !authorKeywordSet.has(k.toLowerCase()));
+    if (generatedKeywords.length > 0) {
+        push(2, '<kwd-group kwd-group-type="generated" xml:lang="en">');
+        generatedKeywords.forEach(kwd => push(3, `<kwd>${escapeXml(kwd)}</kwd>`));
+        push(2, '</kwd-group>');
+    }
+
+    const funding = (report?.fundingMetadata || []).filter(f => f.funderName?.trim());
+    if (funding.length > 0) {
+        push(2, '<funding-group>');
+        funding.forEach((f, index) => {
+            push(3, `<award-group id="award${index + 1}">`);
+            push(4, `<funding-source>${escapeXml(f.funderName)}</funding-source>`);
+            if (f.grantNumber?.trim()) push(4, `<award-id>${escapeXml(f.grantNumber.trim())}</award-id>`);
+            push(3, '</award-group>');
+        });
+        push(2, '</funding-group>');
+    }
+
+    lines.push('  </article-meta>', '</front>');
+    return lines.join('\n') + '\n';
+}
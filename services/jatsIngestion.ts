@@ -0,0 +1,282 @@
+
+import { DocumentCreator, DocumentMetadata, DocumentModel, DocumentReference } from '../types';
+import { RawBlock, assembleDocument, frontMatterBlocks, paginateByWords } from './documentModel';
+import { child, children, descendants, normalizeSpace } from './xml';
+
+// Reads a JATS article (NISO Z39.96, as exchanged with production and PMC) into the same model as the other formats:
+// <front> becomes metadata plus the title/author lines, <body> sections become numbered headings and paragraphs,
+// figures and tables keep their labels and captions, and <back> contributes acknowledgments, appendices, footnotes
+// and the reference list. JATS has no page layout, so page breaks are estimated by word count.
+
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// Elements that start their own block when they appear inside a paragraph.
+const BLOCK_ELEMENTS = new Set(['p', 'sec', 'list', 'fig', 'fig-group', 'table-wrap', 'table-wrap-group', 'disp-formula', 'disp-quote', 'boxed-text', 'def-list', 'preformat', 'code', 'statement', 'speech', 'verse-group', 'supplementary-material', 'graphic', 'media']);
+
+const textOf = (el: Element | null | undefined) => normalizeSpace(el?.textContent || '');
+
+// Text of an element without the children named in `skip` (labels, nested sections, ...).
+const ownText = (el: Element, skip: string[]) => normalizeSpace(Array.from(el.childNodes)
+    .filter(node => node.nodeType !== 1 || !skip.includes((node as Element).localName))
+    .map(node => node.textContent || '').join(' '));
+
+// Structured abstracts hold titled <sec>s; each becomes "Title: text".
+const abstractParagraphs = (abstract: Element) => Array.from(abstract.children)
+    .filter(c => c.localName !== 'title' && c.localName !== 'label')
+    .map(c => c.localName === 'sec'
+        ? [textOf(child(c, 'title')), Array.from(c.children).filter(p => p.localName !== 'title').map(textOf).join(' ')].filter(Boolean).join(': ')
+        : textOf(c))
+    .filter(Boolean);
+
+function personName(el: Element): string {
+    const name = child(el, 'name') || (el.localName === 'name' ? el : undefined);
+    if (name) {
+        const given = textOf(child(name, 'given-names'));
+        const surname = textOf(child(name, 'surname'));
+        const suffix = textOf(child(name, 'suffix'));
+        return [given, surname, suffix].filter(Boolean).join(' ');
+    }
+    return textOf(child(el, 'string-name') || child(el, 'collab') || child(el, 'name-alternatives')) || (el.localName === 'string-name' || el.localName === 'collab' ? textOf(el) : '');
+}
+
+// Citation text for a <ref>. mixed-citation already carries its punctuation; element-citation is assembled.
+function formatCitation(ref: Element): string {
+    const mixed = child(ref, 'mixed-citation');
+    if (mixed) return textOf(mixed);
+    const citation = child(ref, 'element-citation') || child(ref, 'nlm-citation') || child(ref, 'citation');
+    if (!citation) return ownText(ref, ['label']);
+    const field = (name: string) => textOf(child(citation, name));
+    const people = descendants(citation, 'person-group').flatMap(group => Array.from(group.children))
+        .filter(el => ['name', 'string-name', 'collab'].includes(el.localName))
+        .map(el => el.localName === 'name' ? [textOf(child(el, 'surname')), textOf(child(el, 'given-names'))].filter(Boolean).join(', ') : textOf(el));
+    if (child(citation, 'etal') || descendants(citation, 'etal').length > 0) people.push('et al.');
+    const title = field('article-title') || field('chapter-title') || field('data-title');
+    const pages = field('fpage') ? `${field('fpage')}${field('lpage') ? `–${field('lpage')}` : ''}` : field('elocation-id');
+    const doi = children(citation, 'pub-id').find(id => id.getAttribute('pub-id-type') === 'doi');
+    const parts = [
+        `${people.join('; ') || 'Unknown author'}${field('year') ? ` (${field('year')})` : ''}.`,
+        title ? `${title.replace(/\.$/, '')}.` : '',
+        [field('source'), `${field('volume')}${field('issue') ? `(${field('issue')})` : ''}`, pages].filter(Boolean).join(', ') + (field('source') || pages ? '.' : ''),
+        field('publisher-name') && !field('source') ? `${field('publisher-name')}.` : '',
+        doi ? `doi:${textOf(doi)}` : '',
+    ];
+    return parts.filter(Boolean).join(' ');
+}
+
+function readFront(articleMeta: Element | undefined, journalMeta: Element | undefined): { metadata: DocumentMetadata, funding: string[] } {
+    const metadata: DocumentMetadata = { creators: [], identifiers: [], subjects: [] };
+    const funding: string[] = [];
+    if (!articleMeta) return { metadata, funding };
+
+    const titleGroup = child(articleMeta, 'title-group');
+    const subtitle = textOf(child(titleGroup, 'subtitle'));
+    metadata.title = [textOf(child(titleGroup, 'article-title')), subtitle].filter(Boolean).join(': ') || undefined;
+
+    const affiliations = new Map<string, string>();
+    descendants(articleMeta, 'aff').forEach(aff => {
+        const text = ownText(aff, ['label']);
+        if (aff.getAttribute('id') && text) affiliations.set(aff.getAttribute('id')!, text);
+    });
+    const correspondence = new Map<string, string>();
+    descendants(child(articleMeta, 'author-notes'), 'corresp').forEach(corresp => {
+        if (corresp.getAttribute('id')) correspondence.set(corresp.getAttribute('id')!, textOf(child(corresp, 'email')) || ownText(corresp, ['label']));
+    });
+
+    descendants(articleMeta, 'contrib').forEach(contrib => {
+        const name = personName(contrib);
+        if (!name) return;
+        const type = contrib.getAttribute('contrib-type') || 'author';
+        const creator: DocumentCreator = { name, role: type === 'author' ? 'aut' : type === 'editor' ? 'edt' : type };
+        const xrefs = children(contrib, 'xref');
+        const affs = [
+            ...xrefs.filter(x => x.getAttribute('ref-type') === 'aff').flatMap(x => (x.getAttribute('rid') || '').split(/\s+/)).map(id => affiliations.get(id)).filter((a): a is string => !!a),
+            ...children(contrib, 'aff').map(aff => ownText(aff, ['label'])).filter(Boolean),
+        ];
+        // A single unreferenced <aff> applies to every author.
+        if (affs.length === 0 && affiliations.size === 1 && xrefs.every(x => x.getAttribute('ref-type') !== 'aff')) affs.push(...affiliations.values());
+        if (affs.length > 0) creator.affiliations = affs;
+        const orcid = children(contrib, 'contrib-id').find(id => id.getAttribute('contrib-id-type') === 'orcid');
+        if (orcid) creator.orcid = textOf(orcid).replace(/^https?:\/\/orcid\.org\//, '');
+        const correspRef = xrefs.find(x => x.getAttribute('ref-type') === 'corresp');
+        const email = textOf(child(contrib, 'email')) || (correspRef ? correspondence.get(correspRef.getAttribute('rid') || '') : undefined);
+        if (email) creator.email = email;
+        if (contrib.getAttribute('corresp') === 'yes' || correspRef) creator.corresponding = true;
+        metadata.creators.push(creator);
+    });
+
+    children(articleMeta, 'article-id').forEach(id => metadata.identifiers.push({ value: textOf(id), scheme: (id.getAttribute('pub-id-type') || '').toUpperCase() || undefined }));
+    children(journalMeta, 'issn').forEach(issn => metadata.identifiers.push({ value: textOf(issn), scheme: 'ISSN' }));
+    metadata.publisher = textOf(child(child(journalMeta, 'publisher'), 'publisher-name')) || undefined;
+    metadata.series = textOf(child(child(journalMeta, 'journal-title-group'), 'journal-title')) || textOf(child(journalMeta, 'journal-title')) || undefined;
+    const pubDate = children(articleMeta, 'pub-date')[0];
+    if (pubDate) metadata.date = [textOf(child(pubDate, 'year')), textOf(child(pubDate, 'month')), textOf(child(pubDate, 'day'))].filter(Boolean).map(part => part.padStart(2, '0')).join('-');
+    metadata.language = articleMeta.closest('article')?.getAttribute('xml:lang') || undefined;
+    metadata.rights = textOf(child(child(articleMeta, 'permissions'), 'copyright-statement')) || undefined;
+    const abstract = children(articleMeta, 'abstract').find(a => !a.getAttribute('abstract-type')) || child(articleMeta, 'abstract');
+    if (abstract) metadata.description = abstractParagraphs(abstract).join(' ');
+    metadata.subjects = descendants(articleMeta, 'kwd').map(kwd => textOf(kwd)).filter(Boolean);
+
+    descendants(articleMeta, 'award-group').forEach(group => {
+        const sources = children(group, 'funding-source').map(source => textOf(child(source, 'institution-wrap') ? child(child(source, 'institution-wrap'), 'institution') : source)).filter(Boolean);
+        const awards = children(group, 'award-id').map(textOf).filter(Boolean);
+        if (sources.length > 0 || awards.length > 0) funding.push(`${sources.join(', ') || 'Unnamed funder'}${awards.length > 0 ? ` (${awards.join(', ')})` : ''}`);
+    });
+    const fundingStatement = textOf(descendants(articleMeta, 'funding-statement')[0]);
+    if (fundingStatement) funding.push(fundingStatement);
+    return { metadata, funding };
+}
+
+export async function ingestJats(fileName: string, arrayBuffer: ArrayBuffer): Promise<DocumentModel> {
+    const source = new TextDecoder('utf-8').decode(arrayBuffer);
+    const doc = new DOMParser().parseFromString(source, 'application/xml');
+    const article = doc.documentElement;
+    if (doc.getElementsByTagName('parsererror').length > 0 || article?.localName !== 'article') {
+        throw new Error(`${fileName} is not a JATS article (expected an <article> root element).`);
+    }
+
+    const front = child(article, 'front');
+    const { metadata, funding } = readFront(child(front, 'article-meta'), child(front, 'journal-meta'));
+    const blocks: RawBlock[] = [...frontMatterBlocks(metadata)];
+    const referenceLines: { key: string, text: string }[] = [];
+    let footnoteCount = 0;
+
+    const pushText = (text: string, extra: Partial<RawBlock> = {}) => {
+        const clean = normalizeSpace(text);
+        if (clean) blocks.push({ kind: 'paragraph', ...extra, text: clean });
+    };
+
+    const caption = (el: Element, kind: string) => {
+        const label = textOf(child(el, 'label')) || kind;
+        const captionEl = child(el, 'caption');
+        const captionText = captionEl ? [textOf(child(captionEl, 'title')), ...children(captionEl, 'p').map(textOf)].filter(Boolean).join(' ') : '';
+        pushText(captionText ? `${label}: ${captionText}` : `${label}.`);
+    };
+
+    // Paragraph-level content; inline runs around nested blocks become separate paragraphs.
+    const readBlock = (el: Element, level: number, listLevel?: number, marker?: string) => {
+        switch (el.localName) {
+            case 'sec': case 'app': case 'ack': case 'glossary': {
+                const label = textOf(child(el, 'label'));
+                const title = textOf(child(el, 'title')) || (el.localName === 'ack' ? 'Acknowledgments' : '');
+                if (title) blocks.push({ kind: 'heading', text: [label, title].filter(Boolean).join(' '), level });
+                Array.from(el.children).filter(c => !['label', 'title', 'sec-meta'].includes(c.localName)).forEach(c => readBlock(c, level + 1, listLevel));
+                return;
+            }
+            case 'list': {
+                const ordered = ['order', 'alpha-lower', 'alpha-upper', 'roman-lower', 'roman-upper'].includes(el.getAttribute('list-type') || '');
+                const nested = listLevel === undefined ? 0 : listLevel + 1;
+                children(el, 'list-item').forEach((item, index) => {
+                    const itemMarker = textOf(child(item, 'label')) || (ordered ? `${index + 1}.` : '-');
+                    let first = true;
+                    Array.from(item.children).filter(c => c.localName !== 'label').forEach(c => {
+                        readBlock(c, level, nested, first ? itemMarker : undefined);
+                        first = false;
+                    });
+                });
+                return;
+            }
+            case 'fig': case 'fig-group':
+                caption(el, 'Figure');
+                return;
+            case 'table-wrap': case 'table-wrap-group': {
+                caption(el, 'Table');
+                descendants(el, 'table').forEach(table => {
+                    const rows = descendants(table, 'tr').map(row => Array.from(row.children).filter(cell => cell.localName === 'td' || cell.localName === 'th').map(textOf));
+                    if (rows.length > 0) blocks.push({ kind: 'table', text: rows.map(cells => `| ${cells.join(' | ')} |`).join('\n'), rows });
+                });
+                descendants(child(el, 'table-wrap-foot'), 'fn').forEach(fn => pushText(ownText(fn, [])));
+                return;
+            }
+            case 'disp-formula': {
+                const label = textOf(child(el, 'label'));
+                const formula = ownText(el, ['label']);
+                pushText(label ? `${formula} ${label}` : formula, listLevel !== undefined ? { listLevel } : {});
+                return;
+            }
+            case 'ref-list': {
+                const title = textOf(child(el, 'title')) || 'References';
+                blocks.push({ kind: 'heading', text: title, level });
+                children(el, 'ref').forEach((ref, index) => {
+                    const key = textOf(child(ref, 'label')).replace(/[.\[\]]/g, '') || ref.getAttribute('id') || String(index + 1);
+                    const text = formatCitation(ref);
+                    referenceLines.push({ key, text });
+                    blocks.push({ kind: 'paragraph', text: `[${key}] ${text}` });
+                });
+                children(el, 'ref-list').forEach(nested => readBlock(nested, level + 1));
+                return;
+            }
+            case 'fn-group':
+                children(el, 'fn').forEach(fn => {
+                    const label = textOf(child(fn, 'label')) || String(++footnoteCount);
+                    blocks.push({ kind: 'footnote', text: `[${label}] ${ownText(fn, ['label'])}`, label, noteKind: 'endnote' });
+                });
+                return;
+            case 'title': case 'label': case 'graphic': case 'media': case 'object-id':
+                return;
+        }
+
+        // Paragraph-like: p, disp-quote, statement, boxed-text, ...
+        const hasBlocks = Array.from(el.children).some(c => BLOCK_ELEMENTS.has(c.localName));
+        const listFields = listLevel !== undefined ? { listLevel } : {};
+        const prefix = (text: string) => listLevel !== undefined && marker !== undefined ? `${'  '.repeat(listLevel)}${marker} ${text}` : text;
+        if (!hasBlocks) {
+            pushText(prefix(textOf(el)), listFields);
+            return;
+        }
+        let run = '';
+        let first = true;
+        const flush = () => {
+            if (normalizeSpace(run)) {
+                pushText(first ? prefix(run) : run, listFields);
+                first = false;
+            }
+            run = '';
+        };
+        Array.from(el.childNodes).forEach(node => {
+            const element = node.nodeType === 1 ? node as Element : null;
+            if (element && BLOCK_ELEMENTS.has(element.localName)) {
+                flush();
+                readBlock(element, level, listLevel);
+            } else {
+                run += node.textContent || '';
+            }
+        });
+        flush();
+    };
+
+    // Abstract(s), keywords and funding follow the author lines, as on a typeset first page.
+    const articleMeta = child(front, 'article-meta');
+    children(articleMeta, 'abstract').forEach(abstract => {
+        const type = abstract.getAttribute('abstract-type');
+        blocks.push({ kind: 'heading', text: textOf(child(abstract, 'title')) || (type ? `Abstract (${type})` : 'Abstract'), level: 1 });
+        abstractParagraphs(abstract).forEach(text => pushText(text));
+    });
+    if (metadata.subjects.length > 0) pushText(`Keywords: ${metadata.subjects.join('; ')}`);
+    if (funding.length > 0) pushText(`Funding: ${funding.join('; ')}`);
+    descendants(child(articleMeta, 'author-notes'), 'fn').forEach(fn => pushText(ownText(fn, ['label'])));
+
+    const body = child(article, 'body');
+    Array.from(body?.children || []).forEach(el => readBlock(el, 1));
+    const back = child(article, 'back');
+    Array.from(back?.children || []).forEach(el => readBlock(el, 1));
+
+    const model = assembleDocument(fileName, 'jats', paginateByWords(blocks), true);
+    model.metadata = metadata;
+    model.references = referenceLines.map((line): DocumentReference => {
+        const paragraph = model.paragraphs.find(p => p.text === `[${line.key}] ${line.text}`);
+        return { key: line.key, text: line.text, page: paragraph?.page ?? 0, start: paragraph?.start ?? 0, end: paragraph?.end ?? 0 };
+    });
+
+    // Citations in the text must point at a reference that exists.
+    const refIds = new Set(descendants(back, 'ref').map(ref => ref.getAttribute('id')).filter(Boolean));
+    const brokenCitations = Array.from(new Set(descendants(body, 'xref')
+        .filter(xref => xref.getAttribute('ref-type') === 'bibr')
+        .flatMap(xref => (xref.getAttribute('rid') || '').split(/\s+/).filter(Boolean))
+        .filter(rid => !refIds.has(rid))));
+    const missingGraphics = descendants(body, 'fig').filter(fig => !descendants(fig, 'graphic').some(g => g.getAttributeNS(XLINK_NS, 'href') || g.getAttribute('xlink:href'))).length;
+    model.warnings = [
+        ...(brokenCitations.length > 0 ? [`Citation(s) pointing at missing reference IDs: ${brokenCitations.join(', ')}.`] : []),
+        ...(missingGraphics > 0 ? [`${missingGraphics} figure(s) have no linked graphic file.`] : []),
+    ];
+    return model;
+}
@@ -0,0 +1,782 @@
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { DocumentCreator, DocumentMetadata, DocumentModel, DocumentReference } from '../types';
+import { RawBlock, assembleDocument, frontMatterBlocks, paginateByWords, toLetters } from './documentModel';
+import { normalizeSpace } from './xml';
+
+// Reads a LaTeX submission (a .zip with .tex, .bib and figure files, or a single .tex file) into the same model as the
+// other formats. \input/\include files are inlined, sections are numbered the way LaTeX numbers them, \ref and \cite are
+// resolved against labels and the .bib file, and front matter macros (title, authors, affiliations, abstract) become
+// metadata as well as text. LaTeX sources have no pages, so page breaks are estimated by word count.
+
+const MAX_INPUT_DEPTH = 10;
+const MAX_MACRO_PASSES = 3;
+
+const SECTION_LEVELS: Record<string, number> = { part: 0, chapter: 1, section: 2, subsection: 3, subsubsection: 4, paragraph: 5, subparagraph: 6 };
+const NUMBERED_DEPTH = 4; // LaTeX numbers down to \subsubsection by default
+
+const LIST_ENVS = new Set(['itemize', 'enumerate', 'description']);
+const MATH_ENVS = new Set(['equation', 'align', 'gather', 'multline', 'eqnarray', 'flalign', 'alignat', 'displaymath', 'math']);
+const VERBATIM_ENVS = new Set(['verbatim', 'lstlisting', 'minted', 'Verbatim', 'comment']);
+const FIGURE_ENVS = new Set(['figure', 'wrapfigure', 'SCfigure']);
+const TABLE_ENVS = new Set(['table', 'sidewaystable']);
+const TABULAR_ENVS = new Set(['tabular', 'tabularx', 'tabulary', 'longtable', 'tabu']);
+const THEOREM_ENVS = new Set(['theorem', 'lemma', 'proposition', 'corollary', 'definition', 'remark', 'example', 'proof', 'conjecture', 'assumption', 'hypothesis']);
+const CITE_COMMANDS = /^(cite|citep|citet|citealp|citealt|citeauthor|citeyear|citeyearpar|parencite|textcite|autocite|footcite|supercite|smartcite|Cite|Citep|Citet|Parencite|Textcite|Autocite|nocite)$/;
+const REF_COMMANDS = new Set(['ref', 'eqref', 'autoref', 'cref', 'Cref', 'vref', 'nameref', 'pageref']);
+const AFFILIATION_COMMANDS = new Set(['affiliation', 'affil', 'address', 'institute']);
+const FRONT_MATTER = new Set(['title', 'author', 'affiliation', 'affil', 'address', 'institute', 'email', 'keywords', 'date', 'thanks', 'maketitle', 'orcid', 'corref', 'ead']);
+
+// Commands whose arguments are layout or bookkeeping, mapped to how many brace groups they take.
+const DROPPED: Record<string, number> = {
+    label: 1, thanks: 1, corref: 1, fnref: 1, tnoteref: 1, orcidlink: 1, vspace: 1, hspace: 1, includegraphics: 1, setlength: 2, addtolength: 2, setcounter: 2, addtocounter: 2,
+    bibliographystyle: 1, pagestyle: 1, thispagestyle: 1, addcontentsline: 3, color: 1, index: 1, glossary: 1, hypersetup: 1,
+    newpage: 0, clearpage: 0, cleardoublepage: 0, pagebreak: 0, linebreak: 0, nopagebreak: 0, noindent: 0, indent: 0,
+    centering: 0, raggedright: 0, raggedleft: 0, par: 0, hfill: 0, vfill: 0, medskip: 0, smallskip: 0, bigskip: 0,
+    protect: 0, phantomsection: 0, tableofcontents: 0, listoffigures: 0, listoftables: 0, appendix: 0, relax: 0,
+    maketitle: 0, today: 0, FloatBarrier: 0, balance: 0, sloppy: 0, hline: 0, toprule: 0, midrule: 0, bottomrule: 0,
+    cline: 1, cmidrule: 1, small: 0, footnotesize: 0, scriptsize: 0, tiny: 0, normalsize: 0, large: 0, Large: 0,
+    LARGE: 0, huge: 0, Huge: 0, bfseries: 0, itshape: 0, ttfamily: 0, rmfamily: 0, sffamily: 0, scshape: 0,
+    normalfont: 0, em: 0, bf: 0, it: 0, tt: 0, rm: 0, sf: 0, sc: 0,
+};
+
+// Commands replaced by their last argument, mapped to how many brace groups they take.
+const KEEP_LAST_ARG: Record<string, number> = {
+    textbf: 1, textit: 1, emph: 1, texttt: 1, textsc: 1, textrm: 1, textsf: 1, textup: 1, textsl: 1, textmd: 1,
+    textnormal: 1, underline: 1, mbox: 1, hbox: 1, text: 1, fbox: 1, makebox: 1, enquote: 1, url: 1, nolinkurl: 1,
+    path: 1, doi: 1, textsuperscript: 1, textsubscript: 1, MakeUppercase: 1, MakeLowercase: 1, href: 2,
+    textcolor: 2, colorbox: 2, parbox: 2, multicolumn: 3, multirow: 3, caption: 1,
+};
+
+const SYMBOLS: Record<string, string> = {
+    ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ',
+    dag: '†', ddag: '‡', S: '§', P: '¶', copyright: '©', textregistered: '®', texttrademark: '™', ldots: '…',
+    dots: '…', textellipsis: '…', textendash: '–', textemdash: '—', textdegree: '°', LaTeX: 'LaTeX', TeX: 'TeX',
+    textbackslash: '\\', textasciitilde: '~', textbar: '|', textless: '<', textgreater: '>', textbullet: '•',
+    pounds: '£', euro: '€', textmu: 'µ', textpm: '±', etal: 'et al.', ie: 'i.e.', eg: 'e.g.',
+};
+
+// Accent commands mapped to the combining character they add.
+const ACCENTS: Record<string, string> = {
+    "'": '\u0301', '`': '\u0300', '^': '\u0302', '"': '\u0308', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+    u: '\u0306', v: '\u030c', H: '\u030b', c: '\u0327', k: '\u0328', r: '\u030a',
+};
+
+interface Label {
+    kind: string; // "Section", "Figure", "Table", "Equation", ...
+    number: string;
+}
+
+interface PendingBlock {
+    kind: RawBlock['kind'];
+    raw: string; // LaTeX source, converted to text in the second pass
+    prefix?: string; // Plain text put before the converted source (numbers, list markers)
+    literal?: boolean; // Math and verbatim are kept as written
+    level?: number;
+    listLevel?: number;
+    rows?: string[][]; // Raw table cells
+    references?: boolean; // The References heading; the bibliography is listed after it
+}
+
+interface BibEntry {
+    type: string;
+    fields: Record<string, string>;
+}
+
+// Index just past the group opening at `start` ('{' or '['), or -1 when it is not closed.
+function groupEnd(src: string, start: number): number {
+    const open = src[start];
+    const close = open === '{' ? '}' : ']';
+    let depth = 0;
+    for (let i = start; i < src.length; i++) {
+        const c = src[i];
+        if (c === '\\') { i++; continue; }
+        if (c === open) depth++;
+        else if (c === close && --depth === 0) return i + 1;
+    }
+    return -1;
+}
+
+// Reads optional [..] and required {..} arguments following a command. Missing required arguments come back empty.
+function readArgs(src: string, pos: number, required: number, maxOptional = 2): { optional: string[], args: string[], end: number } {
+    const optional: string[] = [];
+    const args: string[] = [];
+    const skipSpace = (at: number) => { while (at < src.length && /\s/.test(src[at]) && src.slice(at, at + 2) !== '\n\n') at++; return at; };
+    let at = pos;
+    while (optional.length < maxOptional) {
+        const next = skipSpace(at);
+        if (src[next] !== '[') break;
+        const end = groupEnd(src, next);
+        if (end < 0) break;
+        optional.push(src.slice(next + 1, end - 1));
+        at = end;
+    }
+    while (args.length < required) {
+        const next = skipSpace(at);
+        if (src[next] !== '{') break;
+        const end = groupEnd(src, next);
+        if (end < 0) break;
+        args.push(src.slice(next + 1, end - 1));
+        at = end;
+    }
+    return { optional, args, end: at };
+}
+
+interface FoundCommand {
+    name: string;
+    optional: string[];
+    args: string[];
+    start: number;
+    end: number;
+}
+
+function findCommands(src: string, names: Set<string> | ((name: string) => boolean), argCount: (name: string) => number): FoundCommand[] {
+    const matches = typeof names === 'function' ? names : (name: string) => names.has(name);
+    const found: FoundCommand[] = [];
+    const pattern = /\\([a-zA-Z@]+)\*?/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(src))) {
+        if (!matches(match[1])) continue;
+        const { optional, args, end } = readArgs(src, match.index + match[0].length, argCount(match[1]));
+        found.push({ name: match[1], optional, args, start: match.index, end });
+        pattern.lastIndex = end;
+    }
+    return found;
+}
+
+const removeCommands = (src: string, commands: FoundCommand[]) =>
+    commands.reduceRight((text, command) => text.slice(0, command.start) + text.slice(command.end), src);
+
+// Finds the \end matching a \begin{name} whose content starts at `from`; nested environments of the same name are skipped.
+function environmentEnd(src: string, name: string, from: number): { contentEnd: number, end: number } {
+    const escaped = name.replace(/[*]/g, '\\*');
+    const pattern = new RegExp(`\\\\(begin|end)\\s*\\{${escaped}\\}`, 'g');
+    pattern.lastIndex = from;
+    let depth = 1;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(src))) {
+        depth += match[1] === 'begin' ? 1 : -1;
+        if (depth === 0) return { contentEnd: match.index, end: match.index + match[0].length };
+    }
+    return { contentEnd: src.length, end: src.length };
+}
+
+// Removes % comments. Lines that are only a comment disappear entirely, so they do not split paragraphs.
+const stripComments = (src: string) => src.split(/\r?\n/).flatMap(line => {
+    const match = line.match(/^((?:[^%\\]|\\.)*)%/);
+    if (!match) return [line];
+    return match[1].trim() ? [match[1]] : [];
+}).join('\n');
+
+// Splits at every match of `separator` (an unanchored pattern) outside braces.
+function splitTopLevel(src: string, separator: RegExp): string[] {
+    const sticky = new RegExp(separator.source, 'y');
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < src.length; i++) {
+        if (depth === 0) {
+            sticky.lastIndex = i;
+            const match = sticky.exec(src);
+            if (match && match[0].length > 0) {
+                parts.push(src.slice(start, i));
+                i += match[0].length - 1;
+                start = i + 1;
+                continue;
+            }
+        }
+        const c = src[i];
+        if (c === '\\') i++;
+        else if (c === '{') depth++;
+        else if (c === '}') depth--;
+    }
+    parts.push(src.slice(start));
+    return parts;
+}
+
+// Splits a .bib file into entries; @string macros are expanded, @comment and @preamble are skipped.
+function parseBib(src: string): Map<string, BibEntry> {
+    const entries = new Map<string, BibEntry>();
+    const strings = new Map<string, string>();
+    const pattern = /@(\w+)\s*([{(])/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(src))) {
+        const type = match[1].toLowerCase();
+        const openIndex = match.index + match[0].length - 1;
+        let end = match[2] === '{' ? groupEnd(src, openIndex) : src.indexOf(')', openIndex) + 1;
+        if (end <= 0) end = src.length;
+        const body = src.slice(openIndex + 1, end - 1);
+        pattern.lastIndex = end;
+        if (type === 'comment' || type === 'preamble') continue;
+
+        const fields: Record<string, string> = {};
+        const keyEnd = type === 'string' ? 0 : body.indexOf(',');
+        const key = type === 'string' ? '' : (keyEnd < 0 ? body : body.slice(0, keyEnd)).trim();
+        const rest = type === 'string' ? body : keyEnd < 0 ? '' : body.slice(keyEnd + 1);
+        const fieldPattern = /\s*([\w-]+)\s*=\s*/g;
+        let field: RegExpExecArray | null;
+        while ((field = fieldPattern.exec(rest))) {
+            let at = fieldPattern.lastIndex;
+            const parts: string[] = [];
+            // A value is one or more {..}, ".." or bare pieces joined with #.
+            for (;;) {
+                while (/\s/.test(rest[at] || '')) at++;
+                if (rest[at] === '{') {
+                    const close = groupEnd(rest, at);
+                    const valueEnd = close < 0 ? rest.length : close;
+                    parts.push(rest.slice(at + 1, valueEnd - 1));
+                    at = valueEnd;
+                } else if (rest[at] === '"') {
+                    let close = at + 1;
+                    while (close < rest.length && !(rest[close] === '"' && rest[close - 1] !== '\\')) close++;
+                    parts.push(rest.slice(at + 1, close));
+                    at = close + 1;
+                } else {
+                    const bare = rest.slice(at).match(/^[^\s,#}]+/)?.[0] || '';
+                    parts.push(strings.get(bare.toLowerCase()) ?? bare);
+                    at += bare.length;
+                }
+                while (/\s/.test(rest[at] || '')) at++;
+                if (rest[at] !== '#') break;
+                at++;
+            }
+            fields[field[1].toLowerCase()] = parts.join('');
+            const comma = rest.indexOf(',', at);
+            fieldPattern.lastIndex = comma < 0 ? rest.length : comma + 1;
+        }
+        if (type === 'string') Object.entries(fields).forEach(([name, value]) => strings.set(name, value));
+        else if (key) entries.set(key, { type, fields });
+    }
+    return entries;
+}
+
+// Resolves `name` the way LaTeX does (relative to the main file's directory), trying the given extensions.
+function resolveSource(files: Record<string, Uint8Array>, baseDir: string, name: string, extensions: string[]): string | undefined {
+    const candidates = extensions.map(extension => name.endsWith(extension) ? name : `${name}${extension}`);
+    for (const candidate of candidates) {
+        const parts = (candidate.startsWith('/') ? [] : baseDir.split('/').filter(Boolean));
+        candidate.split('/').forEach(part => {
+            if (part === '..') parts.pop();
+            else if (part && part !== '.') parts.push(part);
+        });
+        const path = parts.join('/');
+        if (files[path]) return path;
+    }
+    return undefined;
+}
+
+function chooseMainFile(files: Record<string, Uint8Array>): string | undefined {
+    const texFiles = Object.keys(files).filter(path => path.toLowerCase().endsWith('.tex') && !path.startsWith('__MACOSX/'));
+    const scored = texFiles.map(path => {
+        const source = strFromU8(files[path]);
+        const name = path.split('/').pop()!.toLowerCase().replace(/\.tex$/, '');
+        let score = 0;
+        if (/\\documentclass/.test(source)) score += 4;
+        if (/\\begin\s*\{document\}/.test(source)) score += 2;
+        if (['main', 'ms', 'manuscript', 'paper', 'article'].includes(name)) score += 1;
+        return { path, score, size: source.length };
+    });
+    return scored.sort((a, b) => b.score - a.score || b.size - a.size)[0]?.path;
+}
+
+function expandInputs(files: Record<string, Uint8Array>, path: string, baseDir: string, seen: string[], warnings: string[]): string {
+    const source = stripComments(strFromU8(files[path]));
+    return source.replace(/\\(input|include|subfile)(?![a-zA-Z@])\s*(?:\{([^}]*)\}|([^\s{}\\%]+))/g, (whole, command: string, braced?: string, bare?: string) => {
+        const name = (braced ?? bare ?? '').trim();
+        const target = resolveSource(files, baseDir, name, ['', '.tex']);
+        if (!target) {
+            warnings.push(`\\${command}{${name}} was not found in the archive; its content is missing from the analysis.`);
+            return '';
+        }
+        if (seen.includes(target) || seen.length > MAX_INPUT_DEPTH) {
+            warnings.push(`\\${command}{${name}} was skipped because it includes itself or is nested too deeply.`);
+            return '';
+        }
+        const content = expandInputs(files, target, baseDir, [...seen, target], warnings);
+        return command === 'input' ? content : `\n\n${content}\n\n`;
+    });
+}
+
+// Expands argument-free \newcommand, \renewcommand and \def macros, which authors use for names, units and abbreviations.
+function expandSimpleMacros(preamble: string, body: string): string {
+    const macros = new Map<string, string>();
+    findCommands(preamble, new Set(['newcommand', 'renewcommand', 'providecommand', 'def']), () => 0).forEach(command => {
+        const after = preamble.slice(command.end);
+        const nameMatch = after.match(/^\s*(?:\{\s*\\([a-zA-Z@]+)\s*\}|\\([a-zA-Z@]+))/);
+        if (!nameMatch) return;
+        const afterName = command.end + nameMatch[0].length;
+        const { optional, args } = readArgs(preamble, afterName, 1, command.name === 'def' ? 0 : 1);
+        const defHasParams = command.name === 'def' && /^\s*#/.test(preamble.slice(afterName));
+        if (optional.length > 0 || defHasParams || args.length === 0) return;
+        macros.set(nameMatch[1] || nameMatch[2], args[0]);
+    });
+    if (macros.size === 0) return body;
+    let expanded = body;
+    for (let pass = 0; pass < MAX_MACRO_PASSES; pass++) {
+        const next = expanded.replace(/\\([a-zA-Z@]+)(?![a-zA-Z@])( ?)/g, (whole, name: string, space: string) =>
+            macros.has(name) ? `${macros.get(name)}${space}` : whole);
+        if (next === expanded) break;
+        expanded = next;
+    }
+    return expanded;
+}
+
+const formatBibEntry = (entry: BibEntry, convert: (raw: string) => string): string => {
+    const field = (name: string) => entry.fields[name] ? convert(entry.fields[name]) : '';
+    const authors = (field('author') || field('editor')).split(/\s+and\s+/).map(name => name.trim()).filter(Boolean).join('; ');
+    const venue = field('journal') || field('booktitle') || field('publisher') || field('school') || field('institution') || field('howpublished');
+    const volume = [field('volume'), field('number') ? `(${field('number')})` : ''].join('');
+    const pages = field('pages');
+    const parts = [
+        `${authors || 'Unknown author'}${field('year') ? ` (${field('year')})` : ''}.`,
+        field('title') ? `${field('title').replace(/\.$/, '')}.` : '',
+        [venue, volume, pages].filter(Boolean).join(', ') + (venue || volume || pages ? '.' : ''),
+        field('doi') ? `doi:${field('doi')}` : field('url'),
+    ];
+    return parts.filter(Boolean).join(' ');
+};
+
+export async function ingestLatex(fileName: string, arrayBuffer: ArrayBuffer): Promise<DocumentModel> {
+    const bytes = new Uint8Array(arrayBuffer);
+    const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b; // "PK"
+    const files: Record<string, Uint8Array> = isZip ? unzipSync(bytes) : { [fileName]: bytes };
+    const mainPath = chooseMainFile(files);
+    if (!mainPath) throw new Error(`${fileName} does not contain a .tex file.`);
+    const baseDir = mainPath.includes('/') ? mainPath.slice(0, mainPath.lastIndexOf('/')) : '';
+    const warnings: string[] = [];
+
+    const source = expandInputs(files, mainPath, baseDir, [mainPath], warnings);
+    const beginDocument = source.search(/\\begin\s*\{document\}/);
+    const preamble = beginDocument >= 0 ? source.slice(0, beginDocument) : '';
+    const afterBegin = beginDocument >= 0 ? source.slice(beginDocument).replace(/^\\begin\s*\{document\}/, '') : source;
+    const endDocument = afterBegin.search(/\\end\s*\{document\}/);
+    let body = expandSimpleMacros(preamble, endDocument >= 0 ? afterBegin.slice(0, endDocument) : afterBegin);
+
+    // --- Front matter (class files differ on whether it goes in the preamble or the body) ---
+    const frontSource = `${preamble}\n${body}`;
+    const frontCommands = findCommands(frontSource, FRONT_MATTER, name => name === 'maketitle' ? 0 : 1)
+        .filter(command => command.name === 'maketitle' || command.args.length > 0);
+    const creators: (DocumentCreator & { marks: string[] })[] = [];
+    const markedAffiliations = new Map<string, string>();
+    // REVTeX style: an unmarked \affiliation applies to every author since the previous group of affiliations.
+    let groupStart = 0;
+    let group: [number, number] = [0, 0];
+    let previous = '';
+    let rawTitle = '';
+    let rawKeywords = '';
+    frontCommands.forEach(command => {
+        const arg = command.args[0] || '';
+        switch (command.name) {
+            case 'title':
+                rawTitle = arg;
+                break;
+            case 'author': {
+                const marks = command.optional[0] ? command.optional[0].split(',').map(mark => mark.trim()) : [];
+                splitTopLevel(arg, /\\and(?![a-zA-Z@])/).forEach(part => {
+                    const inst = findCommands(part, new Set(['inst', 'IEEEauthorrefmark', 'textsuperscript']), () => 1);
+                    const blocks = findCommands(part, new Set(['IEEEauthorblockN', 'IEEEauthorblockA']), () => 1);
+                    const lines = blocks.length > 0
+                        ? [blocks.filter(b => b.name === 'IEEEauthorblockN').map(b => b.args[0]).join(' '), ...blocks.filter(b => b.name === 'IEEEauthorblockA').flatMap(b => splitTopLevel(b.args[0], /\\\\/))]
+                        : splitTopLevel(removeCommands(part, [...inst, ...findCommands(part, new Set(['thanks', 'orcidlink', 'footnote', 'corref', 'fnref', 'tnoteref']), () => 1)]), /\\\\/);
+                    const [name, ...affiliationLines] = lines.map(line => line.trim()).filter(Boolean);
+                    if (!name) return;
+                    const creator: DocumentCreator & { marks: string[] } = { name, role: 'aut', marks: [...marks, ...inst.flatMap(i => i.args[0].split(','))].map(mark => mark.trim()) };
+                    if (affiliationLines.length > 0) creator.affiliations = [affiliationLines.join(', ')];
+                    creators.push(creator);
+                });
+                break;
+            }
+            case 'affiliation': case 'affil': case 'address': case 'institute':
+                if (command.optional[0]) {
+                    markedAffiliations.set(command.optional[0].trim(), arg);
+                } else if (command.name === 'institute' && /\\and(?![a-zA-Z@])/.test(arg)) {
+                    splitTopLevel(arg, /\\and(?![a-zA-Z@])/).forEach((part, index) => markedAffiliations.set(String(index + 1), part));
+                } else {
+                    if (!AFFILIATION_COMMANDS.has(previous)) {
+                        group = [groupStart, creators.length];
+                        groupStart = creators.length;
+                    }
+                    creators.slice(group[0], group[1]).forEach(creator => { creator.affiliations = [...(creator.affiliations || []), arg]; });
+                }
+                break;
+            case 'email':
+                if (creators.length > 0) creators[creators.length - 1].email = arg;
+                break;
+            case 'keywords':
+                rawKeywords = arg;
+                break;
+        }
+        previous = command.name;
+    });
+    body = removeCommands(body, findCommands(body, FRONT_MATTER, name => name === 'maketitle' ? 0 : 1));
+
+    // --- Pre-scan: section numbering, labels, citation order and bibliography sources ---
+    const usedLevels = Array.from(body.matchAll(/\\(part|chapter|section|subsection|subsubsection)\*?(?![a-zA-Z@])/g), m => SECTION_LEVELS[m[1]]).filter(level => level > 0);
+    const topLevel = usedLevels.length > 0 ? Math.min(...usedLevels) : SECTION_LEVELS.section;
+    const citedKeys: string[] = [];
+    let citeAll = false;
+    findCommands(body, name => CITE_COMMANDS.test(name), () => 1).forEach(command => {
+        (command.args[0] || '').split(',').map(key => key.trim()).filter(Boolean).forEach(key => {
+            if (key === '*') citeAll = true;
+            else if (!citedKeys.includes(key)) citedKeys.push(key);
+        });
+    });
+    const bibNames = findCommands(`${preamble}\n${body}`, new Set(['bibliography', 'addbibresource']), () => 1).flatMap(command => command.args[0].split(',').map(name => name.trim()));
+    const bibPaths = bibNames.length > 0
+        ? bibNames.map(name => {
+            const path = resolveSource(files, baseDir, name, ['', '.bib']);
+            if (!path) warnings.push(`Bibliography file ${name} was not found in the archive.`);
+            return path;
+        }).filter((path): path is string => !!path)
+        : Object.keys(files).filter(path => path.toLowerCase().endsWith('.bib'));
+    const bib = new Map<string, BibEntry>();
+    bibPaths.forEach(path => parseBib(stripComments(strFromU8(files[path]))).forEach((entry, key) => bib.set(key, entry)));
+
+    const labels = new Map<string, Label>();
+    const pending: PendingBlock[] = [];
+    const counters = [0, 0, 0, 0, 0, 0, 0];
+    let inAppendix = false;
+    let currentTarget: Label | undefined;
+    let figureCount = 0;
+    let tableCount = 0;
+    let equationCount = 0;
+    let abstractRaw = '';
+    const bibItems: { key: string, raw: string }[] = []; // From a thebibliography environment
+    let hasBibItems = false;
+    let referencesPlaced = false;
+
+    const assignLabels = (raw: string, target: Label | undefined) => {
+        for (const match of raw.matchAll(/\\label\s*\{([^}]*)\}/g)) if (target) labels.set(match[1].trim(), target);
+    };
+
+    const sectionNumber = (level: number) => {
+        counters[level]++;
+        for (let deeper = level + 1; deeper < counters.length; deeper++) counters[deeper] = 0;
+        return counters.slice(topLevel, level + 1).map((n, index) => index === 0 && inAppendix ? toLetters(n).toUpperCase() : String(n)).join('.');
+    };
+
+    const pushParagraphs = (raw: string, list: { level?: number, marker?: string }) => {
+        splitTopLevel(raw, /(\n[ \t]*){2,}|\\par(?![a-zA-Z@])/).forEach(part => {
+            if (!part.trim()) return;
+            assignLabels(part, currentTarget);
+            const block: PendingBlock = { kind: 'paragraph', raw: part };
+            if (list.level !== undefined) {
+                block.listLevel = list.level;
+                if (list.marker !== undefined) block.prefix = `${'  '.repeat(list.level)}${list.marker} `;
+                list.marker = undefined;
+            }
+            pending.push(block);
+        });
+    };
+
+    const placeReferences = () => {
+        referencesPlaced = true;
+        pending.push({ kind: 'heading', raw: '', prefix: 'References', level: 1, references: true });
+    };
+
+    // Cells of a tabular-like environment; tabularx, tabulary and tabular* take a width before the column spec.
+    const readTabular = (environment: string, content: string): string[][] => {
+        const withoutSpec = content.slice(readArgs(content, 0, /^(tabularx|tabulary|tabular\*)$/.test(environment) ? 2 : 1, 1).end);
+        return splitTopLevel(withoutSpec, /\\\\(\[[^\]]*\])?/)
+            .map(row => row.replace(/\\(hline|toprule|midrule|bottomrule|endhead|endfirsthead|endfoot|endlastfoot)(?![a-zA-Z@])/g, '').replace(/\\c(?:mid)?rule(\([^)]*\))?\{[^}]*\}/g, ''))
+            .filter(row => row.trim())
+            .map(row => splitTopLevel(row, /&/).map(cell => cell.trim()));
+    };
+
+    const parse = (src: string, list: { level?: number, marker?: string }) => {
+        const structure = /\\begin\s*\{([^}]+)\}|\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)(\*?)(?![a-zA-Z@])|\\(item|appendix|bibliography|printbibliography)(?![a-zA-Z@])|(?<!\\)\\\[|(?<!\\)\$\$/g;
+        let position = 0;
+        let match: RegExpExecArray | null;
+        while ((match = structure.exec(src))) {
+            pushParagraphs(src.slice(position, match.index), list);
+            let end = match.index + match[0].length;
+            if (match[2]) {
+                const level = SECTION_LEVELS[match[2]];
+                const { optional, args, end: argsEnd } = readArgs(src, end, 1, 1);
+                end = argsEnd;
+                const title = args[0] ?? optional[0] ?? '';
+                const numbered = !match[3] && level <= NUMBERED_DEPTH && level >= topLevel;
+                const number = numbered ? sectionNumber(level) : '';
+                if (numbered) currentTarget = { kind: level === SECTION_LEVELS.chapter ? 'Chapter' : inAppendix && level === topLevel ? 'Appendix' : 'Section', number };
+                assignLabels(title, currentTarget); // A \label after the heading is picked up with the next paragraph
+                pending.push({ kind: 'heading', raw: title, prefix: number ? `${number} ` : '', level: Math.max(1, level - topLevel + 1) });
+            } else if (match[4] === 'appendix') {
+                inAppendix = true;
+                counters[topLevel] = 0;
+            } else if (match[4] === 'bibliography' || match[4] === 'printbibliography') {
+                end = readArgs(src, end, match[4] === 'bibliography' ? 1 : 0).end;
+                if (!referencesPlaced) placeReferences();
+            } else if (match[4] === 'item') {
+                const { optional, end: argsEnd } = readArgs(src, end, 0, 1);
+                end = argsEnd;
+                list.marker = optional[0] !== undefined ? optional[0] : list.marker;
+            } else if (match[0] === '\\[' || match[0] === '$$') {
+                const close = src.indexOf(match[0] === '\\[' ? '\\]' : '$$', end);
+                const contentEnd = close < 0 ? src.length : close;
+                pending.push({ kind: 'paragraph', raw: normalizeSpace(src.slice(end, contentEnd)), literal: true, ...(list.level !== undefined ? { listLevel: list.level } : {}) });
+                end = close < 0 ? src.length : close + 2;
+            } else {
+                const environment = match[1].trim();
+                const name = environment.replace(/\*$/, '');
+                const { contentEnd, end: envEnd } = environmentEnd(src, environment, end);
+                const content = src.slice(end, contentEnd);
+                end = envEnd;
+                if (name === 'abstract') {
+                    abstractRaw = content.replace(/\\begin\s*\{(IEEE)?keywords?\}[\s\S]*?\\end\s*\{(IEEE)?keywords?\}/, '');
+                    pending.push({ kind: 'heading', raw: '', prefix: 'Abstract', level: 1 });
+                    parse(content, {});
+                } else if (name === 'keywords' || name === 'keyword' || name === 'IEEEkeywords') {
+                    rawKeywords = content;
+                } else if (LIST_ENVS.has(name)) {
+                    const level = list.level === undefined ? 0 : list.level + 1;
+                    // Split at top-level \item; nested lists stay inside their item.
+                    const items: string[] = [];
+                    const itemPattern = /\\begin\s*\{([^}]+)\}|\\item(?![a-zA-Z@])/g;
+                    let itemMatch: RegExpExecArray | null;
+                    let itemStart = -1;
+                    while ((itemMatch = itemPattern.exec(content))) {
+                        if (itemMatch[1]) {
+                            itemPattern.lastIndex = environmentEnd(content, itemMatch[1].trim(), itemMatch.index + itemMatch[0].length).end;
+                            continue;
+                        }
+                        if (itemStart >= 0) items.push(content.slice(itemStart, itemMatch.index));
+                        itemStart = itemMatch.index + itemMatch[0].length;
+                    }
+                    if (itemStart >= 0) items.push(content.slice(itemStart));
+                    items.forEach((item, index) => {
+                        const { optional, end: labelEnd } = readArgs(item, 0, 0, 1);
+                        const marker = optional[0] !== undefined ? optional[0] : name === 'enumerate' ? `${index + 1}.` : '-';
+                        parse(item.slice(labelEnd), { level, marker });
+                    });
+                } else if (MATH_ENVS.has(name)) {
+                    const numbered = !environment.endsWith('*') && name !== 'displaymath' && name !== 'math';
+                    const numbers: string[] = [];
+                    if (numbered) {
+                        const labelsHere = Array.from(content.matchAll(/\\label\s*\{([^}]*)\}/g), m => m[1].trim());
+                        (labelsHere.length > 0 ? labelsHere : ['']).forEach(label => {
+                            const number = String(++equationCount);
+                            numbers.push(number);
+                            if (label) labels.set(label, { kind: 'Equation', number });
+                        });
+                    }
+                    const math = normalizeSpace(content.replace(/\\label\s*\{[^}]*\}|\\nonumber|\\notag/g, ''));
+                    pending.push({ kind: 'paragraph', raw: `${math}${numbers.length > 0 ? ` (${numbers.join(', ')})` : ''}`, literal: true, ...(list.level !== undefined ? { listLevel: list.level } : {}) });
+                } else if (VERBATIM_ENVS.has(name)) {
+                    if (name !== 'comment') pending.push({ kind: 'paragraph', raw: content.trim(), literal: true });
+                } else if (FIGURE_ENVS.has(name) || TABLE_ENVS.has(name)) {
+                    const isFigure = FIGURE_ENVS.has(name);
+                    const target: Label = { kind: isFigure ? 'Figure' : 'Table', number: String(isFigure ? ++figureCount : ++tableCount) };
+                    assignLabels(content, target);
+                    const captions = findCommands(content, new Set(['caption']), () => 1).map(caption => caption.args[0]).filter(Boolean);
+                    pending.push({ kind: 'paragraph', raw: captions.join(' '), prefix: `${target.kind} ${target.number}${captions.length > 0 ? ': ' : '.'}` });
+                    const tabular = content.match(/\\begin\s*\{(tabularx?|tabulary|longtable|tabu|tabular\*)\}/);
+                    if (tabular && tabular.index !== undefined) {
+                        const start = tabular.index + tabular[0].length;
+                        const rows = readTabular(tabular[1], content.slice(start, environmentEnd(content, tabular[1], start).contentEnd));
+                        pending.push({ kind: 'table', raw: '', rows });
+                    }
+                } else if (TABULAR_ENVS.has(name)) {
+                    pending.push({ kind: 'table', raw: '', rows: readTabular(environment, content) });
+                } else if (name === 'thebibliography') {
+                    hasBibItems = true;
+                    bibItems.push(...splitTopLevel(content, /\\bibitem(?![a-zA-Z@])/).slice(1).map(item => {
+                        const { args, end: keyEnd } = readArgs(item, 0, 1, 1);
+                        return { key: (args[0] || '').trim(), raw: item.slice(keyEnd).trim() };
+                    }));
+                    if (!referencesPlaced) placeReferences();
+                } else if (THEOREM_ENVS.has(name)) {
+                    const { optional, end: titleEnd } = readArgs(content, 0, 0, 1);
+                    const label = `${name[0].toUpperCase()}${name.slice(1)}${optional[0] ? ` (${normalizeSpace(optional[0])})` : ''}.`;
+                    const first = pending.length;
+                    parse(content.slice(titleEnd), list);
+                    if (pending[first]?.kind === 'paragraph' && !pending[first].literal) pending[first].prefix = `${pending[first].prefix || ''}${label} `;
+                    else pending.splice(first, 0, { kind: 'paragraph', raw: '', prefix: label });
+                } else {
+                    // Layout environments (center, minipage, quote, ...) only wrap content.
+                    parse(content, list);
+                }
+            }
+            position = end;
+            structure.lastIndex = end;
+        }
+        pushParagraphs(src.slice(position), list);
+    };
+
+    parse(body, {});
+
+    // --- Second pass: LaTeX source to text ---
+    const undefinedLabels = new Set<string>();
+    let footnoteCount = 0;
+    const convert = (raw: string, footnotes?: string[]): string => {
+        let out = '';
+        let i = 0;
+        while (i < raw.length) {
+            const c = raw[i];
+            if (c === '$') {
+                const delimiter = raw[i + 1] === '$' ? '$$' : '$';
+                let close = raw.indexOf(delimiter, i + delimiter.length);
+                while (close > 0 && raw[close - 1] === '\\') close = raw.indexOf(delimiter, close + 1);
+                const end = close < 0 ? raw.length : close + delimiter.length;
+                out += raw.slice(i, end);
+                i = end;
+                continue;
+            }
+            if (c === '{' || c === '}') { i++; continue; }
+            if (c === '~') { out += ' '; i++; continue; }
+            if (raw.startsWith('---', i)) { out += '—'; i += 3; continue; }
+            if (raw.startsWith('--', i)) { out += '–'; i += 2; continue; }
+            if (raw.startsWith('``', i)) { out += '“'; i += 2; continue; }
+            if (raw.startsWith("''", i)) { out += '”'; i += 2; continue; }
+            if (c === '`') { out += '‘'; i++; continue; }
+            if (c !== '\\') { out += c; i++; continue; }
+
+            const next = raw[i + 1] || '';
+            if (next === '(') {
+                const close = raw.indexOf('\\)', i + 2);
+                const end = close < 0 ? raw.length : close + 2;
+                out += raw.slice(i, end);
+                i = end;
+                continue;
+            }
+            const nameMatch = raw.slice(i + 1).match(/^[a-zA-Z@]+/);
+            const name = nameMatch ? nameMatch[0] : next;
+            let end = i + 1 + name.length;
+            if (ACCENTS[name]) {
+                // \'e, \'{e}, \c{c}, \v s
+                const rest = raw.slice(end);
+                const target = rest.match(/^\{\s*(\\?[a-zA-Z])\s*\}/) || (nameMatch ? rest.match(/^\s+([a-zA-Z])/) : rest.match(/^(\\?[a-zA-Z])/));
+                if (target) {
+                    out += `${target[1].replace(/^\\/, '')}${ACCENTS[name]}`.normalize('NFC');
+                    i = end + target[0].length;
+                    continue;
+                }
+            }
+            if (!nameMatch) {
+                if (next === '\\') {
+                    out += ' ';
+                    i = readArgs(raw, i + 2, 0, 1).end;
+                    continue;
+                }
+                out += '&%$#_{}'.includes(next) ? next : ' ,;:! '.includes(next) ? ' ' : '';
+                i += 2;
+                continue;
+            }
+            if (raw[end] === '*') end++;
+
+            if (CITE_COMMANDS.test(name)) {
+                const { optional, args, end: argsEnd } = readArgs(raw, end, 1);
+                const keys = (args[0] || '').split(',').map(key => key.trim()).filter(key => key && key !== '*');
+                const [pre, post] = (optional.length === 2 ? optional : ['', optional[0] || '']).map(note => normalizeSpace(convert(note)));
+                if (name !== 'nocite' && keys.length > 0) out += `[${pre ? `${pre} ` : ''}${keys.join('; ')}${post ? `, ${post}` : ''}]`;
+                i = argsEnd;
+            } else if (REF_COMMANDS.has(name)) {
+                const { args, end: argsEnd } = readArgs(raw, end, 1);
+                out += (args[0] || '').split(',').map(key => key.trim()).filter(Boolean).map(key => {
+                    const label = labels.get(key);
+                    if (!label) {
+                        undefinedLabels.add(key);
+                        return '??';
+                    }
+                    if (name === 'pageref') return '?';
+                    if (name === 'eqref') return `(${label.number})`;
+                    if (['autoref', 'cref', 'Cref', 'vref'].includes(name)) return label.kind === 'Equation' ? `Equation (${label.number})` : `${label.kind} ${label.number}`;
+                    return label.number;
+                }).join(', ');
+                i = argsEnd;
+            } else if (name === 'footnote' || name === 'footnotetext') {
+                const { args, end: argsEnd } = readArgs(raw, end, 1, 1);
+                if (footnotes) {
+                    footnotes.push(args[0] || '');
+                    out += `[${footnoteCount + footnotes.length}]`;
+                }
+                i = argsEnd;
+            } else if (name === 'footnotemark') {
+                i = readArgs(raw, end, 0, 1).end;
+            } else if (DROPPED[name] !== undefined) {
+                i = readArgs(raw, end, DROPPED[name], DROPPED[name] > 0 ? 2 : 0).end;
+            } else if (KEEP_LAST_ARG[name] !== undefined) {
+                const { args, end: argsEnd } = readArgs(raw, end, KEEP_LAST_ARG[name]);
+                out += convert(args[args.length - 1] || '', footnotes);
+                i = argsEnd;
+            } else if (SYMBOLS[name] !== undefined) {
+                out += SYMBOLS[name];
+                i = end;
+                if (raw.startsWith('{}', i)) i += 2;
+            } else {
+                // Unknown command: drop the command word, keep any braced content.
+                i = end;
+            }
+        }
+        return out;
+    };
+
+    // Converted blocks, with footnotes placed after the paragraph that cites them.
+    const blocks: RawBlock[] = [];
+    const referenceLines: { key: string, text: string }[] = [];
+    const referenceBlocks = (): RawBlock[] => {
+        const items = hasBibItems
+            ? bibItems.map(item => ({ key: item.key, text: normalizeSpace(convert(item.raw)) }))
+            : (citeAll ? Array.from(bib.keys()) : citedKeys).filter(key => bib.has(key)).map(key => ({ key, text: formatBibEntry(bib.get(key)!, raw => normalizeSpace(convert(raw))) }));
+        referenceLines.push(...items);
+        return items.map(item => ({ kind: 'paragraph', text: `[${item.key}] ${item.text}` }));
+    };
+    pending.forEach(block => {
+        if (block.kind === 'table') {
+            const rows = (block.rows || []).map(cells => cells.map(cell => normalizeSpace(convert(cell))));
+            blocks.push({ kind: 'table', text: rows.map(cells => `| ${cells.join(' | ')} |`).join('\n'), rows });
+            return;
+        }
+        const footnotes: string[] = [];
+        const text = `${block.prefix || ''}${normalizeSpace(block.literal ? block.raw : convert(block.raw, footnotes))}`.trimEnd();
+        if (!text.trim()) return;
+        if (block.kind === 'heading') {
+            blocks.push({ kind: 'heading', text, level: block.level || 1 });
+            if (block.references) blocks.push(...referenceBlocks());
+        } else {
+            blocks.push({ kind: 'paragraph', text, ...(block.listLevel !== undefined ? { listLevel: block.listLevel } : {}) });
+        }
+        footnotes.forEach(note => {
+            const label = String(++footnoteCount);
+            blocks.push({ kind: 'footnote', text: `[${label}] ${normalizeSpace(convert(note))}`, label, noteKind: 'footnote' });
+        });
+    });
+    if (!referencesPlaced && (citedKeys.length > 0 || citeAll) && bib.size > 0) {
+        blocks.push({ kind: 'heading', text: 'References', level: 1 });
+        blocks.push(...referenceBlocks());
+    }
+
+    // Title, authors and affiliations as \maketitle would print them.
+    const metadata: DocumentMetadata = { creators: [], identifiers: [], subjects: [] };
+    const text = (raw: string) => normalizeSpace(convert(raw));
+    if (rawTitle) metadata.title = text(rawTitle);
+    metadata.creators = creators.map(({ marks, ...creator }) => {
+        const affiliations = [...(creator.affiliations || []), ...marks.map(mark => markedAffiliations.get(mark)).filter((a): a is string => !!a)];
+        const result: DocumentCreator = { ...creator, name: text(creator.name) };
+        if (affiliations.length > 0) result.affiliations = affiliations.map(text);
+        if (creator.email) result.email = text(creator.email);
+        return result;
+    });
+    if (abstractRaw) metadata.description = text(abstractRaw);
+    if (rawKeywords) metadata.subjects = text(rawKeywords.replace(/\\sep(?![a-zA-Z@])/g, ',')).split(/\s*[,;·]\s*/).filter(Boolean);
+    if (metadata.subjects.length > 0) {
+        // After the abstract, where most classes print them.
+        const abstractIndex = blocks.findIndex(block => block.kind === 'heading' && block.text === 'Abstract');
+        const nextHeading = abstractIndex < 0 ? -1 : blocks.findIndex((block, index) => index > abstractIndex && block.kind === 'heading');
+        blocks.splice(abstractIndex < 0 ? 0 : nextHeading < 0 ? blocks.length : nextHeading, 0, { kind: 'paragraph', text: `Keywords: ${metadata.subjects.join('; ')}` });
+    }
+    blocks.unshift(...frontMatterBlocks(metadata));
+
+    const model = assembleDocument(fileName, 'latex', paginateByWords(blocks), true);
+    model.metadata = metadata;
+    model.references = referenceLines.map((line): DocumentReference => {
+        const paragraph = model.paragraphs.find(p => p.text === `[${line.key}] ${line.text}`);
+        return { key: line.key, text: line.text, page: paragraph?.page ?? 0, start: paragraph?.start ?? 0, end: paragraph?.end ?? 0 };
+    });
+
+    const missingKeys = citedKeys.filter(key => hasBibItems ? !bibItems.some(item => item.key === key) : !bib.has(key));
+    if (citedKeys.length > 0 && !hasBibItems && bib.size === 0) warnings.push('The manuscript cites references but no .bib file was found.');
+    else if (missingKeys.length > 0) warnings.push(`Citation key(s) not found in the bibliography: ${missingKeys.join(', ')}.`);
+    if (undefinedLabels.size > 0) warnings.push(`Cross-reference label(s) never defined: ${Array.from(undefinedLabels).join(', ')}.`);
+    model.warnings = warnings;
+    return model;
+}
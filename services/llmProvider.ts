@@ -0,0 +1,198 @@
+
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { TokenUsage } from '../types';
+
+// --- Provider Interface ---
+
+export interface LlmInlineData {
+    mimeType: string;
+    data: string; // base64, no data: prefix
+}
+
+export interface LlmRequest {
+    model: string;
+    prompt: string;
+    inlineData?: LlmInlineData[];
+    responseSchema?: any;
+}
+
+export interface LlmResponse {
+    text: string;
+    usage: TokenUsage;
+}
+
+export interface LlmModelOption {
+    id: string;
+    label: string;
+    providerId: string;
+    isPro: boolean; // Gated behind User.canUseProModel
+}
+
+export interface LlmProvider {
+    id: string;
+    name: string;
+    models: LlmModelOption[];
+    generateContent(request: LlmRequest): Promise<LlmResponse>;
+}
+
+// Errors carry an HTTP-like status so apiCallWithRetry can back off on 429/503 regardless of provider.
+export class LlmProviderError extends Error {
+    status?: number;
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'LlmProviderError';
+        this.status = status;
+    }
+}
+
+// --- Gemini Adapter ---
+
+const createGeminiProvider = (): LlmProvider => {
+    let client: GoogleGenAI | null = null;
+    const getClient = () => {
+        if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        return client;
+    };
+
+    return {
+        id: 'gemini',
+        name: 'Google Gemini',
+        models: [
+            { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', providerId: 'gemini', isPro: false },
+            { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro (Preview)', providerId: 'gemini', isPro: true },
+        ],
+        async generateContent({ model, prompt, inlineData, responseSchema }) {
+            const contents = inlineData && inlineData.length > 0
+                ? { parts: [...inlineData.map(d => ({ inlineData: d })), { text: prompt }] }
+                : prompt;
+
+            const response: GenerateContentResponse = await getClient().models.generateContent({
+                model,
+                contents,
+                config: responseSchema ? { responseMimeType: 'application/json', responseSchema } : undefined,
+            });
+
+            return {
+                text: response.text || '',
+                usage: {
+                    promptTokens: response.usageMetadata?.promptTokenCount || 0,
+                    responseTokens: response.usageMetadata?.candidatesTokenCount || 0,
+                },
+            };
+        },
+    };
+};
+
+// --- Local Adapter (OpenAI-compatible HTTP endpoint, or offline mock) ---
+
+const LOCAL_MODEL_ID = 'local-llm';
+
+const schemaTypeOf = (schema: any): string => String(schema?.type || '').toUpperCase();
+
+// Builds a deterministic placeholder value that satisfies the given response schema.
+const mockValueFromSchema = (schema: any, name = 'value'): any => {
+    switch (schemaTypeOf(schema)) {
+        case 'OBJECT': {
+            const result: Record<string, any> = {};
+            Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+                result[key] = mockValueFromSchema(propSchema, key);
+            });
+            return result;
+        }
+        case 'ARRAY':
+            return [mockValueFromSchema(schema.items, name)];
+        case 'NUMBER':
+        case 'INTEGER':
+            return 0;
+        case 'BOOLEAN':
+            return false;
+        case 'STRING':
+            return schema.enum?.length ? schema.enum[0] : `[mock ${name}]`;
+        default:
+            return null;
+    }
+};
+
+// Rough heuristic used when the endpoint does not report usage (~4 characters per token).
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const createLocalProvider = (): LlmProvider => {
+    const baseUrl = (process.env.LOCAL_LLM_URL || '').replace(/\/+$/, '');
+    const remoteModel = process.env.LOCAL_LLM_MODEL || 'default';
+    const isMock = !baseUrl;
+
+    return {
+        id: 'local',
+        name: isMock ? 'Local Mock' : 'Local LLM',
+        models: [
+            { id: LOCAL_MODEL_ID, label: isMock ? 'Local Mock (offline)' : `Local LLM (${remoteModel})`, providerId: 'local', isPro: false },
+        ],
+        async generateContent({ prompt, inlineData, responseSchema }) {
+            if (isMock) {
+                const text = responseSchema ? JSON.stringify(mockValueFromSchema(responseSchema)) : '[mock response]';
+                return { text, usage: { promptTokens: estimateTokens(prompt), responseTokens: estimateTokens(text) } };
+            }
+
+            const instruction = responseSchema
+                ? `${prompt}\n\nRespond ONLY with JSON matching this schema:\n${JSON.stringify(responseSchema)}`
+                : prompt;
+            const content = [
+                { type: 'text', text: instruction },
+                ...(inlineData || []).map(d => ({ type: 'image_url', image_url: { url: `data:${d.mimeType};base64,${d.data}` } })),
+            ];
+
+            const res = await fetch(`${baseUrl}/v1/chat/completions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model: remoteModel,
+                    messages: [{ role: 'user', content }],
+                    ...(responseSchema ? { response_format: { type: 'json_object' } } : {}),
+                }),
+            });
+            if (!res.ok) {
+                throw new LlmProviderError(`Local LLM request failed: ${res.status} ${res.statusText}`, res.status);
+            }
+            const json = await res.json();
+            const text: string = json.choices?.[0]?.message?.content || '';
+            return {
+                text,
+                usage: {
+                    promptTokens: json.usage?.prompt_tokens ?? estimateTokens(instruction),
+                    responseTokens: json.usage?.completion_tokens ?? estimateTokens(text),
+                },
+            };
+        },
+    };
+};
+
+// --- Registry ---
+
+const providers: LlmProvider[] = [createGeminiProvider(), createLocalProvider()];
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_PRO_MODEL = 'gemini-3-pro-preview';
+
+export function registerProvider(provider: LlmProvider) {
+    const existing = providers.findIndex(p => p.id === provider.id);
+    if (existing >= 0) providers[existing] = provider;
+    else providers.push(provider);
+}
+
+export function getProviderForModel(modelId: string): LlmProvider {
+    const provider = providers.find(p => p.models.some(m => m.id === modelId));
+    if (!provider) throw new LlmProviderError(`No LLM provider registered for model "${modelId}".`);
+    return provider;
+}
+
+export function listAvailableModels(canUseProModel = false): LlmModelOption[] {
+    return providers.flatMap(p => p.models).filter(m => canUseProModel || !m.isPro);
+}
+
+export function getDefaultModel(canUseProModel = false): string {
+    return canUseProModel ? DEFAULT_PRO_MODEL : DEFAULT_MODEL;
+}
+
+export function generateContent(request: LlmRequest): Promise<LlmResponse> {
+    return getProviderForModel(request.model).generateContent(request);
+}
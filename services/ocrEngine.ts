@@ -0,0 +1,40 @@
+
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishData from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+// In-browser OCR for pages without a text layer (scans, image-only PDFs). The Tesseract worker, its WebAssembly core
+// and the English model are bundled with the app, so recognition never leaves the machine or needs a network.
+
+export const LOW_OCR_CONFIDENCE = 70; // Mean word confidence (0-100) below which OCR text is unreliable
+
+export interface OcrResult {
+    paragraphs: string[];
+    confidence: number; // Mean word confidence, 0-100
+}
+
+export interface OcrEngine {
+    recognize: (image: HTMLCanvasElement | OffscreenCanvas) => Promise<OcrResult>;
+    terminate: () => Promise<void>;
+}
+
+// Starting a worker loads roughly 10 MB of model and WebAssembly, so callers create one per document and only
+// once a page actually needs OCR.
+export async function createOcrEngine(): Promise<OcrEngine> {
+    const worker: Worker = await createWorker('eng', OEM.LSTM_ONLY, {
+        workerPath,
+        corePath,
+        langPath: englishData.slice(0, englishData.lastIndexOf('/')), // The build keeps eng.traineddata.gz unhashed (vite.config.ts)
+        workerBlobURL: false, // Load the bundled worker script directly instead of via a blob that imports it
+        cacheMethod: 'none', // The model ships with the app; don't keep a second copy in IndexedDB
+    });
+    return {
+        recognize: async (image) => {
+            const { data: page } = await worker.recognize(image);
+            const paragraphs = page.text.split(/\n\s*\n/).map(p => p.replace(/-\n(?=\p{Ll})/gu, '').replace(/\s+/g, ' ').trim()).filter(Boolean);
+            return { paragraphs, confidence: Math.round(page.confidence) };
+        },
+        terminate: async () => { await worker.terminate(); },
+    };
+}
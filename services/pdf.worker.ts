@@ -0,0 +1,13 @@
+
+import { PdfTask, runPdfTask } from './pdfProcessing';
+
+// Module worker that runs PDF tasks for services/pdfWorkerClient.ts. Replies carry the request id and either a
+// result or an error message.
+self.onmessage = async (event: MessageEvent<{ id: number, task: PdfTask }>) => {
+    const { id, task } = event.data;
+    try {
+        self.postMessage({ id, result: await runPdfTask(task) });
+    } catch (error) {
+        self.postMessage({ id, error: error instanceof Error ? error.message : 'Unknown PDF processing error' });
+    }
+};
@@ -0,0 +1,257 @@
+
+import { RawBlock } from './documentModel';
+import { normalizeSpace } from './xml';
+
+// Rebuilds reading order from the positions pdf.js reports for each text item, instead of trusting content-stream order:
+// items are grouped into lines by baseline, lines are split at wide gaps into segments, column gutters are found where
+// no segment crosses, and each band between full-width lines is read column by column. Running heads, footers, page
+// numbers and margin line numbers are dropped, and lines are joined into paragraphs with hyphenation undone.
+// Nothing here touches the DOM, so it can run wherever the text content was extracted.
+
+const SPACE_GAP = 0.15; // Horizontal gap, in font sizes, that separates two words
+const SEGMENT_GAP = 1.5; // Wider gaps split a line into separate segments (columns, table cells)
+const MIN_GUTTER = 0.8; // Narrowest column gutter, in body font sizes
+const NARROW_SEGMENT = 0.55; // Segments narrower than this share of the text width can belong to a column
+const MARGIN_ZONE = 0.1; // Share of the page height at the top and bottom searched for running heads and footers
+const EDGE_LINES = 3; // Lines at each edge of a page considered as running heads or footers
+const MIN_LINE_NUMBERS = 5; // Numbers stacked in the margin only count as line numbering from this many
+const SIZE_CHANGE = 0.08; // Relative font size difference that starts a new block (mixed CJK/Latin fonts differ by less)
+
+interface Segment {
+    text: string;
+    x: number;
+    right: number;
+    y: number; // Baseline, increasing up the page
+    size: number;
+}
+
+export interface LayoutLine extends Segment {
+    column: number; // -1 for lines that span a column gutter
+}
+
+export interface PdfPageLayout {
+    lines: LayoutLine[]; // In reading order
+    top: number;
+    bottom: number;
+}
+
+// Text in rotated frames (landscape tables, side stamps) is read in the page's dominant direction; items at other
+// angles, such as diagonal watermarks or a vertical arXiv stamp beside horizontal text, are dropped.
+function orientedSegments(items: any[], view: number[]): { rows: Segment[][], top: number, bottom: number } {
+    const textItems = items.filter(item => 'str' in item && item.str.trim() && item.transform);
+    const quadrant = (t: number[]) => {
+        const angle = Math.atan2(t[1], t[0]) / (Math.PI / 2);
+        return Math.abs(angle - Math.round(angle)) < 0.05 ? ((Math.round(angle) % 4) + 4) % 4 : -1;
+    };
+    const weights = [0, 0, 0, 0];
+    textItems.forEach(item => { const q = quadrant(item.transform); if (q >= 0) weights[q] += item.str.length; });
+    const dominant = weights.indexOf(Math.max(...weights));
+    const cos = Math.round(Math.cos(dominant * Math.PI / 2));
+    const sin = Math.round(Math.sin(dominant * Math.PI / 2));
+    const rotate = (x: number, y: number) => ({ x: x * cos + y * sin, y: -x * sin + y * cos });
+
+    const corners = [rotate(view[0], view[1]), rotate(view[2], view[3])];
+    const glyphs = textItems.filter(item => quadrant(item.transform) === dominant).map(item => {
+        const t: number[] = item.transform;
+        const { x, y } = rotate(t[4], t[5]);
+        const size = Math.hypot(t[2], t[3]) || item.height || 1;
+        return { text: item.str as string, x, right: x + (item.width || 0), y, size };
+    }).sort((a, b) => b.y - a.y || a.x - b.x);
+
+    // Rows share a baseline (superscripts ride up to half a font size above it).
+    const rows: Segment[][] = [];
+    let row: typeof glyphs = [];
+    const flushRow = () => {
+        if (row.length === 0) return;
+        const sorted = row.sort((a, b) => a.x - b.x);
+        const segments: Segment[] = [];
+        sorted.forEach(glyph => {
+            const last = segments[segments.length - 1];
+            const gap = last ? glyph.x - last.right : Infinity;
+            if (!last || gap > SEGMENT_GAP * Math.max(glyph.size, last.size)) {
+                segments.push({ ...glyph });
+                return;
+            }
+            const needsSpace = gap > SPACE_GAP * glyph.size && !/\s$/.test(last.text) && !/^\s/.test(glyph.text);
+            last.text += (needsSpace ? ' ' : '') + glyph.text;
+            last.right = Math.max(last.right, glyph.right);
+            if (glyph.text.trim().length > 2 || glyph.size > last.size) last.size = Math.max(last.size, glyph.size);
+            last.y = Math.min(last.y, glyph.y); // The lowest baseline is the line's own; higher ones are superscripts
+        });
+        rows.push(segments.map(segment => ({ ...segment, text: normalizeSpace(segment.text) })));
+        row = [];
+    };
+    glyphs.forEach(glyph => {
+        if (row.length > 0 && Math.abs(row[0].y - glyph.y) > Math.max(row[0].size, glyph.size) * 0.5) flushRow();
+        row.push(glyph);
+    });
+    flushRow();
+    return { rows, top: Math.max(corners[0].y, corners[1].y), bottom: Math.min(corners[0].y, corners[1].y) };
+}
+
+const isLineNumber = (text: string) => /^\d{1,4}$/.test(text);
+
+// Manuscript line numbering: bare numbers stacked outside the horizontal extent of the text.
+function dropLineNumbers(segments: Segment[]): Segment[] {
+    const numbers = segments.filter(s => isLineNumber(s.text));
+    const text = segments.filter(s => !isLineNumber(s.text));
+    if (numbers.length < MIN_LINE_NUMBERS || text.length === 0) return segments;
+    const left = Math.min(...text.map(s => s.x));
+    const right = Math.max(...text.map(s => s.right));
+    return segments.filter(s => !isLineNumber(s.text) || (s.right > left && s.x < right));
+}
+
+// Column gutters are vertical strips that narrow segments never cover. A strip only counts if at most half the text
+// crosses it and both sides carry a real share of it, which keeps table columns from being read as page columns.
+// Callers leave out the top and bottom margins, where a centered page number would otherwise fill the gutter.
+function findGutters(segments: Segment[], bodySize: number): [number, number][] {
+    if (segments.length === 0) return [];
+    const left = Math.min(...segments.map(s => s.x));
+    const right = Math.max(...segments.map(s => s.right));
+    const narrow = segments.filter(s => s.right - s.x < (right - left) * NARROW_SEGMENT).sort((a, b) => a.x - b.x);
+    const candidates: [number, number][] = [];
+    let coveredTo = -Infinity;
+    narrow.forEach(s => {
+        if (coveredTo > -Infinity && s.x - coveredTo >= bodySize * MIN_GUTTER) candidates.push([coveredTo, s.x]);
+        coveredTo = Math.max(coveredTo, s.right);
+    });
+    const total = segments.reduce((sum, s) => sum + s.text.length, 0);
+    const chars = (filter: (s: Segment) => boolean) => segments.filter(filter).reduce((sum, s) => sum + s.text.length, 0);
+    return candidates.filter(([start, end]) =>
+        chars(s => s.x < end && s.right > start) <= total * 0.5
+        && chars(s => s.right <= start) >= total * 0.15
+        && chars(s => s.x >= end) >= total * 0.15);
+}
+
+const bodySizeOf = (segments: Segment[]) => {
+    const weights = new Map<number, number>();
+    segments.forEach(s => weights.set(Math.round(s.size), (weights.get(Math.round(s.size)) || 0) + s.text.length));
+    return Array.from(weights.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || 1;
+};
+
+export function layoutPage(items: any[], view: number[]): PdfPageLayout {
+    const { rows, top, bottom } = orientedSegments(items, view);
+    const segments = dropLineNumbers(rows.flat()).filter(s => s.text);
+    const zone = (top - bottom) * MARGIN_ZONE;
+    const gutters = findGutters(segments.filter(s => s.y < top - zone && s.y > bottom + zone), bodySizeOf(segments));
+    const columnOf = (s: Segment) => gutters.some(([start, end]) => s.x < end && s.right > start) ? -1 : gutters.filter(([, end]) => end <= s.x).length;
+
+    // Bands run between lines that span a gutter; within a band each column is read top to bottom before the next.
+    const lines: LayoutLine[] = [];
+    let band: LayoutLine[] = [];
+    const flushBand = () => {
+        lines.push(...band.sort((a, b) => a.column - b.column || b.y - a.y || a.x - b.x));
+        band = [];
+    };
+    segments.sort((a, b) => b.y - a.y || a.x - b.x).forEach(s => {
+        const line = { ...s, column: columnOf(s) };
+        if (line.column === -1) {
+            flushBand();
+            lines.push(line);
+        } else {
+            band.push(line);
+        }
+    });
+    flushBand();
+
+    // Segments of one row within the same column (table cells, tab stops) are read as one line.
+    const merged: LayoutLine[] = [];
+    lines.forEach(line => {
+        const last = merged[merged.length - 1];
+        if (last && last.column === line.column && Math.abs(last.y - line.y) < Math.max(last.size, line.size) * 0.5 && line.x >= last.right) {
+            merged[merged.length - 1] = { ...last, text: `${last.text} ${line.text}`, right: line.right, size: Math.max(last.size, line.size) };
+        } else {
+            merged.push(line);
+        }
+    });
+    return { lines: merged, top, bottom };
+}
+
+// Arabic numbers, or well-formed roman numerals in one case, so margin words such as "civil" or "Ill" are kept. A lone
+// "I" is more likely the pronoun than page one.
+const ROMAN_NUMERAL = /^(?=.)(?:c{0,3}(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3})|C{0,3}(?:XC|XL|L?X{0,3})(?:IX|IV|V?I{0,3}))$/;
+
+const isPageNumber = (text: string) => {
+    const match = text.match(/^(?:page\s+)?(\S+?)(?:\s*(?:of|\/)\s*\d+)?$/i);
+    return (!!match && text !== 'I' && (/^\d+$/.test(match[1]) || ROMAN_NUMERAL.test(match[1]))) || /^[-–—]\s*\d+\s*[-–—]$/.test(text);
+};
+
+// Page-independent form of a margin line: running heads differ only in page numbers from page to page.
+const marginKey = (text: string) => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+// Removes running heads and footers (lines repeated in the top or bottom margin of many pages) and page numbers.
+export function removeRunningHeadsAndFooters(pages: PdfPageLayout[]): void {
+    const marginLines = (page: PdfPageLayout) => {
+        const zone = (page.top - page.bottom) * MARGIN_ZONE;
+        const byHeight = [...page.lines].sort((a, b) => b.y - a.y);
+        return new Set([
+            ...byHeight.slice(0, EDGE_LINES).filter(line => line.y >= page.top - zone),
+            ...byHeight.slice(-EDGE_LINES).filter(line => line.y <= page.bottom + zone),
+        ]);
+    };
+    const margins = pages.map(marginLines);
+    const pageCounts = new Map<string, number>();
+    margins.forEach(lines => new Set(Array.from(lines).map(line => marginKey(line.text))).forEach(key => pageCounts.set(key, (pageCounts.get(key) || 0) + 1)));
+    const threshold = Math.max(3, Math.ceil(pages.length * 0.3));
+    pages.forEach((page, index) => {
+        page.lines = page.lines.filter(line => !margins[index].has(line) || !(isPageNumber(line.text) || (pageCounts.get(marginKey(line.text)) || 0) >= threshold));
+    });
+}
+
+const SENTENCE_END = /[.!?:"”)。．！？」』）]$/;
+const CJK_END = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff01-\uff60]$/u;
+const CJK_START = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff01-\uff60]/u;
+
+// Joins wrapped lines, undoing end-of-line hyphenation when the word continues in lower case. Chinese and Japanese
+// lines wrap mid-word without a space.
+function joinLines(lines: LayoutLine[]): string {
+    return lines.reduce((text, line) => {
+        if (!text) return line.text;
+        if (CJK_END.test(text) && CJK_START.test(line.text)) return text + line.text;
+        if (/\u00ad$/.test(text)) return text.slice(0, -1) + line.text;
+        if (/\p{L}-$/u.test(text) && /^\p{Ll}/u.test(line.text)) return text.slice(0, -1) + line.text;
+        return `${text} ${line.text}`;
+    }, '');
+}
+
+const LIST_MARKER = /^([•▪◦●■‣∙·–-]|\(?\d{1,2}[.)]|\([a-z]\))\s/;
+
+// Groups the page's lines into paragraphs at gaps wider than the usual leading, changes of font size, list markers and
+// short lines that end a sentence. A paragraph continues into the next column when its last line is unfinished.
+// Larger-than-body short groups become headings; small numbered groups near the bottom of the page become footnotes.
+export function layoutBlocks(page: PdfPageLayout): RawBlock[] {
+    const { lines } = page;
+    if (lines.length === 0) return [];
+    const bodySize = bodySizeOf(lines);
+    const columnRight = new Map<number, number>();
+    lines.forEach(line => columnRight.set(line.column, Math.max(columnRight.get(line.column) ?? -Infinity, line.right)));
+    const gaps = lines.slice(1).map((line, i) => lines[i].column === line.column ? lines[i].y - line.y : 0).filter(gap => gap > 0 && gap < bodySize * 3).sort((a, b) => a - b);
+    const leading = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : bodySize * 1.2;
+
+    const groups: LayoutLine[][] = [];
+    lines.forEach((line, index) => {
+        const previous = lines[index - 1];
+        const unfinished = previous && !SENTENCE_END.test(previous.text) && /^\p{Ll}/u.test(line.text);
+        const startsNew = !previous
+            || (previous.column !== line.column && !unfinished)
+            || Math.abs(line.size - previous.size) > Math.max(line.size, previous.size) * SIZE_CHANGE
+            || (previous.column === line.column && (previous.y - line.y <= 0 || previous.y - line.y > leading * 1.6))
+            || LIST_MARKER.test(line.text)
+            || (previous.right < (columnRight.get(previous.column) ?? previous.right) - previous.size * 2 && SENTENCE_END.test(previous.text));
+        if (startsNew) groups.push([line]); else groups[groups.length - 1].push(line);
+    });
+
+    const height = page.top - page.bottom || 1;
+    return groups.map((group): RawBlock => {
+        const text = joinLines(group);
+        const size = group[0].size;
+        const footnoteMarker = text.match(/^(\d{1,3}|[*†‡§])\s*(?=\S)/);
+        if (group.length <= 2 && size >= bodySize * 1.15 && text.length <= 150 && !/[.;,]$/.test(text)) {
+            return { kind: 'heading', text, level: size >= bodySize * 1.5 ? 1 : 2 };
+        }
+        if (footnoteMarker && size < bodySize * 0.95 && group[0].y - page.bottom < height * 0.25) {
+            return { kind: 'footnote', text, label: footnoteMarker[1] };
+        }
+        return { kind: 'paragraph', text };
+    });
+}
@@ -0,0 +1,151 @@
+
+import { PDFPageProxy, TextItem, TextMarkedContent, pdfjsLib } from './pdfjs';
+import { RawBlock } from './documentModel';
+import { OcrEngine, createOcrEngine } from './ocrEngine';
+import { PdfPageLayout, layoutBlocks, layoutPage, removeRunningHeadsAndFooters } from './pdfLayout';
+
+// The heavy PDF work: text extraction with layout analysis, OCR of scanned pages, and rasterizing pages to images.
+// It runs inside services/pdf.worker.ts (see pdfWorkerClient.ts), so it only draws on OffscreenCanvas and never
+// touches the DOM; the same code runs on the main thread only when workers are unavailable.
+
+export interface PdfExtraction {
+    pages: RawBlock[][];
+    ocrConfidence: [number, number][]; // [page, mean word confidence] for pages read by OCR
+}
+
+export type PdfTask =
+    | { type: 'extractText', data: ArrayBuffer }
+    | { type: 'open', data: ArrayBuffer }
+    | { type: 'render', documentId: number, page: number, scale: number, mimeType: string, quality?: number }
+    | { type: 'close', documentId: number };
+
+// A page with less text than this but with images painted on it is treated as scanned.
+const MIN_TEXT_LAYER_CHARS = 20;
+const OCR_RENDER_SCALE = 2.5; // About 180 dpi, enough for body text without huge canvases
+
+const IMAGE_OPS = new Set([pdfjsLib.OPS.paintImageXObject, pdfjsLib.OPS.paintInlineImageXObject, pdfjsLib.OPS.paintImageMaskXObject, pdfjsLib.OPS.paintImageXObjectRepeat]);
+
+// pdf.js creates scratch canvases through this factory; its default one calls document.createElement.
+class OffscreenCanvasFactory {
+    create(width: number, height: number) {
+        const canvas = new OffscreenCanvas(width, height);
+        return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+    }
+    reset(canvasAndContext: any, width: number, height: number) {
+        canvasAndContext.canvas.width = width;
+        canvasAndContext.canvas.height = height;
+    }
+    destroy(canvasAndContext: any) {
+        canvasAndContext.canvas.width = canvasAndContext.canvas.height = 0;
+        canvasAndContext.canvas = null;
+        canvasAndContext.context = null;
+    }
+}
+
+// SVG filters (transfer functions, high-contrast mode) need a DOM, so pages render without them.
+const NO_FILTERS = {
+    addFilter: () => 'none',
+    addHCMFilter: () => 'none',
+    addAlphaFilter: () => 'none',
+    addLuminosityFilter: () => 'none',
+    addHighlightHCMFilter: () => 'none',
+    destroy: () => {},
+};
+
+// Fonts are drawn as paths (disableFontFace) because FontFace loading needs document.fonts.
+const loadPdf = (data: ArrayBuffer) => pdfjsLib.getDocument({
+    data: new Uint8Array(data),
+    canvasFactory: new OffscreenCanvasFactory(),
+    filterFactory: NO_FILTERS,
+    disableFontFace: true,
+}).promise;
+
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function renderPage(page: PDFPageProxy, scale: number): Promise<OffscreenCanvas> {
+    const viewport = page.getViewport({ scale });
+    const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not create a canvas to render the page.');
+    // pdf.js types ask for a DOM canvas context; the offscreen one has every method it draws with.
+    await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+    return canvas;
+}
+
+async function isScannedPage(page: PDFPageProxy, items: (TextItem | TextMarkedContent)[]): Promise<boolean> {
+    const textLength = items.reduce((total, item) => total + ('str' in item ? item.str.replace(/\s/g, '').length : 0), 0);
+    if (textLength >= MIN_TEXT_LAYER_CHARS) return false;
+    const operators = await page.getOperatorList();
+    return operators.fnArray.some(op => IMAGE_OPS.has(op));
+}
+
+async function ocrPage(page: PDFPageProxy, ocr: OcrEngine) {
+    const canvas = await renderPage(page, OCR_RENDER_SCALE);
+    try {
+        return await ocr.recognize(canvas);
+    } finally {
+        canvas.width = canvas.height = 0; // Release the bitmap before the next page
+    }
+}
+
+async function extractText(data: ArrayBuffer): Promise<PdfExtraction> {
+    const pdf = await loadPdf(data);
+    // Each page is either laid out from its text layer or, when scanned, already reduced to OCR paragraphs.
+    const pages: (PdfPageLayout | RawBlock[])[] = [];
+    const ocrConfidence: [number, number][] = [];
+    let ocr: OcrEngine | null = null;
+    try {
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const textContent = await page.getTextContent();
+            if (await isScannedPage(page, textContent.items)) {
+                ocr = ocr || await createOcrEngine();
+                const result = await ocrPage(page, ocr);
+                pages.push(result.paragraphs.map((text): RawBlock => ({ kind: 'paragraph', text })));
+                ocrConfidence.push([i, result.confidence]);
+            } else {
+                pages.push(layoutPage(textContent.items, page.view));
+            }
+            page.cleanup();
+
+            // Keeps the UI responsive when this runs on the main thread (no worker support)
+            if (i % 20 === 0) await yieldToEventLoop();
+        }
+    } finally {
+        await ocr?.terminate();
+        await pdf.destroy();
+    }
+
+    // Running heads and footers are only recognizable across pages, so blocks are built once every page is laid out.
+    removeRunningHeadsAndFooters(pages.filter((page): page is PdfPageLayout => !Array.isArray(page)));
+    return { pages: pages.map(page => Array.isArray(page) ? page : layoutBlocks(page)), ocrConfidence };
+}
+
+// Documents opened for page rendering stay loaded until closed, so a page loop parses the file only once.
+const openDocuments = new Map<number, any>();
+let nextDocumentId = 1;
+
+export async function runPdfTask(task: PdfTask): Promise<unknown> {
+    switch (task.type) {
+        case 'extractText':
+            return extractText(task.data);
+        case 'open': {
+            const pdf = await loadPdf(task.data);
+            const documentId = nextDocumentId++;
+            openDocuments.set(documentId, pdf);
+            return { documentId, numPages: pdf.numPages };
+        }
+        case 'render': {
+            const pdf = openDocuments.get(task.documentId);
+            if (!pdf) throw new Error('The PDF is no longer open for rendering.');
+            const page = await pdf.getPage(task.page);
+            const canvas = await renderPage(page, task.scale);
+            page.cleanup();
+            return canvas.convertToBlob({ type: task.mimeType, quality: task.quality });
+        }
+        case 'close':
+            await openDocuments.get(task.documentId)?.destroy();
+            openDocuments.delete(task.documentId);
+            return undefined;
+    }
+}
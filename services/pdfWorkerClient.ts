@@ -0,0 +1,83 @@
+
+import { PdfExtraction, PdfTask, runPdfTask } from './pdfProcessing';
+
+// Main-thread side of services/pdf.worker.ts. One worker is started on first use and shared by every tool. If it
+// cannot start (no module worker support, blocked by policy), tasks run inline through the same pdfProcessing code.
+
+interface PendingTask {
+    task: PdfTask;
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+}
+
+let worker: Worker | null | undefined; // undefined until first use, null once known to be unavailable
+const pending = new Map<number, PendingTask>();
+let nextRequestId = 1;
+
+const runInline = ({ task, resolve, reject }: PendingTask) => {
+    runPdfTask(task).then(resolve, error => reject(error instanceof Error ? error : new Error(String(error))));
+};
+
+function getWorker(): Worker | null {
+    if (worker !== undefined) return worker;
+    try {
+        worker = new Worker(new URL('./pdf.worker.ts', import.meta.url), { type: 'module' });
+    } catch {
+        worker = null;
+        return worker;
+    }
+    worker.onmessage = (event: MessageEvent<{ id: number, result?: unknown, error?: string }>) => {
+        const request = pending.get(event.data.id);
+        if (!request) return;
+        pending.delete(event.data.id);
+        if (event.data.error !== undefined) request.reject(new Error(event.data.error)); else request.resolve(event.data.result);
+    };
+    // The script failed to load or crashed outside a task: finish what was queued inline and stop using the worker.
+    worker.onerror = (event) => {
+        event.preventDefault();
+        worker?.terminate();
+        worker = null;
+        const queued = Array.from(pending.values());
+        pending.clear();
+        queued.forEach(runInline);
+    };
+    return worker;
+}
+
+function run<T>(task: PdfTask): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const target = getWorker();
+        if (!target) {
+            runInline({ task, resolve, reject });
+            return;
+        }
+        const id = nextRequestId++;
+        pending.set(id, { task, resolve, reject });
+        target.postMessage({ id, task }); // The buffer is copied, not transferred, so an inline retry can still read it
+    });
+}
+
+export const extractPdfText = (data: ArrayBuffer) => run<PdfExtraction>({ type: 'extractText', data });
+
+export interface PdfRenderer {
+    numPages: number;
+    renderPage: (page: number, options: { scale: number, mimeType: string, quality?: number }) => Promise<Blob>;
+    close: () => Promise<void>;
+}
+
+// Opens a PDF for rasterizing pages off the main thread; call close() when done to free the parsed document.
+export async function openPdfRenderer(data: ArrayBuffer): Promise<PdfRenderer> {
+    const { documentId, numPages } = await run<{ documentId: number, numPages: number }>({ type: 'open', data });
+    return {
+        numPages,
+        renderPage: (page, options) => run<Blob>({ type: 'render', documentId, page, ...options }),
+        close: () => run<void>({ type: 'close', documentId }),
+    };
+}
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error('Could not read the rendered page.'));
+    reader.readAsDataURL(blob);
+});
@@ -0,0 +1,11 @@
+
+import * as pdfjsLib from 'pdfjs-dist';
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// The one place pdf.js is configured; import pdfjsLib from here, never from 'pdfjs-dist' directly. The worker script is
+// served from the app bundle out of the installed pdfjs-dist, so it always matches the API version and needs no CDN.
+pdfjsLib.GlobalWorkerOptions.workerSrc = workerSrc;
+
+export { pdfjsLib };
+export type { PDFPageProxy } from 'pdfjs-dist';
+export type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
@@ -0,0 +1,99 @@
+import { AnalysisCoverage, ComplianceProfile, ManuscriptFile, PromptVersionMap, StageState } from '../types';
+import { AnalysisOptions } from './aiService';
+import { listAvailableModels } from './llmProvider';
+
+// The stages of the journal and book pipelines. The compliance profile decides which stages run, with which model
+// and limits. Each stage's state is kept on the manuscript so that a single stage can be re-run, added or skipped
+// later; a run only replaces the results of the stages it ran.
+
+export interface PipelineStage {
+    id: string;
+    label: string; // Also the stage name in usage logs, coverage and cached-stage lists
+    fields: (keyof ManuscriptFile)[]; // The results the stage produces
+    ownsKey?: (key: string) => boolean; // Coverage keys of stages that record one entry per variant
+}
+
+export const JOURNAL_STAGES: PipelineStage[] = [
+    { id: 'compliance', label: 'Compliance Check', fields: ['complianceReport', 'ruleCoverage', 'journalRecommendations'] },
+    { id: 'analysis', label: 'Manuscript Analysis', fields: ['analysisReport'] },
+    { id: 'scoring', label: 'Scoring', fields: ['scores'] },
+    { id: 'metadata', label: 'Metadata Analysis', fields: ['metadataAnalysisReport'] },
+    { id: 'peerReview', label: 'Peer Review', fields: ['peerReviewSimulation'] },
+    { id: 'editorial', label: 'Editorial Assistant', fields: ['editorialReport'] },
+    { id: 'integrity', label: 'Integrity Check', fields: ['integrityReport'] },
+    { id: 'checklists', label: 'Reporting Checklists', fields: ['reportingChecklists'], ownsKey: key => key.endsWith(' Checklist') },
+];
+
+export const BOOK_STAGES: PipelineStage[] = [
+    { id: 'compliance', label: 'Compliance Check', fields: ['complianceReport', 'ruleCoverage'] },
+    { id: 'structure', label: 'Structural Analysis', fields: ['structuralReport'] },
+    { id: 'readability', label: 'Readability', fields: ['readabilityReport'] },
+    { id: 'metadata', label: 'Metadata & TOC Validation', fields: ['bookMetadataReport'] },
+    { id: 'visuals', label: 'Visual Assets', fields: ['visualAssetReport'] },
+    { id: 'editorial', label: 'Editorial Check', fields: ['bookEditorialReport'] },
+];
+
+// A queued run: every stage that is not skipped, or only the listed ones.
+export interface ProcessingJob {
+    manuscriptId: string;
+    stageIds?: string[];
+}
+
+const ownsKey = (stage: PipelineStage, key: string) => key === stage.label || !!stage.ownsKey?.(key);
+
+export const isStageEnabled = (profile: ComplianceProfile | undefined, stage: PipelineStage) => profile?.stages?.[stage.id]?.enabled !== false;
+
+export function stagesToRun(stages: PipelineStage[], manuscript: ManuscriptFile, profile: ComplianceProfile, requested?: string[]): PipelineStage[] {
+    const enabled = stages.filter(stage => isStageEnabled(profile, stage));
+    if (requested) return enabled.filter(stage => requested.includes(stage.id));
+    return enabled.filter(stage => manuscript.stages?.[stage.id]?.status !== 'skipped');
+}
+
+export interface StageSettings {
+    model: string;
+    options: AnalysisOptions;
+    cacheVariant: (variant?: string) => string | undefined; // Results cached under other limits are not reused
+    rejectedModel?: string; // The profile's model for the stage, when the user may not use it
+}
+
+// Profiles keep the model they were saved with, so a stage's model is checked against what the user may use now;
+// a model the user lost access to falls back to the checker's model.
+export function stageSettings(profile: ComplianceProfile, stageId: string, defaultModel: string, canUseProModel = false): StageSettings {
+    const { model, sectionChars, maxSections } = profile.stages?.[stageId] || {};
+    const limits = sectionChars || maxSections ? `limits:${sectionChars || '-'}/${maxSections || '-'}` : undefined;
+    const allowed = !model || listAvailableModels(canUseProModel).some(m => m.id === model);
+    return {
+        model: model && allowed ? model : defaultModel,
+        ...(allowed ? {} : { rejectedModel: model }),
+        options: { ...(sectionChars ? { sectionChars } : {}), ...(maxSections ? { maxSections } : {}) },
+        cacheVariant: variant => [variant, limits].filter(Boolean).join('|') || undefined,
+    };
+}
+
+// Coverage, cached-stage names and prompt versions of the stages that are not re-run, to be completed by this run.
+export function carryOverResults(manuscript: ManuscriptFile, running: PipelineStage[]) {
+    const rerun = (key: string) => running.some(stage => ownsKey(stage, key));
+    return {
+        stageCoverage: Object.fromEntries(Object.entries(manuscript.analysisCoverage || {}).filter(([key]) => !rerun(key))) as Record<string, AnalysisCoverage>,
+        cachedStages: (manuscript.cachedStages || []).filter(key => !rerun(key)),
+        promptVersions: { ...manuscript.promptVersions } as PromptVersionMap,
+    };
+}
+
+export const stageState = (status: StageState['status'], error?: string): StageState => ({ status, ...(error ? { error } : {}), updatedAt: new Date().toISOString() });
+
+// Stages left running by a run that stopped early.
+export const failRunningStages = (states: Record<string, StageState>, error: string): Record<string, StageState> =>
+    Object.fromEntries(Object.entries(states).map(([id, state]) => [id, state.status === 'running' ? stageState('failed', error) : state]));
+
+// Manuscripts processed before stage states were kept count a stage as completed when its results are present.
+export const stageStatusOf = (stage: PipelineStage, manuscript: ManuscriptFile): StageState['status'] =>
+    manuscript.stages?.[stage.id]?.status ?? (stage.fields.some(field => manuscript[field] !== undefined) ? 'completed' : 'pending');
+
+export function describeStageStates(stages: PipelineStage[], manuscript: ManuscriptFile, profile?: ComplianceProfile): string {
+    const enabled = stages.filter(stage => isStageEnabled(profile, stage));
+    const count = (status: StageState['status']) => enabled.filter(stage => stageStatusOf(stage, manuscript) === status).length;
+    const off = stages.length - enabled.length;
+    return [`${count('completed')} completed`, count('failed') && `${count('failed')} failed`, count('skipped') && `${count('skipped')} skipped`, count('pending') && `${count('pending')} not run`, off && `${off} off in profile`]
+        .filter(Boolean).join(', ');
+}
@@ -0,0 +1,282 @@
+
+import { PromptTemplateHistory, PromptTemplateVersion, PromptVersionMap } from '../types';
+
+// Named prompt templates with {{variable}} placeholders. The templates below are the built-in version 1 of each prompt;
+// admins can publish newer versions from the Admin Panel, which are stored in app state and pushed here by AppContext.
+
+export type PromptId =
+    | 'assetExtraction' | 'croppedAssetMetadata' | 'imageMetadata'
+    | 'complianceCheck' | 'manuscriptAnalysis' | 'scoring' | 'journalMetadata' | 'peerReview'
+    | 'editorial' | 'integrity' | 'reportingChecklist' | 'bookStructure' | 'readability' | 'bookMetadata' | 'bookVisuals' | 'bookEditorial'
+    | 'bookMetadataExtraction' | 'sectionMerge' | 'jsonRepair';
+
+export interface PromptDefinition {
+    label: string;
+    description: string;
+    variables: Record<string, string>; // Variable name -> what the caller fills in
+    template: string;
+}
+
+export const BUILT_IN_PROMPT_VERSION = 1;
+
+const SECTION_VARIABLES = {
+    section: 'The document text (or one section of it, for long documents)',
+    note: 'Empty for short documents; otherwise a note saying which section of the document this is',
+};
+
+const BOOK_STRUCTURE_VARIABLES = {
+    ...SECTION_VARIABLES,
+    structure: 'Empty unless the file declares its own table of contents and chapters (EPUB); otherwise those, with page ranges',
+};
+
+export const PROMPT_DEFINITIONS: Record<PromptId, PromptDefinition> = {
+    assetExtraction: {
+        label: 'PDF Asset Extraction',
+        description: 'Finds figures, tables and other assets on a rendered PDF page image.',
+        variables: {},
+        template: `Analyze this PDF page image. Identify all Figures, Tables, Images, Equations, Maps, and Graphs.
+    For each, extract:
+    - Type (AssetType)
+    - A brief visual description (preview)
+    - Accessibility Alt Text
+    - Keywords (SEO)
+    - Taxonomy classification
+    - Bounding Box (0-100% relative coordinates)`,
+    },
+    croppedAssetMetadata: {
+        label: 'Cropped Asset Metadata',
+        description: 'Generates metadata for an asset the user cropped manually in the PDF editor.',
+        variables: {},
+        template: `Analyze this cropped image asset. Generate accessibility and SEO metadata:
+    - Determine Asset Type (Figure, Table, Image, etc.)
+    - Detailed Alt Text
+    - Keywords
+    - Taxonomy`,
+    },
+    imageMetadata: {
+        label: 'Image Metadata',
+        description: 'Generates metadata for a standalone uploaded image.',
+        variables: {},
+        template: `Analyze this image. Generate metadata: Asset Type, Alt Text, Keywords, Taxonomy.`,
+    },
+    complianceCheck: {
+        label: 'Compliance Check',
+        description: 'Checks manuscript text against the rule documents mapped to the folder profile.',
+        variables: {
+            ...SECTION_VARIABLES,
+            rules: 'The numbered rules of the profile rule documents, each behind its ID, with an instruction to cite that ID',
+            recommendationTask: 'Journal recommendation instruction on the first section of a journal manuscript; empty otherwise',
+        },
+        template: `
+    Check this manuscript text against the provided submission guidelines/rules.{{note}}
+
+    MANUSCRIPT TEXT:
+    {{section}}
+
+    RULES:
+    {{rules}}
+
+    Task:
+    1. Identify compliance issues (pass, fail, warn).
+    2. Provide specific evidence from the manuscript and the rule.
+    {{recommendationTask}}
+    `,
+    },
+    manuscriptAnalysis: {
+        label: 'Manuscript Analysis',
+        description: 'Lists language, structure, ethics and citation issues in a journal manuscript.',
+        variables: SECTION_VARIABLES,
+        template: `Analyze this manuscript for: Grammar, Plagiarism Concerns, Structure, Clarity, Ethics, Spelling, Citations.
+    Return a list of issues.{{note}}
+    TEXT: {{section}}`,
+    },
+    scoring: {
+        label: 'Manuscript Scoring',
+        description: 'Scores a journal manuscript 0-100 on seven dimensions.',
+        variables: SECTION_VARIABLES,
+        template: `Score this manuscript (0-100) on: Compliance, Scientific Quality, Writing Quality, Citation Maturity, Novelty, Data Integrity Risk, Editor Acceptance Likelihood. Provide reasoning.{{note}}
+    TEXT: {{section}}`,
+    },
+    journalMetadata: {
+        label: 'Journal Metadata Analysis',
+        description: 'Predicts section type, keywords, ORCIDs, funding, taxonomy and corresponding author details.',
+        variables: SECTION_VARIABLES,
+        template: `Analyze manuscript metadata. Predict section type, generate keywords, validate ORCIDs (mock validation), extract funding info, suggest taxonomy, and check corresponding author details.{{note}}
+    TEXT: {{section}}`,
+    },
+    peerReview: {
+        label: 'Peer Review Simulation',
+        description: 'Simulates a reviewer report for a journal manuscript.',
+        variables: SECTION_VARIABLES,
+        template: `Simulate a peer review. Summarize, list strengths/weaknesses, concerns, gaps, questions, and suitability.{{note}}
+    TEXT: {{section}}`,
+    },
+    editorial: {
+        label: 'Editorial Assistant',
+        description: 'Suggests titles, an abstract rewrite, keywords and content improvements.',
+        variables: SECTION_VARIABLES,
+        template: `Act as an Editorial Assistant. Suggest titles, rewrite abstract, keywords, ethics statement, citation fixes, and content improvements (grammar/clarity).{{note}}
+    TEXT: {{section}}`,
+    },
+    integrity: {
+        label: 'Research Integrity Check',
+        description: 'Checks ethics approval, consent, trial registration, conflicts of interest and data integrity statements.',
+        variables: SECTION_VARIABLES,
+        template: `Perform a Research Integrity Check. Check for Ethics Approval, Consent, Clinical Trial Registration, Conflict of Interest, Author Contribution, Data Integrity.{{note}}
+    TEXT: {{section}}`,
+    },
+    reportingChecklist: {
+        label: 'Reporting Guideline Checklist',
+        description: 'Assesses a manuscript item by item against a bundled reporting guideline (CONSORT, PRISMA, ARRIVE, STROBE, CARE).',
+        variables: {
+            ...SECTION_VARIABLES,
+            guideline: 'Guideline name and version, e.g. "CONSORT 2010"',
+            items: 'The checklist items, one per line behind their item ID',
+        },
+        template: `Complete the {{guideline}} reporting checklist for this manuscript.{{note}}
+    For every item below, return its itemId and a status: COMPLIANT (fully reported), PARTIALLY_COMPLIANT, NOT_COMPLIANT (not reported) or NOT_APPLICABLE (does not apply to this study).
+    Quote the text that reports the item as evidence, give the page from the nearest preceding [Page N] marker, and explain the status in reasoning.
+
+    CHECKLIST ITEMS:
+    {{items}}
+
+    TEXT: {{section}}`,
+    },
+    bookStructure: {
+        label: 'Book Structure',
+        description: 'Checks chapter sequence, completeness, formatting and content anomalies.',
+        variables: BOOK_STRUCTURE_VARIABLES,
+        template: `Analyze Book Structure: Chapter Sequence, Completeness, Formatting, Content Anomalies.{{note}}{{structure}}
+    TEXT: {{section}}`,
+    },
+    readability: {
+        label: 'Book Readability',
+        description: 'Flags tone, clarity and passive voice problems in a book manuscript.',
+        variables: SECTION_VARIABLES,
+        template: `Analyze Book Readability: Score, Tone, Clarity, Passive Voice.{{note}}
+    TEXT: {{section}}`,
+    },
+    bookMetadata: {
+        label: 'Book Metadata & TOC Validation',
+        description: 'Validates the table of contents, chapter numbering and front matter against the content.',
+        variables: BOOK_STRUCTURE_VARIABLES,
+        template: `Validate Book Metadata & TOC against content. Check TOC Mismatch, Chapter Numbering, Front Matter.{{note}}{{structure}}
+    TEXT: {{section}}`,
+    },
+    bookVisuals: {
+        label: 'Book Visual Assets',
+        description: 'Checks figure/table numbering, captions and broken references in a book manuscript.',
+        variables: SECTION_VARIABLES,
+        template: `Analyze textual references to Book Visuals. Check Numbering, Captions, Broken Refs, Placeholders.{{note}}
+    TEXT: {{section}}`,
+    },
+    bookEditorial: {
+        label: 'Book Editorial Check',
+        description: 'Copyedits a book manuscript for grammar, unclear meaning and repetition.',
+        variables: SECTION_VARIABLES,
+        template: `
+        You are an expert copyeditor for high-quality book manuscripts. Perform a precise editorial check on the text provided.
+
+        **Tasks:**
+        1. **Grammar:** Identify objective grammatical errors such as subject-verb disagreement, incorrect verb tense, dangling modifiers, and misuse of articles.
+           - **CRITICAL EXCLUSION:** Do NOT report on hyphenation, en-dashes, em-dashes, or compound words. Assume all hyphenation choices are intentional stylistic decisions.
+
+        2. **Unclear Meaning (Style):** Flag sentences that are convoluted, ambiguous, or poorly constructed to the point where meaning is lost. Identify awkward phrasing that disrupts the reading flow. Map these to the 'Unclear Meaning' category.
+
+        3. **Repetition:** Detect unintentional repetition of words (e.g., "the the") or redundancy in immediate proximity.
+
+        Report findings using the JSON schema provided.{{note}}
+
+        MANUSCRIPT TEXT:
+        {{section}}
+    `,
+    },
+    bookMetadataExtraction: {
+        label: 'Book Metadata Extraction (ONIX/MARC)',
+        description: 'Generates ONIX 3.0 and MARC21 records from book text.',
+        variables: {
+            ...SECTION_VARIABLES,
+            knownMetadata: 'Empty unless the file declares publication metadata (EPUB package); otherwise that metadata',
+        },
+        template: `Extract Book Metadata from text. Generate a full valid ONIX 3.0 XML record and a MARC21 text record.{{note}}{{knownMetadata}}
+    TEXT: {{section}}`,
+    },
+    sectionMerge: {
+        label: 'Long Document Merge',
+        description: 'Merges per-section results of a long document into one document-level result.',
+        variables: {
+            count: 'Number of partial results',
+            label: 'Name of the analysis being merged (e.g. "peer review")',
+            partials: 'The partial results as JSON',
+        },
+        template: `The following are {{count}} partial {{label}} results, each produced from a consecutive section of the same document.
+    Merge them into ONE result for the whole document using the same JSON schema. Combine list entries and remove duplicates, reconcile conflicting values (prefer the evidence-backed finding), and write summaries and reasoning that cover the entire document.
+    PARTIAL RESULTS: {{partials}}`,
+    },
+    jsonRepair: {
+        label: 'Response Repair',
+        description: 'Sent once when a response does not match its JSON schema, asking the model to fix its own output.',
+        variables: {
+            problems: 'List of validation problems found in the response',
+            response: 'The response that failed validation',
+        },
+        template: `Your previous response did not match the required JSON schema.
+    PROBLEMS:
+    {{problems}}
+
+    PREVIOUS RESPONSE:
+    {{response}}
+
+    Return the corrected JSON only. Keep every valid entry and its content unchanged, fill required fields from the content already present, and use only the allowed enum values.`,
+    },
+};
+
+export const PROMPT_IDS = Object.keys(PROMPT_DEFINITIONS) as PromptId[];
+
+type PromptTemplates = Record<string, PromptTemplateHistory>;
+
+// The stored templates, for prompts rendered outside React (aiService). Components pass the templates they read from
+// the app state instead, so they never see a stale copy.
+let customTemplates: PromptTemplates = {};
+
+export function setCustomPromptTemplates(templates: PromptTemplates | undefined) {
+    customTemplates = templates || {};
+}
+
+export function listPromptVersions(id: PromptId, templates: PromptTemplates = customTemplates): PromptTemplateVersion[] {
+    const builtIn: PromptTemplateVersion = { version: BUILT_IN_PROMPT_VERSION, template: PROMPT_DEFINITIONS[id].template, createdAt: '', note: 'Built-in' };
+    return [builtIn, ...(templates[id]?.versions || [])];
+}
+
+export function getPromptTemplate(id: PromptId, version?: number): PromptTemplateVersion {
+    const versions = listPromptVersions(id);
+    const wanted = version ?? getActivePromptVersion(id);
+    return versions.find(v => v.version === wanted) || versions[0];
+}
+
+// Falls back to the built-in version if the stored active version no longer exists.
+export function getActivePromptVersion(id: PromptId, templates: PromptTemplates = customTemplates): number {
+    const active = templates[id]?.activeVersion;
+    return active && listPromptVersions(id, templates).some(v => v.version === active) ? active : BUILT_IN_PROMPT_VERSION;
+}
+
+export function fillTemplate(template: string, variables: Record<string, string | number>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] !== undefined ? String(variables[name]) : '');
+}
+
+export function renderPrompt(id: PromptId, variables: Record<string, string | number>, version?: number): string {
+    return fillTemplate(getPromptTemplate(id, version).template, variables);
+}
+
+// Used by the editor to warn about placeholders the caller will never fill, and declared variables the template drops.
+export function checkTemplateVariables(id: PromptId, template: string): { unknown: string[], missing: string[] } {
+    const used = new Set(Array.from(template.matchAll(/\{\{\s*(\w+)\s*\}\}/g), m => m[1]));
+    const declared = Object.keys(PROMPT_DEFINITIONS[id].variables);
+    return {
+        unknown: Array.from(used).filter(name => !declared.includes(name)),
+        missing: declared.filter(name => !used.has(name)),
+    };
+}
+
+export const describePromptVersions = (versions: PromptVersionMap) =>
+    Object.entries(versions).map(([id, version]) => `${PROMPT_DEFINITIONS[id as PromptId]?.label || id} v${version}`).join(', ');
@@ -0,0 +1,144 @@
+
+import { QuoteVerification, QuoteVerificationStatus } from '../types';
+
+// Checks that quotes the model cites as evidence actually occur in the extracted manuscript text.
+// Matching is done on word tokens (case, punctuation and whitespace are ignored, since PDF extraction mangles all three),
+// so an exact token run is "verified" and a close match (typos, de-hyphenation, elisions) is "approximate".
+
+const APPROXIMATE_THRESHOLD = 0.75; // Share of quote tokens found in order within the best window
+const MIN_FUZZY_TOKENS = 4; // Shorter quotes must match exactly; a couple of common words match almost anywhere
+const MAX_CANDIDATES = 5;
+
+// Placeholders models use instead of leaving a quote empty when there is nothing to cite, including short notes
+// describing an absence ("No ethics statement found in the manuscript.") that are not meant as quotes.
+const NO_QUOTE_PATTERN = /^(n\/?a|none|not applicable|not found|not available|no quote|missing|-+)\.?$/i;
+const ABSENCE_NOTE_PATTERN = /^(no|none|not|missing|absent)\b.{0,120}\b(found|provided|present|stated|mentioned|included|reported|available|identified|located|detected)\b[^"“”]*$/i;
+
+interface TextToken {
+    word: string;
+    page?: number;
+    offset: number;
+}
+
+export type QuoteVerifier = (quote: string | undefined, reportedPage?: number) => QuoteVerification | undefined;
+
+// Maps an offset in the verified text to a readable location, e.g. createLocator from services/documentModel.
+export type OffsetLocator = (offset: number) => string | undefined;
+
+const tokenize = (text: string) => (text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[\p{L}\p{N}]+/gu) || []);
+
+// Length of the longest common subsequence of two token lists.
+function lcsLength(a: string[], b: string[]): number {
+    let previous = new Array(b.length + 1).fill(0);
+    for (let i = 1; i <= a.length; i++) {
+        const current = new Array(b.length + 1).fill(0);
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Builds the token index once per document; the returned function verifies one quote at a time.
+export function createQuoteVerifier(text: string, locate?: OffsetLocator): QuoteVerifier {
+    const tokens: TextToken[] = [];
+    const positions = new Map<string, number[]>();
+    let page: number | undefined;
+    for (const match of text.matchAll(/\[Page (\d+)\]|[^\s[]+|\[/g)) {
+        if (match[1]) {
+            page = parseInt(match[1], 10);
+            continue;
+        }
+        tokenize(match[0]).forEach(word => {
+            const list = positions.get(word);
+            if (list) list.push(tokens.length); else positions.set(word, [tokens.length]);
+            tokens.push({ word, page, offset: match.index });
+        });
+    }
+
+    return (quote, reportedPage) => {
+        if (!quote || NO_QUOTE_PATTERN.test(quote.trim()) || ABSENCE_NOTE_PATTERN.test(quote.trim())) return undefined;
+        const quoteTokens = tokenize(quote.replace(/\.{3}|…/g, ' '));
+        if (quoteTokens.length === 0) return undefined;
+
+        // Each quote token that occurs in the text votes for where the quote would start.
+        const votes = new Map<number, number>();
+        quoteTokens.forEach((word, offset) => {
+            (positions.get(word) || []).forEach(position => {
+                const start = position - offset;
+                votes.set(start, (votes.get(start) || 0) + 1);
+            });
+        });
+        const candidates = Array.from(votes.entries()).sort((a, b) => b[1] - a[1]).slice(0, MAX_CANDIDATES).map(([start]) => start);
+
+        const slack = Math.ceil(quoteTokens.length / 4);
+        let best = { similarity: 0, start: -1, exact: false };
+        for (const start of candidates) {
+            const exact = start >= 0 && quoteTokens.every((word, i) => tokens[start + i]?.word === word);
+            if (exact) {
+                best = { similarity: 1, start, exact };
+                break;
+            }
+            if (quoteTokens.length < MIN_FUZZY_TOKENS) continue;
+            const windowStart = Math.max(0, start - slack);
+            const window = tokens.slice(windowStart, start + quoteTokens.length + slack).map(t => t.word);
+            const similarity = lcsLength(quoteTokens, window) / quoteTokens.length;
+            if (similarity > best.similarity) best = { similarity, start: Math.max(0, start), exact };
+        }
+
+        const status: QuoteVerificationStatus = best.exact ? 'verified' : best.similarity >= APPROXIMATE_THRESHOLD ? 'approximate' : 'not_found';
+        const verification: QuoteVerification = { status, similarity: Math.round(best.similarity * 100) / 100 };
+        if (status !== 'not_found') {
+            verification.page = tokens[best.start]?.page;
+            const location = tokens[best.start] && locate?.(tokens[best.start].offset);
+            if (location) verification.location = location;
+            if (reportedPage !== undefined && verification.page !== undefined && verification.page !== reportedPage) verification.reportedPage = reportedPage;
+        }
+        return verification;
+    };
+}
+
+// Attaches a verification to every item with a quote. When the quote is found on a known page, the page accessors let the caller
+// replace the page the model reported with the real [Page N] marker.
+export function verifyQuotes<T extends { quoteVerification?: QuoteVerification }>(
+    items: T[] | undefined,
+    verify: QuoteVerifier,
+    quoteOf: (item: T) => string | undefined,
+    page?: { get: (item: T) => number | undefined, set: (item: T, page: number) => T },
+): T[] {
+    return (items || []).map(item => {
+        const quoteVerification = verify(quoteOf(item), page?.get(item));
+        if (!quoteVerification) return item;
+        const verified = { ...item, quoteVerification };
+        return page && quoteVerification.page !== undefined ? page.set(verified, quoteVerification.page) : verified;
+    });
+}
+
+// Findings whose quote could not be located at all; approximate matches still count as evidence.
+export const isUnverified = (item: { quoteVerification?: QuoteVerification }) => item.quoteVerification?.status === 'not_found';
+
+export function summarizeQuoteVerification(items: { quoteVerification?: QuoteVerification }[]): string | null {
+    const counts: Record<QuoteVerificationStatus, number> = { verified: 0, approximate: 0, not_found: 0 };
+    items.forEach(item => { if (item.quoteVerification) counts[item.quoteVerification.status]++; });
+    if (counts.verified + counts.approximate + counts.not_found === 0) return null;
+    return `${counts.verified} verified, ${counts.approximate} approximate, ${counts.not_found} not found`;
+}
+
+const STATUS_LABELS: Record<QuoteVerificationStatus, string> = { verified: 'Quote verified', approximate: 'Approximate match', not_found: 'Quote not found' };
+
+export function describeQuoteVerification(verification?: QuoteVerification): string {
+    if (!verification) return 'N/A';
+    const parts = [STATUS_LABELS[verification.status]];
+    if (verification.status === 'approximate') parts.push(`${Math.round(verification.similarity * 100)}%`);
+    if (verification.page !== undefined) parts.push(`p. ${verification.page}`);
+    if (verification.location) parts.push(verification.location);
+    if (verification.reportedPage !== undefined) parts.push(`model cited p. ${verification.reportedPage}`);
+    return parts.join(', ');
+}
+
+// Where a finding points in the manuscript. Estimated page numbers are replaced by the verified section location.
+export function describeFindingLocation(page: number | undefined, verification: QuoteVerification | undefined, estimatedPages?: boolean): string {
+    if (estimatedPages) return verification?.location || (page !== undefined ? `approx. p. ${page}` : 'location unknown');
+    return page !== undefined ? `p. ${page}` : 'location unknown';
+}
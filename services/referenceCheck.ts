@@ -0,0 +1,393 @@
+
+import { CitationFinding, CitationFindingType, DocumentModel, DocumentSpan, ParsedReference, ReferenceCheckReport } from '../types';
+import { createLocator } from './documentModel';
+
+// Deterministic bibliography checks for the journal report. The reference list is split into structured entries and
+// cross-checked against the citations in the text: numeric ("[3]", "[4-6]"), author-year ("Smith et al., 2020",
+// "Smith and Doe (2019)") or, for LaTeX sources, citation keys. No model is involved, so a file always gets the same
+// findings. Superscript citation numbers cannot be told apart from other digits in extracted text and are not counted.
+
+const REFERENCE_HEADING = /^(?:(?:\d+|[IVXL]+)\.?\s+)?(?:references?(?: and notes)?|bibliography|literature cited|works cited|cited literature|reference list|literatur(?:verzeichnis)?|références(?: bibliographiques)?|referencias|bibliograf[ií]a|riferimenti bibliografici|参考文献|引用文献|文献)\s*:?$/i;
+const YEAR = '(?:1[7-9]|20)\\d{2}[a-z]?';
+const PARTICLE = '(?:(?:van|von|de|der|den|du|da|di|la|le|del|dos|ter|ten)\\s+)*';
+const NAME_WORD = "\\p{Lu}[\\p{L}'’\\-]+";
+const SURNAME = `${PARTICLE}${NAME_WORD}`;
+
+// Abbreviations whose full stop does not end a part of a reference ("et al.", "vol.", "pp.").
+const ABBREVIATIONS = new Set(['al', 'vol', 'vols', 'no', 'nos', 'pp', 'p', 'ed', 'eds', 'edn', 'rev', 'suppl', 'inc', 'ltd', 'co', 'corp', 'jr', 'sr', 'st', 'dr', 'vs', 'etc', 'proc', 'conf', 'int', 'natl', 'univ', 'dept', 'assoc', 'soc', 'trans', 'ch', 'fig', 'e.g', 'i.e', 'cf']);
+// Capitalized words before a parenthesized year that are not author names, e.g. "Table 2 (2019)" or "(March 2020)".
+const NOT_A_NAME = /^(table|tables|figure|figures|fig|figs|eq|equation|section|appendix|chapter|supplementary|in|the|this|that|since|from|until|during|between|before|after|by|see|cf|and|or|version|january|february|march|april|may|june|july|august|september|october|november|december|spring|summer|autumn|fall|winter)$/i;
+const ORGANIZATION = /\b(organi[sz]ation|association|institute|society|agency|council|committee|consortium|department|ministry|office|cent(?:er|re)|foundation|university|group|board|commission|network|collaboration|working party|service)\b/i;
+
+// Author list styles, tried in turn; the one that accounts for the most names wins.
+const AUTHOR_PATTERNS: { pattern: RegExp, name: (m: RegExpMatchArray) => string, family: (m: RegExpMatchArray) => string }[] = [
+    // APA and Harvard: "Smith, J. A., & Doe, R."
+    { pattern: new RegExp(`(${SURNAME}(?:\\s+${NAME_WORD})*),\\s*((?:\\p{Lu}\\.\\s?-?)+)`, 'gu'), name: m => `${m[1]}, ${m[2].trim()}`, family: m => m[1] },
+    // IEEE and Chicago notes: "J. A. Smith, R. Doe and K. Lee"
+    { pattern: new RegExp(`((?:\\p{Lu}\\.\\s?-?)+)\\s*(${SURNAME})`, 'gu'), name: m => `${m[1].trim()} ${m[2]}`, family: m => m[2] },
+    // Vancouver: "Smith JA, Doe R"
+    { pattern: new RegExp(`(${SURNAME}(?:\\s+${NAME_WORD})*?)\\s+(\\p{Lu}{1,4})(?=\\.?\\s*(?:,|$|\\band\\b|&))`, 'gu'), name: m => `${m[1]} ${m[2]}`, family: m => m[1] },
+];
+
+interface ReferenceEntry {
+    label?: string; // Known from the source (LaTeX keys, JATS labels) rather than read from the text
+    text: string;
+    page: number;
+    start: number;
+}
+
+interface ParsedEntry {
+    reference: ParsedReference;
+    printedLabel: boolean;
+    families: string[];
+    authorText: string;
+    malformedDoi?: string;
+}
+
+interface Citation {
+    text: string;
+    label?: string;
+    family?: string;
+    year?: string;
+    page: number;
+    offset: number;
+}
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{N}]+/gu, '');
+const trimPunctuation = (text: string) => text.replace(/^[\s,.;:"“”]+|[\s,.;:"“”]+$/g, '');
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+// Splits a reference into its full-stop separated parts (authors, title, container...) without breaking at
+// initials or abbreviations. A lone capital is an initial when it follows a comma, another initial or "and"
+// ("Smith, J. A."), or when a surname follows it ("Jeffrey S. Foster, and"); otherwise it ends a Vancouver author
+// list ("Doe R. Title of the article").
+function splitParts(text: string): string[] {
+    const parts: string[] = [];
+    let start = 0;
+    for (const match of text.matchAll(/[.?!]["”’]?\s+(?=\S)/g)) {
+        const index = match.index!;
+        const before = text.slice(start, index);
+        const word = (before.match(/(\S*)$/) || ['', ''])[1];
+        if (match[0][0] === '.') {
+            if (ABBREVIATIONS.has(word.toLowerCase().replace(/^\W+/, ''))) continue;
+            if (/^\p{Lu}$/u.test(word.replace(/^[-(]/, ''))) {
+                const previous = before.slice(0, before.length - word.length).trimEnd();
+                if (!previous || /(?:,|\b\p{Lu}\.|\band|&)$/u.test(previous)) continue;
+                if (new RegExp(`^${NAME_WORD}(?:,|\\.|\\s+(?:and|&)\\s)`, 'u').test(text.slice(index + match[0].length))) continue;
+            }
+            if (/^\p{Ll}/u.test(text.slice(index + match[0].length))) continue;
+        }
+        parts.push(text.slice(start, index + 1).trim());
+        start = index + match[0].length;
+    }
+    if (start < text.length) parts.push(text.slice(start).trim());
+    return parts.filter(Boolean);
+}
+
+function parseAuthors(text: string): { authors: string[], families: string[] } {
+    const list = text.replace(/,?\s*\bet al\.?/g, '').replace(/\s*\((?:eds?|Eds?)\.?\)\s*$/, '').trim();
+    if (!list) return { authors: [], families: [] };
+    if (list.includes(';')) {
+        // "Doe, J; Roe, R" or "Doe J; Roe R": the separator leaves no doubt about where each name ends.
+        const names = list.split(/\s*;\s*/).map(trimPunctuation).filter(name => /\p{L}/u.test(name));
+        return { authors: names, families: names.map(name => name.split(/,\s*|\s+(?=\p{Lu}{1,4}$)/u)[0]) };
+    }
+    let best: RegExpMatchArray[] = [];
+    let bestPattern = AUTHOR_PATTERNS[0];
+    AUTHOR_PATTERNS.forEach(style => {
+        const matches = Array.from(list.matchAll(style.pattern));
+        if (matches.length > best.length) {
+            best = matches;
+            bestPattern = style;
+        }
+    });
+    // Full names ("Jane Smith, John Q. Doe and Ann Lee") or an organization, unless a pattern explains more of the list.
+    const names = list.split(/\s*(?:,?\s+(?:and|&)\s+|,)\s*/).map(trimPunctuation).filter(name => /\p{L}/u.test(name));
+    const fullNames = names.every(name => /\S\s+\S/.test(name) && !/\s\p{Lu}{1,4}$/u.test(name)) && names.length >= best.length;
+    if (best.length > 0 && !fullNames) return { authors: best.map(bestPattern.name), families: best.map(bestPattern.family) };
+    return { authors: names, families: names.map(name => ORGANIZATION.test(name) ? name : name.split(/\s+/).pop()!) };
+}
+
+function findDoi(text: string): { doi?: string, malformed?: string } {
+    const mention = text.match(/(?:https?:\/\/)?(?:dx\.)?doi\.org\/(\S*)|\b(?:doi|DOI)(?::\s*|\s+)(\S*)/) || text.match(/()(\b10\.\d+\/\S*)/);
+    if (!mention) return {};
+    let candidate = (mention[1] || mention[2] || '').replace(/[.,;\]]+$/, '');
+    if (candidate.endsWith(')') && (candidate.match(/\(/g) || []).length < (candidate.match(/\)/g) || []).length) candidate = candidate.slice(0, -1);
+    const valid = /^10\.\d{4,9}\/[!-~]+$/.test(candidate) && /[A-Za-z0-9]/.test(candidate.slice(candidate.indexOf('/') + 1));
+    return valid ? { doi: candidate } : { malformed: candidate };
+}
+
+function findVolumeIssuePages(text: string): Pick<ParsedReference, 'volume' | 'issue' | 'pages'> {
+    const result: Pick<ParsedReference, 'volume' | 'issue' | 'pages'> = {};
+    const pages = '([A-Za-z]?\\d+(?:\\s*[-–—]\\s*[A-Za-z]?\\d+)?)';
+    const withIssue = text.match(new RegExp(`(?:^|[,;.\\s])\\s*(?:${YEAR}\\s*;\\s*)?(\\d{1,4})\\s*\\(([^()]{1,15})\\)\\s*[:,]\\s*${pages}`));
+    const vancouver = text.match(new RegExp(`;\\s*(\\d{1,4})\\s*:\\s*${pages}`));
+    const apa = text.match(/,\s*(\d{1,4}),\s*([A-Za-z]?\d+\s*[-–—]\s*[A-Za-z]?\d+)/);
+    const harvard = text.match(/\b(\d{1,4})\s*:\s*(\d+\s*[-–—]\s*\d+)/);
+    if (withIssue) [, result.volume, result.issue, result.pages] = withIssue;
+    else if (vancouver) [, result.volume, result.pages] = vancouver;
+    else if (apa) [, result.volume, result.pages] = apa;
+    else if (harvard) [, result.volume, result.pages] = harvard;
+    result.volume = result.volume || text.match(/\bvol(?:ume)?\.?\s*(\d+[A-Za-z]?)/i)?.[1];
+    result.issue = result.issue || text.match(/\b(?:no|issue)\.?\s*(\d+[A-Za-z]?)/i)?.[1];
+    result.pages = result.pages || text.match(/\bpp?\.\s*([A-Za-z]?\d+(?:\s*[-–—]\s*[A-Za-z]?\d+)?)/)?.[1];
+    if (result.pages) result.pages = result.pages.replace(/\s*[-–—]\s*/, '–');
+    return result;
+}
+
+// The journal or book a reference appeared in, without the volume, issue and pages that follow it.
+const cleanContainer = (text: string | undefined) => {
+    if (!text) return undefined;
+    const container = trimPunctuation(text.replace(/^(?:in:?\s+)/i, '').split(new RegExp(`[,;:]\\s*(?=\\d)|[,;]?\\s*\\bvol\\.?\\s|\\.?\\s+(?=${YEAR}\\b)`, 'i'))[0]);
+    return container && !new RegExp(`^${YEAR}$`).test(container) ? container : undefined;
+};
+
+function parseReference(text: string, position: number, knownLabel?: string): ParsedEntry {
+    let body = text.trim();
+    let label = knownLabel;
+    const numbered = knownLabel ? null : body.match(/^\[([^\]\s]{1,40})\]\s*|^(\d{1,3})[.)]\s+|^(\d{1,3})\s+(?=\p{Lu})/u);
+    if (numbered) {
+        label = numbered[1] || numbered[2] || numbered[3];
+        body = body.slice(numbered[0].length);
+    }
+    const { doi, malformed } = findDoi(body);
+    // URLs and DOIs would otherwise be read as titles, years or page numbers.
+    const plain = body.replace(/(?:https?:\/\/|www\.)\S+/g, '').replace(/\b(?:doi|DOI)(?::\s*|\s+)\S*/g, '').replace(/\b10\.\d+\/\S*/g, '').replace(/\s+/g, ' ').trim();
+
+    const parenthesizedYear = plain.match(new RegExp(`\\((${YEAR}|n\\.d\\.|in press)(?:,[^)]*)?\\)`, 'i'));
+    const quotedTitle = plain.match(/[“"]([^“”"]{4,})[”"]/);
+    let authorText: string;
+    let title: string | undefined;
+    let container: string | undefined;
+    if (quotedTitle && quotedTitle.index! > 0) {
+        // IEEE and similar: authors, "Title," Container, vol. 1, ...
+        authorText = plain.slice(0, quotedTitle.index);
+        title = quotedTitle[1];
+        container = cleanContainer(plain.slice(quotedTitle.index! + quotedTitle[0].length).replace(/^[\s,.]+/, '').split(/,\s*/)[0]);
+    } else if (parenthesizedYear && parenthesizedYear.index! < plain.length / 2) {
+        // APA and Harvard: authors (2020). Title. Container, 1(2), 3-4.
+        authorText = plain.slice(0, parenthesizedYear.index);
+        const parts = splitParts(plain.slice(parenthesizedYear.index! + parenthesizedYear[0].length).replace(/^[\s.,:]+/, ''));
+        title = parts[0];
+        container = cleanContainer(parts[1]);
+    } else {
+        // Vancouver and unbracketed Harvard: authors. [2020.] Title. Container. 2020;1(2):3-4.
+        const parts = splitParts(plain);
+        let next = 1;
+        if (parts[next] && new RegExp(`^${YEAR}[.,]?$`).test(parts[next])) next++;
+        authorText = (parts[0] || '').replace(new RegExp(`[\\s,.]*${YEAR}[.,]?$`), '');
+        title = parts[next];
+        container = cleanContainer(parts[next + 1]);
+    }
+
+    const { authors, families } = parseAuthors(authorText.replace(/[\s,]+$/, ''));
+    const year = parenthesizedYear?.[1] || plain.match(new RegExp(`(?<![\\d\\-–{:])(${YEAR})\\b(?!\\s*[-–{])`))?.[1]; // Not part of a page range
+    const reference: ParsedReference = {
+        label: label || String(position),
+        text: body,
+        authors,
+        ...(year ? { year } : {}),
+        ...(title && trimPunctuation(title) ? { title: trimPunctuation(title) } : {}),
+        ...(container ? { container } : {}),
+        ...findVolumeIssuePages(plain),
+        ...(doi ? { doi } : {}),
+        page: 0,
+    };
+    return { reference, printedLabel: !!numbered, families, authorText, malformedDoi: malformed };
+}
+
+// Finds the reference list: the LaTeX/JATS bibliography when the ingester kept one, otherwise the paragraphs under
+// the last "References" or "Bibliography" heading (or a paragraph with that text, for PDFs without detected headings).
+function findReferenceEntries(model: DocumentModel): { entries: ReferenceEntry[], excluded: (span: DocumentSpan) => boolean } {
+    if (model.references && model.references.length > 0) {
+        const starts = new Set(model.references.map(ref => ref.start));
+        return {
+            entries: model.references.map(ref => ({ label: ref.key, text: ref.text, page: ref.page, start: ref.start })),
+            excluded: span => starts.has(span.start),
+        };
+    }
+    const candidates = [...model.headings, ...model.paragraphs].filter(block => REFERENCE_HEADING.test(block.text.trim()));
+    const heading = candidates.sort((a, b) => b.start - a.start)[0];
+    if (!heading) return { entries: [], excluded: () => false };
+    const level = 'level' in heading ? (heading as { level: number }).level : Infinity;
+    const end = model.headings.find(h => h.start > heading.start && h.level <= level)?.start ?? Infinity;
+    const inSection = (span: DocumentSpan) => span.start > heading.start && span.start < end;
+
+    const paragraphs = model.paragraphs.filter(inSection);
+    const numbered = paragraphs.filter(p => /^(?:\[\d{1,3}\]|\d{1,3}[.)]?\s)/.test(p.text)).length >= paragraphs.length / 2;
+    const entries: ReferenceEntry[] = [];
+    paragraphs.forEach(p => {
+        // Entries that the layout merged into one paragraph are split at the next number or "Surname, I." after a stop.
+        const splitter = numbered
+            ? /(?<=\S\s)(?=\[\d{1,3}\]\s|\d{1,3}\.\s+\p{Lu})/gu
+            : new RegExp(`(?<=[.)]\\s)(?=${SURNAME},\\s+\\p{Lu}\\.)`, 'gu');
+        const pieces: { text: string, offset: number }[] = [];
+        let last = 0;
+        for (const match of p.text.matchAll(splitter)) {
+            const piece = p.text.slice(last, match.index);
+            if (numbered || new RegExp(YEAR).test(piece)) {
+                pieces.push({ text: piece, offset: last });
+                last = match.index!;
+            }
+        }
+        pieces.push({ text: p.text.slice(last), offset: last });
+        pieces.forEach(piece => {
+            const text = piece.text.trim();
+            // A paragraph that does not start a new entry continues the previous one (an entry broken across a column).
+            const continues = entries.length > 0 && (numbered ? !/^(?:\[\d{1,3}\]|\d{1,3}[.)]?\s)/.test(text) : (/^[\p{Ll}\d]/u.test(text) || !new RegExp(YEAR).test(text)));
+            if (continues) entries[entries.length - 1].text += ` ${text}`;
+            else if (text) entries.push({ text, page: p.page, start: p.start + piece.offset });
+        });
+    });
+    return { entries, excluded: span => inSection(span) || span.start === heading.start };
+}
+
+// Expands "1, 3-5" to [1, 3, 4, 5]; implausibly long ranges are kept as their two ends.
+const expandNumbers = (list: string) => list.split(/[,;]/).flatMap(part => {
+    const [from, to] = part.split(/[-–—]/).map(n => parseInt(n, 10));
+    if (to === undefined || Number.isNaN(to)) return [from];
+    return to > from && to - from <= 100 ? Array.from({ length: to - from + 1 }, (_, i) => from + i) : [from, to];
+}).filter(n => !Number.isNaN(n)).map(String);
+
+function findNumericCitations(text: string, page: number, offset: number, footnoteLabels: Set<string>): Citation[] {
+    const citations: Citation[] = [];
+    for (const match of text.matchAll(/\[(\d{1,4}(?:\s*[-–—]\s*\d{1,4})?(?:\s*[,;]\s*\d{1,4}(?:\s*[-–—]\s*\d{1,4})?)*)\]/g)) {
+        const labels = expandNumbers(match[1]);
+        if (labels.length === 1 && (footnoteLabels.has(labels[0]) || labels[0] === '0')) continue; // "[0]" is an index, not a citation
+        labels.forEach(label => citations.push({ text: match[0], label, page, offset: offset + match.index! }));
+    }
+    return citations;
+}
+
+function findKeyCitations(text: string, page: number, offset: number, keys: Set<string>): Citation[] {
+    const citations: Citation[] = [];
+    // LaTeX citations are rendered as "[pre key1; key2, post]".
+    for (const match of text.matchAll(/\[([^[\]]+)\]/g)) {
+        match[1].split('; ').forEach((part, index, parts) => {
+            let key = part;
+            if (index === parts.length - 1) key = key.split(', ')[0];
+            if (index === 0) key = key.split(' ').pop()!;
+            // Unknown keys are only reported when they look like one, so bracketed text such as "[a, b]" is ignored.
+            if (keys.has(key) || (/^[\w:.\-+/]{3,}$/.test(key) && /\p{L}/u.test(key))) citations.push({ text: match[0], label: key, page, offset: offset + match.index! });
+        });
+    }
+    return citations;
+}
+
+function findAuthorYearCitations(text: string, page: number, offset: number): Citation[] {
+    const citations: Citation[] = [];
+    const firstFamily = (names: string) => {
+        const first = names.replace(/^(?:e\.g\.|i\.e\.|see also|see|cf\.|for example|for a review,? see)[,\s]*/i, '').split(/,|\s+(?:and|&|et al)\b|&/)[0].trim();
+        return new RegExp(`^${SURNAME}(?:\\s+${NAME_WORD})?$`, 'u').test(first) && !NOT_A_NAME.test(first) ? first : undefined;
+    };
+    // Parenthetical: "(Smith et al., 2020; Doe & Lee, 2019a, 2021)"
+    for (const match of text.matchAll(new RegExp(`\\(([^()]*?\\b${YEAR}\\b[^()]*)\\)`, 'g'))) {
+        match[1].split(';').forEach(part => {
+            let family: string | undefined;
+            let previousEnd = 0;
+            for (const year of part.matchAll(new RegExp(`\\b(${YEAR})\\b`, 'g'))) {
+                const names = part.slice(previousEnd, year.index).replace(/[\s,]+$/, '').replace(/^[\s,]+/, '');
+                if (/\p{L}{2}/u.test(names)) family = firstFamily(names);
+                previousEnd = year.index! + year[0].length;
+                if (family) citations.push({ text: `(${match[1]})`, family, year: year[1], page, offset: offset + match.index! });
+            }
+        });
+    }
+    // Narrative: "Smith et al. (2020)", "Smith and Doe (2019, 2021)"
+    const narrative = new RegExp(`(${SURNAME})(?:\\s+et al\\.?|\\s+(?:and|&)\\s+${SURNAME})?\\s*\\((${YEAR}(?:\\s*[,;]\\s*${YEAR})*)\\)`, 'gu');
+    for (const match of text.matchAll(narrative)) {
+        if (NOT_A_NAME.test(match[1])) continue;
+        match[2].split(/\s*[,;]\s*/).forEach(year => citations.push({ text: match[0], family: match[1], year, page, offset: offset + match.index! }));
+    }
+    return citations;
+}
+
+const sameYear = (cited: string, listed?: string) => !!listed && (cited.toLowerCase() === listed.toLowerCase() || (/\d$/.test(cited) && listed.toLowerCase().startsWith(cited)));
+
+const citesEntry = (citation: Citation, entry: ParsedEntry) => {
+    if (citation.label !== undefined) return citation.label === entry.reference.label;
+    if (!citation.family || !citation.year || !sameYear(citation.year, entry.reference.year)) return false;
+    const family = normalize(citation.family);
+    return (entry.families.length > 0 && normalize(entry.families[0]) === family) || normalize(entry.authorText).startsWith(family);
+};
+
+export function checkReferences(model: DocumentModel): ReferenceCheckReport {
+    const locate = model.estimatedPages ? createLocator(model) : undefined;
+    const where = (page: number, offset: number) => ({ page, ...(locate && locate(offset) ? { location: locate(offset) } : {}) });
+
+    const { entries, excluded } = findReferenceEntries(model);
+    const parsed = entries.map((entry, index) => {
+        const result = parseReference(entry.text, index + 1, entry.label);
+        Object.assign(result.reference, where(entry.page, entry.start));
+        return result;
+    });
+    const findings: CitationFinding[] = [];
+    const addFinding = (type: CitationFindingType, summary: string, quote: string, page: number, location?: string) =>
+        findings.push({ type, summary, quote: truncate(quote, 300), page, ...(location ? { location } : {}) });
+
+    // Citations in body text, footnotes and tables; the reference list itself is skipped.
+    const spans = [...model.paragraphs, ...model.footnotes, ...model.tables].filter(span => !excluded(span));
+    const footnoteLabels = new Set(model.footnotes.map(f => f.label));
+    const keyed = model.format === 'latex';
+    const numberedList = parsed.length > 0 && parsed.filter(p => p.printedLabel || /^\d+$/.test(p.reference.label)).length >= parsed.length / 2;
+    if (!numberedList && !keyed) parsed.forEach((p, index) => { if (!p.printedLabel) p.reference.label = String(index + 1); });
+    const collect = (find: (text: string, page: number, offset: number) => Citation[]) =>
+        spans.flatMap(span => find(model.text.slice(span.start, span.end), span.page, span.start));
+    const numeric = keyed ? [] : collect((text, page, offset) => findNumericCitations(text, page, offset, numberedList ? new Set() : footnoteLabels));
+    const authorYear = keyed ? [] : collect(findAuthorYearCitations);
+    const citationStyle: ReferenceCheckReport['citationStyle'] = keyed ? 'keyed'
+        : numeric.length > 0 && (numberedList || numeric.length >= authorYear.length) ? 'numeric'
+        : authorYear.length > 0 ? 'author-year' : 'none';
+    const citations = citationStyle === 'keyed' ? collect((text, page, offset) => findKeyCitations(text, page, offset, new Set(parsed.map(p => p.reference.label)))) : citationStyle === 'numeric' ? numeric : authorYear;
+
+    // Cross-checks only make sense when there is a list to check against and citations were recognized at all.
+    if (parsed.length > 0 && citations.length > 0) {
+        const cited = new Set<ParsedEntry>();
+        const missing = new Map<string, Citation[]>();
+        citations.forEach(citation => {
+            const matches = parsed.filter(entry => citesEntry(citation, entry));
+            matches.forEach(entry => cited.add(entry));
+            if (matches.length > 0) return;
+            const key = citation.label !== undefined ? citation.label : `${citation.family} ${citation.year}`;
+            missing.set(key, [...(missing.get(key) || []), citation]);
+        });
+        missing.forEach((occurrences, key) => {
+            const first = occurrences[0];
+            const { page, location } = where(first.page, first.offset);
+            const name = citationStyle === 'numeric' ? `Reference ${key}` : `"${key}"`;
+            addFinding('Missing Reference', `${name} is cited ${occurrences.length === 1 ? 'once' : `${occurrences.length} times`} but has no entry in the reference list.`, first.text, page, location);
+        });
+        parsed.filter(entry => !cited.has(entry)).forEach(({ reference }) =>
+            addFinding('Uncited Reference', `Reference ${reference.label} is never cited in the text.`, reference.text, reference.page, reference.location));
+    }
+
+    const seenKeys = new Map<string, ParsedReference>();
+    const seenLabels = new Set<string>();
+    parsed.forEach(({ reference, printedLabel, malformedDoi }) => {
+        if (malformedDoi !== undefined) {
+            addFinding('Malformed DOI', malformedDoi ? `Reference ${reference.label} has a malformed DOI "${malformedDoi}"; a DOI has the form 10.NNNN/suffix.` : `Reference ${reference.label} has a DOI label with no DOI after it.`, reference.text, reference.page, reference.location);
+        }
+        const keys: [string, string][] = [
+            ...(reference.doi ? [[`doi:${reference.doi.toLowerCase()}`, 'the same DOI'] as [string, string]] : []),
+            ...(reference.title && reference.title.length >= 20 ? [[`title:${normalize(reference.title)}:${reference.year || ''}`, 'the same title and year'] as [string, string]] : []),
+            [`text:${normalize(reference.text)}`, 'identical text'],
+        ];
+        // One finding per entry: a repeated entry usually repeats its label too, and the content match says more.
+        const duplicate = keys.find(([key]) => seenKeys.has(key));
+        if (duplicate) {
+            addFinding('Duplicate Reference', `Reference ${reference.label} duplicates reference ${seenKeys.get(duplicate[0])!.label} (${duplicate[1]}).`, reference.text, reference.page, reference.location);
+        } else if ((printedLabel || keyed) && seenLabels.has(reference.label)) {
+            addFinding('Duplicate Reference', `More than one entry in the reference list is labeled ${reference.label}.`, reference.text, reference.page, reference.location);
+        }
+        seenLabels.add(reference.label);
+        keys.forEach(([key]) => { if (!seenKeys.has(key)) seenKeys.set(key, reference); });
+    });
+
+    return { citationStyle, citationCount: citations.length, references: parsed.map(p => p.reference), findings };
+}
+
+export function describeReferenceCheck(report: ReferenceCheckReport): string {
+    if (report.references.length === 0) return 'no reference list found';
+    const style = report.citationStyle === 'none' ? 'no recognizable in-text citations' : `${report.citationCount} ${report.citationStyle} citation(s)`;
+    return `${report.references.length} reference(s) parsed, ${style}, ${report.findings.length} finding(s)`;
+}
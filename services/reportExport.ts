@@ -0,0 +1,533 @@
+import { strToU8, zipSync } from 'fflate';
+import { ManuscriptFile, ReportBranding } from '../types';
+import { describeCoverage } from './aiService';
+import { describePromptVersions } from './promptRegistry';
+import { describeFindingLocation, describeQuoteVerification, isUnverified } from './quoteVerifier';
+import { describeRuleCoverage, describeRuleReference } from './ruleDocument';
+import { summarizeChecklist } from './reportingGuidelines';
+import { escapeXml } from './xml';
+import { TRIAGE_KEYS, TriageFilter, checklistTriageKey, describeTriage, describeTriageFilter, matchesTriageFilter, triageStatusOf } from './findingTriage';
+
+// Renders a compliance result to documents editors can send to authors: DOCX, self-contained HTML and, through the
+// browser's print dialog, PDF. The manuscript is first turned into a small block model (paragraphs, lists, tables,
+// findings) that every format renders, so the formats cannot drift apart. Branding adds a logo, header and footer.
+
+export type ReportSectionId =
+    | 'overview' | 'scores' | 'compliance' | 'ruleCoverage' | 'checklists' | 'integrity' | 'analysis' | 'references'
+    | 'peerReview' | 'editorial' | 'recommendations' | 'metadata'
+    | 'structure' | 'readability' | 'bookMetadata' | 'visuals' | 'bookEditorial';
+
+type Tone = 'good' | 'bad' | 'mixed' | 'neutral';
+
+type ReportBlock =
+    | { kind: 'heading', text: string }
+    | { kind: 'paragraph', text: string, label?: string }
+    | { kind: 'list', items: string[] }
+    | { kind: 'table', columns: string[], rows: string[][], statusColumn?: number }
+    | { kind: 'item', title: string, status: string, fields: [string, string][], quote?: string };
+
+interface ReportSection {
+    id: ReportSectionId;
+    title: string;
+    blocks: ReportBlock[];
+}
+
+export interface ReportDocument {
+    title: string;
+    manuscriptName: string;
+    generatedAt: string;
+    sections: ReportSection[];
+}
+
+export type ReportFormat = 'docx' | 'pdf' | 'html';
+
+export interface ReportOptions {
+    hideUnverified?: boolean; // Leave out findings whose quote was not found in the manuscript
+    triageFilter?: TriageFilter; // Which findings to include by triage state; all of them by default
+}
+
+// Filters a report's findings as the report view does; findings are triaged when their key is given.
+type VisibleFilter = <T extends object>(items: T[] | undefined, triageKey?: (item: T) => string) => T[];
+
+interface SectionDefinition {
+    id: ReportSectionId;
+    label: string;
+    build: (manuscript: ManuscriptFile, visible: VisibleFilter) => ReportBlock[];
+}
+
+const joinList = (items: string[] | undefined) => (items || []).filter(Boolean).join('; ');
+const statusLabel = (status: string) => status.replace(/_/g, ' ').toUpperCase();
+const scoreLabel = (key: string) => key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+const triageField = (m: ManuscriptFile, key: string): [string, string] => ['Triage', m.triage?.[key] ? describeTriage(m.triage[key]) : ''];
+
+function toneOf(status: string): Tone {
+    const value = status.toLowerCase().replace(/_/g, ' ');
+    if (/^(pass|compliant|low|verified)$/.test(value)) return 'good';
+    if (/^(fail|not compliant|high)$/.test(value)) return 'bad';
+    if (/^(warn|warning|partially compliant|medium)$/.test(value)) return 'mixed';
+    return 'neutral';
+}
+
+// Builders return no blocks when the manuscript has nothing for the section; such sections are not offered. Many text
+// fields are optional in the AI schemas, so a block's text may be missing: renderers treat it as empty, and paragraphs
+// without text are dropped like empty item fields.
+export const REPORT_SECTIONS: SectionDefinition[] = [
+    {
+        id: 'overview', label: 'Overview', build: m => {
+            const blocks: ReportBlock[] = [{ kind: 'paragraph', label: 'Status', text: m.status }];
+            if (m.ruleCoverage?.length) blocks.push({ kind: 'paragraph', label: 'Rule coverage', text: describeRuleCoverage(m.ruleCoverage) });
+            m.reportingChecklists?.forEach(checklist => blocks.push({ kind: 'paragraph', label: 'Reporting checklist', text: summarizeChecklist(checklist) }));
+            if (m.estimatedPages) blocks.push({ kind: 'paragraph', label: 'Locations', text: 'Page numbers in this file are approximate, so findings cite section locations instead.' });
+            if (m.analysisCoverage && Object.keys(m.analysisCoverage).length > 0) {
+                blocks.push({ kind: 'heading', text: 'Analysis coverage' });
+                blocks.push({ kind: 'table', columns: ['Stage', 'Coverage'], rows: Object.entries(m.analysisCoverage).map(([stage, c]) => [stage, describeCoverage(c)]) });
+            }
+            if (m.promptVersions) blocks.push({ kind: 'paragraph', label: 'Prompt versions', text: describePromptVersions(m.promptVersions) });
+            return blocks;
+        },
+    },
+    {
+        id: 'scores', label: 'Scores', build: m => !m.scores ? [] : [{
+            kind: 'table', columns: ['Metric', 'Score', 'Reasoning'],
+            rows: Object.entries(m.scores).map(([key, value]) => [scoreLabel(key), String(value.score), value.reasoning]),
+        }],
+    },
+    {
+        id: 'compliance', label: 'Compliance Findings', build: (m, visible) => visible(m.complianceReport, TRIAGE_KEYS.compliance).map(f => ({
+            kind: 'item', title: f.checkCategory, status: f.status, quote: f.manuscriptQuote,
+            fields: [
+                ['Finding', f.summary],
+                ['Location', describeFindingLocation(f.manuscriptPage, f.quoteVerification, m.estimatedPages)],
+                ['Quote check', describeQuoteVerification(f.quoteVerification)],
+                ['Rule', `${describeRuleReference(m.ruleCoverage, f.ruleId)}: ${f.ruleContent}${f.deterministic ? ' (checked locally)' : f.rulePage ? ` (p. ${f.rulePage})` : ''}`],
+                ['Recommendation', f.recommendation],
+                triageField(m, TRIAGE_KEYS.compliance(f)),
+            ],
+        })),
+    },
+    {
+        id: 'ruleCoverage', label: 'Rule Coverage', build: m => !m.ruleCoverage?.length ? [] : [
+            { kind: 'paragraph', text: describeRuleCoverage(m.ruleCoverage) },
+            { kind: 'table', columns: ['Rule', 'Status', 'Findings', 'Rule Text'], statusColumn: 1, rows: m.ruleCoverage.map(entry => [entry.label, entry.status, String(entry.findingCount), entry.text]) },
+        ],
+    },
+    {
+        id: 'checklists', label: 'Reporting Checklists', build: (m, visible) => (m.reportingChecklists || []).flatMap(checklist => [
+            { kind: 'heading', text: checklist.name },
+            { kind: 'paragraph', label: 'Why this checklist', text: checklist.reason },
+            { kind: 'paragraph', text: summarizeChecklist(checklist) },
+            {
+                kind: 'table', columns: ['Item', 'Checklist Item', 'Status', 'Reported On', 'Evidence'], statusColumn: 2,
+                rows: visible(checklist.items, checklistTriageKey(checklist.guidelineId)).map(item => [item.itemId || '', item.checklistItem, statusLabel(item.status), item.evidence ? describeFindingLocation(item.page, item.quoteVerification, m.estimatedPages) : '', item.evidence || item.reasoning]),
+            },
+        ] as ReportBlock[]),
+    },
+    {
+        id: 'integrity', label: 'Research Integrity', build: (m, visible) => visible(m.integrityReport, TRIAGE_KEYS.integrity).map(item => ({
+            kind: 'item', title: item.category, status: item.status, quote: item.snippet,
+            fields: [['Finding', item.finding], ['Quote check', describeQuoteVerification(item.quoteVerification)], ['Recommendation', item.recommendation], triageField(m, TRIAGE_KEYS.integrity(item))],
+        })),
+    },
+    {
+        id: 'analysis', label: 'Manuscript Analysis', build: (m, visible) => visible(m.analysisReport, TRIAGE_KEYS.analysis).map(issue => ({
+            kind: 'item', title: issue.issueCategory, status: issue.priority, quote: issue.quote,
+            fields: [
+                ['Issue', issue.summary],
+                ['Location', describeFindingLocation(issue.pageNumber, issue.quoteVerification, m.estimatedPages)],
+                ['Quote check', describeQuoteVerification(issue.quoteVerification)],
+                ['Recommendation', issue.recommendation],
+                triageField(m, TRIAGE_KEYS.analysis(issue)),
+            ],
+        })),
+    },
+    {
+        id: 'references', label: 'Reference Check', build: (m, visible) => {
+            const report = m.referenceReport;
+            if (!report || report.references.length === 0) return [];
+            const blocks: ReportBlock[] = [{ kind: 'paragraph', text: `${report.references.length} reference(s), ${report.citationCount} in-text citation(s), ${report.citationStyle} citation style.` }];
+            const findings = visible(report.findings, TRIAGE_KEYS.references);
+            if (findings.length > 0) {
+                blocks.push({ kind: 'table', columns: ['Finding', 'Summary', 'Quote', 'Location', 'Triage'], rows: findings.map(f => [f.type, f.summary, f.quote, m.estimatedPages ? f.location || `approx. p. ${f.page}` : `p. ${f.page}`, describeTriage(m.triage?.[TRIAGE_KEYS.references(f)])]) });
+            } else if (report.findings.length > 0) {
+                blocks.push({ kind: 'paragraph', text: 'No reference findings match the triage filter.' });
+            } else {
+                blocks.push({ kind: 'paragraph', text: 'Every in-text citation matches an entry in the reference list.' });
+            }
+            return blocks;
+        },
+    },
+    {
+        id: 'peerReview', label: 'Peer Review Simulation', build: m => {
+            const review = m.peerReviewSimulation;
+            if (!review) return [];
+            return [
+                { kind: 'paragraph', label: 'Summary', text: review.manuscriptSummary },
+                { kind: 'paragraph', label: 'Suitability for peer review', text: review.suitabilityForPeerReview },
+                { kind: 'heading', text: 'Strengths' }, { kind: 'list', items: review.strengths },
+                { kind: 'heading', text: 'Weaknesses' }, { kind: 'list', items: review.weaknesses },
+                { kind: 'heading', text: 'Reviewer concerns' }, { kind: 'list', items: review.reviewerConcerns },
+                { kind: 'paragraph', label: 'Methodological gaps', text: review.methodologicalGaps },
+                { kind: 'heading', text: 'Questions reviewers are likely to ask' }, { kind: 'list', items: review.reviewerQuestions },
+            ];
+        },
+    },
+    {
+        id: 'editorial', label: 'Editorial Suggestions', build: m => {
+            const report = m.editorialReport;
+            if (!report) return [];
+            const blocks: ReportBlock[] = [
+                { kind: 'heading', text: 'Title suggestions' }, { kind: 'list', items: report.titleSuggestions },
+                { kind: 'heading', text: 'Abstract' },
+                { kind: 'paragraph', label: 'Suggested rewrite', text: report.abstractRewrite.rewritten },
+                { kind: 'paragraph', label: 'Why', text: report.abstractRewrite.note },
+                { kind: 'paragraph', label: 'Suggested keywords', text: joinList(report.keywordSuggestions) },
+                { kind: 'paragraph', label: 'Ethics statement', text: report.ethicsStatement },
+            ];
+            if (report.citationImprovements.length > 0) {
+                blocks.push({ kind: 'heading', text: 'Citation formatting' });
+                blocks.push({ kind: 'table', columns: ['Original', 'Suggestion'], rows: report.citationImprovements.map(c => [c.original, c.suggestion]) });
+            }
+            if (report.contentImprovements.length > 0) {
+                blocks.push({ kind: 'heading', text: 'Language and content' });
+                blocks.push({ kind: 'table', columns: ['Type', 'Location', 'Original', 'Suggested', 'Reason'], rows: report.contentImprovements.map(c => [c.type, c.location, c.originalText, c.suggestedText, c.reason]) });
+            }
+            return blocks;
+        },
+    },
+    {
+        id: 'recommendations', label: 'Journal Recommendations', build: m => !m.journalRecommendations?.length ? [] : [{
+            kind: 'table', columns: ['Journal', 'Publisher', 'ISSN', 'Field', 'Reasoning'],
+            rows: m.journalRecommendations.map(rec => [rec.journalName, rec.publisher, rec.issn || '', rec.field, rec.reasoning]),
+        }],
+    },
+    {
+        id: 'metadata', label: 'Metadata Analysis', build: m => {
+            const report = m.metadataAnalysisReport;
+            if (!report) return [];
+            const author = report.correspondingAuthor;
+            const blocks: ReportBlock[] = [
+                { kind: 'paragraph', label: 'Predicted section type', text: report.predictedSectionType },
+                { kind: 'paragraph', label: 'Generated keywords', text: joinList(report.generatedKeywords) },
+                ...report.suggestedTaxonomy.map(t => ({ kind: 'paragraph', label: `Taxonomy (${t.scheme})`, text: joinList(t.tags) }) as ReportBlock),
+            ];
+            if (author?.name) blocks.push({ kind: 'paragraph', label: 'Corresponding author', text: [author.name, author.email, author.affiliation].filter(Boolean).join(', ') + (author.isComplete ? '' : ' (incomplete)') });
+            if (report.orcidValidation.length > 0) {
+                blocks.push({ kind: 'table', columns: ['Author', 'ORCID', 'Valid'], statusColumn: 2, rows: report.orcidValidation.map(o => [o.authorName, o.orcid, o.isValid ? 'Pass' : 'Fail']) });
+            }
+            if (report.fundingMetadata.length > 0) {
+                blocks.push({ kind: 'table', columns: ['Funder', 'Grant'], rows: report.fundingMetadata.map(f => [f.funderName, f.grantNumber || '']) });
+            }
+            return blocks;
+        },
+    },
+    {
+        id: 'structure', label: 'Structural Analysis', build: (m, visible) => visible(m.structuralReport, TRIAGE_KEYS.structure).map(issue => ({
+            kind: 'item', title: issue.issueCategory, status: issue.priority,
+            fields: [['Issue', issue.summary], ['Details', issue.details], ['Location', issue.location], ['Recommendation', issue.recommendation], triageField(m, TRIAGE_KEYS.structure(issue))],
+        })),
+    },
+    {
+        id: 'readability', label: 'Readability', build: (m, visible) => visible(m.readabilityReport, TRIAGE_KEYS.readability).map(issue => ({
+            kind: 'item', title: issue.issueCategory, status: issue.priority, quote: issue.quote,
+            fields: [['Issue', issue.summary], ['Details', issue.details], ['Location', issue.location], ['Recommendation', issue.recommendation], triageField(m, TRIAGE_KEYS.readability(issue))],
+        })),
+    },
+    {
+        id: 'bookMetadata', label: 'Metadata & TOC Validation', build: (m, visible) => visible(m.bookMetadataReport, TRIAGE_KEYS.bookMetadata).map(issue => ({
+            kind: 'item', title: issue.category, status: issue.status,
+            fields: [['Issue', issue.summary], ['Details', issue.details], ['Recommendation', issue.recommendation], triageField(m, TRIAGE_KEYS.bookMetadata(issue))],
+        })),
+    },
+    {
+        id: 'visuals', label: 'Visual Assets', build: (m, visible) => visible(m.visualAssetReport, TRIAGE_KEYS.visuals).map(issue => ({
+            kind: 'item', title: issue.category, status: issue.status,
+            fields: [['Issue', issue.description], ['Location', issue.location], ['Recommendation', issue.recommendation], triageField(m, TRIAGE_KEYS.visuals(issue))],
+        })),
+    },
+    {
+        id: 'bookEditorial', label: 'Editorial Check', build: (m, visible) => visible(m.bookEditorialReport, TRIAGE_KEYS.bookEditorial).map(issue => ({
+            kind: 'item', title: issue.category, status: issue.severity, quote: issue.quote,
+            fields: [['Location', issue.location], ['Quote check', describeQuoteVerification(issue.quoteVerification)], ['Suggestion', issue.suggestion], triageField(m, TRIAGE_KEYS.bookEditorial(issue))],
+        })),
+    },
+];
+
+const buildSection = (section: SectionDefinition, manuscript: ManuscriptFile, visible: VisibleFilter) =>
+    section.build(manuscript, visible).filter(block => block.kind !== 'paragraph' || block.text);
+
+const visibleWith = (manuscript: ManuscriptFile, options: ReportOptions): VisibleFilter => (items, triageKey) => (items || []).filter(item =>
+    (!options.hideUnverified || !isUnverified(item))
+    && (!triageKey || matchesTriageFilter(options.triageFilter || 'all', triageStatusOf(manuscript.triage, triageKey(item)))));
+
+// The sections this manuscript has results for, in report order.
+export const availableReportSections = (manuscript: ManuscriptFile, options: ReportOptions = {}) =>
+    REPORT_SECTIONS.filter(section => buildSection(section, manuscript, visibleWith(manuscript, options)).length > 0).map(({ id, label }) => ({ id, label }));
+
+export function buildReport(manuscript: ManuscriptFile, title: string, sectionIds: ReportSectionId[], options: ReportOptions = {}): ReportDocument {
+    const visible = visibleWith(manuscript, options);
+    const sections = REPORT_SECTIONS
+        .filter(section => sectionIds.includes(section.id))
+        .map(section => ({ id: section.id, title: section.label, blocks: buildSection(section, manuscript, visible) }))
+        .filter(section => section.blocks.length > 0);
+    if (options.hideUnverified) {
+        sections[0]?.blocks.push({ kind: 'paragraph', label: 'Note', text: 'Findings whose quote was not found in the manuscript are excluded.' });
+    }
+    const triageNote = describeTriageFilter(options.triageFilter || 'all');
+    if (triageNote) sections[0]?.blocks.push({ kind: 'paragraph', label: 'Note', text: `${triageNote}.` });
+    return { title, manuscriptName: manuscript.name, generatedAt: new Date().toLocaleString(), sections };
+}
+
+export const reportFileName = (manuscript: ManuscriptFile, extension: string) => `${manuscript.name.replace(/\.[^.]+$/, '')}_report.${extension}`;
+
+const DEFAULT_ACCENT = '0f766e';
+const accentOf = (branding: ReportBranding) => /^#?[0-9a-f]{6}$/i.test(branding.accentColor || '') ? branding.accentColor!.replace('#', '') : DEFAULT_ACCENT;
+
+const TONE_COLORS: Record<Tone, string> = { good: '15803d', bad: 'b91c1c', mixed: 'b45309', neutral: '475569' };
+
+// --- HTML ---
+
+const escapeHtml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const htmlText = (value: string | undefined = '') => escapeHtml(value).replace(/\n/g, '<br>');
+
+function renderBlockHtml(block: ReportBlock): string {
+    switch (block.kind) {
+        case 'heading':
+            return `<h3>${htmlText(block.text)}</h3>`;
+        case 'paragraph':
+            return `<p>${block.label ? `<strong>${htmlText(block.label)}:</strong> ` : ''}${htmlText(block.text)}</p>`;
+        case 'list':
+            return block.items.length > 0 ? `<ul>${block.items.map(item => `<li>${htmlText(item)}</li>`).join('')}</ul>` : '<p class="muted">None.</p>';
+        case 'table':
+            return `<table class="data"><thead><tr>${block.columns.map(c => `<th>${htmlText(c)}</th>`).join('')}</tr></thead><tbody>${block.rows.map(row =>
+                `<tr>${row.map((cell, i) => `<td${i === block.statusColumn ? ` class="status ${toneOf(cell)}"` : ''}>${htmlText(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+        case 'item':
+            return `<div class="item ${toneOf(block.status)}"><h4><span class="badge">${htmlText(statusLabel(block.status))}</span> ${htmlText(block.title)}</h4>${
+                block.quote ? `<blockquote>${htmlText(block.quote)}</blockquote>` : ''}${
+                block.fields.filter(([, value]) => value).map(([label, value]) => `<p><strong>${htmlText(label)}:</strong> ${htmlText(value)}</p>`).join('')}</div>`;
+    }
+}
+
+// The header and footer sit in a table's thead/tfoot so browsers repeat them on every printed page.
+export function renderReportHtml(report: ReportDocument, branding: ReportBranding = {}): string {
+    const accent = `#${accentOf(branding)}`;
+    const tones = (Object.entries(TONE_COLORS) as [Tone, string][]).map(([tone, color]) => `.item.${tone}{border-left-color:#${color}}.item.${tone} .badge{background:#${color}}td.status.${tone}{color:#${color};font-weight:600}`).join('');
+    const header = `<div class="brand">${branding.logoDataUrl ? `<img src="${escapeHtml(branding.logoDataUrl)}" alt="">` : ''}<div>${
+        branding.publisherName ? `<div class="publisher">${htmlText(branding.publisherName)}</div>` : ''}${branding.headerText ? `<div>${htmlText(branding.headerText)}</div>` : ''}</div></div>`;
+    const footer = `<div class="footer">${htmlText(branding.footerText || '')}</div>`;
+    const body = report.sections.map(section => `<section><h2>${htmlText(section.title)}</h2>${section.blocks.map(renderBlockHtml).join('\n')}</section>`).join('\n');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${htmlText(`${report.title}: ${report.manuscriptName}`)}</title>
+<style>
+body{font-family:"Segoe UI",Calibri,Arial,sans-serif;font-size:10.5pt;line-height:1.45;color:#1e293b;margin:0 auto;max-width:210mm;padding:0 12mm}
+table.page{width:100%;border-collapse:collapse}
+.brand{display:flex;align-items:center;gap:12px;padding:8px 0;border-bottom:2px solid ${accent};font-size:9pt;color:#475569}
+.brand img{max-height:40px;max-width:160px}
+.publisher{font-weight:600;color:${accent};font-size:11pt}
+.footer{border-top:1px solid #cbd5e1;padding:6px 0;font-size:8.5pt;color:#64748b}
+h1{color:${accent};font-size:22pt;margin:18px 0 2px}
+.subtitle{color:#64748b;margin:0 0 12px}
+h2{color:${accent};font-size:15pt;border-bottom:1px solid ${accent};padding-bottom:3px;margin-top:26px;break-after:avoid}
+h3{font-size:12pt;margin:16px 0 6px;break-after:avoid}
+h4{font-size:10.5pt;margin:0 0 4px}
+p{margin:4px 0}
+.muted{color:#64748b}
+table.data{width:100%;border-collapse:collapse;margin:8px 0;font-size:9pt}
+table.data th{background:${accent};color:#fff;text-align:left;padding:4px 6px}
+table.data td{border:1px solid #cbd5e1;padding:4px 6px;vertical-align:top}
+table.data thead{display:table-header-group}
+table.data tr{break-inside:avoid}
+.item{border:1px solid #e2e8f0;border-left:4px solid #475569;border-radius:4px;padding:8px 10px;margin:8px 0;break-inside:avoid}
+.badge{display:inline-block;color:#fff;background:#475569;border-radius:3px;padding:1px 6px;font-size:8pt;margin-right:4px;vertical-align:middle}
+blockquote{margin:6px 0;padding:4px 10px;border-left:3px solid #cbd5e1;color:#475569;font-style:italic}
+${tones}
+@page{size:A4;margin:14mm 12mm;@bottom-right{content:"Page " counter(page) " of " counter(pages);font-size:8pt;color:#64748b}}
+@media print{body{max-width:none;padding:0}section{break-before:auto}}
+</style>
+</head>
+<body>
+<table class="page">
+<thead><tr><td>${header}</td></tr></thead>
+<tfoot><tr><td>${footer}</td></tr></tfoot>
+<tbody><tr><td>
+<h1>${htmlText(report.title)}</h1>
+<p class="subtitle">${htmlText(report.manuscriptName)} · ${htmlText(report.generatedAt)}</p>
+${body}
+</td></tr></tbody>
+</table>
+</body>
+</html>`;
+}
+
+// Prints the HTML report from a hidden frame; the browser's "Save as PDF" destination turns it into the PDF.
+export function printReport(html: string): void {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+        frame.contentWindow?.focus();
+        frame.contentWindow?.print();
+        setTimeout(() => frame.remove(), 1000);
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+}
+
+// --- DOCX ---
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const CONTENT_WIDTH = 9638; // A4 less 2 cm margins, in twentieths of a point
+
+interface RunStyle { bold?: boolean, italic?: boolean, color?: string, size?: number }
+
+function run(text: string | undefined = '', style: RunStyle = {}): string {
+    const props = [style.bold ? '<w:b/>' : '', style.italic ? '<w:i/>' : '', style.color ? `<w:color w:val="${style.color}"/>` : '', style.size ? `<w:sz w:val="${style.size}"/>` : ''].join('');
+    return text.split('\n').map((line, i) => `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`).join('');
+}
+
+const paragraph = (runs: string, style?: string, extraProps = '') => `<w:p>${style || extraProps ? `<w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${extraProps}</w:pPr>` : ''}${runs}</w:p>`;
+
+function tableXml(block: Extract<ReportBlock, { kind: 'table' }>, accent: string): string {
+    const width = Math.floor(CONTENT_WIDTH / block.columns.length);
+    const cell = (content: string, shading?: string) => `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${shading}"/>` : ''}</w:tcPr>${content}</w:tc>`;
+    const header = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${block.columns.map(c => cell(paragraph(run(c, { bold: true, color: 'FFFFFF' }), 'TableText'), accent)).join('')}</w:tr>`;
+    const rows = block.rows.map(row => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${row.map((value, i) =>
+        cell(paragraph(run(value, i === block.statusColumn ? { bold: true, color: TONE_COLORS[toneOf(value)] } : {}), 'TableText'))).join('')}</w:tr>`).join('');
+    return `<w:tbl><w:tblPr><w:tblStyle w:val="ReportTable"/><w:tblW w:w="5000" w:type="pct"/><w:tblLayout w:type="fixed"/></w:tblPr><w:tblGrid>${block.columns.map(() => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>${header}${rows}</w:tbl>${paragraph('', 'Spacer')}`;
+}
+
+function blockXml(block: ReportBlock, accent: string): string {
+    switch (block.kind) {
+        case 'heading':
+            return paragraph(run(block.text), 'Heading2');
+        case 'paragraph':
+            return paragraph((block.label ? run(`${block.label}: `, { bold: true }) : '') + run(block.text));
+        case 'list':
+            return block.items.length > 0
+                ? block.items.map(item => docxParagraph(item, 'ListBullet')).join('')
+                : paragraph(run('None.', { italic: true }));
+        case 'table':
+            return tableXml(block, accent);
+        case 'item': {
+            const color = TONE_COLORS[toneOf(block.status)];
+            return [
+                paragraph(run(`${statusLabel(block.status)}  `, { bold: true, color }) + run(block.title), 'Heading3'),
+                block.quote ? paragraph(run(block.quote), 'Quote') : '',
+                ...block.fields.filter(([, value]) => value).map(([label, value]) => paragraph(run(`${label}: `, { bold: true }) + run(value), 'ItemField')),
+            ].join('');
+        }
+    }
+}
+
+interface LogoImage { bytes: Uint8Array, extension: 'png' | 'jpeg', width: number, height: number }
+
+// Pixel size from the PNG IHDR chunk or the first JPEG start-of-frame marker.
+function readLogo(dataUrl: string | undefined): LogoImage | undefined {
+    const match = dataUrl?.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+    if (!match) return undefined;
+    const bytes = Uint8Array.from(atob(match[2]), c => c.charCodeAt(0));
+    const view = new DataView(bytes.buffer);
+    if (match[1] === 'png') {
+        return bytes.length > 24 ? { bytes, extension: 'png', width: view.getUint32(16), height: view.getUint32(20) } : undefined;
+    }
+    for (let offset = 2; offset + 9 < bytes.length;) {
+        if (bytes[offset] !== 0xFF) return undefined;
+        const marker = bytes[offset + 1];
+        if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+            return { bytes, extension: 'jpeg', width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+    }
+    return undefined;
+}
+
+// The logo is scaled to 40 px high (at most 200 px wide); 9525 EMU per pixel.
+function logoDrawing(logo: LogoImage): string {
+    const scale = Math.min(40 / logo.height, 200 / logo.width);
+    const cx = Math.round(logo.width * scale * 9525);
+    const cy = Math.round(logo.height * scale * 9525);
+    return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="1" name="Logo"/><wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:nvPicPr><pic:cNvPr id="0" name="logo.${logo.extension}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="rIdLogo"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+}
+
+const field = (instruction: string) => `<w:fldSimple w:instr=" ${instruction} "><w:r><w:t>1</w:t></w:r></w:fldSimple>`;
+
+function stylesXml(accent: string): string {
+    const style = (id: string, name: string, pPr: string, rPr: string, type = 'paragraph') =>
+        `<w:style w:type="${type}" w:styleId="${id}"><w:name w:val="${name}"/>${type === 'paragraph' ? '<w:basedOn w:val="Normal"/><w:qFormat/>' : ''}${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}</w:style>`;
+    const border = (side: string, color: string, size = 4) => `<w:${side} w:val="single" w:sz="${size}" w:space="0" w:color="${color}"/>`;
+    return `${XML_HEADER}<w:styles ${W_NS}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:color w:val="1E293B"/><w:sz w:val="20"/><w:szCs w:val="20"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${style('Title', 'Title', '<w:spacing w:after="40"/>', `<w:b/><w:color w:val="${accent}"/><w:sz w:val="44"/>`)}
+${style('Subtitle', 'Subtitle', '<w:spacing w:after="240"/>', '<w:color w:val="64748B"/>')}
+${style('Heading1', 'heading 1', `<w:keepNext/><w:pBdr>${border('bottom', accent, 6)}</w:pBdr><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/>`, `<w:b/><w:color w:val="${accent}"/><w:sz w:val="30"/>`)}
+${style('Heading2', 'heading 2', '<w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/>', '<w:b/><w:sz w:val="24"/>')}
+${style('Heading3', 'heading 3', '<w:keepNext/><w:spacing w:before="200" w:after="40"/><w:outlineLvl w:val="2"/>', '<w:b/><w:sz w:val="21"/>')}
+${style('ItemField', 'Item Field', '<w:spacing w:after="40"/><w:ind w:left="227"/>', '')}
+${style('Quote', 'Quote', `<w:pBdr>${border('left', 'CBD5E1', 12)}</w:pBdr><w:spacing w:after="60"/><w:ind w:left="227" w:right="227"/>`, '<w:i/><w:color w:val="475569"/>')}
+${style('ListBullet', 'List Bullet', '<w:spacing w:after="40"/>', '')}
+${style('TableText', 'Table Text', '<w:spacing w:after="0"/>', '<w:sz w:val="17"/>')}
+${style('Spacer', 'Spacer', '<w:spacing w:after="0"/>', '<w:sz w:val="8"/>')}
+${style('Header', 'header', `<w:pBdr>${border('bottom', accent, 8)}</w:pBdr><w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH}"/></w:tabs>`, '<w:color w:val="475569"/><w:sz w:val="17"/>')}
+${style('Footer', 'footer', `<w:pBdr>${border('top', 'CBD5E1')}</w:pBdr><w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH}"/></w:tabs>`, '<w:color w:val="64748B"/><w:sz w:val="16"/>')}
+<w:style w:type="table" w:styleId="ReportTable"><w:name w:val="Report Table"/><w:tblPr><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => border(side, 'CBD5E1')).join('')}</w:tblBorders><w:tblCellMar><w:top w:w="40" w:type="dxa"/><w:left w:w="80" w:type="dxa"/><w:bottom w:w="40" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+}
+
+const NUMBERING_XML = `${XML_HEADER}<w:numbering ${W_NS}><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="454" w:hanging="227"/></w:pPr></w:lvl></w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+
+const relationships = (entries: [string, string, string][]) =>
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${entries.map(([id, type, target]) =>
+        `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`).join('')}</Relationships>`;
+
+// One paragraph of plain text for packageDocx; bulleted paragraphs use the package's bullet list.
+export const docxParagraph = (text: string, style?: 'Title' | 'Subtitle' | 'Heading2' | 'ListBullet') =>
+    style === 'ListBullet' ? paragraph(run(text), style, '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>') : paragraph(run(text), style);
+
+// Wraps WordprocessingML body paragraphs in a DOCX package with the report styles and the branded header and footer.
+export function packageDocx(title: string, body: string, branding: ReportBranding = {}): Uint8Array {
+    const accent = accentOf(branding).toUpperCase();
+    const logo = readLogo(branding.logoDataUrl);
+    const headerText = [branding.publisherName, branding.headerText].filter(Boolean).join(' · ');
+    const header = paragraph((logo ? logoDrawing(logo) : '') + (headerText ? `<w:r><w:tab/></w:r>${run(headerText)}` : ''), 'Header');
+    const footer = paragraph(`${run(branding.footerText || '')}<w:r><w:tab/></w:r>${run('Page ')}${field('PAGE')}${run(' of ')}${field('NUMPAGES')}`, 'Footer');
+    const documentXml = `${XML_HEADER}<w:document ${W_NS}><w:body>${body}<w:sectPr><w:headerReference w:type="default" r:id="rIdHeader"/><w:footerReference w:type="default" r:id="rIdFooter"/><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1418" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+    const files: Record<string, Uint8Array> = {
+        '[Content_Types].xml': strToU8(`${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Default Extension="jpeg" ContentType="image/jpeg"/>${
+            [['document', 'document.main'], ['styles', 'styles'], ['numbering', 'numbering'], ['header1', 'header'], ['footer1', 'footer']].map(([part, type]) =>
+                `<Override PartName="/word/${part}.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.${type}+xml"/>`).join('')
+        }<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`),
+        '_rels/.rels': strToU8(`${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`),
+        'docProps/core.xml': strToU8(`${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(title)}</dc:title><dc:creator>${escapeXml(branding.publisherName || '')}</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created></cp:coreProperties>`),
+        'word/document.xml': strToU8(documentXml),
+        'word/styles.xml': strToU8(stylesXml(accent)),
+        'word/numbering.xml': strToU8(NUMBERING_XML),
+        'word/header1.xml': strToU8(`${XML_HEADER}<w:hdr ${W_NS}>${header}</w:hdr>`),
+        'word/footer1.xml': strToU8(`${XML_HEADER}<w:ftr ${W_NS}>${footer}</w:ftr>`),
+        'word/_rels/document.xml.rels': strToU8(relationships([
+            ['rIdStyles', 'styles', 'styles.xml'], ['rIdNumbering', 'numbering', 'numbering.xml'], ['rIdHeader', 'header', 'header1.xml'], ['rIdFooter', 'footer', 'footer1.xml'],
+        ])),
+    };
+    if (logo) {
+        files[`word/media/logo.${logo.extension}`] = logo.bytes;
+        files['word/_rels/header1.xml.rels'] = strToU8(relationships([['rIdLogo', 'image', `media/logo.${logo.extension}`]]));
+    }
+    return zipSync(files);
+}
+
+export function renderReportDocx(report: ReportDocument, branding: ReportBranding = {}): Uint8Array {
+    const accent = accentOf(branding).toUpperCase();
+    const body = [
+        paragraph(run(report.title), 'Title'),
+        paragraph(run(`${report.manuscriptName} · ${report.generatedAt}`), 'Subtitle'),
+        ...report.sections.flatMap(section => [paragraph(run(section.title), 'Heading1'), ...section.blocks.map(block => blockXml(block, accent))]),
+    ].join('');
+    return packageDocx(`${report.title}: ${report.manuscriptName}`, body, branding);
+}
@@ -0,0 +1,351 @@
+
+import { ComplianceItem, ComplianceStatus, ReportingChecklistReport, ReportingGuidelineId } from '../types';
+
+// Bundled reporting guideline checklists with item-level definitions (paraphrased from the published checklists),
+// which guidelines suit a manuscript, and how the per-section model assessments become one completed checklist.
+
+interface GuidelineItem {
+    id: string; // As numbered in the published checklist
+    section: string;
+    topic: string;
+    definition: string;
+}
+
+export interface ReportingGuideline {
+    id: ReportingGuidelineId;
+    name: string;
+    version: string;
+    scope: string; // The study designs the guideline is for
+    items: GuidelineItem[];
+}
+
+// Builds items from [id, topic, definition] rows under one checklist section.
+const section = (name: string, rows: [string, string, string][]): GuidelineItem[] =>
+    rows.map(([id, topic, definition]) => ({ id, section: name, topic, definition }));
+
+export const REPORTING_GUIDELINES: Record<ReportingGuidelineId, ReportingGuideline> = {
+    CONSORT: {
+        id: 'CONSORT', name: 'CONSORT', version: '2010', scope: 'Parallel-group randomised trials',
+        items: [
+            ...section('Title and abstract', [
+                ['1a', 'Title', 'Identified as a randomised trial in the title.'],
+                ['1b', 'Abstract', 'Structured summary of trial design, methods, results and conclusions.'],
+            ]),
+            ...section('Introduction', [
+                ['2a', 'Background', 'Scientific background and explanation of rationale.'],
+                ['2b', 'Objectives', 'Specific objectives or hypotheses.'],
+            ]),
+            ...section('Methods', [
+                ['3a', 'Trial design', 'Description of trial design (such as parallel, factorial), including allocation ratio.'],
+                ['3b', 'Trial design', 'Important changes to methods after trial commencement (such as eligibility criteria), with reasons.'],
+                ['4a', 'Participants', 'Eligibility criteria for participants.'],
+                ['4b', 'Participants', 'Settings and locations where the data were collected.'],
+                ['5', 'Interventions', 'The interventions for each group with enough detail to allow replication, including how and when they were administered.'],
+                ['6a', 'Outcomes', 'Completely defined pre-specified primary and secondary outcome measures, including how and when they were assessed.'],
+                ['6b', 'Outcomes', 'Any changes to trial outcomes after the trial commenced, with reasons.'],
+                ['7a', 'Sample size', 'How the sample size was determined.'],
+                ['7b', 'Sample size', 'When applicable, explanation of any interim analyses and stopping guidelines.'],
+                ['8a', 'Randomisation: sequence generation', 'Method used to generate the random allocation sequence.'],
+                ['8b', 'Randomisation: sequence generation', 'Type of randomisation and details of any restriction (such as blocking and block size).'],
+                ['9', 'Allocation concealment', 'Mechanism used to implement the allocation sequence and steps taken to conceal it until interventions were assigned.'],
+                ['10', 'Implementation', 'Who generated the allocation sequence, who enrolled participants, and who assigned participants to interventions.'],
+                ['11a', 'Blinding', 'If done, who was blinded after assignment to interventions (participants, care providers, outcome assessors) and how.'],
+                ['11b', 'Blinding', 'If relevant, description of the similarity of interventions.'],
+                ['12a', 'Statistical methods', 'Statistical methods used to compare groups for primary and secondary outcomes.'],
+                ['12b', 'Statistical methods', 'Methods for additional analyses, such as subgroup and adjusted analyses.'],
+            ]),
+            ...section('Results', [
+                ['13a', 'Participant flow', 'For each group, the numbers randomly assigned, receiving the intended treatment and analysed for the primary outcome (a flow diagram is strongly recommended).'],
+                ['13b', 'Participant flow', 'For each group, losses and exclusions after randomisation, with reasons.'],
+                ['14a', 'Recruitment', 'Dates defining the periods of recruitment and follow-up.'],
+                ['14b', 'Recruitment', 'Why the trial ended or was stopped.'],
+                ['15', 'Baseline data', 'A table showing baseline demographic and clinical characteristics for each group.'],
+                ['16', 'Numbers analysed', 'For each group, the number of participants included in each analysis and whether the analysis was by original assigned groups.'],
+                ['17a', 'Outcomes and estimation', 'For each outcome, results for each group and the estimated effect size and its precision (such as a 95% confidence interval).'],
+                ['17b', 'Outcomes and estimation', 'For binary outcomes, both absolute and relative effect sizes.'],
+                ['18', 'Ancillary analyses', 'Results of any other analyses performed, distinguishing pre-specified from exploratory.'],
+                ['19', 'Harms', 'All important harms or unintended effects in each group.'],
+            ]),
+            ...section('Discussion', [
+                ['20', 'Limitations', 'Trial limitations, addressing sources of potential bias, imprecision and, if relevant, multiplicity of analyses.'],
+                ['21', 'Generalisability', 'Generalisability (external validity, applicability) of the trial findings.'],
+                ['22', 'Interpretation', 'Interpretation consistent with results, balancing benefits and harms and considering other relevant evidence.'],
+            ]),
+            ...section('Other information', [
+                ['23', 'Registration', 'Registration number and name of the trial registry.'],
+                ['24', 'Protocol', 'Where the full trial protocol can be accessed, if available.'],
+                ['25', 'Funding', 'Sources of funding and other support (such as supply of drugs) and the role of funders.'],
+            ]),
+        ],
+    },
+    PRISMA: {
+        id: 'PRISMA', name: 'PRISMA', version: '2020', scope: 'Systematic reviews and meta-analyses',
+        items: [
+            ...section('Title', [['1', 'Title', 'Identifies the report as a systematic review.']]),
+            ...section('Abstract', [['2', 'Abstract', 'Structured abstract covering the items of the PRISMA 2020 for Abstracts checklist.']]),
+            ...section('Introduction', [
+                ['3', 'Rationale', 'Rationale for the review in the context of existing knowledge.'],
+                ['4', 'Objectives', 'Explicit statement of the objectives or questions the review addresses.'],
+            ]),
+            ...section('Methods', [
+                ['5', 'Eligibility criteria', 'Inclusion and exclusion criteria for the review and how studies were grouped for the syntheses.'],
+                ['6', 'Information sources', 'All databases, registers, websites, organisations, reference lists and other sources searched or consulted, with the date each was last searched.'],
+                ['7', 'Search strategy', 'Full search strategies for all databases, registers and websites, including any filters and limits used.'],
+                ['8', 'Selection process', 'Methods used to decide whether a study met the inclusion criteria, including how many reviewers screened, whether independently, and any automation tools.'],
+                ['9', 'Data collection process', 'Methods used to collect data from reports, including how many reviewers, whether independently, and any processes for obtaining or confirming data from investigators.'],
+                ['10a', 'Data items', 'All outcomes for which data were sought, and the methods used to decide which results to collect.'],
+                ['10b', 'Data items', 'All other variables for which data were sought (such as participant and intervention characteristics, funding sources) and assumptions about missing or unclear information.'],
+                ['11', 'Study risk of bias assessment', 'Methods used to assess risk of bias in the included studies, including the tool(s) and how many reviewers assessed each study.'],
+                ['12', 'Effect measures', 'For each outcome, the effect measure(s) used in the synthesis or presentation of results.'],
+                ['13a', 'Synthesis methods', 'Processes used to decide which studies were eligible for each synthesis.'],
+                ['13b', 'Synthesis methods', 'Methods required to prepare the data for presentation or synthesis, such as handling missing summary statistics or data conversions.'],
+                ['13c', 'Synthesis methods', 'Methods used to tabulate or visually display results of individual studies and syntheses.'],
+                ['13d', 'Synthesis methods', 'Methods used to synthesise results and their rationale; for meta-analysis, the model(s) and methods to identify heterogeneity, and software used.'],
+                ['13e', 'Synthesis methods', 'Methods used to explore possible causes of heterogeneity among study results (such as subgroup analysis, meta-regression).'],
+                ['13f', 'Synthesis methods', 'Sensitivity analyses conducted to assess the robustness of the synthesised results.'],
+                ['14', 'Reporting bias assessment', 'Methods used to assess risk of bias due to missing results in a synthesis (reporting biases).'],
+                ['15', 'Certainty assessment', 'Methods used to assess certainty (or confidence) in the body of evidence for an outcome.'],
+            ]),
+            ...section('Results', [
+                ['16a', 'Study selection', 'Results of the search and selection process, from records identified to studies included, ideally with a flow diagram.'],
+                ['16b', 'Study selection', 'Studies that might appear to meet the inclusion criteria but were excluded, and why.'],
+                ['17', 'Study characteristics', 'Each included study cited, with its characteristics.'],
+                ['18', 'Risk of bias in studies', 'Assessments of risk of bias for each included study.'],
+                ['19', 'Results of individual studies', 'For all outcomes, summary statistics for each group and an effect estimate with its precision for each study.'],
+                ['20a', 'Results of syntheses', 'For each synthesis, a brief summary of the characteristics and risk of bias among contributing studies.'],
+                ['20b', 'Results of syntheses', 'Results of all statistical syntheses; for meta-analyses, the summary estimate, its precision and measures of statistical heterogeneity.'],
+                ['20c', 'Results of syntheses', 'Results of all investigations of possible causes of heterogeneity.'],
+                ['20d', 'Results of syntheses', 'Results of all sensitivity analyses.'],
+                ['21', 'Reporting biases', 'Assessments of risk of bias due to missing results for each synthesis assessed.'],
+                ['22', 'Certainty of evidence', 'Assessments of certainty (or confidence) in the body of evidence for each outcome assessed.'],
+            ]),
+            ...section('Discussion', [
+                ['23a', 'Discussion', 'General interpretation of the results in the context of other evidence.'],
+                ['23b', 'Discussion', 'Limitations of the evidence included in the review.'],
+                ['23c', 'Discussion', 'Limitations of the review processes used.'],
+                ['23d', 'Discussion', 'Implications of the results for practice, policy and future research.'],
+            ]),
+            ...section('Other information', [
+                ['24a', 'Registration and protocol', 'Registration information including register name and number, or a statement that the review was not registered.'],
+                ['24b', 'Registration and protocol', 'Where the review protocol can be accessed, or a statement that a protocol was not prepared.'],
+                ['24c', 'Registration and protocol', 'Any amendments to information provided at registration or in the protocol.'],
+                ['25', 'Support', 'Sources of financial or non-financial support for the review and the role of the funders or sponsors.'],
+                ['26', 'Competing interests', 'Any competing interests of review authors.'],
+                ['27', 'Availability of data, code and other materials', 'Which of the following are publicly available and where: template data collection forms, extracted data, data used for analyses, analytic code, other materials.'],
+            ]),
+        ],
+    },
+    ARRIVE: {
+        id: 'ARRIVE', name: 'ARRIVE', version: '2.0', scope: 'In vivo animal research',
+        items: [
+            ...section('Essential 10', [
+                ['1a', 'Study design', 'The groups being compared, including control groups; if no control group was used, the rationale.'],
+                ['1b', 'Study design', 'The experimental unit (such as a single animal, litter or cage of animals).'],
+                ['2a', 'Sample size', 'The exact number of experimental units allocated to each group and the total number in each experiment, including the total number of animals used.'],
+                ['2b', 'Sample size', 'How the sample size was decided, with details of any a priori sample size calculation.'],
+                ['3a', 'Inclusion and exclusion criteria', 'Criteria used for including and excluding animals (or experimental units) during the experiment and data points during the analysis, and whether they were set a priori.'],
+                ['3b', 'Inclusion and exclusion criteria', 'For each group, any animals, experimental units or data points not included in the analysis and why, or a statement that none were excluded.'],
+                ['3c', 'Inclusion and exclusion criteria', 'For each analysis, the exact value of n in each experimental group.'],
+                ['4a', 'Randomisation', 'Whether randomisation was used to allocate experimental units to groups, and the method used to generate the randomisation sequence.'],
+                ['4b', 'Randomisation', 'The strategy used to minimise potential confounders such as the order of treatments and measurements or animal location, or a statement that they were not controlled.'],
+                ['5', 'Blinding', 'Who was aware of group allocation at the different stages of the experiment (allocation, conduct, outcome assessment, data analysis).'],
+                ['6a', 'Outcome measures', 'Clear definitions of all outcome measures assessed.'],
+                ['6b', 'Outcome measures', 'For hypothesis-testing studies, the primary outcome measure.'],
+                ['7a', 'Statistical methods', 'The statistical methods used for each analysis, including the software used.'],
+                ['7b', 'Statistical methods', 'Any methods used to assess whether the data met the assumptions of the statistical approach, and what was done if they did not.'],
+                ['8a', 'Experimental animals', 'Species-appropriate details of the animals used, including species, strain and substrain, sex, age or developmental stage, and, if relevant, weight.'],
+                ['8b', 'Experimental animals', 'Further relevant information on the provenance of animals, health or immune status, genetic modification status, genotype and any previous procedures.'],
+                ['9a', 'Experimental procedures', 'For each group, including controls, what was done, how it was done and what was used.'],
+                ['9b', 'Experimental procedures', 'When and how often the procedures were carried out.'],
+                ['9c', 'Experimental procedures', 'Where the procedures were carried out, including any acclimatisation periods.'],
+                ['9d', 'Experimental procedures', 'Why the procedures were carried out (their rationale).'],
+                ['10a', 'Results', 'For each experiment and each group, descriptive statistics with a measure of variability where applicable.'],
+                ['10b', 'Results', 'If applicable, the effect size with a confidence interval.'],
+            ]),
+            ...section('Recommended Set', [
+                ['11', 'Abstract', 'An accurate summary of the research objectives, animal species, strain and sex, key methods, principal findings and study conclusions.'],
+                ['12', 'Background', 'The scientific background, the rationale for the experimental approach and, where applicable, the relevance of the animal species and model to human biology.'],
+                ['13', 'Objectives', 'The research question, research objectives and, where appropriate, the specific hypotheses being tested.'],
+                ['14', 'Ethical statement', 'The ethical review committee or equivalent that approved the procedures, and any relevant licence or protocol numbers.'],
+                ['15', 'Housing and husbandry', 'Housing and husbandry conditions, including any environmental enrichment.'],
+                ['16', 'Animal care and monitoring', 'Interventions to reduce pain, suffering and distress, any expected or unexpected adverse events, and humane endpoints.'],
+                ['17', 'Interpretation and scientific implications', 'Interpretation of the results in the context of the objectives and current theory, with the study limitations.'],
+                ['18', 'Generalisability and translation', 'Whether and how the findings are likely to generalise to other species or experimental conditions, including relevance to human biology.'],
+                ['19', 'Protocol registration', 'Whether a protocol was prepared and registered before the study, and where it can be accessed.'],
+                ['20', 'Data access', 'A statement describing if and where the study data are available.'],
+                ['21', 'Declaration of interests', 'Any potential conflicts of interest and all sources of funding, with the role of the funders.'],
+            ]),
+        ],
+    },
+    STROBE: {
+        id: 'STROBE', name: 'STROBE', version: '2007', scope: 'Observational studies (cohort, case-control and cross-sectional)',
+        items: [
+            ...section('Title and abstract', [
+                ['1a', 'Title and abstract', 'The study design indicated with a commonly used term in the title or the abstract.'],
+                ['1b', 'Title and abstract', 'An informative and balanced summary in the abstract of what was done and what was found.'],
+            ]),
+            ...section('Introduction', [
+                ['2', 'Background/rationale', 'The scientific background and rationale for the investigation.'],
+                ['3', 'Objectives', 'Specific objectives, including any prespecified hypotheses.'],
+            ]),
+            ...section('Methods', [
+                ['4', 'Study design', 'Key elements of the study design presented early in the paper.'],
+                ['5', 'Setting', 'The setting, locations and relevant dates, including periods of recruitment, exposure, follow-up and data collection.'],
+                ['6a', 'Participants', 'Eligibility criteria and the sources and methods of selecting participants (and of follow-up, case ascertainment or control selection, as the design requires).'],
+                ['6b', 'Participants', 'For matched studies, the matching criteria and the number of exposed and unexposed participants or of controls per case.'],
+                ['7', 'Variables', 'Clear definitions of all outcomes, exposures, predictors, potential confounders and effect modifiers, with diagnostic criteria if applicable.'],
+                ['8', 'Data sources/measurement', 'For each variable of interest, sources of data and details of assessment, and the comparability of assessment methods across groups.'],
+                ['9', 'Bias', 'Any efforts to address potential sources of bias.'],
+                ['10', 'Study size', 'How the study size was arrived at.'],
+                ['11', 'Quantitative variables', 'How quantitative variables were handled in the analyses, and which groupings were chosen and why.'],
+                ['12a', 'Statistical methods', 'All statistical methods, including those used to control for confounding.'],
+                ['12b', 'Statistical methods', 'Any methods used to examine subgroups and interactions.'],
+                ['12c', 'Statistical methods', 'How missing data were addressed.'],
+                ['12d', 'Statistical methods', 'How loss to follow-up, matching of cases and controls, or the sampling strategy was addressed, as applicable.'],
+                ['12e', 'Statistical methods', 'Any sensitivity analyses.'],
+            ]),
+            ...section('Results', [
+                ['13a', 'Participants', 'Numbers of individuals at each stage of the study (potentially eligible, examined, confirmed eligible, included, completing follow-up, analysed).'],
+                ['13b', 'Participants', 'Reasons for non-participation at each stage.'],
+                ['13c', 'Participants', 'Use of a flow diagram, if considered.'],
+                ['14a', 'Descriptive data', 'Characteristics of study participants and information on exposures and potential confounders.'],
+                ['14b', 'Descriptive data', 'The number of participants with missing data for each variable of interest.'],
+                ['14c', 'Descriptive data', 'For cohort studies, follow-up time summarised (such as average and total amount).'],
+                ['15', 'Outcome data', 'Numbers of outcome events or summary measures (over time, by exposure category, as the design requires).'],
+                ['16a', 'Main results', 'Unadjusted estimates and, if applicable, confounder-adjusted estimates with their precision, making clear which confounders were adjusted for and why.'],
+                ['16b', 'Main results', 'Category boundaries when continuous variables were categorised.'],
+                ['16c', 'Main results', 'If relevant, relative risk translated into absolute risk for a meaningful time period.'],
+                ['17', 'Other analyses', 'Other analyses done, such as of subgroups and interactions, and sensitivity analyses.'],
+            ]),
+            ...section('Discussion', [
+                ['18', 'Key results', 'Key results summarised with reference to the study objectives.'],
+                ['19', 'Limitations', 'Limitations of the study, taking into account sources of potential bias or imprecision, with the direction and magnitude of any potential bias.'],
+                ['20', 'Interpretation', 'A cautious overall interpretation considering objectives, limitations, multiplicity of analyses, results from similar studies and other relevant evidence.'],
+                ['21', 'Generalisability', 'The generalisability (external validity) of the study results.'],
+            ]),
+            ...section('Other information', [
+                ['22', 'Funding', 'The source of funding and the role of the funders for the present study and, if applicable, for the original study on which it is based.'],
+            ]),
+        ],
+    },
+    CARE: {
+        id: 'CARE', name: 'CARE', version: '2013', scope: 'Case reports',
+        items: [
+            ...section('Title', [['1', 'Title', 'The words "case report" in the title, along with the area of focus.']]),
+            ...section('Keywords', [['2', 'Keywords', 'Two to five keywords that identify the diagnoses or interventions in the case, including "case report".']]),
+            ...section('Abstract', [
+                ['3a', 'Abstract: introduction', 'What is unique about the case and what it adds to the scientific literature.'],
+                ['3b', 'Abstract: case presentation', 'The main symptoms of the patient and the important clinical findings.'],
+                ['3c', 'Abstract: case presentation', 'The main diagnoses, therapeutic interventions and outcomes.'],
+                ['3d', 'Abstract: conclusion', 'One or more main take-away lessons from the case.'],
+            ]),
+            ...section('Introduction', [['4', 'Introduction', 'A brief background summary of the case, referencing the relevant medical literature.']]),
+            ...section('Patient information', [
+                ['5a', 'Patient information', 'De-identified patient-specific information (such as age, sex, ethnicity, occupation).'],
+                ['5b', 'Patient information', 'The primary concerns and symptoms of the patient.'],
+                ['5c', 'Patient information', 'Medical, family and psychosocial history, including relevant genetic information.'],
+                ['5d', 'Patient information', 'Relevant past interventions and their outcomes.'],
+            ]),
+            ...section('Clinical findings', [['6', 'Clinical findings', 'The relevant physical examination and other significant clinical findings.']]),
+            ...section('Timeline', [['7', 'Timeline', 'Historical and current information from this episode of care organised as a timeline.']]),
+            ...section('Diagnostic assessment', [
+                ['8a', 'Diagnostic assessment', 'Diagnostic methods (such as physical examination, laboratory testing, imaging, surveys).'],
+                ['8b', 'Diagnostic assessment', 'Diagnostic challenges (such as access to testing, financial or cultural).'],
+                ['8c', 'Diagnostic assessment', 'Diagnosis, including other diagnoses considered.'],
+                ['8d', 'Diagnostic assessment', 'Prognostic characteristics (such as staging) where applicable.'],
+            ]),
+            ...section('Therapeutic intervention', [
+                ['9a', 'Therapeutic intervention', 'Types of therapeutic intervention (such as pharmacologic, surgical, preventive, self-care).'],
+                ['9b', 'Therapeutic intervention', 'Administration of the therapeutic intervention (such as dosage, strength, duration).'],
+                ['9c', 'Therapeutic intervention', 'Changes in the therapeutic intervention, with rationale.'],
+            ]),
+            ...section('Follow-up and outcomes', [
+                ['10a', 'Follow-up and outcomes', 'Clinician-assessed and patient-assessed outcomes, if available.'],
+                ['10b', 'Follow-up and outcomes', 'Important follow-up diagnostic and other test results.'],
+                ['10c', 'Follow-up and outcomes', 'Intervention adherence and tolerability, and how these were assessed.'],
+                ['10d', 'Follow-up and outcomes', 'Adverse and unanticipated events.'],
+            ]),
+            ...section('Discussion', [
+                ['11a', 'Discussion', 'A scientific discussion of the strengths and limitations of the management of the case.'],
+                ['11b', 'Discussion', 'Discussion of the relevant medical literature.'],
+                ['11c', 'Discussion', 'The scientific rationale for the conclusions, including assessment of possible causes.'],
+                ['11d', 'Discussion', 'The primary take-away lessons of the case report.'],
+            ]),
+            ...section('Patient perspective', [['12', 'Patient perspective', 'The patient\'s perspective on the treatment they received, when appropriate.']]),
+            ...section('Informed consent', [['13', 'Informed consent', 'Whether the patient gave informed consent for publication.']]),
+        ],
+    },
+};
+
+export const guidelineLabel = (guideline: ReportingGuideline) => `${guideline.name} ${guideline.version}`;
+
+// Signals of each study design in the manuscript text. Reviews and case reports talk about trials and cohorts, so only
+// the strongest design guideline is suggested. ARRIVE can apply on top of any primary research design, but needs more
+// signals, since many papers mention animal work in passing.
+const DESIGN_SIGNALS: Record<ReportingGuidelineId, { articleType: RegExp, text: RegExp[], minHits: number }> = {
+    PRISMA: { articleType: /systematic review|meta-?analys/i, text: [/\bsystematic(?:ally)? review(?:ed)?\b/gi, /\bmeta-?analys[ie]s\b/gi, /\bPRISMA\b/g, /\bPROSPERO\b/g], minHits: 2 },
+    CARE: { articleType: /case (?:report|study|series)|clinical case/i, text: [/\bcase report\b/gi, /\bwe (?:report|present|describe) (?:a|an|the) (?:rare |unusual )?case\b/gi, /\b(?:a|an) \d{1,3}-year-old (?:man|woman|male|female|boy|girl|patient|child)\b/gi], minHits: 2 },
+    CONSORT: { articleType: /randomi[sz]ed|clinical trial|\bRCT\b/i, text: [/\brandomi[sz]ed (?:controlled |clinical |placebo-controlled )?trial\b/gi, /\brandomly (?:assigned|allocated)\b/gi, /\bNCT\d{8}\b|\bISRCTN\d+\b/g, /\bCONSORT\b/g], minHits: 2 },
+    STROBE: { articleType: /cohort|case-control|cross-sectional|observational/i, text: [/\bcohort study\b/gi, /\bcase[- ]control study\b/gi, /\bcross-sectional (?:study|survey|analysis)\b/gi, /\bobservational study\b/gi, /\bSTROBE\b/g], minHits: 2 },
+    ARRIVE: { articleType: /animal|in vivo/i, text: [/\b(?:mice|rats|murine|zebrafish|rabbits|piglets|primates)\b/gi, /\b(?:IACUC|animal (?:care|ethics|welfare) committee)\b/gi, /\bARRIVE\b/g], minHits: 5 },
+};
+const DESIGN_PRIORITY: ReportingGuidelineId[] = ['PRISMA', 'CARE', 'CONSORT', 'STROBE'];
+
+export interface GuidelineSuggestion {
+    id: ReportingGuidelineId;
+    reason: string;
+}
+
+export function suggestGuidelines(predictedSectionType: string | undefined, text: string): GuidelineSuggestion[] {
+    const evidence = (id: ReportingGuidelineId) => {
+        const { articleType, text: patterns, minHits } = DESIGN_SIGNALS[id];
+        const typeMatch = !!predictedSectionType && articleType.test(predictedSectionType);
+        const hits = patterns.map(pattern => ({ term: text.match(pattern)?.[0], count: (text.match(pattern) || []).length })).filter(hit => hit.count > 0);
+        const count = hits.reduce((sum, hit) => sum + hit.count, 0);
+        const reasons = [
+            ...(typeMatch ? [`predicted article type "${predictedSectionType}"`] : []),
+            ...hits.map(hit => `"${hit.term}" in the text${hit.count > 1 ? ` (${hit.count}×)` : ''}`),
+        ];
+        return { id, score: (typeMatch ? 100 : 0) + count, suggested: typeMatch || count >= minHits, reason: reasons.join('; ') };
+    };
+
+    const design = DESIGN_PRIORITY.map(evidence).filter(e => e.suggested).sort((a, b) => b.score - a.score)[0];
+    const animal = evidence('ARRIVE');
+    return [design, design?.id !== 'PRISMA' && animal.suggested ? animal : undefined]
+        .filter((e): e is ReturnType<typeof evidence> => !!e)
+        .map(({ id, reason }) => ({ id, reason: `Suggested from ${reason}` }));
+}
+
+const describeItem = (item: GuidelineItem) => `${item.section === item.topic ? item.topic : `${item.section} / ${item.topic}`}: ${item.definition}`;
+
+// The checklist items as the prompt lists them, one per line behind their item ID.
+export const formatChecklistForPrompt = (guideline: ReportingGuideline) =>
+    guideline.items.map(item => `[${item.id}] ${describeItem(item)}`).join('\n');
+
+const STATUS_RANK: Record<ComplianceStatus, number> = {
+    [ComplianceStatus.COMPLIANT]: 3,
+    [ComplianceStatus.PARTIALLY_COMPLIANT]: 2,
+    [ComplianceStatus.NOT_APPLICABLE]: 1,
+    [ComplianceStatus.NOT_COMPLIANT]: 0,
+};
+const normalizeItemId = (id: string | undefined) => (id || '').toLowerCase().replace(/^\[|\]$/g, '').replace(/^item\s*/, '').replace(/\s+/g, '');
+
+// One entry per checklist item, in checklist order. An item is as reported as the best section says it is; items the
+// model skipped in every section are listed as not reported so the checklist stays complete.
+export function completeChecklist(guideline: ReportingGuideline, reason: string, sectionResults: ComplianceItem[][]): ReportingChecklistReport {
+    const items = guideline.items.map(item => {
+        const assessments = sectionResults.flat().filter(result => normalizeItemId(result.itemId) === item.id.toLowerCase());
+        const best = assessments.sort((a, b) => (STATUS_RANK[b.status] ?? -1) - (STATUS_RANK[a.status] ?? -1))[0];
+        const checklistItem = describeItem(item);
+        if (!best) {
+            return { itemId: item.id, checklistItem, status: ComplianceStatus.NOT_COMPLIANT, evidence: '', reasoning: 'No assessment was returned for this item; check it manually.' };
+        }
+        return { itemId: item.id, checklistItem, status: best.status, evidence: best.evidence || '', reasoning: best.reasoning, ...(best.page ? { page: best.page } : {}) };
+    });
+    return { guidelineId: guideline.id, name: guidelineLabel(guideline), reason, items };
+}
+
+export function summarizeChecklist(report: ReportingChecklistReport): string {
+    const count = (status: ComplianceStatus) => report.items.filter(item => item.status === status).length;
+    return `${report.name}: ${count(ComplianceStatus.COMPLIANT)} reported, ${count(ComplianceStatus.PARTIALLY_COMPLIANT)} partly reported, ${count(ComplianceStatus.NOT_COMPLIANT)} not reported, ${count(ComplianceStatus.NOT_APPLICABLE)} not applicable`;
+}
@@ -0,0 +1,106 @@
+
+import { AiResult } from './aiService';
+import { PromptId, getActivePromptVersion } from './promptRegistry';
+
+// Content-addressed cache for AI results. Entries live in IndexedDB rather than the localStorage app state,
+// since cached reports can be large and would otherwise compete with user data for the ~5MB quota.
+
+const DB_NAME = 's4c_ai_result_cache';
+const STORE_NAME = 'results';
+const DB_VERSION = 1;
+const MAX_ENTRIES = 500;
+
+export interface CacheKeyParts {
+    docHash: string; // Hash of the exact text/image sent for analysis
+    stage: PromptId;
+    model: string;
+    rulesHash?: string; // Only for stages that depend on rule documents
+    variant?: string; // Distinguishes prompt variations within a stage (e.g. first compliance chunk also asks for journals)
+}
+
+interface CacheEntry<T> {
+    key: string;
+    stage: PromptId;
+    model: string;
+    createdAt: string;
+    result: AiResult<T>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                store.createIndex('createdAt', 'createdAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => { dbPromise = null; reject(request.error); };
+        });
+    }
+    return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    openDb().then(db => new Promise<T>((resolve, reject) => {
+        const request = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }));
+
+export async function hashContent(content: string | ArrayBuffer): Promise<string> {
+    const data = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Includes the active prompt template versions, so publishing or rolling back a prompt never serves results from other wording.
+export async function buildCacheKey({ docHash, stage, model, rulesHash, variant }: CacheKeyParts): Promise<string> {
+    const promptVersion = `${getActivePromptVersion(stage)}.${getActivePromptVersion('sectionMerge')}`;
+    return hashContent([docHash, stage, promptVersion, rulesHash || '-', model, variant || '-'].join('|'));
+}
+
+async function getEntry<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    return runRequest<CacheEntry<T> | undefined>('readonly', store => store.get(key));
+}
+
+async function putEntry<T>(entry: CacheEntry<T>): Promise<void> {
+    await runRequest('readwrite', store => store.put(entry));
+    const count = await runRequest<number>('readonly', store => store.count());
+    if (count > MAX_ENTRIES) {
+        // Evict the oldest entries first.
+        const keys = await runRequest<IDBValidKey[]>('readonly', store => store.index('createdAt').getAllKeys(null, count - MAX_ENTRIES));
+        await Promise.all(keys.map(k => runRequest('readwrite', store => store.delete(k))));
+    }
+}
+
+// Returns the cached result for these key parts when present (with zero usage and cached: true), otherwise runs the call
+// and stores its result. Cache failures never fail the analysis; they just fall through to a live call.
+export async function withResultCache<T>(parts: CacheKeyParts, bypass: boolean | undefined, call: () => Promise<AiResult<T>>): Promise<AiResult<T>> {
+    let key: string | null = null;
+    try {
+        key = await buildCacheKey(parts);
+        if (!bypass) {
+            const entry = await getEntry<T>(key);
+            if (entry) return { ...entry.result, usage: { promptTokens: 0, responseTokens: 0 }, cached: true };
+        }
+    } catch (error) {
+        console.warn("Result cache unavailable:", error);
+    }
+
+    const result = await call();
+    if (key) {
+        try {
+            await putEntry<T>({ key, stage: parts.stage, model: parts.model, createdAt: new Date().toISOString(), result: { data: result.data, usage: result.usage, coverage: result.coverage, promptVersions: result.promptVersions } });
+        } catch (error) {
+            console.warn("Failed to write result cache:", error);
+        }
+    }
+    return result;
+}
+
+export async function clearResultCache(): Promise<void> {
+    await runRequest('readwrite', store => store.clear());
+}
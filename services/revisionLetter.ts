@@ -0,0 +1,164 @@
+import { ManuscriptFile, ReportBranding, RevisionLetterMergeFields } from '../types';
+import { describeFindingLocation, isUnverified } from './quoteVerifier';
+import { docxParagraph, packageDocx } from './reportExport';
+
+// Composes the letter an editor sends to the authors after a journal run. The editor picks findings, manuscript
+// issues, integrity issues and reviewer questions; a template with merge fields places them in the letter, which
+// stays editable and is exported as plain text or DOCX.
+
+export type LetterItemKind = 'compliance' | 'analysis' | 'integrity' | 'question';
+
+export interface LetterItem {
+    id: string; // Kind and index in the manuscript's report, e.g. "compliance-3"
+    kind: LetterItemKind;
+    status: string; // Finding status, priority or "Question", for the composer
+    text: string; // As written in the letter
+    unverified?: boolean; // Its quote was not found in the manuscript
+}
+
+export interface LetterTemplate {
+    id: string;
+    name: string;
+    text: string;
+}
+
+export const LETTER_GROUPS: Record<LetterItemKind, string> = {
+    compliance: 'Journal requirements',
+    analysis: 'Language and presentation',
+    integrity: 'Research integrity and ethics',
+    question: 'Questions about the study',
+};
+
+export const MERGE_FIELD_LABELS: Record<keyof RevisionLetterMergeFields, string> = {
+    author: 'Author',
+    manuscriptTitle: 'Manuscript title',
+    journal: 'Journal',
+    editor: 'Editor',
+};
+
+// {{items}} is replaced by the selected items, grouped and numbered; {{date}} by today's date.
+export const LETTER_TEMPLATES: LetterTemplate[] = [
+    {
+        id: 'revise',
+        name: 'Revisions before peer review',
+        text: `{{date}}
+
+Dear {{author}},
+
+Thank you for submitting your manuscript "{{manuscriptTitle}}" to {{journal}}. Before it can be sent for peer review, please address the points below.
+
+{{items}}
+
+Please upload the revised manuscript together with a point-by-point response explaining how each point was addressed.
+
+Yours sincerely,
+
+{{editor}}
+{{journal}}`,
+    },
+    {
+        id: 'technical',
+        name: 'Returned at technical check',
+        text: `{{date}}
+
+Dear {{author}},
+
+Your submission "{{manuscriptTitle}}" has been returned to you because it does not yet meet the submission requirements of {{journal}}. Please correct the following and resubmit.
+
+{{items}}
+
+Once these points are resolved the manuscript will return to the editorial workflow. Please contact us if any point is unclear.
+
+Best regards,
+
+{{editor}}
+{{journal}} Editorial Office`,
+    },
+    {
+        id: 'minor',
+        name: 'Minor revisions',
+        text: `{{date}}
+
+Dear {{author}},
+
+We are pleased to let you know that "{{manuscriptTitle}}" can proceed at {{journal}} after minor revisions. Please attend to the following points.
+
+{{items}}
+
+We look forward to receiving the revised version.
+
+Kind regards,
+
+{{editor}}
+{{journal}}`,
+    },
+];
+
+const sentence = (text: string) => {
+    const trimmed = text.trim();
+    return !trimmed || /[.!?]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+};
+
+export function listLetterItems(manuscript: ManuscriptFile): LetterItem[] {
+    const location = (page: number | undefined, item: Parameters<typeof isUnverified>[0]) => describeFindingLocation(page, item.quoteVerification, manuscript.estimatedPages);
+    return [
+        ...(manuscript.complianceReport || []).map((f, i) => ({
+            id: `compliance-${i}`, kind: 'compliance' as const, status: f.status, unverified: isUnverified(f),
+            text: `${f.checkCategory} (${location(f.manuscriptPage, f)}): ${sentence(f.summary)} ${sentence(f.recommendation)}`.trim(),
+        })),
+        ...(manuscript.analysisReport || []).map((issue, i) => ({
+            id: `analysis-${i}`, kind: 'analysis' as const, status: issue.priority, unverified: isUnverified(issue),
+            text: `${issue.issueCategory} (${location(issue.pageNumber, issue)}): ${sentence(issue.summary)} ${sentence(issue.recommendation)}`.trim(),
+        })),
+        ...(manuscript.integrityReport || []).map((issue, i) => ({
+            id: `integrity-${i}`, kind: 'integrity' as const, status: issue.status, unverified: isUnverified(issue),
+            text: `${issue.category}: ${sentence(issue.finding)} ${sentence(issue.recommendation)}`.trim(),
+        })),
+        ...(manuscript.peerReviewSimulation?.reviewerQuestions || []).map((question, i) => ({
+            id: `question-${i}`, kind: 'question' as const, status: 'Question', text: question.trim(),
+        })),
+    ];
+}
+
+// Everything that asks the authors to act: failed or uncertain checks, high and medium issues and every reviewer
+// question. Items whose quote could not be found are left for the editor to add.
+export function defaultLetterSelection(items: LetterItem[]): string[] {
+    return items.filter(item => !item.unverified && (item.kind === 'question' || ['fail', 'warn', 'Fail', 'Warning', 'High', 'Medium'].includes(item.status))).map(item => item.id);
+}
+
+export function defaultMergeFields(manuscript: ManuscriptFile, journal: string): RevisionLetterMergeFields {
+    const creators = manuscript.documentMetadata?.creators || [];
+    const author = creators.find(c => c.corresponding)?.name || manuscript.metadataAnalysisReport?.correspondingAuthor?.name || creators[0]?.name || '';
+    return {
+        author: author || 'Author',
+        manuscriptTitle: manuscript.documentMetadata?.title || manuscript.name.replace(/\.[^.]+$/, ''),
+        journal,
+        editor: '',
+    };
+}
+
+function formatItems(items: LetterItem[]): string {
+    return (Object.keys(LETTER_GROUPS) as LetterItemKind[])
+        .map(kind => items.filter(item => item.kind === kind))
+        .filter(group => group.length > 0)
+        .map(group => `${LETTER_GROUPS[group[0].kind]}\n\n${group.map((item, i) => `${i + 1}. ${item.text}`).join('\n')}`)
+        .join('\n\n');
+}
+
+// Merge fields left empty stay visible as [Field] so the editor notices them before sending.
+export function composeLetter(template: string, fields: RevisionLetterMergeFields, items: LetterItem[]): string {
+    const values: Record<string, string> = {
+        ...Object.fromEntries((Object.keys(MERGE_FIELD_LABELS) as (keyof RevisionLetterMergeFields)[]).map(key => [key, fields[key].trim() || `[${MERGE_FIELD_LABELS[key]}]`])),
+        date: new Date().toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' }),
+        items: items.length > 0 ? formatItems(items) : '[No items selected]',
+    };
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+export const letterFileName = (manuscript: ManuscriptFile, extension: string) => `${manuscript.name.replace(/\.[^.]+$/, '')}_revision_letter.${extension}`;
+
+// Each line of the letter becomes a paragraph; the letterhead comes from the report branding.
+export function renderLetterDocx(text: string, title: string, branding: ReportBranding = {}): Uint8Array {
+    const body = text.split('\n').map(line => /^\s*[-•*]\s+/.test(line) ? docxParagraph(line.replace(/^\s*[-•*]\s+/, ''), 'ListBullet') : docxParagraph(line)).join('');
+    return packageDocx(title, body, branding);
+}
@@ -0,0 +1,143 @@
+
+import { CheckableRule, ComplianceFinding, ComplianceProfile, FindingStatus, RuleCoverageEntry, RuleFile, RuleItem } from '../types';
+import { describeRule } from './ruleEngine';
+
+// Splits uploaded rule documents into numbered rules with stable IDs, gives them to the compliance prompt with those
+// IDs, ties each finding back to a rule and reports which rules were checked. Checkable rules (services/ruleEngine)
+// take part in the coverage under their own IDs.
+
+// A rule of the profile as it appears in coverage: a rule document item or a checkable rule.
+export interface ProfileRule {
+    id: string;
+    label: string;
+    text: string;
+    page: number;
+}
+
+const LIST_MARKER = /^(?:[•▪◦●○■□▸►✓✔–—*-]|\(?(?:\d{1,3}(?:\.\d{1,3})*|[a-z]|[ivx]{1,4})[.)])\s+/i;
+const SECTION_NUMBER = /^(?:\d{1,2}(?:\.\d{1,2})*\.?|[A-Z]\.|[IVX]{1,4}\.)\s+/;
+const REQUIREMENT_WORDS = /\b(?:must|should|shall|required?|requires|may|not|no more|at least|at most|maximum|minimum|limit(?:ed)?|please|include|use|submit|provide|avoid|allowed)\b/i;
+
+// Short, title-like lines ("2. Manuscript Preparation", "FIGURES:") name a group of rules rather than being one.
+function isHeading(line: string): boolean {
+    const text = line.replace(SECTION_NUMBER, '');
+    const words = text.split(/\s+/).filter(Boolean);
+    if (words.length === 0 || words.length > 8 || REQUIREMENT_WORDS.test(text)) return false;
+    if (/^[A-Z0-9\s&,/()'’-]+:?$/.test(text) && /[A-Z]{2}/.test(text)) return true;
+    return /^\p{Lu}/u.test(text) && !/[.;,!?]$/.test(text);
+}
+
+const isPageNumber = (line: string) => /^(?:page\s+)?\d+(?:\s*(?:of|\/)\s*\d+)?$/i.test(line);
+
+// Every list item or paragraph of a rule document becomes a rule. Lines that continue a sentence broken by the PDF
+// layout are joined to the rule before them.
+export function splitRuleDocument(ruleFileId: string, text: string): RuleItem[] {
+    const rules: RuleItem[] = [];
+    let page = 1;
+    let section: string | undefined;
+    let joinable = false; // The last rule may continue on the next line
+    text.split('\n').forEach(raw => {
+        const line = raw.replace(/\s+/g, ' ').trim();
+        const pageMarker = line.match(/^\[Page (\d+)\]$/);
+        if (pageMarker) {
+            page = Number(pageMarker[1]);
+            return;
+        }
+        if (!line || isPageNumber(line)) return;
+        const last = rules[rules.length - 1];
+        if (joinable && last && !LIST_MARKER.test(line) && /^[\p{Ll}(]/u.test(line)) {
+            last.text = `${last.text} ${line}`;
+            joinable = !/[.!?:;]$/.test(line);
+            return;
+        }
+        if (isHeading(line)) {
+            section = line.replace(/:$/, '');
+            joinable = false;
+            return;
+        }
+        if (line.split(' ').length < 3 && !/\d/.test(line)) return; // Stray fragments, e.g. a running head
+        const number = rules.length + 1;
+        rules.push({ id: `${ruleFileId}-${number}`, number, text: line, page, ...(section ? { section } : {}) });
+        joinable = !/[.!?:;]$/.test(line);
+    });
+    return rules;
+}
+
+export const rulesOf = (file: RuleFile): RuleItem[] => file.rules ?? splitRuleDocument(file.id, file.textContent);
+
+// A rule added by hand gets the next number in its file.
+export function newRuleItem(ruleFileId: string, rules: RuleItem[], text: string): RuleItem {
+    const number = rules.reduce((max, rule) => Math.max(max, rule.number), 0) + 1;
+    return { id: `${ruleFileId}-${number}`, number, text, page: 0 };
+}
+
+export function listProfileRules(profile: ComplianceProfile, ruleFiles: Record<string, RuleFile>): ProfileRule[] {
+    const documentRules = profile.ruleFileIds.flatMap(id => ruleFiles[id] ? rulesOf(ruleFiles[id]).map(rule => ({
+        id: rule.id, label: `${ruleFiles[id].name} #${rule.number}`, text: rule.text, page: rule.page,
+    })) : []);
+    const checkableRules = (profile.checkableRules || []).map((rule: CheckableRule) => ({ id: rule.id, label: rule.label, text: describeRule(rule), page: 0 }));
+    return [...documentRules, ...checkableRules];
+}
+
+// The rules text for performComplianceCheck: every rule on its own line behind its ID, grouped by document.
+export function formatRulesForPrompt(files: RuleFile[]): string {
+    const documents = files.map(file => {
+        const lines = rulesOf(file).map(rule => `[${rule.id}] (p. ${rule.page || '-'}${rule.section ? `, ${rule.section}` : ''}) ${rule.text}`);
+        return lines.length > 0 ? `RULE DOCUMENT: ${file.name}\n${lines.join('\n')}` : '';
+    }).filter(Boolean);
+    if (documents.length === 0) return '';
+    return `Each rule starts with its ID in square brackets, followed by its page. Set ruleId on every finding to the ID of the rule it checks (one rule per finding) and rulePage to that page.\n\n${documents.join('\n\n')}`;
+}
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+
+// Keeps a valid ruleId from the model; otherwise looks for an ID in the finding's text, then for the rule whose words
+// best cover the quoted rule content. Findings that match no rule keep no ruleId.
+export function assignRuleIds(findings: ComplianceFinding[], rules: ProfileRule[]): ComplianceFinding[] {
+    const byId = new Map(rules.map(rule => [rule.id.toLowerCase(), rule]));
+    const ruleWords = rules.map(rule => ({ rule, words: words(rule.text) }));
+    return findings.map(finding => {
+        const claimed = finding.ruleId?.replace(/^\[|\]$/g, '').trim().toLowerCase();
+        let rule = claimed ? byId.get(claimed) : undefined;
+        if (!rule) {
+            const mentioned = `${finding.ruleContent || ''} ${finding.summary}`.match(/\[([^\]\s]+)\]/g) || [];
+            rule = mentioned.map(id => byId.get(id.slice(1, -1).toLowerCase())).find(Boolean);
+        }
+        if (!rule && finding.ruleContent) {
+            const quoted = words(finding.ruleContent);
+            let best = 0;
+            for (const candidate of ruleWords) {
+                const score = Array.from(quoted).filter(word => candidate.words.has(word)).length / Math.max(quoted.size, 1);
+                if (score > best) {
+                    best = score;
+                    rule = candidate.rule;
+                }
+            }
+            if (best < 0.6) rule = undefined;
+        }
+        if (!rule) {
+            const { ruleId, ...rest } = finding;
+            return rest;
+        }
+        return { ...finding, ruleId: rule.id, rulePage: finding.rulePage || rule.page };
+    });
+}
+
+const STATUS_RANK: Record<FindingStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export function computeRuleCoverage(rules: ProfileRule[], findings: ComplianceFinding[]): RuleCoverageEntry[] {
+    return rules.map(rule => {
+        const matching = findings.filter(f => f.ruleId === rule.id);
+        const status = matching.reduce<FindingStatus | 'not evaluated'>((worst, f) => worst === 'not evaluated' || STATUS_RANK[f.status] > STATUS_RANK[worst] ? f.status : worst, 'not evaluated');
+        return { ruleId: rule.id, label: rule.label, text: rule.text, status, findingCount: matching.length };
+    });
+}
+
+export function describeRuleCoverage(entries: RuleCoverageEntry[]): string {
+    const count = (status: RuleCoverageEntry['status']) => entries.filter(e => e.status === status).length;
+    return `${entries.length} rule(s): ${count('pass')} passed, ${count('fail')} failed, ${count('warn')} warned, ${count('not evaluated')} never evaluated`;
+}
+
+// How a report names the rule behind a finding: its coverage label ("guidelines.pdf #4"), else the bare ID.
+export const describeRuleReference = (coverage: RuleCoverageEntry[] | undefined, ruleId: string | undefined) =>
+    !ruleId ? 'No matching rule' : coverage?.find(entry => entry.ruleId === ruleId)?.label || ruleId;
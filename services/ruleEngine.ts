@@ -0,0 +1,182 @@
+
+import { CheckableRule, ComplianceFinding, CountableItem, DocumentModel } from '../types';
+import { checkReferences } from './referenceCheck';
+
+// Evaluates a profile's checkable rules (length limits, required sections, counts, patterns) against the ingested
+// document. These are measured, not judged, so the findings carry the exact numbers and text they were based on and
+// are merged with the model's compliance findings.
+
+interface SectionText {
+    name: string; // As found in the document
+    text: string;
+    page: number;
+}
+
+const ITEM_LABELS: Record<CountableItem, string> = {
+    keywords: 'keywords', references: 'references', figures: 'figures', tables: 'tables', authors: 'authors', footnotes: 'footnotes', pages: 'pages',
+};
+const UNIT_LABELS = { wordLimit: 'words', characterLimit: 'characters' };
+
+const stripPageMarkers = (text: string) => text.replace(/\[Page \d+\]/g, ' ').replace(/\s+/g, ' ').trim();
+const countWords = (text: string) => (text.match(/[\p{L}\p{N}][\p{L}\p{N}'’\-]*/gu) || []).length;
+// Heading text without its number ("2.1 Data availability:" -> "data availability").
+const headingName = (text: string) => text.replace(/^(?:[\dIVXLivxl]+[.)]?)+\s+/, '').replace(/[:.]\s*$/, '').trim().toLowerCase();
+const firstWords = (text: string, count: number) => {
+    const words = text.split(/\s+/);
+    return words.length > count ? `${words.slice(0, count).join(' ')}…` : text;
+};
+
+const describeRange = (min: number | undefined, max: number | undefined, unit: string) =>
+    min !== undefined && max !== undefined ? `${min}–${max} ${unit}` : max !== undefined ? `at most ${max} ${unit}` : `at least ${min} ${unit}`;
+
+const sectionLabel = (section: string | undefined) => !section ? 'Manuscript' : section.split('|')[0].trim().replace(/^./, c => c.toUpperCase());
+
+export function describeRule(rule: CheckableRule): string {
+    switch (rule.kind) {
+        case 'wordLimit': case 'characterLimit':
+            return `${sectionLabel(rule.section)}: ${describeRange(rule.min, rule.max, UNIT_LABELS[rule.kind])}`;
+        case 'requiredSection':
+            return `Must contain a "${rule.section.split('|').map(s => s.trim()).join('" or "')}" section`;
+        case 'count':
+            return `${describeRange(rule.min, rule.max, ITEM_LABELS[rule.item])}`.replace(/^./, c => c.toUpperCase());
+        case 'pattern':
+            return `${sectionLabel(rule.section)} ${rule.mode === 'required' ? 'must match' : 'must not match'} /${rule.pattern}/${rule.flags || ''}`;
+    }
+}
+
+// A section's text: under a matching heading (up to the next heading of the same or a higher level), or a paragraph
+// that opens with the section name as a run-in label ("Data availability: ..."). Title and abstract also fall back to
+// the metadata declared in LaTeX and JATS sources.
+function findSection(model: DocumentModel, section: string): SectionText | undefined {
+    if (!section.trim()) return { name: 'Manuscript', text: stripPageMarkers(model.text), page: 1 };
+    const names = section.split('|').map(name => name.trim().toLowerCase()).filter(Boolean);
+    if (names.includes('title')) {
+        const title = model.metadata?.title || model.headings[0]?.text;
+        if (title) return { name: 'Title', text: title, page: model.headings[0]?.page || 1 };
+    }
+    const heading = model.headings.find(h => names.some(name => headingName(h.text) === name || headingName(h.text).startsWith(`${name} `)));
+    if (heading) {
+        const end = model.headings.find(h => h.start > heading.start && h.level <= heading.level)?.start ?? model.text.length;
+        return { name: heading.text, text: stripPageMarkers(model.text.slice(heading.end, end)), page: heading.page };
+    }
+    for (const paragraph of model.paragraphs) {
+        const runIn = names.find(name => paragraph.text.toLowerCase().startsWith(name) && /^\s*(?:statement)?\s*[:.—–-]/i.test(paragraph.text.slice(name.length)));
+        if (runIn) return { name: paragraph.text.slice(0, runIn.length), text: paragraph.text.slice(runIn.length).replace(/^\s*(?:statement)?\s*[:.—–-]\s*/i, ''), page: paragraph.page };
+    }
+    if (names.includes('abstract') && model.metadata?.description) return { name: 'Abstract', text: model.metadata.description, page: 1 };
+    return undefined;
+}
+
+// Counts an item, with the text it was counted from as evidence; undefined when the document does not say.
+function countItem(model: DocumentModel, item: CountableItem, referenceCount?: number): { count: number, evidence: string, page: number } | undefined {
+    switch (item) {
+        case 'keywords': {
+            const declared = model.metadata?.subjects || [];
+            const paragraph = model.paragraphs.find(p => /^(?:key\s?words|index terms)\s*[:.—–-]/i.test(p.text));
+            if (paragraph) {
+                const list = paragraph.text.replace(/^(?:key\s?words|index terms)\s*[:.—–-]\s*/i, '').split(/\s*[;,·•]\s*/).filter(Boolean);
+                return { count: list.length, evidence: paragraph.text, page: paragraph.page };
+            }
+            return declared.length > 0 ? { count: declared.length, evidence: declared.join('; '), page: 1 } : undefined;
+        }
+        case 'references': {
+            const count = referenceCount ?? checkReferences(model).references.length;
+            return count > 0 ? { count, evidence: `${count} entries in the reference list`, page: model.pages.length } : undefined;
+        }
+        case 'figures': case 'tables': {
+            const pattern = item === 'figures' ? /\b(?:Figure|Fig\.)\s*(\d+)/gi : /\bTable\s+(\d+)/gi;
+            const numbers = new Set(Array.from(model.text.matchAll(pattern), m => m[1]));
+            const count = Math.max(numbers.size, item === 'tables' ? model.tables.length : 0, model.images && item === 'figures' ? model.images.length : 0);
+            return { count, evidence: numbers.size > 0 ? `Numbered in the text: ${Array.from(numbers).sort((a, b) => +a - +b).join(', ')}` : `${count} found`, page: 1 };
+        }
+        case 'authors': {
+            const creators = model.metadata?.creators || [];
+            return creators.length > 0 ? { count: creators.length, evidence: creators.map(c => c.name).join('; '), page: 1 } : undefined;
+        }
+        case 'footnotes':
+            return { count: model.footnotes.length, evidence: `${model.footnotes.length} footnote(s) and endnote(s)`, page: 1 };
+        case 'pages':
+            return { count: model.pages.length, evidence: `${model.pages.length}${model.estimatedPages ? ' estimated' : ''} page(s)`, page: model.pages.length };
+    }
+}
+
+function finding(rule: CheckableRule, status: ComplianceFinding['status'], summary: string, quote: string, page: number, recommendation: string): ComplianceFinding {
+    return {
+        checkCategory: rule.label,
+        status,
+        summary,
+        manuscriptQuote: quote,
+        manuscriptPage: page,
+        ruleContent: describeRule(rule),
+        rulePage: 0,
+        recommendation,
+        ruleId: rule.id,
+        deterministic: true,
+    };
+}
+
+function checkRange(rule: CheckableRule & { min?: number, max?: number }, value: number, subject: string, unit: string, quote: string, page: number): ComplianceFinding {
+    const range = describeRange(rule.min, rule.max, unit);
+    if (rule.max !== undefined && value > rule.max) {
+        return finding(rule, 'fail', `${subject} has ${value} ${unit}; the limit is ${range}.`, quote, page, `Reduce by ${value - rule.max} ${unit}.`);
+    }
+    if (rule.min !== undefined && value < rule.min) {
+        return finding(rule, 'fail', `${subject} has ${value} ${unit}; the requirement is ${range}.`, quote, page, `Add at least ${rule.min - value} ${unit}.`);
+    }
+    return finding(rule, 'pass', `${subject} has ${value} ${unit}, within ${range}.`, quote, page, 'No action needed.');
+}
+
+export function evaluateRule(rule: CheckableRule, model: DocumentModel, referenceCount?: number): ComplianceFinding {
+    switch (rule.kind) {
+        case 'wordLimit': case 'characterLimit': {
+            const section = findSection(model, rule.section);
+            if (!section) return finding(rule, 'warn', `No "${sectionLabel(rule.section)}" section was found, so its length could not be measured.`, '', 0, 'Check that the section exists and has a recognizable heading.');
+            const value = rule.kind === 'wordLimit' ? countWords(section.text) : section.text.length;
+            return checkRange(rule, value, section.name, UNIT_LABELS[rule.kind], firstWords(section.text, 30), section.page);
+        }
+        case 'requiredSection': {
+            const section = findSection(model, rule.section);
+            return section
+                ? finding(rule, 'pass', `The manuscript contains a "${section.name}" section.`, section.name, section.page, 'No action needed.')
+                : finding(rule, 'fail', `No "${sectionLabel(rule.section)}" section was found.`, '', 0, `Add a "${sectionLabel(rule.section)}" section.`);
+        }
+        case 'count': {
+            const counted = countItem(model, rule.item, referenceCount);
+            if (!counted) return finding(rule, 'warn', `The number of ${ITEM_LABELS[rule.item]} could not be determined from the file.`, '', 0, `Check the ${ITEM_LABELS[rule.item]} manually.`);
+            return checkRange(rule, counted.count, 'The manuscript', ITEM_LABELS[rule.item], counted.evidence, counted.page);
+        }
+        case 'pattern': {
+            let pattern: RegExp;
+            try {
+                pattern = new RegExp(rule.pattern, `${(rule.flags || '').replace(/g/g, '')}g`);
+            } catch (error) {
+                return finding(rule, 'warn', `The rule's pattern is not a valid regular expression (${error instanceof Error ? error.message : 'Unknown'}).`, '', 0, 'Fix the pattern in the compliance profile.');
+            }
+            const section = findSection(model, rule.section || '');
+            if (!section) return finding(rule, 'warn', `No "${sectionLabel(rule.section)}" section was found to search.`, '', 0, 'Check that the section exists and has a recognizable heading.');
+            const matches = Array.from(section.text.matchAll(pattern)).filter(m => m[0]);
+            // The page of the first match, found by searching the page-marked text for the same pattern.
+            const firstPage = () => {
+                const index = model.text.search(new RegExp(pattern.source, pattern.flags.replace('g', '')));
+                return index < 0 ? section.page : model.pages.filter(p => p.start <= index).pop()?.page ?? section.page;
+            };
+            if (rule.mode === 'required') {
+                return matches.length > 0
+                    ? finding(rule, 'pass', `Found ${matches.length} match(es) in ${section.name}.`, matches[0][0], firstPage(), 'No action needed.')
+                    : finding(rule, 'fail', `Nothing in ${section.name} matches the required pattern.`, '', 0, `Add text matching ${describeRule(rule).replace(/^.* must match /, '')}.`);
+            }
+            return matches.length > 0
+                ? finding(rule, 'fail', `Found ${matches.length} occurrence(s) of a disallowed pattern in ${section.name}, e.g. "${matches[0][0]}".`, matches[0][0], firstPage(), 'Remove or rephrase every occurrence.')
+                : finding(rule, 'pass', `No disallowed matches in ${section.name}.`, '', 0, 'No action needed.');
+        }
+    }
+}
+
+// referenceCount, when the caller already parsed the bibliography, saves parsing it again.
+export const evaluateRules = (rules: CheckableRule[], model: DocumentModel, referenceCount?: number): ComplianceFinding[] =>
+    rules.map(rule => evaluateRule(rule, model, referenceCount));
+
+export function summarizeRuleFindings(findings: ComplianceFinding[]): string {
+    const count = (status: ComplianceFinding['status']) => findings.filter(f => f.status === status).length;
+    return `${count('pass')} passed, ${count('fail')} failed, ${count('warn')} could not be measured`;
+}
@@ -0,0 +1,142 @@
+
+// Runtime validation of model JSON against the same response schemas sent to the provider (Gemini `Type` schemas).
+// Values are coerced where the intent is unambiguous (numeric strings, enum casing, a lone object where a list is expected),
+// list items that cannot be fixed are dropped, and anything else is reported as invalid.
+
+export type SchemaIssueKind = 'coerced' | 'dropped' | 'invalid';
+
+export interface SchemaIssue {
+    path: string;
+    kind: SchemaIssueKind;
+    message: string;
+}
+
+export interface ValidationResult<T> {
+    value: T;
+    issues: SchemaIssue[];
+}
+
+const typeOf = (schema: any): string => String(schema?.type || '').toUpperCase();
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Default for an optional property the model left out: empty lists and objects, so views can iterate without guards.
+function defaultFor(schema: any): any {
+    switch (typeOf(schema)) {
+        case 'ARRAY':
+            return [];
+        case 'OBJECT': {
+            const result: Record<string, any> = {};
+            Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+                const value = defaultFor(propSchema);
+                if (value !== undefined) result[key] = value;
+            });
+            return result;
+        }
+        default:
+            return undefined;
+    }
+}
+
+function validateNode(value: any, schema: any, path: string, issues: SchemaIssue[]): any {
+    const type = typeOf(schema);
+    const issue = (kind: SchemaIssueKind, message: string) => issues.push({ path, kind, message });
+
+    switch (type) {
+        case 'STRING': {
+            let result = value;
+            if (typeof value === 'number' || typeof value === 'boolean') {
+                result = String(value);
+                issue('coerced', `expected a string, got ${typeof value}`);
+            } else if (typeof value !== 'string') {
+                issue('invalid', `expected a string, got ${Array.isArray(value) ? 'array' : typeof value}`);
+                return value;
+            }
+            if (schema.enum?.length && !schema.enum.includes(result)) {
+                const match = schema.enum.find((option: string) => option.toLowerCase() === result.trim().toLowerCase());
+                if (match) {
+                    issue('coerced', `"${result}" normalized to "${match}"`);
+                    return match;
+                }
+                issue('invalid', `"${result}" is not one of ${schema.enum.join(', ')}`);
+            }
+            return result;
+        }
+        case 'NUMBER':
+        case 'INTEGER': {
+            let result = value;
+            if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value.trim().replace(/%$/, '')))) {
+                result = Number(value.trim().replace(/%$/, ''));
+                issue('coerced', `numeric string "${value}" converted to a number`);
+            } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+                issue('invalid', `expected a number, got ${JSON.stringify(value)}`);
+                return value;
+            }
+            return type === 'INTEGER' ? Math.round(result) : result;
+        }
+        case 'BOOLEAN': {
+            if (typeof value === 'boolean') return value;
+            if (value === 'true' || value === 'false') {
+                issue('coerced', `string "${value}" converted to a boolean`);
+                return value === 'true';
+            }
+            issue('invalid', `expected a boolean, got ${JSON.stringify(value)}`);
+            return value;
+        }
+        case 'ARRAY': {
+            let items = value;
+            if (!Array.isArray(value)) {
+                issue('coerced', 'expected a list; wrapped the single value');
+                items = [value];
+            }
+            const result: any[] = [];
+            items.forEach((item: any, index: number) => {
+                const itemIssues: SchemaIssue[] = [];
+                const validated = validateNode(item, schema.items, `${path}[${index}]`, itemIssues);
+                const invalid = itemIssues.filter(i => i.kind === 'invalid');
+                if (invalid.length > 0) {
+                    issues.push({ path: `${path}[${index}]`, kind: 'dropped', message: `item dropped: ${invalid.map(i => `${i.path} ${i.message}`).join('; ')}` });
+                } else {
+                    issues.push(...itemIssues);
+                    result.push(validated);
+                }
+            });
+            return result;
+        }
+        case 'OBJECT': {
+            if (!isPlainObject(value)) {
+                issue('invalid', `expected an object, got ${Array.isArray(value) ? 'array' : typeof value}`);
+                return value;
+            }
+            const required: string[] = schema.required || [];
+            const result: Record<string, any> = { ...value };
+            Object.entries(schema.properties || {}).forEach(([key, propSchema]: [string, any]) => {
+                const propPath = `${path}.${key}`;
+                if (value[key] === undefined || value[key] === null) {
+                    delete result[key];
+                    if (required.includes(key)) {
+                        issues.push({ path: propPath, kind: 'invalid', message: 'required field is missing' });
+                    } else {
+                        const fallback = defaultFor(propSchema);
+                        if (fallback !== undefined) result[key] = fallback;
+                    }
+                    return;
+                }
+                result[key] = validateNode(value[key], propSchema, propPath, issues);
+            });
+            return result;
+        }
+        default:
+            return value;
+    }
+}
+
+export function validateAgainstSchema<T>(value: any, schema: any): ValidationResult<T> {
+    const issues: SchemaIssue[] = [];
+    if (value === undefined || value === null) {
+        return { value, issues: [{ path: '$', kind: 'invalid', message: 'response is empty' }] };
+    }
+    return { value: validateNode(value, schema, '$', issues), issues };
+}
+
+export const formatSchemaIssue = (issue: SchemaIssue) => `${issue.path}: ${issue.message}`;
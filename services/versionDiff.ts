@@ -0,0 +1,145 @@
+import { ComplianceStatus, ManuscriptFile, ManuscriptScores } from '../types';
+
+// Compares the findings of two versions of a manuscript, so editors can confirm that a revision addressed what was
+// asked. Findings are matched within a report and category: by rule or checklist item when both versions have one,
+// otherwise by how much their wording overlaps, since the model rarely words a finding the same way twice.
+
+export type FindingChange = 'resolved' | 'new' | 'open';
+
+export interface DiffFinding {
+    report: string; // e.g. "Compliance", "Integrity"
+    category: string;
+    change: FindingChange;
+    text: string; // The current wording, or the previous one for resolved findings
+    severity: string; // Status or priority in the version the text comes from
+    previousSeverity?: string; // For still-open findings whose severity changed
+}
+
+export interface ScoreDelta {
+    metric: keyof ManuscriptScores;
+    label: string;
+    previous: number;
+    current: number;
+    delta: number;
+    improved: boolean; // Data integrity risk improves when it goes down
+}
+
+export interface VersionDiff {
+    findings: DiffFinding[];
+    scores: ScoreDelta[];
+    counts: Record<FindingChange, number>;
+}
+
+// A finding reduced to what matching needs.
+export interface ComparableFinding {
+    report: string;
+    category: string;
+    key?: string; // Identifies the same requirement in both versions
+    text: string;
+    severity: string;
+}
+
+const SCORE_LABELS: Record<keyof ManuscriptScores, string> = {
+    complianceScore: 'Compliance',
+    scientificQualityScore: 'Scientific Quality',
+    writingQualityScore: 'Writing Quality',
+    citationMaturityScore: 'Citation Maturity',
+    noveltyScore: 'Novelty',
+    dataIntegrityRiskScore: 'Data Integrity Risk',
+    editorAcceptanceLikelihood: 'Editor Acceptance',
+};
+
+const MIN_SIMILARITY = 0.35; // Share of words two unkeyed findings must have in common to count as the same finding
+const isProblem = (status: string) => /^(fail|warn|warning)$/i.test(status);
+
+// Every finding of a version that still asks for a change. Passed checks and "N/A" integrity items are not issues.
+function openIssues(m: ManuscriptFile): ComparableFinding[] {
+    return [
+        ...(m.complianceReport || []).filter(f => f.status !== 'pass').map(f => ({ report: 'Compliance', category: f.checkCategory, key: f.ruleId, text: f.summary, severity: f.status })),
+        ...(m.analysisReport || []).map(i => ({ report: 'Manuscript Analysis', category: i.issueCategory, text: i.summary, severity: i.priority })),
+        ...(m.integrityReport || []).filter(i => isProblem(i.status)).map(i => ({ report: 'Integrity', category: i.category, text: i.finding, severity: i.status })),
+        ...(m.reportingChecklists || []).flatMap(c => c.items
+            .filter(i => i.status === ComplianceStatus.NOT_COMPLIANT || i.status === ComplianceStatus.PARTIALLY_COMPLIANT)
+            .map(i => ({ report: `${c.guidelineId} Checklist`, category: i.itemId ? `Item ${i.itemId}` : 'Item', key: i.itemId || i.checklistItem, text: i.checklistItem, severity: i.status }))),
+        ...(m.referenceReport?.findings || []).map(f => ({ report: 'References', category: f.type, key: f.quote, text: f.summary, severity: 'warn' })),
+        ...(m.structuralReport || []).map(i => ({ report: 'Structure', category: i.issueCategory, text: i.summary, severity: i.priority })),
+        ...(m.readabilityReport || []).map(i => ({ report: 'Readability', category: i.issueCategory, text: i.summary, severity: i.priority })),
+        ...(m.bookMetadataReport || []).filter(i => isProblem(i.status)).map(i => ({ report: 'Metadata & TOC', category: i.category, text: i.summary, severity: i.status })),
+        ...(m.visualAssetReport || []).filter(i => isProblem(i.status)).map(i => ({ report: 'Visual Assets', category: i.category, text: i.description, severity: i.status })),
+        ...(m.bookEditorialReport || []).map(i => ({ report: 'Editorial', category: i.category, text: i.quote || i.suggestion, severity: i.severity })),
+    ];
+}
+
+const wordsOf = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) || []);
+
+function similarity(a: ComparableFinding, b: ComparableFinding): number {
+    if (a.report !== b.report || a.category !== b.category) return 0;
+    if (a.key && b.key) return a.key === b.key ? 1 : 0;
+    const wordsA = wordsOf(a.text);
+    const wordsB = wordsOf(b.text);
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    const union = new Set([...wordsA, ...wordsB]).size;
+    return union === 0 ? 0 : shared / union;
+}
+
+// Pairs each later finding with the earlier finding it most likely is, by index. Best pairs are taken first, so a
+// finding is matched with its closest counterpart rather than the first one found.
+export function matchFindings(before: ComparableFinding[], after: ComparableFinding[]): Map<number, number> {
+    const pairs = after.flatMap((a, i) => before.map((b, j) => ({ i, j, score: similarity(a, b) })))
+        .filter(pair => pair.score >= MIN_SIMILARITY)
+        .sort((x, y) => y.score - x.score);
+    const matchOf = new Map<number, number>();
+    const matchedBefore = new Set<number>();
+    for (const { i, j } of pairs) {
+        if (matchOf.has(i) || matchedBefore.has(j)) continue;
+        matchOf.set(i, j);
+        matchedBefore.add(j);
+    }
+    return matchOf;
+}
+
+export function diffVersions(previous: ManuscriptFile, current: ManuscriptFile): VersionDiff {
+    const before = openIssues(previous);
+    const after = openIssues(current);
+    const matchOf = matchFindings(before, after);
+    const matchedBefore = new Set(matchOf.values());
+
+    const findings: DiffFinding[] = [
+        ...after.map((a, i): DiffFinding => {
+            const match = matchOf.get(i);
+            if (match === undefined) return { report: a.report, category: a.category, change: 'new', text: a.text, severity: a.severity };
+            const previousSeverity = before[match].severity;
+            return { report: a.report, category: a.category, change: 'open', text: a.text, severity: a.severity, ...(previousSeverity !== a.severity ? { previousSeverity } : {}) };
+        }),
+        ...before.filter((_, j) => !matchedBefore.has(j)).map((b): DiffFinding => ({ report: b.report, category: b.category, change: 'resolved', text: b.text, severity: b.severity })),
+    ];
+
+    const scores: ScoreDelta[] = previous.scores && current.scores
+        ? (Object.keys(SCORE_LABELS) as (keyof ManuscriptScores)[])
+            .filter(metric => previous.scores![metric] && current.scores![metric])
+            .map(metric => {
+                const delta = current.scores![metric].score - previous.scores![metric].score;
+                return { metric, label: SCORE_LABELS[metric], previous: previous.scores![metric].score, current: current.scores![metric].score, delta, improved: metric === 'dataIntegrityRiskScore' ? delta < 0 : delta > 0 };
+            })
+        : [];
+
+    const count = (change: FindingChange) => findings.filter(f => f.change === change).length;
+    return { findings, scores, counts: { resolved: count('resolved'), new: count('new'), open: count('open') } };
+}
+
+export const describeVersionDiff = ({ counts }: VersionDiff) => `${counts.resolved} resolved, ${counts.new} new, ${counts.open} still open`;
+
+// The versions of a manuscript from the first upload to the given one, oldest first.
+export function versionChain(manuscripts: ManuscriptFile[], manuscript: ManuscriptFile): ManuscriptFile[] {
+    const chain = [manuscript];
+    let current = manuscript;
+    while (current.previousVersionId) {
+        const previous = manuscripts.find(m => m.id === current.previousVersionId);
+        if (!previous || chain.includes(previous)) break;
+        chain.unshift(previous);
+        current = previous;
+    }
+    return chain;
+}
+
+export const hasNewerVersion = (manuscripts: ManuscriptFile[], manuscript: ManuscriptFile) => manuscripts.some(m => m.previousVersionId === manuscript.id);
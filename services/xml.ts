@@ -0,0 +1,19 @@
+// Small helpers for the XML the ingestion parsers read (DOCX, EPUB, JATS) and the XML the exporters write. Lookups match
+// on localName, so they work whatever prefix a file binds its namespaces to.
+
+export const child = (el: Element | null | undefined, name: string): Element | undefined =>
+    el ? Array.from(el.children).find(c => c.localName === name) : undefined;
+
+export const children = (el: Element | null | undefined, name: string): Element[] =>
+    el ? Array.from(el.children).filter(c => c.localName === name) : [];
+
+export const descendants = (el: Element | null | undefined, name: string): Element[] =>
+    el ? Array.from(el.querySelectorAll('*')).filter(c => c.localName === name) : [];
+
+export const normalizeSpace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Characters XML 1.0 does not allow are dropped; text extracted from PDFs sometimes contains them.
+export const removeInvalidXmlChars = (value: string) => value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '');
+
+export const escapeXml = (value: string) => removeInvalidXmlChars(value)
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
@@ -16,6 +16,15 @@ export interface User {
   canUseProModel: boolean; // Admin guardrail for expensive models
 }
 
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface StageUsage extends TokenUsage {
+  stage: string; // e.g., 'Compliance Check', 'Peer Review'
+}
+
 export interface UsageLog {
   id: string;
   userId: number;
@@ -28,6 +37,7 @@ export interface UsageLog {
   outputId?: string; // e.g., manuscriptId, pdfFileId
   outputName?: string; // e.g., the original filename
   reportData?: any; // For transient data like image tool results
+  stages?: StageUsage[]; // Per-stage breakdown for multi-stage pipelines
 }
 
 export enum AssetType {
@@ -66,6 +76,26 @@ export interface StatusBarMessage {
 
 export type FindingStatus = 'pass' | 'fail' | 'warn';
 
+// How one profile rule fared in a compliance run: the worst status among the findings that reference it.
+export interface RuleCoverageEntry {
+    ruleId: string;
+    label: string; // "guidelines.pdf #4", or the label of a checkable rule
+    text: string;
+    status: FindingStatus | 'not evaluated';
+    findingCount: number;
+}
+
+export type QuoteVerificationStatus = 'verified' | 'approximate' | 'not_found';
+
+// Result of matching a finding's quoted evidence against the extracted manuscript text.
+export interface QuoteVerification {
+    status: QuoteVerificationStatus;
+    similarity: number; // 0-1 share of quote words found in order
+    page?: number; // From the nearest preceding [Page N] marker
+    reportedPage?: number; // Page the model cited, kept when it differed from the real one
+    location?: string; // Section and paragraph, from the document model
+}
+
 export interface ComplianceFinding {
     checkCategory: string;
     status: FindingStatus;
@@ -75,6 +105,9 @@ export interface ComplianceFinding {
     ruleContent: string;
     rulePage: number;
     recommendation: string;
+    quoteVerification?: QuoteVerification;
+    ruleId?: string; // The RuleItem or CheckableRule the finding is about
+    deterministic?: boolean; // Measured locally from a checkable rule rather than judged by the model
 }
 export enum ComplianceStatus {
     COMPLIANT = 'COMPLIANT',
@@ -88,6 +121,19 @@ export interface ComplianceItem {
     status: ComplianceStatus;
     evidence: string;
     reasoning: string;
+    itemId?: string; // Item number in a reporting guideline checklist, e.g. "6a"
+    page?: number; // Where the item is reported
+    quoteVerification?: QuoteVerification;
+}
+
+export type ReportingGuidelineId = 'CONSORT' | 'PRISMA' | 'ARRIVE' | 'STROBE' | 'CARE';
+
+// A completed reporting guideline checklist: one item per checklist entry, in checklist order.
+export interface ReportingChecklistReport {
+    guidelineId: ReportingGuidelineId;
+    name: string; // With its version, e.g. "CONSORT 2010"
+    reason: string; // Why it was evaluated, e.g. suggested from the predicted article type
+    items: ComplianceItem[];
 }
 
 export type ComplianceReport = ComplianceItem[];
@@ -95,6 +141,15 @@ export type ComplianceReport = ComplianceItem[];
 // Types for the new folder-based Compliance Checker
 export type ManuscriptStatus = 'queued' | 'processing' | 'completed' | 'error';
 
+// One stage of the journal or book pipeline on a manuscript (see services/pipelineStages).
+export type StageRunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface StageState {
+    status: StageRunStatus;
+    error?: string;
+    updatedAt?: string;
+}
+
 export type ManuscriptIssuePriority = 'High' | 'Medium' | 'Low';
 
 export interface ManuscriptIssue {
@@ -104,6 +159,40 @@ export interface ManuscriptIssue {
     quote: string;
     pageNumber: number;
     recommendation: string;
+    quoteVerification?: QuoteVerification;
+}
+
+// A bibliography entry split into its parts. Fields the parser could not find are left out.
+export interface ParsedReference {
+    label: string; // The printed number or citation key, or the 1-based position when entries are unnumbered
+    text: string;
+    authors: string[]; // As printed, e.g. "Smith, J." or "Smith JA"
+    year?: string; // With any disambiguating letter, e.g. "2020a"
+    title?: string;
+    container?: string; // Journal, book or proceedings title
+    volume?: string;
+    issue?: string;
+    pages?: string;
+    doi?: string;
+    page: number;
+    location?: string; // Section and paragraph, for formats without real pages
+}
+
+export type CitationFindingType = 'Missing Reference' | 'Uncited Reference' | 'Duplicate Reference' | 'Malformed DOI';
+
+export interface CitationFinding {
+    type: CitationFindingType;
+    summary: string;
+    quote: string; // The in-text citation or the reference entry concerned
+    page: number;
+    location?: string;
+}
+
+export interface ReferenceCheckReport {
+    citationStyle: 'numeric' | 'author-year' | 'keyed' | 'none'; // keyed: LaTeX citation keys
+    citationCount: number; // In-text citations found, counting each cited reference once per occurrence
+    references: ParsedReference[];
+    findings: CitationFinding[];
 }
 
 export interface BookStructuralIssue {
@@ -149,6 +238,7 @@ export interface BookEditorialIssue {
     quote: string;
     location: string; // e.g. Chapter 1
     suggestion: string;
+    quoteVerification?: QuoteVerification;
 }
 
 export interface JournalRecommendation {
@@ -237,27 +327,228 @@ export interface IntegrityIssue {
     finding: string;
     snippet: string;
     recommendation: string;
+    quoteVerification?: QuoteVerification;
+}
+
+// One rule from an uploaded rule document, numbered in document order. Users can edit, remove and add rules, so the
+// list is what gets checked; textContent keeps the original document.
+export interface RuleItem {
+  id: string; // `${ruleFileId}-${number}`; unchanged when other rules are edited or removed
+  number: number;
+  text: string;
+  page: number; // Page of the rule document; 0 for rules added by hand
+  section?: string; // Heading the rule was listed under
 }
 
 export interface RuleFile {
   id: string;
   name: string;
   textContent: string;
+  rules?: RuleItem[]; // Absent for files added before rules were split out; see services/ruleDocument
 }
 
+export type CountableItem = 'keywords' | 'references' | 'figures' | 'tables' | 'authors' | 'footnotes' | 'pages';
+
+// A rule simple enough to measure without a model. Sections are named by heading text ("Data Availability"), with
+// alternatives separated by "|"; "title" and "abstract" are found even without a heading, and "" means the whole text.
+export type CheckableRule = { id: string, label: string } & (
+  | { kind: 'wordLimit' | 'characterLimit', section: string, min?: number, max?: number }
+  | { kind: 'requiredSection', section: string }
+  | { kind: 'count', item: CountableItem, min?: number, max?: number }
+  | { kind: 'pattern', pattern: string, flags?: string, mode: 'required' | 'forbidden', section?: string }
+);
+
 export interface ComplianceProfile {
   id: string;
   name: string;
   type: 'book' | 'journal';
   ruleFileIds: string[];
+  checkableRules?: CheckableRule[];
+  reportingGuidelines?: ReportingGuidelineId[]; // Always evaluated for journal manuscripts, besides the suggested ones
+  stages?: Record<string, ProfileStageConfig>; // Keyed by pipeline stage id; stages not listed run with the checker's model and default limits
+}
+
+// How a compliance profile runs one pipeline stage.
+export interface ProfileStageConfig {
+  enabled?: boolean; // Defaults to true
+  model?: string; // Overrides the model chosen in the checker
+  sectionChars?: number; // Max characters per model call
+  maxSections?: number; // Max model calls; text beyond them is reported as not covered
+}
+
+// How much of a document a (map-reduce) analysis stage actually looked at.
+export interface AnalysisCoverage {
+  totalChars: number;
+  analyzedChars: number;
+  totalSections: number;
+  analyzedSections: number; // Sections that were sent and returned a usable result
+  totalPages?: number; // From [Page N] markers, when present
+  analyzedPages?: number;
+}
+
+// Structured document model produced by services/documentIngestion for every uploaded manuscript or rule file.
+// Offsets index into DocumentModel.text, the [Page N]-marked text the AI stages and quote verification work on.
+export type DocumentFormat = 'pdf' | 'docx' | 'epub' | 'latex' | 'jats';
+
+export interface DocumentSpan {
+  page: number;
+  start: number;
+  end: number;
+}
+
+export interface DocumentPage extends DocumentSpan { // A page's span starts at its [Page N] marker
+  ocrConfidence?: number; // Set when the page had no text layer and was read by OCR; mean word confidence 0-100
+}
+
+export interface DocumentParagraph extends DocumentSpan {
+  text: string;
+  section?: string; // Text of the nearest preceding heading
+  paragraph?: number; // 1-based position within that section
+  listLevel?: number; // Set for list items; 0 is the outermost level
+}
+
+export interface DocumentHeading extends DocumentParagraph {
+  level: number; // 1 is the top level
+}
+
+export interface DocumentFootnote extends DocumentParagraph {
+  label: string; // The footnote marker, e.g. "1" or "*"
+  kind?: 'footnote' | 'endnote';
+}
+
+export interface DocumentTable extends DocumentSpan {
+  rows: string[][];
+  section?: string;
+}
+
+// Reviewer comment; the span is the paragraph the comment is anchored to.
+export interface DocumentComment extends DocumentSpan {
+  author: string;
+  date?: string;
+  text: string;
+}
+
+// Tracked change. Insertions are part of DocumentModel.text, deletions are not; the span is the containing paragraph.
+export interface DocumentRevision extends DocumentSpan {
+  type: 'insertion' | 'deletion';
+  author: string;
+  date?: string;
+  text: string;
+}
+
+// Table of contents entry from an EPUB navigation document (or NCX); page is where the target chapter starts.
+export interface DocumentTocEntry {
+  title: string;
+  level: number; // 1 is the top level
+  href: string;
+  page?: number;
+}
+
+// One spine item of an EPUB, in reading order; the span covers all of its pages.
+export interface DocumentChapter extends DocumentSpan {
+  title: string;
+  href: string;
+  endPage: number;
+}
+
+export interface DocumentImage {
+  src: string;
+  alt?: string;
+  chapter: string; // href of the containing chapter
+  page: number;
+  section?: string;
+}
+
+export interface DocumentCreator {
+  name: string;
+  role?: string; // MARC relator code, e.g. "aut" or "edt"
+  fileAs?: string;
+  affiliations?: string[];
+  email?: string;
+  orcid?: string;
+  corresponding?: boolean;
+}
+
+// Publication metadata declared by the file itself (the EPUB package document, LaTeX front matter macros or JATS <front>).
+export interface DocumentMetadata {
+  title?: string;
+  creators: DocumentCreator[];
+  publisher?: string;
+  date?: string;
+  language?: string;
+  identifiers: { value: string, scheme?: string }[];
+  subjects: string[];
+  description?: string;
+  rights?: string;
+  series?: string;
+}
+
+// Bibliography entry from a LaTeX .bib file, thebibliography environment or JATS <ref-list>; the span is its line in the References section.
+export interface DocumentReference extends DocumentSpan {
+  key: string;
+  text: string;
+}
+
+export interface DocumentModel {
+  fileName: string;
+  format: DocumentFormat;
+  text: string;
+  pages: DocumentPage[];
+  paragraphs: DocumentParagraph[]; // Body paragraphs and list items, excluding headings and footnotes
+  headings: DocumentHeading[];
+  footnotes: DocumentFootnote[];
+  tables: DocumentTable[];
+  comments: DocumentComment[];
+  revisions: DocumentRevision[];
+  estimatedPages: boolean; // True when the format has no real pages and page breaks were approximated
+  metadata?: DocumentMetadata; // EPUB, LaTeX and JATS
+  toc?: DocumentTocEntry[]; // EPUB only
+  chapters?: DocumentChapter[]; // EPUB only
+  images?: DocumentImage[]; // EPUB only
+  references?: DocumentReference[]; // LaTeX and JATS
+  warnings?: string[]; // Problems found while reading the source, e.g. missing \input files or unknown citation keys
+}
+
+// Values substituted for {{author}}, {{manuscriptTitle}}, {{journal}} and {{editor}} in a revision letter template.
+export interface RevisionLetterMergeFields {
+  author: string;
+  manuscriptTitle: string;
+  journal: string;
+  editor: string;
+}
+
+// The letter to the authors composed from a journal run, saved with the manuscript.
+export interface RevisionLetter {
+  templateId: string;
+  template: string; // As edited for this letter
+  mergeFields: RevisionLetterMergeFields;
+  selectedItemIds: string[]; // LetterItem ids, e.g. "compliance-3"
+  text: string; // The letter as last edited
+  updatedAt: string;
+}
+
+// What an editor decided about one finding: accepted and handed to the author, dismissed as a false positive, or
+// resolved. Findings without an entry are open.
+export type TriageStatus = 'open' | 'accepted' | 'dismissed' | 'resolved';
+
+export interface FindingTriage {
+  status: TriageStatus;
+  assignee?: string;
+  note?: string;
+  updatedAt: string; // ISO timestamp
+  updatedBy?: string; // Email of the user who made the change
 }
 
 export interface ManuscriptFile {
   id: string;
   name: string;
+  version?: number; // 1 for the first upload; a revision is a separate manuscript in the same folder
+  previousVersionId?: string; // The manuscript this one revises
   file?: File; // File is transient and not stored in localStorage
+  fileSize?: number; // Size of the uploaded file in bytes, to recognise the same file when it is attached again
   status: ManuscriptStatus;
   complianceReport?: ComplianceFinding[];
+  estimatedPages?: boolean; // Page numbers are approximate (e.g. Word files), so findings cite section locations instead
   analysisReport?: ManuscriptIssue[];
   structuralReport?: BookStructuralIssue[];
   readabilityReport?: ReadabilityIssue[];
@@ -267,9 +558,19 @@ export interface ManuscriptFile {
   journalRecommendations?: JournalRecommendation[];
   scores?: ManuscriptScores;
   metadataAnalysisReport?: MetadataAnalysisReport;
+  referenceReport?: ReferenceCheckReport; // Deterministic bibliography and citation cross-check
+  ruleCoverage?: RuleCoverageEntry[]; // Every profile rule at the time of the run, with how it fared
+  reportingChecklists?: ReportingChecklistReport[];
+  documentMetadata?: DocumentMetadata; // Front matter declared in the file itself (LaTeX, JATS)
   peerReviewSimulation?: PeerReviewSimulation;
   editorialReport?: EditorialReport;
   integrityReport?: IntegrityIssue[];
+  revisionLetter?: RevisionLetter;
+  stages?: Record<string, StageState>; // Keyed by pipeline stage id
+  triage?: Record<string, FindingTriage>; // Keyed by finding (see services/findingTriage); kept when stages are re-run
+  analysisCoverage?: Record<string, AnalysisCoverage>; // Keyed by stage name
+  cachedStages?: string[]; // Stages whose results were served from the result cache on the last run
+  promptVersions?: PromptVersionMap;
   logs?: string[];
   progress?: number;
 }
@@ -279,6 +580,7 @@ export interface ComplianceProjectFolder {
   name: string;
   profileId: string | null;
   manuscripts: ManuscriptFile[];
+  bypassCache?: boolean;
 }
 
 // Types for the new folder-based Metadata Extractor
@@ -290,6 +592,8 @@ export interface PdfFile {
   file?: File; // File is transient and not stored in localStorage
   status: PdfFileStatus;
   assets?: ExtractedAsset[];
+  cachedPages?: number[]; // Pages whose assets were served from the result cache
+  promptVersions?: PromptVersionMap;
   logs?: string[];
   progress?: number;
 }
@@ -298,6 +602,7 @@ export interface MetadataProjectFolder {
   id: string;
   name: string;
   pdfFiles: PdfFile[];
+  bypassCache?: boolean;
 }
 
 // Types for the new Book Metadata Extractor
@@ -310,6 +615,8 @@ export interface BookFile {
   status: BookFileStatus;
   onixMetadata?: string;
   marcMetadata?: string;
+  fromCache?: boolean;
+  promptVersions?: PromptVersionMap;
   logs?: string[];
   progress?: number;
 }
@@ -318,10 +625,20 @@ export interface BookProjectFolder {
   id: string;
   name: string;
   bookFiles: BookFile[];
+  bypassCache?: boolean;
 }
 
 
 // Central data store for each user
+// Publisher branding applied to exported compliance reports (DOCX, PDF, HTML).
+export interface ReportBranding {
+  publisherName?: string;
+  logoDataUrl?: string; // PNG or JPEG as a data URL, so exports stay self-contained
+  headerText?: string;
+  footerText?: string;
+  accentColor?: string; // Hex, e.g. "#0f766e"
+}
+
 export interface UserDataStore {
   metadataFolders: MetadataProjectFolder[];
   bookFolders: BookProjectFolder[];
@@ -329,14 +646,35 @@ export interface UserDataStore {
   bookComplianceFolders: ComplianceProjectFolder[];
   complianceProfiles: ComplianceProfile[];
   ruleFiles: Record<string, RuleFile>;
+  reportBranding?: ReportBranding;
 }
 
 // New types for unified, versioned state management
+// --- Prompt Templates ---
+
+// Prompt template id -> version that produced a stored report.
+export type PromptVersionMap = Record<string, number>;
+
+export interface PromptTemplateVersion {
+    version: number;
+    template: string;
+    createdAt: string;
+    createdBy?: string; // Admin email; absent for the built-in version
+    note?: string;
+}
+
+// Admin-authored versions of one prompt. Version 1 is always the built-in template shipped with the code.
+export interface PromptTemplateHistory {
+    activeVersion: number;
+    versions: PromptTemplateVersion[];
+}
+
 export interface AppState {
     users: User[];
     usageLogs: UsageLog[];
     currentUserId: number | null;
     appData: Record<number, UserDataStore>; // User-specific data, keyed by userId
+    promptTemplates?: Record<string, PromptTemplateHistory>; // Shared across users, keyed by prompt template id
 }
 
 export interface StoredAppState extends AppState {
@@ -6,6 +6,10 @@ import react from '@vitejs/plugin-react';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Tesseract looks up language data as <langPath>/<lang>.traineddata.gz, so the OCR model keeps its name
+const assetFileNames = (asset: { names?: string[] }) =>
+    asset.names?.some(name => name.endsWith('.traineddata.gz')) ? 'assets/[name][extname]' : 'assets/[name]-[hash][extname]';
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -15,7 +19,16 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.API_KEY)
+        'process.env.API_KEY': JSON.stringify(env.API_KEY),
+        'process.env.LOCAL_LLM_URL': JSON.stringify(env.LOCAL_LLM_URL),
+        'process.env.LOCAL_LLM_MODEL': JSON.stringify(env.LOCAL_LLM_MODEL)
+      },
+      worker: {
+        format: 'es', // services/pdf.worker.ts is a module worker and its dependencies are code-split
+        rollupOptions: { output: { assetFileNames } },
+      },
+      build: {
+        rollupOptions: { output: { assetFileNames } },
       },
       resolve: {
         alias: {